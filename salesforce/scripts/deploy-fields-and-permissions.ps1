@@ -21,7 +21,7 @@ sf project deploy start --source-dir "$SfDir\objects\Contact" --target-org $Org
 
 Write-Host ""
 Write-Host "=== Step 2: Deploy custom objects ===" -ForegroundColor Cyan
-$objects = @("Meaningful_Event__c", "Chat_Summary__c", "Agent_Captured_Profile__c", "Browse_Session__c", "Scene_Asset__c")
+$objects = @("Meaningful_Event__c", "Chat_Summary__c", "Agent_Captured_Profile__c", "Browse_Session__c", "Scene_Asset__c", "Skin_Analysis__c", "Subscription__c", "Loyalty_Redemption__c")
 foreach ($obj in $objects) {
     Write-Host "  Deploying $obj..."
     sf project deploy start --source-dir "$SfDir\objects\$obj" --target-org $Org --wait 10
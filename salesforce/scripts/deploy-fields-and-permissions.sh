@@ -31,7 +31,7 @@ sf project deploy start \
 
 echo ""
 echo "=== Step 2: Deploy custom objects (with all fields) ==="
-for obj in Meaningful_Event__c Chat_Summary__c Agent_Captured_Profile__c Browse_Session__c Scene_Asset__c; do
+for obj in Meaningful_Event__c Chat_Summary__c Agent_Captured_Profile__c Browse_Session__c Scene_Asset__c Skin_Analysis__c Subscription__c Loyalty_Redemption__c; do
   echo "  Deploying $obj..."
   sf project deploy start \
     --source-dir "$SF_DIR/objects/$obj" \
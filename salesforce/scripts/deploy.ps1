@@ -71,15 +71,15 @@ Write-Host "  OK - org authenticated" -ForegroundColor Green
 # ================================================================
 # PHASE 1 - SCHEMA
 # ================================================================
-Step 1 "Custom Objects (20 custom objects)"
+Step 1 "Custom Objects (23 custom objects)"
 $customObjects = @(
     "Agent_Activity__c", "Agent_Captured_Profile__c", "Agentforce_Config__c",
     "Browse_Session__c", "Campaign_Decode__c", "Chat_Summary__c",
     "Consultation_Note__c", "Contact_Product_Affinity__c", "Firefly_Settings__c",
-    "Journey_Approval__c", "Journey_Send_Request__e", "Marketer_Portfolio__c",
+    "Journey_Approval__c", "Journey_Send_Request__e", "Loyalty_Redemption__c", "Marketer_Portfolio__c",
     "Marketing_Agent_Settings__c", "Marketing_Flow__c", "Meaningful_Event__c",
-    "Portfolio_Member__c", "Scene_Asset__c", "Segment_Definition__c",
-    "Store_Appointment__c", "Tooling_API_Config__c"
+    "Portfolio_Member__c", "Scene_Asset__c", "Segment_Definition__c", "Skin_Analysis__c",
+    "Store_Appointment__c", "Subscription__c", "Tooling_API_Config__c"
 )
 foreach ($obj in $customObjects) {
     Deploy-Dir $obj "$SfDir\objects\$obj"
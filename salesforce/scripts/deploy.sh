@@ -106,7 +106,7 @@ ok "Org authenticated"
 # ══════════════════════════════════════════════════════════════
 # PHASE 1 — SCHEMA (objects must exist before code references them)
 # ══════════════════════════════════════════════════════════════
-step 1 "Custom Objects (all 20 custom objects + standard customizations)"
+step 1 "Custom Objects (all 23 custom objects + standard customizations)"
 # Deploy each custom object individually to avoid cross-dependency failures
 CUSTOM_OBJECTS=(
   "Agent_Activity__c"
@@ -120,14 +120,17 @@ CUSTOM_OBJECTS=(
   "Firefly_Settings__c"
   "Journey_Approval__c"
   "Journey_Send_Request__e"
+  "Loyalty_Redemption__c"
   "Marketer_Portfolio__c"
   "Marketing_Agent_Settings__c"
   "Marketing_Flow__c"
   "Meaningful_Event__c"
   "Portfolio_Member__c"
   "Scene_Asset__c"
+  "Skin_Analysis__c"
   "Segment_Definition__c"
   "Store_Appointment__c"
+  "Subscription__c"
   "Tooling_API_Config__c"
 )
 for obj in "${CUSTOM_OBJECTS[@]}"; do
@@ -1,6 +1,6 @@
 import http from 'node:http';
 import https from 'node:https';
-import { readFileSync } from 'node:fs';
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -30,6 +30,8 @@ const WEBSTORE_ID = env.VITE_COMMERCE_SITE_ID || process.env.VITE_COMMERCE_SITE_
 const PERFECT_CORP_API_KEY = env.VITE_PERFECT_CORP_API_KEY || process.env.VITE_PERFECT_CORP_API_KEY || '';
 const PERFECT_CORP_BASE = 'yce-api-01.makeupar.com';
 const PORT = process.env.API_PORT || 3001;
+// Cassette saving writes into src/, so it only runs while recording a demo
+const DEMO_MODE = env.VITE_DEMO_MODE || process.env.VITE_DEMO_MODE || 'live';
 
 const routes = [
   { prefix: '/api/oauth/token',            target: SF_INSTANCE,                                 rewrite: '/services/oauth2/token' },
@@ -56,6 +58,13 @@ function findRoute(url) {
   return null;
 }
 
+const SOQL_ESCAPES = { '\\': '\\\\', "'": "\\'", '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t', '\b': '\\b', '\f': '\\f' };
+
+/** Quote a value as a SOQL string literal, escaping backslashes as well as quotes (same rules as src/services/soql). */
+function soqlLiteral(value) {
+  return `'${String(value).replace(/[\\'"\n\r\t\b\f]/g, (c) => SOQL_ESCAPES[c])}'`;
+}
+
 // Catch unhandled errors to prevent server crash
 process.on('uncaughtException', (err) => {
   console.error('[server] Uncaught exception:', err.message, err.stack?.split('\n')[1]);
@@ -465,7 +474,7 @@ const server = http.createServer((req, res) => {
           }
 
           // Fetch Standard Pricebook Id
-          const soqlPb = `SELECT Id FROM Pricebook2 WHERE Name = '${pricebookName.replace(/'/g, "\\'")}' LIMIT 1`;
+          const soqlPb = `SELECT Id FROM Pricebook2 WHERE Name = ${soqlLiteral(pricebookName)} LIMIT 1`;
           const pbOpts = {
             hostname: sfUrl.hostname,
             port: 443,
@@ -482,7 +491,7 @@ const server = http.createServer((req, res) => {
                 const pricebookId = pbData.records?.[0]?.Id;
 
                 // Fetch price entries for these products
-                const soql = `SELECT Id, UnitPrice, CurrencyIsoCode, Product2Id FROM PricebookEntry WHERE Pricebook2Id = '${pricebookId}' AND Product2Id IN (${productIds.map((id) => `'${id}'`).join(',')}) AND IsActive = true`;
+                const soql = `SELECT Id, UnitPrice, CurrencyIsoCode, Product2Id FROM PricebookEntry WHERE Pricebook2Id = ${soqlLiteral(pricebookId)} AND Product2Id IN (${productIds.map((id) => soqlLiteral(id)).join(',')}) AND IsActive = true`;
                 const opts = {
                   hostname: sfUrl.hostname,
                   port: 443,
@@ -636,7 +645,7 @@ const server = http.createServer((req, res) => {
             return;
           }
           // Fetch price by SOQL
-          const soql = `SELECT UnitPrice, CurrencyIsoCode FROM PricebookEntry WHERE Pricebook2.Name = '${pricebookName.replace(/'/g, "\\'")}' AND Product2Id = '${productId}' AND IsActive = true LIMIT 1`;
+          const soql = `SELECT UnitPrice, CurrencyIsoCode FROM PricebookEntry WHERE Pricebook2.Name = ${soqlLiteral(pricebookName)} AND Product2Id = ${soqlLiteral(productId)} AND IsActive = true LIMIT 1`;
           const priceOpts = {
             hostname: sfUrl.hostname,
             port: 443,
@@ -1142,6 +1151,39 @@ const server = http.createServer((req, res) => {
     return;
   }
 
+  // --- PUT /api/demo/cassettes/:name — Save a recorded demo cassette (VITE_DEMO_MODE=record) ---
+  if (req.url.startsWith('/api/demo/cassettes/') && req.method === 'PUT') {
+    if (DEMO_MODE !== 'record') {
+      res.writeHead(404, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify({ error: 'Cassette recording is off — set VITE_DEMO_MODE=record and restart the server' }));
+      return;
+    }
+    const name = decodeURIComponent(req.url.split('/api/demo/cassettes/')[1]?.split('?')[0] || '');
+    if (!/^[\w-]+$/.test(name)) {
+      res.writeHead(400, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify({ error: 'Cassette name may only contain letters, digits, _ and -' }));
+      return;
+    }
+    const chunks = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => {
+      try {
+        const cassette = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        const dir = resolve(__dirname, '..', 'src', 'services', 'replay', 'cassettes');
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(resolve(dir, `${name}.json`), JSON.stringify(cassette, null, 2) + '\n');
+        console.log(`[demo/cassettes] Saved ${name} (${cassette.exchanges?.length ?? 0} exchanges)`);
+        res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+        res.end();
+      } catch (err) {
+        console.error('[demo/cassettes] Error:', err);
+        res.writeHead(400, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+        res.end(JSON.stringify({ error: err.message }));
+      }
+    });
+    return;
+  }
+
   // --- POST /api/contacts — Create Account + Contact in CRM ---
   if (req.url === '/api/contacts' && req.method === 'POST') {
     const chunks = [];
@@ -1168,7 +1210,7 @@ const server = http.createServer((req, res) => {
             try {
               // Check if contact already exists
               const existingQ = await sfFetch(token, 'GET',
-                `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id, AccountId FROM Contact WHERE Email = '${email.replace(/'/g, "\\'")}' LIMIT 1`)}`);
+                `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id, AccountId FROM Contact WHERE Email = ${soqlLiteral(email)} LIMIT 1`)}`);
               const existing = existingQ.data?.records?.[0];
 
               if (existing) {
@@ -1263,7 +1305,7 @@ const server = http.createServer((req, res) => {
               let accountId = providedAccountId;
               if (!accountId && contactId) {
                 const contactRes = await sfFetch(token, 'GET',
-                  `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT AccountId FROM Contact WHERE Id = '${contactId.replace(/'/g, "\\'")}' LIMIT 1`)}`);
+                  `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT AccountId FROM Contact WHERE Id = ${soqlLiteral(contactId)} LIMIT 1`)}`);
                 accountId = contactRes.data?.records?.[0]?.AccountId;
               }
               if (!accountId) {
@@ -1311,7 +1353,7 @@ const server = http.createServer((req, res) => {
               // 4. Create PricebookEntries (if needed) + OrderItems
               for (const item of items) {
                 const pbeCheck = await sfFetch(token, 'GET',
-                  `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id FROM PricebookEntry WHERE Product2Id = '${item.product2Id}' AND Pricebook2Id = '${pricebookId}' AND IsActive = true LIMIT 1`)}`);
+                  `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id FROM PricebookEntry WHERE Product2Id = ${soqlLiteral(item.product2Id)} AND Pricebook2Id = ${soqlLiteral(pricebookId)} AND IsActive = true LIMIT 1`)}`);
                 let pbeId = pbeCheck.data?.records?.[0]?.Id;
 
                 if (!pbeId) {
@@ -1338,7 +1380,7 @@ const server = http.createServer((req, res) => {
 
               // 6. Fetch OrderNumber
               const orderQuery = await sfFetch(token, 'GET',
-                `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT OrderNumber FROM Order WHERE Id = '${orderId}' LIMIT 1`)}`);
+                `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT OrderNumber FROM Order WHERE Id = ${soqlLiteral(orderId)} LIMIT 1`)}`);
               const orderNumber = orderQuery.data?.records?.[0]?.OrderNumber;
 
               // 7. Accrue loyalty points via Salesforce Loyalty Management
@@ -1353,13 +1395,13 @@ const server = http.createServer((req, res) => {
                   try {
                     // Find loyalty member by Contact
                     const memberQuery = await sfFetch(token, 'GET',
-                      `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id, ProgramId FROM LoyaltyProgramMember WHERE ContactId IN (SELECT Id FROM Contact WHERE AccountId = '${accountId}') AND MemberStatus = 'Active' LIMIT 1`)}`);
+                      `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id, ProgramId FROM LoyaltyProgramMember WHERE ContactId IN (SELECT Id FROM Contact WHERE AccountId = ${soqlLiteral(accountId)}) AND MemberStatus = 'Active' LIMIT 1`)}`);
                     const member = memberQuery.data?.records?.[0];
 
                     if (member) {
                       // Get program currency
                       const currencyQuery = await sfFetch(token, 'GET',
-                        `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id FROM LoyaltyProgramCurrency WHERE LoyaltyProgramId = '${member.ProgramId}' AND IsActive = true LIMIT 1`)}`);
+                        `/services/data/v60.0/query?q=${encodeURIComponent(`SELECT Id FROM LoyaltyProgramCurrency WHERE LoyaltyProgramId = ${soqlLiteral(member.ProgramId)} AND IsActive = true LIMIT 1`)}`);
                       const currencyId = currencyQuery.data?.records?.[0]?.Id;
 
                       if (currencyId) {
@@ -1492,7 +1534,7 @@ const server = http.createServer((req, res) => {
           }
           
           // First, find the program by name
-          const soqlProgram = `SELECT Id FROM LoyaltyProgram__c WHERE Name__c = '${programName.replace(/'/g, "\\'")}' LIMIT 1`;
+          const soqlProgram = `SELECT Id FROM LoyaltyProgram__c WHERE Name__c = ${soqlLiteral(programName)} LIMIT 1`;
           const sfUrl = new URL(SF_INSTANCE);
           const programOpts = {
             hostname: sfUrl.hostname,
@@ -1598,7 +1640,7 @@ const server = http.createServer((req, res) => {
         return;
       }
       
-      const soql = `SELECT Id, AccountId__c, PointsBalance__c, Tier__c, Program__c, Enrolled__c FROM LoyaltyMember__c WHERE AccountId__c = '${accountId.replace(/'/g, "\\'")}' LIMIT 1`;
+      const soql = `SELECT Id, AccountId__c, PointsBalance__c, Tier__c, Program__c, Enrolled__c FROM LoyaltyMember__c WHERE AccountId__c = ${soqlLiteral(accountId)} LIMIT 1`;
       const sfUrl = new URL(SF_INSTANCE);
       const opts = {
         hostname: sfUrl.hostname,
@@ -1652,7 +1694,7 @@ const server = http.createServer((req, res) => {
         return;
       }
       
-      const soql = `SELECT PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = '${accountId.replace(/'/g, "\\'")}' LIMIT 1`;
+      const soql = `SELECT PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = ${soqlLiteral(accountId)} LIMIT 1`;
       const sfUrl = new URL(SF_INSTANCE);
       const opts = {
         hostname: sfUrl.hostname,
@@ -1711,7 +1753,7 @@ const server = http.createServer((req, res) => {
           }
           
           // Update the loyalty member's points balance
-          const soql = `SELECT Id, PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = '${accountId.replace(/'/g, "\\'")}' LIMIT 1`;
+          const soql = `SELECT Id, PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = ${soqlLiteral(accountId)} LIMIT 1`;
           const sfUrl = new URL(SF_INSTANCE);
           const queryOpts = {
             hostname: sfUrl.hostname,
@@ -1817,7 +1859,7 @@ const server = http.createServer((req, res) => {
           }
           
           // Update the loyalty member's points balance
-          const soql = `SELECT Id, PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = '${accountId.replace(/'/g, "\\'")}' LIMIT 1`;
+          const soql = `SELECT Id, PointsBalance__c FROM LoyaltyMember__c WHERE AccountId__c = ${soqlLiteral(accountId)} LIMIT 1`;
           const sfUrl = new URL(SF_INSTANCE);
           const queryOpts = {
             hostname: sfUrl.hostname,
@@ -6,6 +6,7 @@ import { ConversationProvider } from '@/contexts/ConversationContext';
 import { CustomerProvider } from '@/contexts/CustomerContext';
 import { CampaignProvider } from '@/contexts/CampaignContext';
 import { CartProvider } from '@/contexts/CartContext';
+import { SavedListsProvider } from '@/contexts/SavedListsContext';
 import { StoreProvider } from '@/contexts/StoreContext';
 import { ActivityToastProvider } from '@/components/ActivityToast';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -117,13 +118,15 @@ function AppShell({ initialCampaign }: { initialCampaign: CampaignAttribution |
   return (
     <CampaignProvider initialCampaign={initialCampaign}>
       <CartProvider>
-        <StoreProvider>
-          <SceneProvider>
-            <ActivityToastProvider>
-              <AnimatedRoutes products={products} />
-            </ActivityToastProvider>
-          </SceneProvider>
-        </StoreProvider>
+        <SavedListsProvider>
+          <StoreProvider>
+            <SceneProvider>
+              <ActivityToastProvider>
+                <AnimatedRoutes products={products} />
+              </ActivityToastProvider>
+            </SceneProvider>
+          </StoreProvider>
+        </SavedListsProvider>
       </CartProvider>
     </CampaignProvider>
   );
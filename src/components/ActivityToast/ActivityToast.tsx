@@ -2,9 +2,19 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { createContext, useContext, useState, useCallback, useRef } from 'react';
 import type { CaptureNotification } from '@/types/agent';
 
+/** Toast kinds: agent capture notifications plus client-side activity (cart changes, saved-list alerts). */
+export type ActivityToastType = CaptureNotification['type'] | 'cart_update' | 'saved_list';
+
+export interface ActivityNotification {
+  type: ActivityToastType;
+  label: string;
+  /** Optional inline action, e.g. "Undo" for agent-driven cart changes. */
+  action?: { label: string; onClick: () => void };
+}
+
 // ─── Icons ──────────────────────────────────────────────────────
 
-const icons: Record<CaptureNotification['type'], React.ReactNode> = {
+const icons: Record<ActivityToastType, React.ReactNode> = {
   contact_created: (
     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
       <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
@@ -24,32 +34,48 @@ const icons: Record<CaptureNotification['type'], React.ReactNode> = {
       <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
     </svg>
   ),
+  cart_update: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M6 2L3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4z" />
+      <line x1="3" y1="6" x2="21" y2="6" />
+      <path d="M16 10a4 4 0 0 1-8 0" />
+    </svg>
+  ),
+  saved_list: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z" />
+    </svg>
+  ),
 };
 
-const accentColors: Record<CaptureNotification['type'], string> = {
+const accentColors: Record<ActivityToastType, string> = {
   contact_created: 'from-emerald-500/30 to-emerald-500/10',
   meaningful_event: 'from-amber-500/30 to-amber-500/10',
   profile_enrichment: 'from-sky-500/30 to-sky-500/10',
+  cart_update: 'from-rose-500/30 to-rose-500/10',
+  saved_list: 'from-fuchsia-500/30 to-fuchsia-500/10',
 };
 
-const iconColors: Record<CaptureNotification['type'], string> = {
+const iconColors: Record<ActivityToastType, string> = {
   contact_created: 'text-emerald-400',
   meaningful_event: 'text-amber-400',
   profile_enrichment: 'text-sky-400',
+  cart_update: 'text-rose-400',
+  saved_list: 'text-fuchsia-400',
 };
 
-const demoBadgeColors: Record<CaptureNotification['type'], string> = {
+const demoBadgeColors: Record<ActivityToastType, string> = {
   contact_created: 'bg-emerald-500/30 text-emerald-300',
   meaningful_event: 'bg-amber-500/30 text-amber-300',
   profile_enrichment: 'bg-sky-500/30 text-sky-300',
+  cart_update: 'bg-rose-500/30 text-rose-300',
+  saved_list: 'bg-fuchsia-500/30 text-fuchsia-300',
 };
 
 // ─── Toast Item ─────────────────────────────────────────────────
 
-interface ToastItem {
+interface ToastItem extends ActivityNotification {
   id: string;
-  type: CaptureNotification['type'];
-  label: string;
 }
 
 const Toast: React.FC<{ item: ToastItem; onDismiss: (id: string) => void }> = ({ item, onDismiss }) => (
@@ -80,6 +106,21 @@ const Toast: React.FC<{ item: ToastItem; onDismiss: (id: string) => void }> = ({
     {/* Label */}
     <span className="text-sm font-medium text-white/90 whitespace-nowrap">{item.label}</span>
 
+    {/* Inline action (e.g. Undo) — runs the action and dismisses the toast */}
+    {item.action && (
+      <button
+        type="button"
+        className="ml-1 text-xs font-semibold uppercase tracking-wide text-white/80 hover:text-white underline underline-offset-2"
+        onClick={(e) => {
+          e.stopPropagation();
+          item.action!.onClick();
+          onDismiss(item.id);
+        }}
+      >
+        {item.action.label}
+      </button>
+    )}
+
     {/* Dismiss X */}
     <span className="ml-1 text-white/40 hover:text-white/70 transition-colors text-xs leading-none p-1">
       <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round">
@@ -94,6 +135,7 @@ const Toast: React.FC<{ item: ToastItem; onDismiss: (id: string) => void }> = ({
 
 interface ActivityToastContextValue {
   showCapture: (notification: CaptureNotification) => void;
+  showActivity: (notification: ActivityNotification) => void;
 }
 
 const ActivityToastContext = createContext<ActivityToastContextValue | null>(null);
@@ -120,7 +162,7 @@ export const ActivityToastProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
-  const showCapture = useCallback((notification: CaptureNotification) => {
+  const showActivity = useCallback((notification: ActivityNotification) => {
     const id = `toast-${++idCounter.current}`;
     setToasts((prev) => [...prev, { id, ...notification }]);
 
@@ -132,8 +174,12 @@ export const ActivityToastProvider: React.FC<{ children: React.ReactNode }> = ({
     timerRefs.current.set(id, timer);
   }, []);
 
+  const showCapture = useCallback((notification: CaptureNotification) => {
+    showActivity(notification);
+  }, [showActivity]);
+
   return (
-    <ActivityToastContext.Provider value={{ showCapture }}>
+    <ActivityToastContext.Provider value={{ showCapture, showActivity }}>
       {children}
       {/* Toast container — fixed bottom-center, above content */}
       <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2">
@@ -1 +1,2 @@
 export { ActivityToastProvider, useActivityToast } from './ActivityToast';
+export type { ActivityNotification, ActivityToastType } from './ActivityToast';
@@ -8,6 +8,7 @@ import { ChatInterface } from '@/components/ChatInterface';
 import { CheckoutOverlay } from '@/components/CheckoutOverlay';
 import { SkinAnalysisModal, SkinConciergeWelcome } from '@/components/SkinAnalysis';
 import { RetailerHandoff } from '@/components/RetailerHandoff';
+import { ProductComparison } from '@/components/ProductComparison';
 import { WelcomeScreen } from '@/components/WelcomeScreen/WelcomeScreen';
 import { WelcomeLoader } from '@/components/WelcomeScreen/WelcomeLoader';
 import { DemoPanel } from '@/components/Storefront/DemoPanel';
@@ -114,6 +115,11 @@ export const AdvisorPage: React.FC<AdvisorPageProps> = ({ mode = 'beauty' }) =>
         </>
       )}
 
+      {/* Side-by-side comparison — from grid multi-select or COMPARE_PRODUCTS */}
+      <AnimatePresence>
+        {scene.comparisonProducts && <ProductComparison products={scene.comparisonProducts} />}
+      </AnimatePresence>
+
       <DemoPanel />
     </div>
   );
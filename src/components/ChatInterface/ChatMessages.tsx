@@ -2,8 +2,10 @@ import { useRef, useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { cn } from '@/utils/cn';
+import { listDirectives } from '@/utils/directives';
 import { ProductShowcase } from '@/components/ProductShowcase';
 import { CollapsedProductCard } from '@/components/ProductShowcase/CollapsedProductCard';
+import { SkinRoutineCard } from '@/components/SkinRoutine';
 import type { AgentMessage } from '@/types/agent';
 import type { AdvisorMode, SceneLayout } from '@/types/scene';
 
@@ -108,6 +110,16 @@ function RoutineCard({ section, index }: { section: RoutineSection; index: numbe
 
 // ─── Props ─────────────────────────────────────────────────────────────────
 
+/** Products from the first directive in the message that carries any. */
+function productsOf(msg: AgentMessage) {
+  return listDirectives(msg).find((d) => d.payload?.products?.length)?.payload.products;
+}
+
+/** The routine from the message's SHOW_ROUTINE directive, if it has one. */
+function routineOf(msg: AgentMessage) {
+  return listDirectives(msg).find((d) => d.action === 'SHOW_ROUTINE')?.payload.routine;
+}
+
 interface ChatMessagesProps {
   messages: AgentMessage[];
   sceneLayout: SceneLayout;
@@ -126,7 +138,7 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, sceneLayou
 
   // Find indices of all messages with product directives
   const directiveIndices = messages.reduce<number[]>((acc, msg, i) => {
-    if (msg.uiDirective?.payload?.products?.length) {
+    if (productsOf(msg)?.length) {
       acc.push(i);
     }
     return acc;
@@ -139,13 +151,14 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, sceneLayou
   return (
     <div className="flex flex-col gap-2">
       {messages.map((msg, i) => {
-        const products = msg.uiDirective?.payload?.products;
+        const products = productsOf(msg);
         const hasProducts = products && products.length > 0;
         const isLatestDirective = i === lastDirectiveIdx;
 
         // In skin-advisor mode, parse routine sections from completed agent messages
         const isSkinAgent = isSkinAdvisor && msg.role === 'agent' && !msg.isStreaming;
         const routine = isSkinAgent ? parseRoutines(msg.content) : null;
+        const skinRoutine = msg.role === 'agent' ? routineOf(msg) : undefined;
 
         return (
           <div key={msg.id}>
@@ -199,6 +212,7 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({ messages, sceneLayou
                 )}
               </div>
             )}
+            {skinRoutine && <SkinRoutineCard routine={skinRoutine} />}
             {hasProducts && isLatestDirective && (
               <ProductShowcase products={products} layout={sceneLayout} />
             )}
@@ -1,7 +1,13 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useScene } from '@/contexts/SceneContext';
 import { useCustomer } from '@/contexts/CustomerContext';
+import { useCart } from '@/contexts/CartContext';
+import { priceWithRedemption } from '@/hooks/useCartPricing';
+import { useRedeemPoints } from '@/hooks/useRedeemPoints';
+import { useAllergyConfirmation } from '@/hooks/useIngredientGuard';
+import { findAllergyConflicts } from '@/services/ingredients';
+import { LoyaltyRedemption } from '@/components/LoyaltyRedemption';
 import { Button } from '@/components/ui/Button';
 
 type CheckoutState = 'idle' | 'processing' | 'confirmed';
@@ -9,14 +15,28 @@ type CheckoutState = 'idle' | 'processing' | 'confirmed';
 export const CheckoutOverlay: React.FC = () => {
   const { scene, closeCheckout } = useScene();
   const { customer } = useCustomer();
+  const { promoCode, loyaltyRedemption } = useCart();
+  const commitRedemption = useRedeemPoints();
   const [checkoutState, setCheckoutState] = useState<CheckoutState>('idle');
   const [orderId] = useState(() => `ORD-${Date.now().toString(36).toUpperCase()}`);
+  /** Total charged, frozen at confirmation — the live breakdown changes once points are deducted. */
+  const [chargedTotal, setChargedTotal] = useState<number | null>(null);
 
   const products = scene.products;
-  const total = products.reduce((sum, p) => sum + p.price, 0);
+  const allergyConflicts = findAllergyConflicts(products, customer?.beautyProfile);
+  const [allergyConfirmed, setAllergyConfirmed] = useAllergyConfirmation(allergyConflicts);
   const defaultPayment = customer?.savedPaymentMethods.find((p) => p.isDefault);
   const defaultAddress = customer?.shippingAddresses.find((a) => a.isDefault);
 
+  const { pricing, redemptionError } = useMemo(() => priceWithRedemption({
+    items: products.map((product) => ({ product, quantity: 1 })),
+    promoCode,
+    loyaltyTier: customer?.loyalty?.tier,
+    address: defaultAddress ? { state: defaultAddress.state, postalCode: defaultAddress.postalCode } : null,
+    loyaltyRedemption,
+  }, customer?.loyalty), [products, promoCode, customer?.loyalty, defaultAddress, loyaltyRedemption]);
+  const total = pricing.total;
+
   const estimatedDelivery = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toLocaleDateString(
     'en-US',
     { weekday: 'long', month: 'long', day: 'numeric' }
@@ -25,6 +45,8 @@ export const CheckoutOverlay: React.FC = () => {
   const handleConfirmPurchase = () => {
     setCheckoutState('processing');
     setTimeout(() => {
+      setChargedTotal(pricing.total);
+      commitRedemption(orderId, pricing);
       setCheckoutState('confirmed');
     }, 2000);
   };
@@ -65,7 +87,7 @@ export const CheckoutOverlay: React.FC = () => {
               {products.map((product) => (
                 <p key={product.id} className="text-gray-700 text-sm">{product.name}</p>
               ))}
-              <p className="font-semibold text-gray-900 mt-2">Total: ${total.toFixed(2)}</p>
+              <p className="font-semibold text-gray-900 mt-2">Total: ${(chargedTotal ?? total).toFixed(2)}</p>
             </div>
             <Button onClick={handleDone} size="lg" className="w-full bg-purple-600 hover:bg-purple-700 text-white">
               Done
@@ -94,6 +116,25 @@ export const CheckoutOverlay: React.FC = () => {
               ))}
             </div>
 
+            {allergyConflicts.length > 0 && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 space-y-1">
+                {allergyConflicts.flatMap(({ product, warnings }) =>
+                  warnings.map((w) => (
+                    <p key={`${product.id}:${w.allergen}`}>⚠️ {product.name}: {w.message}</p>
+                  )),
+                )}
+                <label className="flex items-center gap-2 pt-2">
+                  <input
+                    type="checkbox"
+                    checked={allergyConfirmed}
+                    onChange={(e) => setAllergyConfirmed(e.target.checked)}
+                    className="accent-red-600"
+                  />
+                  I understand and want to order anyway
+                </label>
+              </div>
+            )}
+
             <div className="border-t border-gray-200 my-4" />
 
             {defaultPayment && (
@@ -114,6 +155,29 @@ export const CheckoutOverlay: React.FC = () => {
               </div>
             )}
 
+            {customer?.loyalty && checkoutState === 'idle' && (
+              <div className="mb-4">
+                <LoyaltyRedemption error={redemptionError} />
+              </div>
+            )}
+
+            <div className="space-y-1 mb-4 text-sm">
+              {pricing.discounts.map((d) => (
+                <div key={`${d.source}:${d.id}`} className="flex items-center justify-between text-purple-700">
+                  <span>{d.label}</span>
+                  <span>−${d.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-gray-600">
+                <span>Shipping</span>
+                <span>{pricing.shipping.amount === 0 ? 'FREE' : `$${pricing.shipping.amount.toFixed(2)}`}</span>
+              </div>
+              <div className="flex items-center justify-between text-gray-600">
+                <span>Tax</span>
+                <span>${pricing.tax.amount.toFixed(2)}</span>
+              </div>
+            </div>
+
             <div className="flex items-center justify-between mb-6">
               <span className="text-xl font-semibold">Total</span>
               <span className="text-xl font-semibold">${total.toFixed(2)}</span>
@@ -121,7 +185,7 @@ export const CheckoutOverlay: React.FC = () => {
 
             <Button
               onClick={handleConfirmPurchase}
-              disabled={checkoutState === 'processing'}
+              disabled={checkoutState === 'processing' || (allergyConflicts.length > 0 && !allergyConfirmed)}
               size="lg"
               className="w-full bg-purple-600 hover:bg-purple-700 text-white"
             >
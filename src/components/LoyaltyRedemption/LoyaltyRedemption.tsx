@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { useCustomer } from '@/contexts/CustomerContext';
+import {
+  MIN_POINTS_REDEMPTION,
+  POINTS_PER_DOLLAR,
+  POINTS_REDEMPTION_STEP,
+  describeRedemption,
+  maxRedeemablePoints,
+  redemptionForPoints,
+  redemptionForReward,
+} from '@/services/loyalty';
+
+interface LoyaltyRedemptionProps {
+  /** Reason the chosen redemption was not applied, from useCartPricing / priceWithRedemption. */
+  error: string | null;
+}
+
+/**
+ * Lets a loyalty member spend points on the current order: either one of
+ * their catalog rewards or a straight points → dollar credit conversion.
+ */
+export const LoyaltyRedemption: React.FC<LoyaltyRedemptionProps> = ({ error }) => {
+  const { customer } = useCustomer();
+  const { loyaltyRedemption, setLoyaltyRedemption } = useCart();
+  const maxPoints = maxRedeemablePoints(customer?.loyalty?.pointsBalance ?? 0);
+  const [points, setPoints] = useState(() => Math.min(MIN_POINTS_REDEMPTION, maxPoints));
+
+  const loyalty = customer?.loyalty;
+  if (!loyalty || (!loyalty.rewardsAvailable.length && !maxPoints && !loyaltyRedemption)) return null;
+
+  return (
+    <div className="p-3 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-amber-800">Redeem points</span>
+        <span className="text-xs text-amber-700">{loyalty.pointsBalance.toLocaleString()} pts available</span>
+      </div>
+
+      {loyaltyRedemption ? (
+        <div className="flex items-center justify-between">
+          <span className={error ? 'text-rose-600' : 'text-amber-800'}>
+            {describeRedemption(loyaltyRedemption)}
+            {error && <span className="block text-xs">{error}</span>}
+          </span>
+          <button
+            type="button"
+            onClick={() => setLoyaltyRedemption(null)}
+            className="text-xs text-amber-700 hover:text-rose-600 transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {loyalty.rewardsAvailable.map((reward) => {
+            const redemption = redemptionForReward(reward);
+            const affordable = reward.pointsCost <= loyalty.pointsBalance;
+            if (!redemption) return null;
+            return (
+              <button
+                key={reward.name}
+                type="button"
+                disabled={!affordable}
+                onClick={() => setLoyaltyRedemption(redemption)}
+                className="w-full flex items-center justify-between px-3 py-2 bg-white/70 border border-amber-200 rounded-lg hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span className="text-amber-900">{reward.name}</span>
+                <span className="text-xs text-amber-700">{reward.pointsCost.toLocaleString()} pts</span>
+              </button>
+            );
+          })}
+
+          {maxPoints > 0 && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={MIN_POINTS_REDEMPTION}
+                max={maxPoints}
+                step={POINTS_REDEMPTION_STEP}
+                value={points}
+                onChange={(e) => setPoints(Number(e.target.value))}
+                className="w-24 px-2 py-1.5 border border-amber-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-amber-400"
+              />
+              <span className="flex-1 text-xs text-amber-700">
+                pts = ${(points / POINTS_PER_DOLLAR).toFixed(2)} credit
+              </span>
+              <button
+                type="button"
+                onClick={() => setLoyaltyRedemption(redemptionForPoints(points))}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { LoyaltyRedemption } from './LoyaltyRedemption';
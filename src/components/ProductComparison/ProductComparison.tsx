@@ -0,0 +1,169 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useScene } from '@/contexts/SceneContext';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { useCart } from '@/contexts/CartContext';
+import { compareProducts } from '@/services/comparison';
+import type { ComparedProduct } from '@/services/comparison';
+import type { Product } from '@/types/product';
+
+interface Row {
+  label: string;
+  /** Highlight id from the comparison, marking the row's winning column. */
+  best?: string;
+  render: (column: ComparedProduct) => React.ReactNode;
+}
+
+const Dash = () => <span className="text-gray-300">—</span>;
+
+const list = (items: string[]) => (items.length ? items.join(', ') : <Dash />);
+
+export const ProductComparison: React.FC<{ products: Product[] }> = ({ products }) => {
+  const { scene, closeComparison, openRetailerHandoff } = useScene();
+  const { customer } = useCustomer();
+  const { addItem, isInCart } = useCart();
+  const comparison = useMemo(
+    () => compareProducts(products, customer?.beautyProfile),
+    [products, customer?.beautyProfile],
+  );
+  const { columns, highlights, concerns, sharedIngredients } = comparison;
+  const skinType = customer?.beautyProfile?.skinType;
+  const isSkinConcierge = scene.advisorMode === 'skin-concierge';
+
+  const rows: Row[] = [
+    { label: 'Price', render: (c) => `$${c.product.price.toFixed(2)}${c.size ? ` · ${c.size}` : ''}` },
+    {
+      label: 'Price per ml',
+      best: highlights.lowestPricePerMl,
+      render: (c) => (c.pricePerMl !== null ? `$${c.pricePerMl.toFixed(2)}` : <Dash />),
+    },
+    { label: 'Key ingredients', render: (c) => list(c.keyIngredients) },
+    {
+      label: skinType ? `Skin type (yours: ${skinType})` : 'Skin type',
+      render: (c) => (
+        <>
+          {c.suitsSkinType === true && <span className="text-emerald-600 font-medium">✓ Suits you · </span>}
+          {c.suitsSkinType === false && <span className="text-amber-600 font-medium">Not for {skinType} · </span>}
+          {list(c.skinTypes)}
+        </>
+      ),
+    },
+    ...(concerns.length
+      ? [{
+          label: 'Your concerns',
+          best: highlights.bestConcernFit,
+          render: (c: ComparedProduct) => list(c.concernsMatched),
+        }]
+      : []),
+    {
+      label: 'Flags',
+      render: (c) => (
+        <>
+          {c.warnings.map((w) => (
+            <p key={`${w.allergen}:${w.ingredient}`} className={w.reason === 'allergy' ? 'text-red-600' : 'text-amber-600'}>
+              ⚠ {w.message}
+            </p>
+          ))}
+          {c.flags.length ? c.flags.join(' · ') : !c.warnings.length && <Dash />}
+        </>
+      ),
+    },
+    {
+      label: 'Rating',
+      best: highlights.topRated,
+      render: (c) => `${c.rating.toFixed(1)}★ (${c.reviewCount.toLocaleString()})`,
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={closeComparison}
+    >
+      <motion.div
+        initial={{ y: '100%' }}
+        animate={{ y: 0 }}
+        exit={{ y: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="w-full max-w-4xl bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 pt-5 pb-3 flex items-start justify-between flex-shrink-0">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Compare</h2>
+            {sharedIngredients.length > 0 && (
+              <p className="text-xs text-gray-500 mt-0.5">All contain {sharedIngredients.join(', ')}</p>
+            )}
+          </div>
+          <button
+            onClick={closeComparison}
+            aria-label="Close comparison"
+            className="w-8 h-8 flex items-center justify-center rounded-full bg-gray-100 hover:bg-gray-200 transition-colors"
+          >
+            <svg className="w-4 h-4 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-auto flex-1 px-5 pb-6">
+          <table className="w-full text-sm border-collapse table-fixed min-w-[36rem]">
+            <thead>
+              <tr>
+                <th className="w-32" />
+                {columns.map((c) => (
+                  <th key={c.product.id} className="p-2 align-top text-left font-normal">
+                    <img src={c.product.imageUrl} alt={c.product.name} className="w-16 h-16 object-contain mb-2" />
+                    <p className="text-[10px] uppercase tracking-wider text-gray-400">{c.product.brand}</p>
+                    <p className="font-medium text-gray-900 leading-tight">{c.product.name}</p>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-gray-100">
+                  <th scope="row" className="p-2 text-left align-top text-xs font-medium text-gray-500">{row.label}</th>
+                  {columns.map((c) => (
+                    <td
+                      key={c.product.id}
+                      className={`p-2 align-top text-gray-700 ${row.best === c.product.id ? 'bg-emerald-50 font-medium text-emerald-800' : ''}`}
+                    >
+                      {row.render(c)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t border-gray-100">
+                <th />
+                {columns.map((c) => (
+                  <td key={c.product.id} className="p-2">
+                    {isSkinConcierge ? (
+                      <button
+                        onClick={() => { closeComparison(); openRetailerHandoff([c.product]); }}
+                        className="w-full px-3 py-1.5 text-xs font-medium bg-gray-900 text-white rounded-full"
+                      >
+                        Where to buy
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => addItem(c.product)}
+                        disabled={isInCart(c.product.id) || !c.product.inStock}
+                        className="w-full px-3 py-1.5 text-xs font-medium bg-gray-900 text-white rounded-full disabled:opacity-40"
+                      >
+                        {isInCart(c.product.id) ? 'In your bag' : c.product.inStock ? 'Add to bag' : 'Out of stock'}
+                      </button>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { ProductComparison } from './ProductComparison';
@@ -2,35 +2,63 @@ import { motion } from 'framer-motion';
 import { useLocation } from 'react-router-dom';
 import { useScene } from '@/contexts/SceneContext';
 import { Badge } from '@/components/ui/Badge';
-import type { Product } from '@/types/product';
+import { SaveToListButton } from '@/components/Storefront/SaveToListButton';
+import type { RankingReason } from '@/services/ranking';
+import type { IngredientWarning, Product } from '@/types/product';
 
 interface ProductCardProps {
   product: Product;
+  /** Ingredient guard results for the current customer. */
+  warnings?: IngredientWarning[];
+  /** Personalized ranking reasons, strongest first. */
+  reasons?: RankingReason[];
+  /** Set while the grid is picking products to compare; a tap then toggles selection. */
+  selection?: { selected: boolean; onToggle: () => void };
 }
 
-export const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+export const ProductCard: React.FC<ProductCardProps> = ({ product, warnings = [], reasons = [], selection }) => {
   const { openCheckout, openRetailerHandoff } = useScene();
   const location = useLocation();
   const isSkinConcierge = location.pathname.includes('skin-advisor');
+  const isAllergy = warnings.some((w) => w.reason === 'allergy');
+  const topReason = reasons.find((r) => r.points > 0);
 
   return (
     <motion.div
       whileHover={{ y: -4, scale: 1.03 }}
       transition={{ duration: 0.2 }}
-      className="w-36 flex-shrink-0 rounded-xl overflow-hidden bg-white/5 backdrop-blur-sm border border-white/10 cursor-pointer"
-      onClick={isSkinConcierge ? () => openRetailerHandoff([product]) : undefined}
+      className={`w-36 flex-shrink-0 rounded-xl overflow-hidden bg-white/5 backdrop-blur-sm border cursor-pointer ${
+        selection?.selected ? 'border-white/70 ring-1 ring-white/60' : 'border-white/10'
+      }`}
+      onClick={selection ? selection.onToggle : isSkinConcierge ? () => openRetailerHandoff([product]) : undefined}
+      aria-pressed={selection ? selection.selected : undefined}
     >
       <div className="relative w-full h-28">
+        {selection && (
+          <span
+            className={`absolute top-1.5 left-1.5 z-10 w-4 h-4 rounded border flex items-center justify-center text-[10px] ${
+              selection.selected ? 'bg-white text-gray-900 border-white' : 'bg-black/30 border-white/60'
+            }`}
+          >
+            {selection.selected && '✓'}
+          </span>
+        )}
         <img
           src={product.imageUrl}
           alt={product.name}
           className="w-full h-full object-contain product-blend p-2"
         />
-        {product.attributes?.isTravel && (
+        {product.attributes?.isTravel && !selection && (
           <Badge className="absolute top-1.5 left-1.5 bg-blue-500 text-[9px] px-1.5 py-0.5">
             Travel
           </Badge>
         )}
+        <SaveToListButton product={product} variant="dark" className="absolute bottom-1.5 right-1.5" />
+        {warnings.length > 0 && (
+          <Badge className={`absolute top-1.5 right-1.5 text-[9px] px-1.5 py-0.5 ${isAllergy ? 'bg-red-500' : 'bg-amber-500'}`}>
+            {isAllergy ? 'Allergen' : 'Fragrance'}
+          </Badge>
+        )}
       </div>
 
       <div className="px-2.5 pb-2.5 pt-1 text-white">
@@ -40,6 +68,22 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
         <h3 className="font-medium text-[11px] mt-0.5 line-clamp-2 leading-tight min-h-[2.25rem]">
           {product.name}
         </h3>
+        {warnings.length > 0 && (
+          <p
+            title={warnings.map((w) => w.message).join('\n')}
+            className={`text-[9px] leading-tight mt-1 line-clamp-2 ${isAllergy ? 'text-red-300' : 'text-amber-200'}`}
+          >
+            ⚠ {warnings[0].message}
+          </p>
+        )}
+        {warnings.length === 0 && topReason && (
+          <p
+            title={reasons.map((r) => `${r.reason} (${r.provenance})`).join('\n')}
+            className="text-[9px] leading-tight mt-1 line-clamp-2 text-rose-200"
+          >
+            ✦ {topReason.reason}
+          </p>
+        )}
 
         <div className="flex items-center justify-between mt-1.5">
           <span className="text-xs font-medium">
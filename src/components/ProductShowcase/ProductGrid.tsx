@@ -1,5 +1,10 @@
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { ProductCard } from './ProductCard';
+import { useScene } from '@/contexts/SceneContext';
+import { MAX_COMPARED_PRODUCTS } from '@/services/comparison';
+import { useIngredientGuard } from '@/hooks/useIngredientGuard';
+import { usePersonalizedRanking } from '@/hooks/usePersonalizedRanking';
 import type { Product } from '@/types/product';
 
 interface ProductGridProps {
@@ -22,18 +27,72 @@ const itemVariants = {
 };
 
 export const ProductGrid: React.FC<ProductGridProps> = ({ products }) => {
+  const warningsFor = useIngredientGuard();
+  const { active, rank, explain } = usePersonalizedRanking();
+  const ranked = useMemo(() => rank(products), [products, rank]);
+  const { openComparison } = useScene();
+  // null until the shopper starts picking products to compare
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const toggleSelected = (productId: string) => {
+    setSelected((prev) => {
+      if (!prev) return prev;
+      if (prev.includes(productId)) return prev.filter((id) => id !== productId);
+      return prev.length < MAX_COMPARED_PRODUCTS ? [...prev, productId] : prev;
+    });
+  };
+
+  const compareSelected = () => {
+    if (!selected) return;
+    openComparison(ranked.filter((p) => selected.includes(p.id)));
+    setSelected(null);
+  };
+
   return (
-    <motion.div
-      variants={containerVariants}
-      initial="hidden"
-      animate="visible"
-      className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide snap-x snap-mandatory"
-    >
-      {products.map((product) => (
-        <motion.div key={product.id} variants={itemVariants} className="snap-start">
-          <ProductCard product={product} />
-        </motion.div>
-      ))}
-    </motion.div>
+    <div>
+      {ranked.length > 1 && (
+        <div className="flex items-center justify-end gap-2 mb-1.5 text-[11px]">
+          {selected ? (
+            <>
+              <span className="text-white/50">Pick up to {MAX_COMPARED_PRODUCTS}</span>
+              <button
+                onClick={compareSelected}
+                disabled={selected.length < 2}
+                className="px-2.5 py-0.5 rounded-full bg-white/90 text-gray-900 font-medium disabled:opacity-40 transition-opacity"
+              >
+                Compare ({selected.length})
+              </button>
+              <button onClick={() => setSelected(null)} className="text-white/60 hover:text-white transition-colors">
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setSelected([])}
+              className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 text-white/80 transition-colors"
+            >
+              Compare
+            </button>
+          )}
+        </div>
+      )}
+      <motion.div
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+        className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide snap-x snap-mandatory"
+      >
+        {ranked.map((product) => (
+          <motion.div key={product.id} variants={itemVariants} className="snap-start">
+            <ProductCard
+              product={product}
+              warnings={warningsFor(product)}
+              reasons={active ? explain(product) : []}
+              selection={selected ? { selected: selected.includes(product.id), onToggle: () => toggleSelected(product.id) } : undefined}
+            />
+          </motion.div>
+        ))}
+      </motion.div>
+    </div>
   );
 };
@@ -2,12 +2,20 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useScene } from '@/contexts/SceneContext';
 import { useConversation } from '@/contexts/ConversationContext';
-import { getPerfectCorpClient } from '@/services/perfectcorp/client';
-import { buildAnalysisSummary } from '@/types/skinanalysis';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { useRecordSkinAnalysis } from '@/hooks/useRecordSkinAnalysis';
+import { getSkinAnalysisRegistry } from '@/services/skinanalysis';
+import { buildAnalysisSummary, describeSkinProgress } from '@/types/skinanalysis';
 import type { SkinAnalysisResult, SkinConcernScore } from '@/types/skinanalysis';
 
 type ModalStep = 'capture' | 'preview' | 'analyzing' | 'results';
 
+const PROVIDER_LABELS: Record<NonNullable<SkinAnalysisResult['provider']>, string> = {
+  perfectcorp: 'Perfect Corp',
+  gemini:      'Gemini Vision',
+  mock:        'demo data',
+};
+
 const SEVERITY_COLORS: Record<SkinConcernScore['severity'], string> = {
   none:     'bg-emerald-500',
   mild:     'bg-amber-400',
@@ -25,12 +33,16 @@ const SEVERITY_LABELS: Record<SkinConcernScore['severity'], string> = {
 export const SkinAnalysisModal: React.FC = () => {
   const { closeSkinAnalysis } = useScene();
   const { sendSilentMessage } = useConversation();
+  const { customer } = useCustomer();
+  const recordSkinAnalysis = useRecordSkinAnalysis();
 
   const [step, setStep] = useState<ModalStep>('capture');
   const [captureMode, setCaptureMode] = useState<'camera' | 'upload'>('camera');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [capturedFile, setCapturedFile] = useState<File | null>(null);
   const [result, setResult] = useState<SkinAnalysisResult | null>(null);
+  // History as it was before this scan, for the "since your last scan" comparison
+  const [previousAnalyses, setPreviousAnalyses] = useState<SkinAnalysisResult[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
 
@@ -103,21 +115,22 @@ export const SkinAnalysisModal: React.FC = () => {
     setStep('analyzing');
     setError(null);
     try {
-      const client = getPerfectCorpClient();
-      const analysisResult = await client.analyzeSkin(capturedFile);
+      const analysisResult = await getSkinAnalysisRegistry().analyze(capturedFile);
+      setPreviousAnalyses(customer?.skinAnalyses ?? []);
+      recordSkinAnalysis(analysisResult);
       setResult(analysisResult);
       setStep('results');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed. Please try again.');
       setStep('preview');
     }
-  }, [capturedFile]);
+  }, [capturedFile, customer, recordSkinAnalysis]);
 
   const handleDiscussResults = useCallback(() => {
     if (!result) return;
     closeSkinAnalysis();
-    sendSilentMessage(buildAnalysisSummary(result));
-  }, [result, closeSkinAnalysis, sendSilentMessage]);
+    sendSilentMessage(buildAnalysisSummary(result, previousAnalyses));
+  }, [result, previousAnalyses, closeSkinAnalysis, sendSilentMessage]);
 
   const handleRetake = useCallback(() => {
     if (previewUrl) URL.revokeObjectURL(previewUrl);
@@ -329,9 +342,19 @@ export const SkinAnalysisModal: React.FC = () => {
                     </p>
                     <p className="text-sm text-gray-500">Estimated skin age: {result.skinAge}</p>
                     <p className="text-xs text-violet-600 mt-0.5">Top concern: {result.primaryConcern}</p>
+                    {result.provider && (
+                      <p className="text-[10px] text-gray-400 mt-0.5">Scored by {PROVIDER_LABELS[result.provider]}</p>
+                    )}
                   </div>
                 </div>
 
+                {/* Progress since the previous scan */}
+                {previousAnalyses.length > 0 && (
+                  <p className="px-3 py-2.5 bg-indigo-50 rounded-xl text-xs text-indigo-700">
+                    {describeSkinProgress([...previousAnalyses, result])}
+                  </p>
+                )}
+
                 {/* Concern grid */}
                 <div>
                   <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Skin Assessment</p>
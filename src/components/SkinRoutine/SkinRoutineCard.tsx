@@ -0,0 +1,101 @@
+import { motion } from 'framer-motion';
+import { useCart } from '@/contexts/CartContext';
+import { routineProducts } from '@/services/routine';
+import type { RoutineSession, RoutineStep, RoutineStepKind, SkinRoutine } from '@/types/routine';
+
+const STEP_LABELS: Record<RoutineStepKind, string> = {
+  cleanser: 'Cleanse',
+  toner: 'Tone',
+  serum: 'Treat',
+  moisturizer: 'Moisturize',
+  sunscreen: 'Protect',
+};
+
+const SESSION_STYLES: Record<RoutineSession, { title: string; icon: string; accent: string; dot: string; label: string }> = {
+  morning: {
+    title: 'Morning',
+    icon: '☀️',
+    accent: 'from-amber-500/20 to-orange-400/10 border-amber-400/20',
+    dot: 'bg-amber-400/70',
+    label: 'text-amber-300/80',
+  },
+  evening: {
+    title: 'Evening',
+    icon: '🌙',
+    accent: 'from-indigo-500/20 to-violet-400/10 border-indigo-400/20',
+    dot: 'bg-indigo-400/70',
+    label: 'text-indigo-300/80',
+  },
+};
+
+function SessionColumn({ session, steps, index }: { session: RoutineSession; steps: RoutineStep[]; index: number }) {
+  const style = SESSION_STYLES[session];
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.12 }}
+      className={`flex-1 min-w-0 rounded-xl border bg-gradient-to-br ${style.accent} backdrop-blur-sm p-3`}
+    >
+      <div className={`flex items-center gap-1.5 mb-2 ${style.label} text-[11px] font-semibold uppercase tracking-wider`}>
+        <span>{style.icon}</span>
+        <span>{style.title}</span>
+      </div>
+      <ol className="flex flex-col gap-2">
+        {steps.map((s, i) => (
+          <li key={s.step} className="flex items-start gap-2">
+            <span className={`mt-0.5 w-4 h-4 rounded-full ${style.dot} flex items-center justify-center text-[9px] font-bold text-black/70 flex-shrink-0`}>
+              {i + 1}
+            </span>
+            <div className="min-w-0">
+              <span className="block text-[9px] uppercase tracking-wider text-white/45">{STEP_LABELS[s.step]}</span>
+              <span className="block text-[12px] text-white/90 leading-snug truncate">{s.product.name}</span>
+              {s.reason && <span className="block text-[10px] text-white/45 leading-snug">{s.reason}</span>}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </motion.div>
+  );
+}
+
+/** A SHOW_ROUTINE regimen: ordered morning and evening steps, conflict warnings, and one-tap add to bag. */
+export const SkinRoutineCard: React.FC<{ routine: SkinRoutine }> = ({ routine }) => {
+  const { addItem, isInCart } = useCart();
+  const products = routineProducts(routine);
+  const missing = products.filter((p) => !isInCart(p.id));
+  const total = missing.reduce((sum, p) => sum + (p.price ?? 0), 0);
+
+  if (!routine.morning.length && !routine.evening.length) return null;
+
+  return (
+    <div className="mr-auto max-w-[95%] py-2">
+      {routine.focus && routine.focus.length > 0 && (
+        <p className="mb-2 text-[11px] text-white/60">Built around: {routine.focus.join(', ')}</p>
+      )}
+      <div className="flex gap-2.5">
+        {routine.morning.length > 0 && <SessionColumn session="morning" steps={routine.morning} index={0} />}
+        {routine.evening.length > 0 && <SessionColumn session="evening" steps={routine.evening} index={1} />}
+      </div>
+
+      {routine.conflicts.map((c) => (
+        <p
+          key={`${c.session}-${c.productIds.join('-')}-${c.ingredients.join('-')}`}
+          className="mt-2 px-3 py-2 rounded-lg bg-amber-500/15 border border-amber-400/20 text-[11px] text-amber-100/90"
+        >
+          ⚠️ {c.message}
+        </p>
+      ))}
+
+      <button
+        onClick={() => missing.forEach((p) => addItem(p))}
+        disabled={missing.length === 0}
+        className="mt-2.5 w-full py-2 rounded-full bg-white/20 hover:bg-white/30 disabled:bg-white/10 disabled:text-white/50 text-[12px] font-medium text-white transition-colors"
+      >
+        {missing.length === 0
+          ? 'Whole routine is in your bag'
+          : `Add ${missing.length === products.length ? 'routine' : `remaining ${missing.length}`} to bag · $${total.toFixed(2)}`}
+      </button>
+    </div>
+  );
+};
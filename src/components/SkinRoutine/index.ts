@@ -0,0 +1 @@
+export { SkinRoutineCard } from './SkinRoutineCard';
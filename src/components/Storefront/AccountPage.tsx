@@ -4,6 +4,11 @@ import { useCustomer } from '@/contexts/CustomerContext';
 import { useStore } from '@/contexts/StoreContext';
 import { getDataCloudWriteService, type BeautyPreferencesUpdate, type CommunicationPreferencesUpdate } from '@/services/datacloud/writeProfile';
 import type { OrderRecord, AgentCapturedProfile, CapturedProfileField, ProfilePreferences } from '@/types/customer';
+import { useReplenishment } from '@/hooks/useReplenishment';
+import { useSubscriptions } from '@/hooks/useSubscriptions';
+import { SkinProgress } from './SkinProgress';
+import { RestockReminders } from './RestockReminders';
+import { ManageSubscriptions } from './ManageSubscriptions';
 
 const TIER_THRESHOLDS: Record<string, { next: string; points: number }> = {
   bronze: { next: 'Silver', points: 1000 },
@@ -35,6 +40,8 @@ export const AccountPage: React.FC = () => {
   const { goBack, navigateHome } = useStore();
   const [expandedOrder, setExpandedOrder] = useState<string | null>(null);
   const [showDataSources, setShowDataSources] = useState(false);
+  const { due: dueForRestock, reorder } = useReplenishment();
+  const subscriptionControls = useSubscriptions();
 
   // ─── Preference editing state ───────────────────────────────────
   const [isEditingPrefs, setIsEditingPrefs] = useState(false);
@@ -519,6 +526,19 @@ export const AccountPage: React.FC = () => {
             </motion.div>
           )}
 
+          {/* ─── SKIN PROGRESS ─── */}
+          {customer.skinAnalyses && customer.skinAnalyses.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.08 }}
+              className="bg-white rounded-2xl p-6 shadow-sm"
+            >
+              <h2 className="text-lg font-medium text-stone-900 mb-4">Skin Progress</h2>
+              <SkinProgress analyses={customer.skinAnalyses} />
+            </motion.div>
+          )}
+
           {/* ─── LOYALTY ─── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -590,6 +610,34 @@ export const AccountPage: React.FC = () => {
             )}
           </motion.div>
 
+          {/* ─── DUE FOR RESTOCK ─── */}
+          {dueForRestock.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.12 }}
+              className="bg-white rounded-2xl p-6 shadow-sm"
+            >
+              <h2 className="text-lg font-medium text-stone-900 mb-1">Due for Restock</h2>
+              <p className="text-sm text-stone-500 mb-2">Estimated from your order history</p>
+              <RestockReminders items={dueForRestock} onReorder={reorder} />
+            </motion.div>
+          )}
+
+          {/* ─── SUBSCRIPTIONS ─── */}
+          {subscriptionControls.subscriptions.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.13 }}
+              className="bg-white rounded-2xl p-6 shadow-sm"
+            >
+              <h2 className="text-lg font-medium text-stone-900 mb-1">Subscriptions</h2>
+              <p className="text-sm text-stone-500 mb-2">Skip, pause, change frequency or cancel anytime</p>
+              <ManageSubscriptions controls={subscriptionControls} />
+            </motion.div>
+          )}
+
           {/* ─── ORDERS ─── */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1,14 +1,78 @@
 import { motion } from 'framer-motion';
 import { useStore } from '@/contexts/StoreContext';
 import { useCart } from '@/contexts/CartContext';
+import { useCartPricing } from '@/hooks/useCartPricing';
 import { ProductImage } from './ProductImage';
+import { OrderTotals, PromoCodeField } from './OrderTotals';
+import { useIngredientGuard } from '@/hooks/useIngredientGuard';
+import { useSubscriptions } from '@/hooks/useSubscriptions';
+import { isSubscribable } from '@/services/subscriptions';
+import { CartSubscriptionToggle } from './SubscriptionOptions';
+import { useSavedLists } from '@/contexts/SavedListsContext';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { Product } from '@/types/product';
+
+/** Products moved out of the bag with "Save for later", with a way back in. */
+const SavedForLater: React.FC = () => {
+  const { lists, removeFromList } = useSavedLists();
+  const { addItem } = useCart();
+  const { navigateToProduct } = useStore();
+
+  const saved = lists
+    .filter((l) => l.kind === 'saved_for_later')
+    .flatMap((list) => list.items.map((item) => ({ list, product: MOCK_PRODUCTS.find((p) => p.id === item.productId) })))
+    .filter((entry): entry is { list: typeof entry.list; product: Product } => !!entry.product);
+  if (saved.length === 0) return null;
+
+  const moveToBag = (listId: string, product: Product) => {
+    addItem(product);
+    removeFromList(listId, product.id);
+  };
+
+  return (
+    <section className="mt-12">
+      <h2 className="text-xl font-medium text-stone-900 mb-4">Saved for Later</h2>
+      <ul className="grid sm:grid-cols-2 gap-4">
+        {saved.map(({ list, product }) => (
+          <li key={`${list.id}:${product.id}`} className="bg-white rounded-2xl p-4 shadow-sm flex gap-4">
+            <button
+              onClick={() => navigateToProduct(product)}
+              className="w-20 h-20 bg-stone-50 rounded-xl flex-shrink-0 flex items-center justify-center"
+            >
+              <ProductImage src={product.imageUrl} alt={product.name} className="max-w-full max-h-full object-contain p-2" />
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-stone-500 uppercase tracking-wider">{product.brand}</p>
+              <p className="font-medium text-stone-900 truncate">{product.name}</p>
+              <p className="text-sm text-stone-900">${product.price.toFixed(2)}</p>
+              <div className="flex gap-3 mt-2 text-sm">
+                {product.inStock ? (
+                  <button onClick={() => moveToBag(list.id, product)} className="font-medium text-rose-600 hover:text-rose-700">
+                    Move to bag
+                  </button>
+                ) : (
+                  <span className="text-stone-400">Out of stock</span>
+                )}
+                <button onClick={() => removeFromList(list.id, product.id)} className="text-stone-500 hover:text-rose-600">
+                  Remove
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
 
 export const CartPage: React.FC = () => {
   const { navigateToCheckout, navigateToProduct, navigateHome } = useStore();
-  const { items, subtotal, updateQuantity, removeItem } = useCart();
-
-  const shipping = subtotal >= 50 ? 0 : 5.99;
-  const total = subtotal + shipping;
+  const { items, updateQuantity, removeItem, setItemSubscription } = useCart();
+  const { canSubscribe, suggestFor } = useSubscriptions();
+  const { saveForLater } = useSavedLists();
+  const { pricing } = useCartPricing();
+  const warningsFor = useIngredientGuard();
+  const allergyCount = items.filter((item) => warningsFor(item.product).some((w) => w.reason === 'allergy')).length;
 
   return (
     <div className="min-h-screen bg-stone-50">
@@ -80,6 +144,23 @@ export const CartPage: React.FC = () => {
                           </p>
                         )}
 
+                        {warningsFor(item.product).map((w) => (
+                          <p
+                            key={`${w.allergen}:${w.ingredient}`}
+                            className={`text-sm mt-1 ${w.reason === 'allergy' ? 'text-red-600' : 'text-amber-700'}`}
+                          >
+                            ⚠️ {w.message}
+                          </p>
+                        ))}
+
+                        {canSubscribe && isSubscribable(item.product) && (
+                          <CartSubscriptionToggle
+                            value={item.subscription}
+                            onChange={(subscription) => setItemSubscription(item.product.id, subscription)}
+                            suggestedFrequency={suggestFor(item.product)}
+                          />
+                        )}
+
                         <div className="flex items-center justify-between mt-4">
                           {/* Quantity selector */}
                           <div className="flex items-center border border-stone-200 rounded-full">
@@ -106,13 +187,23 @@ export const CartPage: React.FC = () => {
                           </span>
                         </div>
 
-                        {/* Remove button */}
-                        <button
-                          onClick={() => removeItem(item.product.id)}
-                          className="text-sm text-stone-500 hover:text-rose-600 transition-colors mt-2"
-                        >
-                          Remove
-                        </button>
+                        <div className="flex gap-4 mt-2">
+                          <button
+                            onClick={() => removeItem(item.product.id)}
+                            className="text-sm text-stone-500 hover:text-rose-600 transition-colors"
+                          >
+                            Remove
+                          </button>
+                          <button
+                            onClick={() => {
+                              saveForLater(item.product);
+                              removeItem(item.product.id);
+                            }}
+                            className="text-sm text-stone-500 hover:text-rose-600 transition-colors"
+                          >
+                            Save for later
+                          </button>
+                        </div>
                       </div>
                     </div>
                   </motion.div>
@@ -135,29 +226,17 @@ export const CartPage: React.FC = () => {
                 <div className="bg-white rounded-2xl p-6 shadow-sm sticky top-24">
                   <h2 className="text-lg font-medium text-stone-900 mb-4">Order Summary</h2>
 
-                  <div className="space-y-3 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-stone-600">Subtotal</span>
-                      <span className="text-stone-900">${subtotal.toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-stone-600">Shipping</span>
-                      <span className="text-stone-900">
-                        {shipping === 0 ? 'FREE' : `$${shipping.toFixed(2)}`}
-                      </span>
-                    </div>
-                    {shipping > 0 && (
-                      <p className="text-xs text-rose-600">
-                        Add ${(50 - subtotal).toFixed(2)} more for free shipping
-                      </p>
-                    )}
-                    <div className="border-t border-stone-200 pt-3 mt-3">
-                      <div className="flex justify-between text-base font-medium">
-                        <span className="text-stone-900">Total</span>
-                        <span className="text-stone-900">${total.toFixed(2)}</span>
-                      </div>
-                    </div>
+                  <div className="mb-4">
+                    <PromoCodeField pricing={pricing} />
                   </div>
+                  <OrderTotals pricing={pricing} />
+
+                  {allergyCount > 0 && (
+                    <p className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                      {allergyCount === 1 ? '1 item conflicts' : `${allergyCount} items conflict`} with your listed allergies.
+                      You'll be asked to confirm at checkout.
+                    </p>
+                  )}
 
                   <button
                     onClick={navigateToCheckout}
@@ -191,6 +270,8 @@ export const CartPage: React.FC = () => {
               </div>
             </div>
           )}
+
+          <SavedForLater />
         </motion.div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useStore, type OrderResult } from '@/contexts/StoreContext';
 import { useCart } from '@/contexts/CartContext';
@@ -7,12 +7,25 @@ import { ProductImage } from './ProductImage';
 import { MerkuryProfilePicker } from './MerkuryProfilePicker';
 import { trackPurchase } from '@/services/personalization';
 import { getCommerceClient } from '@/services/commerce';
+import { findAllergyConflicts } from '@/services/ingredients';
+import { SHIPPING_RATES } from '@/services/pricing';
+import type { ShippingMethod } from '@/services/pricing';
+import { useCartPricing } from '@/hooks/useCartPricing';
+import { useRedeemPoints } from '@/hooks/useRedeemPoints';
+import { useSubscriptions } from '@/hooks/useSubscriptions';
+import { useAllergyConfirmation } from '@/hooks/useIngredientGuard';
+import { LoyaltyRedemption } from '@/components/LoyaltyRedemption';
+import { OrderTotals, PromoCodeField } from './OrderTotals';
 
 const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
+// Live checkout goes through Commerce, which prices the cart itself. A points
+// credit or subscribe & save discount taken off locally would never reach it,
+// so neither is offered there.
+const commerceCheckout = !useMockData;
 
 export const CheckoutPage: React.FC = () => {
   const { navigateToOrderConfirmation, goBack } = useStore();
-  const { items, subtotal, clearCart } = useCart();
+  const { items, clearCart, commerceCartId, removeItem, setItemSubscription, loyaltyRedemption, setLoyaltyRedemption } = useCart();
   const { customer, isAuthenticated, signIn, createGuestContact } = useCustomer();
 
   const [step, setStep] = useState<'info' | 'shipping' | 'payment' | 'processing'>('info');
@@ -37,9 +50,31 @@ export const CheckoutPage: React.FC = () => {
     cvv: '',
   });
 
-  const shipping = subtotal >= 50 ? 0 : 5.99;
-  const tax = subtotal * 0.08;
-  const total = subtotal + shipping + tax;
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>('standard');
+  const commitRedemption = useRedeemPoints();
+  const { canSubscribe, startSubscriptions } = useSubscriptions();
+  const { pricing, redemptionError } = useCartPricing({
+    address: { state: formData.state, postalCode: formData.zip },
+    shippingMethod,
+  });
+  const total = pricing.total;
+  const loyaltyPoints = customer?.loyalty ? Math.floor(total) : 0;
+  const allergyConflicts = findAllergyConflicts(items.map((item) => item.product), customer?.beautyProfile);
+  const [allergyConfirmed, setAllergyConfirmed] = useAllergyConfirmation(allergyConflicts);
+
+  // A credit picked earlier (or offered by the agent) would never reach Commerce
+  useEffect(() => {
+    if (commerceCheckout && loyaltyRedemption) setLoyaltyRedemption(null);
+  }, [loyaltyRedemption, setLoyaltyRedemption]);
+
+  // Guests have no account to manage a subscription from, and Commerce would charge full price for the
+  // first delivery, so in either case subscribed lines become one-off purchases
+  useEffect(() => {
+    if (!commerceCheckout && (!guestMode || canSubscribe)) return;
+    for (const item of items) {
+      if (item.subscription) setItemSubscription(item.product.id, null);
+    }
+  }, [guestMode, canSubscribe, items, setItemSubscription]);
 
   const fillTestCard = () => {
     setFormData((prev) => ({
@@ -57,6 +92,10 @@ export const CheckoutPage: React.FC = () => {
     } else if (step === 'shipping') {
       setStep('payment');
     } else if (step === 'payment') {
+      if (allergyConflicts.length > 0 && !allergyConfirmed) {
+        setCheckoutError('Your bag has items that conflict with your allergies. Remove them or confirm to continue.');
+        return;
+      }
       setStep('processing');
       setCheckoutError(null);
 
@@ -71,8 +110,20 @@ export const CheckoutPage: React.FC = () => {
         setTimeout(() => {
           const orderId = `ORD-${Date.now().toString(36).toUpperCase()}`;
           trackPurchase(orderId, total, lineItemsForTracking);
+          commitRedemption(orderId, pricing);
+          startSubscriptions(orderId, items);
           clearCart();
-          navigateToOrderConfirmation(orderId);
+          navigateToOrderConfirmation(orderId, {
+            success: true,
+            orderId,
+            orderNumber: orderId,
+            trackingNumber: '',
+            carrier: '',
+            estimatedDelivery: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+            shippingStatus: 'Processing',
+            pointsEarned: loyaltyPoints,
+            pricing,
+          });
         }, 2000);
         return;
       }
@@ -97,9 +148,13 @@ export const CheckoutPage: React.FC = () => {
           postalCode: formData.zip,
           countryCode: 'US',
         },
+        cartId: commerceCartId || undefined,
       })
         .then((result) => {
-          trackPurchase(result.orderId, total, lineItemsForTracking);
+          // Commerce priced the order, so its total — not the local breakdown — is what was charged.
+          // Zero means the total couldn't be read back; show none rather than a guess.
+          const chargedTotal = result.total > 0 ? result.total : undefined;
+          trackPurchase(result.orderId, chargedTotal ?? total, lineItemsForTracking);
           clearCart();
           navigateToOrderConfirmation(result.orderId, {
             success: result.status === 'confirmed',
@@ -110,6 +165,7 @@ export const CheckoutPage: React.FC = () => {
             estimatedDelivery: result.estimatedDelivery,
             shippingStatus: 'Processing',
             pointsEarned: 0,
+            chargedTotal,
           } satisfies OrderResult);
         })
         .catch((err) => {
@@ -126,7 +182,6 @@ export const CheckoutPage: React.FC = () => {
 
   const firstName = customer?.name?.split(' ')[0];
   const isKnown = customer?.merkuryIdentity?.identityTier === 'known';
-  const loyaltyPoints = customer?.loyalty ? Math.floor(total) : 0;
 
   if (items.length === 0 && step !== 'processing') {
     return (
@@ -466,6 +521,30 @@ export const CheckoutPage: React.FC = () => {
                           />
                         </div>
                       </div>
+
+                      <h3 className="text-sm font-medium text-stone-700 mt-6 mb-3">Delivery</h3>
+                      <div className="space-y-2">
+                        {(Object.keys(SHIPPING_RATES) as ShippingMethod[]).map((method) => (
+                          <label
+                            key={method}
+                            className={`flex items-center justify-between px-4 py-3 border rounded-xl cursor-pointer transition-colors ${
+                              shippingMethod === method ? 'border-stone-900 bg-stone-50' : 'border-stone-200 hover:border-stone-300'
+                            }`}
+                          >
+                            <span className="flex items-center gap-3 text-sm text-stone-900">
+                              <input
+                                type="radio"
+                                name="shippingMethod"
+                                checked={shippingMethod === method}
+                                onChange={() => setShippingMethod(method)}
+                                className="accent-stone-900"
+                              />
+                              {SHIPPING_RATES[method].label}
+                            </span>
+                            <span className="text-sm text-stone-600">${SHIPPING_RATES[method].rate.toFixed(2)}</span>
+                          </label>
+                        ))}
+                      </div>
                     </>
                   )}
 
@@ -486,6 +565,39 @@ export const CheckoutPage: React.FC = () => {
                           {checkoutError}
                         </div>
                       )}
+                      {allergyConflicts.length > 0 && (
+                        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 space-y-3">
+                          {allergyConflicts.map(({ product, warnings }) => (
+                            <div key={product.id} className="flex items-start justify-between gap-3">
+                              <div>
+                                <p className="font-medium">{product.name}</p>
+                                {warnings.map((w) => (
+                                  <p key={`${w.allergen}:${w.ingredient}`}>{w.message}</p>
+                                ))}
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() => removeItem(product.id)}
+                                className="text-xs font-medium underline hover:text-red-900 flex-shrink-0"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          ))}
+                          <label className="flex items-center gap-2 pt-3 border-t border-red-200">
+                            <input
+                              type="checkbox"
+                              checked={allergyConfirmed}
+                              onChange={(e) => {
+                                setAllergyConfirmed(e.target.checked);
+                                setCheckoutError(null);
+                              }}
+                              className="accent-red-600"
+                            />
+                            I understand and want to order these anyway
+                          </label>
+                        </div>
+                      )}
                       <div className="space-y-4">
                         <div>
                           <label className="block text-sm font-medium text-stone-700 mb-1">
@@ -574,28 +686,21 @@ export const CheckoutPage: React.FC = () => {
                   ))}
                 </div>
 
-                {/* Totals */}
-                <div className="border-t border-stone-100 pt-4 space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-stone-600">Subtotal</span>
-                    <span className="text-stone-900">${subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-stone-600">Shipping</span>
-                    <span className="text-stone-900">
-                      {shipping === 0 ? 'FREE' : `$${shipping.toFixed(2)}`}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-stone-600">Tax</span>
-                    <span className="text-stone-900">${tax.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between pt-2 border-t border-stone-100 text-base font-medium">
-                    <span className="text-stone-900">Total</span>
-                    <span className="text-stone-900">${total.toFixed(2)}</span>
-                  </div>
+                {/* Promo + totals */}
+                <div className="border-t border-stone-100 pt-4 mb-4">
+                  <PromoCodeField pricing={pricing} />
+                </div>
+                <div className="border-t border-stone-100 pt-4">
+                  <OrderTotals pricing={pricing} />
                 </div>
 
+                {/* Points redemption */}
+                {customer?.loyalty && !commerceCheckout && (
+                  <div className="mt-4">
+                    <LoyaltyRedemption error={redemptionError} />
+                  </div>
+                )}
+
                 {/* Loyalty points preview */}
                 {customer?.loyalty && loyaltyPoints > 0 && (
                   <div className="mt-4 p-3 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl">
@@ -6,6 +6,9 @@ import { useCampaign } from '@/contexts/CampaignContext';
 import { PERSONA_STUBS } from '@/mocks/customerPersonas';
 import { fetchDemoContacts } from '@/services/demo/contacts';
 import { getDataCloudWriteService } from '@/services/datacloud';
+import { useWriteQueue } from '@/hooks/useWriteQueue';
+import { useCaptureMetrics } from '@/hooks/useCaptureMetrics';
+import { inList, soql } from '@/services/soql';
 import type { DemoContact, CustomerProfile } from '@/types/customer';
 import type { CampaignAttribution } from '@/types/campaign';
 
@@ -141,6 +144,9 @@ function renderProfileDetail(customer: CustomerProfile, manage?: ManageOptions)
                 </span>
               </div>
               <p className="text-[10px] text-white/60 mt-0.5 leading-snug">{c.summary}</p>
+              {c.nextBestAction && (
+                <p className="text-[10px] text-white/40 mt-0.5 leading-snug">Next: {c.nextBestAction}</p>
+              )}
             </div>
           </div>
         ))}
@@ -314,6 +320,83 @@ function renderCampaignAttribution(campaign: CampaignAttribution, onClear: () =>
   );
 }
 
+// ─── Outbound write queue ───────────────────────────────────────
+
+/** Pending and failed Data Cloud writes. Hidden when the queue is empty. */
+const OutboundWrites: React.FC = () => {
+  const { writes, retry, discard } = useWriteQueue();
+  if (writes.length === 0) return null;
+  const failedCount = writes.filter((w) => w.status === 'failed').length;
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-medium text-white/60 uppercase tracking-wider">
+          Outbound Writes ({writes.length})
+        </span>
+        {failedCount > 0 && <span className="text-[9px] text-red-400/80">{failedCount} failed</span>}
+      </div>
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {writes.map((w) => (
+          <div key={w.id} className="flex items-start gap-2 py-0.5">
+            <span className={`mt-1 w-1.5 h-1.5 rounded-full flex-shrink-0 ${w.status === 'failed' ? 'bg-red-400' : 'bg-amber-400 animate-pulse'}`} />
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between gap-2">
+                <span className="text-[10px] text-white/70 truncate">{w.sobject}</span>
+                <span className="text-[10px] text-white/30 flex-shrink-0">
+                  {w.status === 'failed'
+                    ? `failed · ${w.attempts} tries`
+                    : w.attempts > 0 ? `retry ${w.attempts} at ${new Date(w.nextAttemptAt).toLocaleTimeString()}` : 'sending'}
+                </span>
+              </div>
+              {w.lastError && <p className="text-[9px] text-red-400/60 truncate" title={w.lastError}>{w.lastError}</p>}
+            </div>
+            <button
+              onClick={() => retry(w.id)}
+              className="text-[10px] text-emerald-400/80 hover:text-emerald-300 flex-shrink-0"
+            >
+              Retry
+            </button>
+            <button
+              onClick={() => discard(w.id)}
+              className="text-[10px] text-white/30 hover:text-red-400 flex-shrink-0"
+              title="Discard write"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CAPTURE_SOURCE_LABELS = { action: 'Action results', directive: 'Directive payloads', text: 'Scraped from text' } as const;
+
+const CaptureSources: React.FC = () => {
+  const metrics = useCaptureMetrics();
+  const sources = (Object.keys(CAPTURE_SOURCE_LABELS) as (keyof typeof CAPTURE_SOURCE_LABELS)[])
+    .filter((source) => metrics[source].captured > 0 || metrics[source].filtered > 0);
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <span className="text-[10px] font-medium text-white/60 uppercase tracking-wider">Agent Captures</span>
+      <div className="mt-1 space-y-0.5">
+        {sources.map((source) => (
+          <div key={source} className="flex justify-between gap-2">
+            <span className="text-[10px] text-white/50">{CAPTURE_SOURCE_LABELS[source]}</span>
+            <span className="text-[10px] text-white/30">
+              {metrics[source].captured}
+              {metrics[source].filtered > 0 && ` · ${metrics[source].filtered} filtered`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 // ─── Main DemoPanel ─────────────────────────────────────────────
 
 type PanelView = 'list' | 'detail';
@@ -388,11 +471,10 @@ export const DemoPanel: React.FC = () => {
       let approvalIds: string[] = [];
       if (eventIds.length > 0) {
         try {
-          const idList = eventIds.map((id) => `'${id}'`).join(',');
-          const resp = await fetch(`/api/datacloud/query/?q=SELECT+Id+FROM+Journey_Approval__c+WHERE+Meaningful_Event__c+IN+(${encodeURIComponent(idList)})`);
+          const query = soql('Journey_Approval__c').select('Id').where(inList('Meaningful_Event__c', eventIds));
+          const resp = await fetch(`/api/datacloud/query/?q=${encodeURIComponent(query.toString())}`);
           if (resp.ok) {
-            const data = await resp.json();
-            approvalIds = (data.records || []).map((r: any) => r.Id);
+            approvalIds = query.rows(await resp.json()).map((r) => r.Id);
             if (approvalIds.length > 0) {
               console.log(`[demo] Found ${approvalIds.length} journey approvals to cascade-delete`);
             }
@@ -740,6 +822,10 @@ export const DemoPanel: React.FC = () => {
                       </div>
                     ) : null}
 
+                    {/* Data Cloud writes still waiting to land (real mode only) */}
+                    {!useMockData && <OutboundWrites />}
+                    {!useMockData && <CaptureSources />}
+
                     {/* Footer: Media Wall link + hint */}
                     <div className="px-3 py-2 border-t border-white/5 space-y-1.5">
                       <button
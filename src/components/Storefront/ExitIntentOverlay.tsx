@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useExitIntent } from '@/hooks/useExitIntent';
 import { useCampaign } from '@/contexts/CampaignContext';
+import { useCart } from '@/contexts/CartContext';
 import { getUtmFromDataLayer } from '@/services/merkury/dataLayer';
 import {
   isPersonalizationConfigured,
@@ -86,6 +87,7 @@ function getUtmSourceDecision(campaign: CampaignAttribution | null): ExitIntentD
 export const ExitIntentOverlay: React.FC = () => {
   const { triggered, dismiss } = useExitIntent();
   const { campaign } = useCampaign();
+  const { applyPromo } = useCart();
   const [decision, setDecision] = useState<ExitIntentDecision | null>(null);
   const [copied, setCopied] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -133,12 +135,14 @@ export const ExitIntentOverlay: React.FC = () => {
     });
   }, [decision?.discountCode]);
 
+  // Claiming attaches the code to the bag so pricing picks it up at checkout
   const handleClaim = useCallback(() => {
     if (decision?.discountCode) {
       navigator.clipboard.writeText(decision.discountCode);
+      applyPromo(decision.discountCode);
     }
     dismiss();
-  }, [decision?.discountCode, dismiss]);
+  }, [decision?.discountCode, applyPromo, dismiss]);
 
   return (
     <AnimatePresence>
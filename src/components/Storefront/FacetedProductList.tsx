@@ -0,0 +1,248 @@
+import { motion } from 'framer-motion';
+import { useStore } from '@/contexts/StoreContext';
+import { useCart } from '@/contexts/CartContext';
+import { usePersonalizedRanking } from '@/hooks/usePersonalizedRanking';
+import { ProductImage } from './ProductImage';
+import { WhyThisProduct } from './WhyThisProduct';
+import { PRICE_BUCKETS, SORT_LABELS, hasActiveFilters } from '@/services/search';
+import type { ProductSearchState } from '@/hooks/useProductSearch';
+import type { FacetValue, PriceRange, SearchSort } from '@/services/search';
+import type { RankingReason } from '@/services/ranking';
+import type { Product } from '@/types/product';
+
+const toggle = <T,>(values: T[] | undefined, value: T): T[] =>
+  values?.includes(value) ? values.filter((v) => v !== value) : [...(values ?? []), value];
+
+const samePrice = (a?: PriceRange, b?: PriceRange) => a?.min === b?.min && a?.max === b?.max;
+
+function FacetGroup<T extends string>({
+  title,
+  values,
+  selected,
+  onToggle,
+}: {
+  title: string;
+  values: FacetValue<T>[];
+  selected?: T[];
+  onToggle: (value: T) => void;
+}) {
+  if (!values.length) return null;
+  return (
+    <fieldset className="py-4 border-b border-stone-100">
+      <legend className="text-sm font-medium text-stone-900 mb-2">{title}</legend>
+      <div className="space-y-1.5 max-h-56 overflow-y-auto">
+        {values.map((f) => (
+          <label key={f.value} className="flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected?.includes(f.value) ?? false}
+              onChange={() => onToggle(f.value)}
+              className="accent-stone-900"
+            />
+            <span className="flex-1">{f.label}</span>
+            <span className="text-xs text-stone-400">{f.count}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+function ProductTile({ product, index, reasons }: { product: Product; index: number; reasons: RankingReason[] }) {
+  const { navigateToProduct } = useStore();
+  const { addItem, isInCart } = useCart();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: index * 0.05 }}
+      className="group"
+    >
+      <div
+        onClick={() => navigateToProduct(product)}
+        className="relative bg-stone-50 rounded-2xl overflow-hidden cursor-pointer aspect-square mb-3 hover:bg-stone-100 transition-colors"
+      >
+        <ProductImage
+          src={product.imageUrl}
+          alt={product.name}
+          className="w-full h-full object-contain p-6 group-hover:scale-105 transition-transform duration-300"
+        />
+
+        {product.attributes?.isTravel && (
+          <span className="absolute top-3 left-3 px-2 py-0.5 bg-sky-500 text-white text-[10px] font-medium rounded-full">
+            Travel Size
+          </span>
+        )}
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            addItem(product);
+          }}
+          className={`absolute bottom-3 right-3 w-10 h-10 rounded-full flex items-center justify-center transition-all ${
+            isInCart(product.id)
+              ? 'bg-rose-500 text-white'
+              : 'bg-white text-stone-700 opacity-0 group-hover:opacity-100 hover:bg-rose-500 hover:text-white shadow-lg'
+          }`}
+        >
+          {isInCart(product.id) ? (
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          ) : (
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          )}
+        </button>
+      </div>
+
+      <div onClick={() => navigateToProduct(product)} className="cursor-pointer">
+        <p className="text-xs text-stone-500 uppercase tracking-wider mb-1">
+          {product.brand}
+        </p>
+        <h3 className="font-medium text-stone-900 line-clamp-2 mb-2 group-hover:text-rose-600 transition-colors">
+          {product.name}
+        </h3>
+        <div className="flex items-center justify-between">
+          <span className="font-semibold text-stone-900">
+            ${product.price.toFixed(2)}
+          </span>
+          {product.rating > 0 && (
+            <div className="flex items-center gap-1 text-sm text-stone-500">
+              <svg className="w-4 h-4 text-amber-400 fill-current" viewBox="0 0 20 20">
+                <path d="M10 15l-5.878 3.09 1.123-6.545L.489 6.91l6.572-.955L10 0l2.939 5.955 6.572.955-4.756 4.635 1.123 6.545z" />
+              </svg>
+              {product.rating.toFixed(1)}
+            </div>
+          )}
+        </div>
+        <WhyThisProduct reasons={reasons} />
+      </div>
+    </motion.div>
+  );
+}
+
+/** Facet sidebar, sort menu and product grid for a category or search listing. */
+export const FacetedProductList: React.FC<{ search: ProductSearchState; emptyMessage: string }> = ({ search, emptyMessage }) => {
+  const { filters, sort, result, loading, personalized, setFilters, setSort, clearFilters } = search;
+  const { explain } = usePersonalizedRanking();
+  const { facets, products } = result;
+  const customPrice = filters.price && !PRICE_BUCKETS.some((b) => samePrice(b, filters.price));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-12 grid lg:grid-cols-[15rem_1fr] gap-8">
+      {/* Facets */}
+      <aside>
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-stone-900">Filter</h2>
+          {hasActiveFilters(filters) && (
+            <button onClick={clearFilters} className="text-xs text-stone-500 hover:text-rose-600 underline">
+              Clear all
+            </button>
+          )}
+        </div>
+
+        <fieldset className="py-4 border-b border-stone-100">
+          <legend className="text-sm font-medium text-stone-900 mb-2">Price</legend>
+          <div className="space-y-1.5">
+            {facets.prices.map((bucket) => (
+              <label key={bucket.label} className="flex items-center gap-2 text-sm text-stone-600 cursor-pointer">
+                <input
+                  type="radio"
+                  name="price"
+                  checked={samePrice(bucket, filters.price)}
+                  onChange={() => setFilters((prev) => ({ ...prev, price: { min: bucket.min, max: bucket.max } }))}
+                  className="accent-stone-900"
+                />
+                <span className="flex-1">{bucket.label}</span>
+                <span className="text-xs text-stone-400">{bucket.count}</span>
+              </label>
+            ))}
+            {filters.price && (
+              <button
+                onClick={() => setFilters((prev) => ({ ...prev, price: undefined }))}
+                className="text-xs text-stone-500 hover:text-rose-600 underline"
+              >
+                {customPrice ? `Clear $${filters.price.min ?? 0}–${filters.price.max ?? '∞'}` : 'Any price'}
+              </button>
+            )}
+          </div>
+        </fieldset>
+
+        <FacetGroup
+          title="Brand"
+          values={facets.brands}
+          selected={filters.brands}
+          onToggle={(brand) => setFilters((prev) => ({ ...prev, brands: toggle(prev.brands, brand) }))}
+        />
+        <FacetGroup
+          title="Skin type"
+          values={facets.skinTypes}
+          selected={filters.skinTypes}
+          onToggle={(type) => setFilters((prev) => ({ ...prev, skinTypes: toggle(prev.skinTypes, type) }))}
+        />
+        <FacetGroup
+          title="Concern"
+          values={facets.concerns}
+          selected={filters.concerns}
+          onToggle={(concern) => setFilters((prev) => ({ ...prev, concerns: toggle(prev.concerns, concern) }))}
+        />
+        <FacetGroup
+          title="Preferences"
+          values={facets.flags}
+          selected={filters.flags}
+          onToggle={(flag) => setFilters((prev) => ({ ...prev, flags: toggle(prev.flags, flag) }))}
+        />
+      </aside>
+
+      {/* Results */}
+      <div>
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-sm text-stone-500">
+            {products.length} {products.length === 1 ? 'product' : 'products'}
+            {loading && <span className="ml-2 text-stone-400">Updating…</span>}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-stone-600">
+            Sort
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SearchSort)}
+              className="px-3 py-1.5 border border-stone-200 rounded-full bg-white focus:outline-none focus:border-rose-300"
+            >
+              {(Object.keys(SORT_LABELS) as SearchSort[]).map((option) => (
+                // Without a query there's nothing to be relevant to — featured is catalog or personalized order
+                <option key={option} value={option}>
+                  {option === 'relevance' && !filters.query ? (personalized ? 'Recommended for you' : 'Featured') : SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {products.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-stone-500">{emptyMessage}</p>
+            {hasActiveFilters(filters) && (
+              <button onClick={clearFilters} className="mt-4 text-sm text-rose-600 underline">
+                Clear filters
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 sm:gap-6">
+            {products.map((product, index) => (
+              <ProductTile
+                key={product.id}
+                product={product}
+                index={index}
+                reasons={personalized ? explain(product) : []}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import type { SubscriptionControls } from '@/hooks/useSubscriptions';
+import type { Subscription } from '@/types/subscription';
+import { FrequencySelect } from './SubscriptionOptions';
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function describeStatus(sub: Subscription): string {
+  if (sub.status === 'cancelled') return 'Cancelled';
+  if (sub.status === 'paused') return 'Paused';
+  return `Next delivery ${formatDate(sub.nextOrderDate)}`;
+}
+
+const ACTION_BUTTON = 'px-3 py-1 text-xs font-medium border border-stone-300 rounded-full hover:border-rose-400 hover:text-rose-600 transition-colors';
+
+/** Subscribe & save list with skip, pause/resume, frequency and cancel controls. */
+export const ManageSubscriptions: React.FC<{ controls: SubscriptionControls }> = ({ controls }) => {
+  const { subscriptions, skip, pause, resume, setFrequency, cancel } = controls;
+  if (subscriptions.length === 0) return null;
+
+  return (
+    <ul className="divide-y divide-stone-100">
+      {subscriptions.map((sub) => (
+        <li key={sub.id} className={`py-3 ${sub.status === 'cancelled' ? 'opacity-50' : ''}`}>
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-stone-900 truncate">
+                {sub.productName}{sub.quantity > 1 ? ` ×${sub.quantity}` : ''}
+              </p>
+              <p className={`text-xs ${sub.status === 'active' ? 'text-emerald-700' : 'text-stone-500'}`}>
+                {describeStatus(sub)} · {sub.discountPercent}% off every delivery
+              </p>
+            </div>
+            {sub.status !== 'cancelled' && (
+              <FrequencySelect value={sub.frequencyDays} onChange={(days) => setFrequency(sub.id, days)} />
+            )}
+          </div>
+          {sub.status !== 'cancelled' && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {sub.status === 'active' ? (
+                <>
+                  <button onClick={() => skip(sub.id)} className={ACTION_BUTTON}>Skip next</button>
+                  <button onClick={() => pause(sub.id)} className={ACTION_BUTTON}>Pause</button>
+                </>
+              ) : (
+                <button onClick={() => resume(sub.id)} className={ACTION_BUTTON}>Resume</button>
+              )}
+              <button
+                onClick={() => cancel(sub.id)}
+                className="px-3 py-1 text-xs text-stone-500 hover:text-rose-600 transition-colors"
+              >
+                Cancel subscription
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -3,8 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useStore } from '@/contexts/StoreContext';
 import { useCustomer } from '@/contexts/CustomerContext';
+import { OrderTotals } from './OrderTotals';
 
 const API_BASE = '';
+const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
 
 export const OrderConfirmationPage: React.FC = () => {
   const navigate = useNavigate();
@@ -99,8 +101,20 @@ export const OrderConfirmationPage: React.FC = () => {
               )}
             </div>
 
-            {/* Simulate shipment buttons (demo only) */}
-            {lastOrderResult?.orderId && shipmentStatus !== 'Delivered' && (
+            {lastOrderResult?.pricing && (
+              <div className="bg-stone-50 rounded-2xl p-4 mb-6 text-left">
+                <OrderTotals pricing={lastOrderResult.pricing} />
+              </div>
+            )}
+            {lastOrderResult?.chargedTotal !== undefined && (
+              <div className="bg-stone-50 rounded-2xl p-4 mb-6 flex justify-between text-base font-medium">
+                <span className="text-stone-900">Total charged</span>
+                <span className="text-stone-900">${lastOrderResult.chargedTotal.toFixed(2)}</span>
+              </div>
+            )}
+
+            {/* Simulate shipment buttons (demo only — needs the order API) */}
+            {!useMockData && lastOrderResult?.orderId && shipmentStatus !== 'Delivered' && (
               <div className="flex gap-2 mb-6">
                 {shipmentStatus === 'Processing' && (
                   <button
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import type { PriceBreakdown } from '@/services/pricing';
+
+/** Subtotal → discounts → shipping → tax → total rows for a priced order. */
+export const OrderTotals: React.FC<{ pricing: PriceBreakdown }> = ({ pricing }) => {
+  const { shipping, tax } = pricing;
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="text-stone-600">Subtotal</span>
+        <span className="text-stone-900">${pricing.subtotal.toFixed(2)}</span>
+      </div>
+      {pricing.discounts.map((d) => (
+        <div key={`${d.source}:${d.id}`} className="flex justify-between">
+          <span className="text-rose-600">{d.label}</span>
+          <span className="text-rose-600">−${d.amount.toFixed(2)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span className="text-stone-600">Shipping</span>
+        <span className="text-stone-900">
+          {shipping.amount === 0 ? 'FREE' : `$${shipping.amount.toFixed(2)}`}
+        </span>
+      </div>
+      {shipping.notes.map((note) => (
+        <p key={note} className="text-xs text-stone-500">{note}</p>
+      ))}
+      {shipping.remainingForFree > 0 && (
+        <p className="text-xs text-rose-600">
+          Add ${shipping.remainingForFree.toFixed(2)} more for free shipping
+        </p>
+      )}
+      <div className="flex justify-between">
+        <span className="text-stone-600">
+          Tax{tax.region !== 'Estimated' ? ` (${tax.region})` : ' (est.)'}
+        </span>
+        <span className="text-stone-900">${tax.amount.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between pt-2 border-t border-stone-100 text-base font-medium">
+        <span className="text-stone-900">Total</span>
+        <span className="text-stone-900">${pricing.total.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+};
+
+/** Promo code entry bound to the cart; pricing feedback comes from the breakdown. */
+export const PromoCodeField: React.FC<{ pricing: PriceBreakdown }> = ({ pricing }) => {
+  const { promoCode, applyPromo, removePromo } = useCart();
+  const [draft, setDraft] = useState('');
+
+  if (promoCode) {
+    const ok = pricing.promo?.status === 'applied';
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <span className={ok ? 'text-stone-700' : 'text-rose-600'}>
+          <span className="font-medium">{promoCode}</span>
+          {pricing.promo && !ok && ` — ${pricing.promo.message}`}
+        </span>
+        <button onClick={removePromo} className="text-stone-500 hover:text-rose-600 transition-colors">
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        applyPromo(draft);
+        setDraft('');
+      }}
+      className="flex gap-2"
+    >
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Promo code"
+        className="flex-1 min-w-0 px-3 py-2 text-sm border border-stone-200 rounded-full focus:outline-none focus:ring-2 focus:ring-rose-500 focus:border-transparent uppercase"
+      />
+      <button
+        type="submit"
+        className="px-4 py-2 text-sm font-medium text-stone-900 border border-stone-300 rounded-full hover:bg-stone-100 transition-colors"
+      >
+        Apply
+      </button>
+    </form>
+  );
+};
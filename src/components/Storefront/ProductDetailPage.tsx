@@ -4,8 +4,14 @@ import { motion } from 'framer-motion';
 import { useStore } from '@/contexts/StoreContext';
 import { useCart } from '@/contexts/CartContext';
 import { ProductImage } from './ProductImage';
+import { useIngredientGuard } from '@/hooks/useIngredientGuard';
+import { useSubscriptions } from '@/hooks/useSubscriptions';
+import { isSubscribable } from '@/services/subscriptions';
+import { PurchaseOptions } from './SubscriptionOptions';
+import { SaveToListButton } from './SaveToListButton';
 import { isPersonalizationConfigured, trackAddToCart } from '@/services/personalization';
 import type { Product } from '@/types/product';
+import type { CartSubscription } from '@/types/subscription';
 
 interface ProductDetailPageProps {
   product: Product;
@@ -17,13 +23,18 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product })
   const { goBack, navigateToCart } = useStore();
   const { addItem, isInCart, items } = useCart();
   const [quantity, setQuantity] = useState(1);
+  const [subscription, setSubscription] = useState<CartSubscription | null>(null);
+  const { canSubscribe, suggestFor, subscriptionFor } = useSubscriptions();
+  const existingSubscription = subscriptionFor(product.id);
   const [activeTab, setActiveTab] = useState<'details' | 'ingredients' | 'reviews'>('details');
 
+  const warnings = useIngredientGuard()(product);
+  const flaggedIngredients = new Set(warnings.map((w) => w.ingredient));
   const cartItem = items.find((item) => item.product.id === product.id);
   const inCart = !!cartItem;
 
   const handleAddToCart = () => {
-    addItem(product, quantity);
+    addItem(product, quantity, subscription ?? undefined);
     // SF Personalization / Data Cloud: track add-to-cart event
     if (isPersonalizationConfigured()) {
       trackAddToCart(product.id, product.name, product.price, product.salesforceId);
@@ -132,6 +143,37 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product })
               </div>
             )}
 
+            {/* Ingredient guard */}
+            {warnings.length > 0 && (
+              <div
+                className={`mb-6 p-4 rounded-xl border text-sm ${
+                  warnings.some((w) => w.reason === 'allergy')
+                    ? 'bg-red-50 border-red-200 text-red-700'
+                    : 'bg-amber-50 border-amber-200 text-amber-800'
+                }`}
+              >
+                {warnings.map((w) => (
+                  <p key={`${w.allergen}:${w.ingredient}`}>⚠️ {w.message}</p>
+                ))}
+              </div>
+            )}
+
+            {/* One-time or subscribe & save */}
+            {isSubscribable(product) && (existingSubscription ? (
+              <p className="mb-6 text-sm text-stone-600">
+                You're subscribed — delivered every {existingSubscription.frequencyDays} days.
+                Manage it from your account.
+              </p>
+            ) : (
+              <PurchaseOptions
+                product={product}
+                value={subscription}
+                onChange={setSubscription}
+                suggestedFrequency={suggestFor(product)}
+                canSubscribe={canSubscribe}
+              />
+            ))}
+
             {/* Quantity selector */}
             <div className="flex items-center gap-4 mb-6">
               <span className="text-sm font-medium text-stone-900">Quantity:</span>
@@ -172,12 +214,7 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product })
                   Add to Bag
                 </button>
               )}
-              <button className="px-8 py-4 border border-stone-200 text-stone-700 font-medium rounded-full hover:bg-stone-50 transition-colors flex items-center justify-center gap-2">
-                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
-                </svg>
-                Save
-              </button>
+              <SaveToListButton product={product} variant="pill" />
             </div>
 
             {/* Beauty Advisor CTA */}
@@ -275,7 +312,11 @@ export const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product })
                         {product.attributes.ingredients.map((ingredient) => (
                           <span
                             key={ingredient}
-                            className="px-3 py-1.5 bg-stone-100 text-stone-700 text-sm rounded-lg"
+                            className={`px-3 py-1.5 text-sm rounded-lg ${
+                              flaggedIngredients.has(ingredient)
+                                ? 'bg-red-50 text-red-700 ring-1 ring-red-200'
+                                : 'bg-stone-100 text-stone-700'
+                            }`}
                           >
                             {ingredient}
                           </span>
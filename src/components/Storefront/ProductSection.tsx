@@ -1,7 +1,11 @@
 import { motion } from 'framer-motion';
 import { useStore } from '@/contexts/StoreContext';
 import { useCart } from '@/contexts/CartContext';
+import { usePersonalizedRanking } from '@/hooks/usePersonalizedRanking';
 import { ProductImage } from './ProductImage';
+import { WhyThisProduct } from './WhyThisProduct';
+import { SaveToListButton } from './SaveToListButton';
+import type { RankingReason } from '@/services/ranking';
 import type { Product } from '@/types/product';
 
 interface ProductSectionProps {
@@ -21,6 +25,7 @@ export const ProductSection: React.FC<ProductSectionProps> = ({
 }) => {
   const { navigateToProduct } = useStore();
   const { addItem, isInCart } = useCart();
+  const { active, explain } = usePersonalizedRanking();
 
   if (products.length === 0) return null;
 
@@ -58,6 +63,7 @@ export const ProductSection: React.FC<ProductSectionProps> = ({
               onClick={() => navigateToProduct(product)}
               onAddToCart={() => addItem(product)}
               inCart={isInCart(product.id)}
+              reasons={active ? explain(product) : []}
             />
           ))}
         </div>
@@ -72,6 +78,7 @@ interface ProductCardProps {
   onClick: () => void;
   onAddToCart: () => void;
   inCart: boolean;
+  reasons: RankingReason[];
 }
 
 const ProductCard: React.FC<ProductCardProps> = ({
@@ -80,6 +87,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
   onClick,
   onAddToCart,
   inCart,
+  reasons,
 }) => {
   const handleAddToCart = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -91,8 +99,11 @@ const ProductCard: React.FC<ProductCardProps> = ({
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.4, delay: index * 0.05 }}
-      className="group"
+      className="group relative"
     >
+      {/* Save to wishlist / gift list — outside the image so its picker isn't clipped */}
+      <SaveToListButton product={product} className="absolute top-3 right-3 z-10" />
+
       <div
         onClick={onClick}
         className="relative bg-stone-50 rounded-2xl overflow-hidden cursor-pointer aspect-square mb-3 hover:bg-stone-100 transition-colors"
@@ -160,6 +171,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
             </div>
           )}
         </div>
+        <WhyThisProduct reasons={reasons} />
       </div>
     </motion.div>
   );
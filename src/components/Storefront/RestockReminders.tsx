@@ -0,0 +1,70 @@
+import { useStore } from '@/contexts/StoreContext';
+import { ProductImage } from './ProductImage';
+import type { ReplenishmentPrediction } from '@/services/replenishment';
+
+function describeTiming(p: ReplenishmentPrediction): string {
+  if (p.daysLeft < -1) return `Likely ran out ${formatSpan(-p.daysLeft)} ago`;
+  if (p.daysLeft <= 1) return 'Running out about now';
+  return `Running low — about ${formatSpan(p.daysLeft)} left`;
+}
+
+function formatSpan(days: number): string {
+  if (days < 14) return `${days} days`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  return `${Math.round(days / 30)} months`;
+}
+
+const BASIS_LABELS: Record<ReplenishmentPrediction['basis'], string> = {
+  history: 'Based on how often you reorder',
+  size: 'Based on the size you bought',
+  category: 'Based on typical use',
+};
+
+interface RestockRemindersProps {
+  items: ReplenishmentPrediction[];
+  onReorder: (items: ReplenishmentPrediction[]) => void;
+}
+
+/** "Due for restock" list with per-item and reorder-all buttons. */
+export const RestockReminders: React.FC<RestockRemindersProps> = ({ items, onReorder }) => {
+  const { navigateToProduct } = useStore();
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <ul className="divide-y divide-stone-100">
+        {items.map((item) => (
+          <li key={item.product.id} className="flex items-center gap-4 py-3">
+            <button
+              onClick={() => navigateToProduct(item.product)}
+              className="w-14 h-14 flex-shrink-0 bg-stone-50 rounded-xl overflow-hidden"
+            >
+              <ProductImage src={item.product.imageUrl} alt={item.product.name} className="w-full h-full object-contain p-1.5" />
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-stone-900 truncate">{item.product.name}</p>
+              <p className={`text-xs ${item.daysLeft < 0 ? 'text-rose-600' : 'text-amber-700'}`}>{describeTiming(item)}</p>
+              <p className="text-[11px] text-stone-400">
+                {BASIS_LABELS[item.basis]} · last ordered {item.lastOrderedAt}
+              </p>
+            </div>
+            <button
+              onClick={() => onReorder([item])}
+              className="px-4 py-1.5 text-sm font-medium border border-stone-300 rounded-full hover:border-rose-400 hover:text-rose-600 transition-colors"
+            >
+              Reorder{item.quantity > 1 ? ` ×${item.quantity}` : ''}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {items.length > 1 && (
+        <button
+          onClick={() => onReorder(items)}
+          className="mt-3 w-full py-2.5 bg-stone-900 text-white text-sm font-medium rounded-full hover:bg-stone-800 transition-colors"
+        >
+          Reorder all ({items.length})
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSavedLists } from '@/contexts/SavedListsContext';
+import type { Product } from '@/types/product';
+
+const HEART_PATH =
+  'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z';
+
+const BUTTON_STYLES = {
+  /** Round button over a light product image. */
+  icon: (saved: boolean) =>
+    `w-9 h-9 rounded-full flex items-center justify-center shadow-lg transition-colors ${
+      saved ? 'bg-rose-500 text-white' : 'bg-white text-stone-700 hover:text-rose-500'
+    }`,
+  /** Small heart on the dark concierge cards. */
+  dark: (saved: boolean) =>
+    `w-6 h-6 rounded-full flex items-center justify-center transition-colors ${
+      saved ? 'bg-rose-500/80 text-white' : 'bg-black/30 text-white/80 hover:text-white'
+    }`,
+  /** Full "Save" button next to Add to Bag. */
+  pill: (saved: boolean) =>
+    `px-8 py-4 border font-medium rounded-full transition-colors flex items-center justify-center gap-2 ${
+      saved ? 'border-rose-300 text-rose-600 bg-rose-50' : 'border-stone-200 text-stone-700 hover:bg-stone-50'
+    }`,
+};
+
+interface SaveToListButtonProps {
+  product: Product;
+  variant?: keyof typeof BUTTON_STYLES;
+  className?: string;
+}
+
+/**
+ * Heart that saves to the wishlist on first tap, then opens a picker for
+ * moving the product between wishlists and gift lists or starting a new gift list.
+ */
+export const SaveToListButton: React.FC<SaveToListButtonProps> = ({ product, variant = 'icon', className = '' }) => {
+  const { lists, listsWith, saveToList, removeFromList, createList } = useSavedLists();
+  const [open, setOpen] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const savedIn = listsWith(product.id);
+  const saved = savedIn.length > 0;
+  const pickable = lists.filter((l) => l.kind !== 'saved_for_later');
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    // The compact dark cards clip overflow, so there the heart is a plain toggle
+    if (variant === 'dark' && saved) {
+      for (const list of savedIn) removeFromList(list.id, product.id);
+      return;
+    }
+    if (variant === 'dark' || pickable.length === 0) {
+      saveToList(product);
+      return;
+    }
+    setOpen((o) => !o);
+  };
+
+  const toggle = (listId: string) => {
+    if (savedIn.some((l) => l.id === listId)) removeFromList(listId, product.id);
+    else saveToList(product, listId);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    const list = createList(newListName, 'gift');
+    saveToList(product, list.id);
+    setNewListName('');
+  };
+
+  const iconSize = variant === 'dark' ? 'w-3.5 h-3.5' : 'w-5 h-5';
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-label={saved ? `Saved to ${savedIn.map((l) => l.name).join(', ')}` : 'Save to wishlist'}
+        aria-expanded={open}
+        className={BUTTON_STYLES[variant](saved)}
+      >
+        <svg className={iconSize} fill={saved ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d={HEART_PATH} />
+        </svg>
+        {variant === 'pill' && (saved ? 'Saved' : 'Save')}
+      </button>
+
+      {open && (
+        <div className={`absolute right-0 ${variant === 'pill' ? 'bottom-full mb-2' : 'top-full mt-2'} w-60 bg-white rounded-xl shadow-xl border border-stone-200 p-3 z-30 text-left`}>
+          <p className="text-xs font-medium text-stone-500 uppercase tracking-wide mb-2">Save to</p>
+          <ul className="space-y-1 mb-3">
+            {pickable.map((list) => (
+              <li key={list.id}>
+                <label className="flex items-center gap-2 text-sm text-stone-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={savedIn.some((l) => l.id === list.id)}
+                    onChange={() => toggle(list.id)}
+                    className="accent-rose-500"
+                  />
+                  <span className="truncate">{list.name}</span>
+                  {list.kind === 'gift' && <span className="text-[10px] text-stone-400">gift</span>}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleCreate} className="flex gap-1.5">
+            <input
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="New gift list"
+              aria-label="New gift list name"
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-500"
+            />
+            <button type="submit" className="px-2.5 py-1 text-xs font-medium bg-stone-900 text-white rounded-lg">
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useStore } from '@/contexts/StoreContext';
+import { useCart } from '@/contexts/CartContext';
+import { useSavedLists } from '@/contexts/SavedListsContext';
+import { decodeSharedList, encodeSharedList } from '@/services/savedLists';
+import type { SavedList, SavedListKind } from '@/services/savedLists';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { Product } from '@/types/product';
+import { ProductImage } from './ProductImage';
+
+const KIND_LABELS: Record<SavedListKind, string> = {
+  wishlist: 'Wishlist',
+  gift: 'Gift list',
+  saved_for_later: 'Saved for later',
+};
+
+const lookup = (productId: string) => MOCK_PRODUCTS.find((p) => p.id === productId);
+
+function describePurpose(list: { kind: SavedListKind; recipient?: string; occasion?: string }): string {
+  if (list.kind !== 'gift') return KIND_LABELS[list.kind];
+  return ['Gift', list.recipient && `for ${list.recipient}`, list.occasion && `· ${list.occasion}`].filter(Boolean).join(' ');
+}
+
+const ProductRow: React.FC<{ product: Product; children: React.ReactNode }> = ({ product, children }) => {
+  const { navigateToProduct } = useStore();
+  return (
+    <li className="flex items-center gap-4 py-3">
+      <button
+        onClick={() => navigateToProduct(product)}
+        className="w-16 h-16 bg-stone-50 rounded-xl flex-shrink-0 flex items-center justify-center"
+      >
+        <ProductImage src={product.imageUrl} alt={product.name} className="max-w-full max-h-full object-contain p-1.5" />
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-stone-500 uppercase tracking-wider">{product.brand}</p>
+        <p className="text-sm font-medium text-stone-900 truncate">{product.name}</p>
+        <p className="text-sm text-stone-700">
+          ${product.price.toFixed(2)}
+          {!product.inStock && <span className="ml-2 text-stone-400">Out of stock</span>}
+        </p>
+      </div>
+      <div className="flex items-center gap-3 text-sm">{children}</div>
+    </li>
+  );
+};
+
+/** A list someone shared by link — read-only, with add-to-bag and "save a copy". */
+const SharedListView: React.FC<{ token: string }> = ({ token }) => {
+  const shared = useMemo(() => decodeSharedList(token), [token]);
+  const { addItem } = useCart();
+  const { createList, saveToList } = useSavedLists();
+  const [copied, setCopied] = useState(false);
+
+  if (!shared) {
+    return (
+      <div className="bg-white rounded-2xl p-6 shadow-sm mb-8 text-stone-600">
+        This share link is incomplete or no longer valid.
+      </div>
+    );
+  }
+  const products = shared.productIds.map(lookup).filter((p): p is Product => !!p);
+
+  const saveCopy = () => {
+    const list = createList(shared.name, shared.kind, { recipient: shared.recipient, occasion: shared.occasion });
+    for (const product of products) saveToList(product, list.id);
+    setCopied(true);
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm mb-8 border border-rose-100">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div>
+          <p className="text-xs font-medium text-rose-600 uppercase tracking-wide">Shared with you</p>
+          <h2 className="text-xl font-medium text-stone-900">{shared.name}</h2>
+          <p className="text-sm text-stone-500">{describePurpose(shared)}</p>
+        </div>
+        <button
+          onClick={saveCopy}
+          disabled={copied}
+          className="px-4 py-2 text-sm font-medium border border-stone-300 rounded-full hover:border-rose-400 disabled:opacity-50"
+        >
+          {copied ? 'Saved to your lists' : 'Save a copy'}
+        </button>
+      </div>
+      <ul className="divide-y divide-stone-100">
+        {products.map((product) => (
+          <ProductRow key={product.id} product={product}>
+            {product.inStock && (
+              <button onClick={() => addItem(product)} className="font-medium text-rose-600 hover:text-rose-700">
+                Add to bag
+              </button>
+            )}
+          </ProductRow>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+const ListCard: React.FC<{ list: SavedList }> = ({ list }) => {
+  const { addItem } = useCart();
+  const { removeFromList, deleteList } = useSavedLists();
+  const [shareState, setShareState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const products = list.items.map((i) => lookup(i.productId)).filter((p): p is Product => !!p);
+
+  const share = async () => {
+    const url = `${window.location.origin}/lists?shared=${encodeURIComponent(encodeSharedList(list))}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareState('copied');
+    } catch (err) {
+      console.warn('[saved-lists] Could not copy share link:', err);
+      setShareState('failed');
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-stone-900">{list.name}</h2>
+          <p className="text-sm text-stone-500">
+            {describePurpose(list)} · {products.length} {products.length === 1 ? 'item' : 'items'}
+          </p>
+        </div>
+        <div className="flex gap-3 text-sm">
+          {list.kind !== 'saved_for_later' && products.length > 0 && (
+            <button onClick={share} className="font-medium text-rose-600 hover:text-rose-700">
+              {shareState === 'copied' ? 'Link copied' : shareState === 'failed' ? 'Copy failed' : 'Share'}
+            </button>
+          )}
+          <button onClick={() => deleteList(list.id)} className="text-stone-500 hover:text-rose-600">
+            Delete
+          </button>
+        </div>
+      </div>
+      {products.length === 0 ? (
+        <p className="text-sm text-stone-400 mt-3">Tap the heart on any product to add it here.</p>
+      ) : (
+        <ul className="divide-y divide-stone-100 mt-2">
+          {products.map((product) => (
+            <ProductRow key={product.id} product={product}>
+              {product.inStock && (
+                <button
+                  onClick={() => {
+                    addItem(product);
+                    removeFromList(list.id, product.id);
+                  }}
+                  className="font-medium text-rose-600 hover:text-rose-700"
+                >
+                  Move to bag
+                </button>
+              )}
+              <button onClick={() => removeFromList(list.id, product.id)} className="text-stone-500 hover:text-rose-600">
+                Remove
+              </button>
+            </ProductRow>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+/** Wishlists, gift lists and saved-for-later, plus any list opened from a share link. */
+export const SavedListsPage: React.FC = () => {
+  const [params] = useSearchParams();
+  const sharedToken = params.get('shared');
+  const { lists, createList } = useSavedLists();
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<SavedListKind>('gift');
+  const [recipient, setRecipient] = useState('');
+  const [occasion, setOccasion] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createList(name, kind, kind === 'gift' ? { recipient, occasion } : {});
+    setName('');
+    setRecipient('');
+    setOccasion('');
+  };
+
+  const inputClass = 'px-3 py-2 text-sm border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-3xl font-medium text-stone-900 mb-8">Saved Lists</h1>
+
+          {sharedToken && <SharedListView token={sharedToken} />}
+
+          <form onSubmit={handleCreate} className="bg-white rounded-2xl p-6 shadow-sm mb-8 flex flex-wrap gap-3 items-end">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="List name" aria-label="List name" className={`${inputClass} flex-1 min-w-[10rem]`} />
+            <select value={kind} onChange={(e) => setKind(e.target.value as SavedListKind)} aria-label="List type" className={inputClass}>
+              <option value="gift">Gift list</option>
+              <option value="wishlist">Wishlist</option>
+            </select>
+            {kind === 'gift' && (
+              <>
+                <input value={recipient} onChange={(e) => setRecipient(e.target.value)} placeholder="For (optional)" aria-label="Recipient" className={`${inputClass} w-36`} />
+                <input value={occasion} onChange={(e) => setOccasion(e.target.value)} placeholder="Occasion (optional)" aria-label="Occasion" className={`${inputClass} w-40`} />
+              </>
+            )}
+            <button type="submit" className="px-5 py-2 text-sm font-medium bg-stone-900 text-white rounded-full hover:bg-stone-800 transition-colors">
+              New list
+            </button>
+          </form>
+
+          {lists.length === 0 ? (
+            <p className="text-center text-stone-500 py-12">Nothing saved yet — tap the heart on any product to start a wishlist.</p>
+          ) : (
+            <div className="space-y-6">
+              {lists.map((list) => <ListCard key={list.id} list={list} />)}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { motion } from 'framer-motion';
+import { useStore } from '@/contexts/StoreContext';
+import { useProductSearch } from '@/hooks/useProductSearch';
+import { FacetedProductList } from './FacetedProductList';
+import type { Product } from '@/types/product';
+
+interface SearchPageProps {
+  products: Product[];
+}
+
+export const SearchPage: React.FC<SearchPageProps> = ({ products }) => {
+  const { goBack } = useStore();
+  const search = useProductSearch(products);
+  const query = search.filters.query;
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Search header */}
+      <div className="bg-gradient-to-br from-stone-50 to-rose-50 py-12 sm:py-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6">
+          <button
+            onClick={goBack}
+            className="flex items-center gap-2 text-stone-600 hover:text-stone-900 transition-colors mb-6"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back
+          </button>
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <h1 className="text-3xl sm:text-4xl font-medium text-stone-900 mb-2">
+              {query ? <>Results for &ldquo;{query}&rdquo;</> : 'All products'}
+            </h1>
+          </motion.div>
+        </div>
+      </div>
+
+      <FacetedProductList
+        search={search}
+        emptyMessage={query ? `Nothing matched "${query}". Try a different spelling or fewer words.` : 'No products match these filters.'}
+      />
+    </div>
+  );
+};
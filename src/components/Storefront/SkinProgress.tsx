@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { compareSkinAnalyses, sortAnalysesByDate } from '@/types/skinanalysis';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 32;
+
+function formatScanDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** Concern score over time. Scores are 0–100 with higher = worse, so the line falling means improving. */
+function Sparkline({ scores }: { scores: number[] }) {
+  if (scores.length < 2) {
+    return <span className="text-[10px] text-stone-400 italic">One scan so far</span>;
+  }
+  const step = SPARK_WIDTH / (scores.length - 1);
+  const points = scores.map((score, i) => `${(i * step).toFixed(1)},${(SPARK_HEIGHT - (score / 100) * SPARK_HEIGHT).toFixed(1)}`);
+  const improving = scores[scores.length - 1] <= scores[0];
+  const [lastX, lastY] = points[points.length - 1].split(',');
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} viewBox={`-2 -2 ${SPARK_WIDTH + 4} ${SPARK_HEIGHT + 4}`} className="flex-shrink-0">
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        className={improving ? 'stroke-emerald-500' : 'stroke-rose-400'}
+      />
+      <circle cx={lastX} cy={lastY} r={2.5} className={improving ? 'fill-emerald-500' : 'fill-rose-400'} />
+    </svg>
+  );
+}
+
+function DeltaBadge({ delta }: { delta: number }) {
+  if (delta === 0) return <span className="text-xs text-stone-400">±0</span>;
+  const better = delta < 0;
+  return (
+    <span className={`text-xs font-medium ${better ? 'text-emerald-600' : 'text-rose-500'}`}>
+      {better ? '▼' : '▲'} {Math.abs(delta)}
+    </span>
+  );
+}
+
+/**
+ * Skin analysis history for the account page: a trend line per concern across
+ * every scan, and a before/after comparison between any two scans.
+ */
+export const SkinProgress: React.FC<{ analyses: SkinAnalysisResult[] }> = ({ analyses }) => {
+  const history = useMemo(() => sortAnalysesByDate(analyses), [analyses]);
+  const [beforeIndex, setBeforeIndex] = useState(Math.max(0, history.length - 2));
+  const [afterIndex, setAfterIndex] = useState(history.length - 1);
+
+  // A new scan lands at the end — compare it against the one before
+  useEffect(() => {
+    setBeforeIndex(Math.max(0, history.length - 2));
+    setAfterIndex(history.length - 1);
+  }, [history.length]);
+
+  const latest = history[history.length - 1];
+  const trends = useMemo(() => latest.concerns
+    .map((c) => ({
+      concern: c.concern,
+      label: c.label,
+      latest: c.score,
+      scores: history
+        .map((a) => a.concerns.find((x) => x.concern === c.concern)?.score)
+        .filter((score): score is number => score !== undefined),
+    }))
+    .sort((a, b) => b.latest - a.latest), [history, latest]);
+
+  const before = history[Math.min(beforeIndex, history.length - 1)];
+  const after = history[Math.min(afterIndex, history.length - 1)];
+  const deltas = before !== after ? compareSkinAnalyses(before, after) : [];
+
+  return (
+    <div className="space-y-5">
+      {/* Trends */}
+      <div>
+        <span className="text-xs font-medium text-stone-400 uppercase tracking-wider">
+          Trends across {history.length} scan{history.length === 1 ? '' : 's'}
+        </span>
+        <div className="mt-2 space-y-1.5">
+          {trends.map((t) => (
+            <div key={t.concern} className="flex items-center gap-3 py-1.5 px-3 bg-stone-50 rounded-lg">
+              <span className="text-sm text-stone-700 flex-1 truncate">{t.label}</span>
+              <Sparkline scores={t.scores} />
+              <span className="text-xs font-semibold text-stone-600 w-7 text-right">{t.latest}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Before / after */}
+      {history.length > 1 && (
+        <div>
+          <span className="text-xs font-medium text-stone-400 uppercase tracking-wider">Before &amp; after</span>
+          <div className="mt-2 flex items-center gap-2 text-xs">
+            <select
+              value={beforeIndex}
+              onChange={(e) => setBeforeIndex(Number(e.target.value))}
+              className="flex-1 px-2 py-1.5 rounded-lg border border-stone-200 bg-white text-stone-700"
+            >
+              {history.map((a, i) => <option key={a.analyzedAt} value={i}>{formatScanDate(a.analyzedAt)}</option>)}
+            </select>
+            <span className="text-stone-400">→</span>
+            <select
+              value={afterIndex}
+              onChange={(e) => setAfterIndex(Number(e.target.value))}
+              className="flex-1 px-2 py-1.5 rounded-lg border border-stone-200 bg-white text-stone-700"
+            >
+              {history.map((a, i) => <option key={a.analyzedAt} value={i}>{formatScanDate(a.analyzedAt)}</option>)}
+            </select>
+          </div>
+
+          <div className="mt-3 grid grid-cols-3 gap-3">
+            <div className="text-center p-3 bg-stone-50 rounded-xl">
+              <div className="text-xl font-semibold text-stone-900">{before.overallScore}</div>
+              <div className="text-xs text-stone-500 mt-0.5">Before</div>
+            </div>
+            <div className="text-center p-3 bg-stone-50 rounded-xl">
+              <div className="text-xl font-semibold text-stone-900">{after.overallScore}</div>
+              <div className="text-xs text-stone-500 mt-0.5">After</div>
+            </div>
+            <div className="text-center p-3 bg-stone-50 rounded-xl">
+              {/* Overall score is higher = healthier, the opposite of concern scores */}
+              <div className={`text-xl font-semibold ${after.overallScore >= before.overallScore ? 'text-emerald-600' : 'text-rose-500'}`}>
+                {after.overallScore - before.overallScore > 0 ? '+' : ''}{after.overallScore - before.overallScore}
+              </div>
+              <div className="text-xs text-stone-500 mt-0.5">Overall</div>
+            </div>
+          </div>
+
+          {before !== after && before.calibrationVersion && after.calibrationVersion
+            && before.calibrationVersion !== after.calibrationVersion && (
+            <p className="mt-2 text-[11px] text-amber-600">
+              These scans were scored under different calibrations, so small changes may not be meaningful.
+            </p>
+          )}
+
+          {deltas.length > 0 ? (
+            <div className="mt-3 space-y-1">
+              {deltas.map((d) => (
+                <div key={d.concern} className="flex items-center text-sm py-1.5 px-3 bg-stone-50 rounded-lg">
+                  <span className="text-stone-700 flex-1">{d.label}</span>
+                  <span className="text-xs text-stone-500 w-16 text-right">{d.before} → {d.after}</span>
+                  <span className="w-12 text-right"><DeltaBadge delta={d.delta} /></span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-3 text-xs text-stone-400 text-center">Pick two different scans to compare.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
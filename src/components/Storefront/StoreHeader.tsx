@@ -21,7 +21,7 @@ const CATEGORIES: { label: string; value: ProductCategory }[] = [
 ];
 
 export const StoreHeader: React.FC = () => {
-  const { navigateHome, navigateToCategory, navigateToCart, navigateToAccount, searchQuery, setSearchQuery } = useStore();
+  const { navigateHome, navigateToCategory, navigateToCart, navigateToAccount, navigateToLists, navigateToSearch, searchQuery, setSearchQuery } = useStore();
   const navigate = useNavigate();
   const onBeautyAdvisorClick = useCallback(() => navigate('/advisor'), [navigate]);
   const { itemCount } = useCart();
@@ -99,6 +99,10 @@ export const StoreHeader: React.FC = () => {
                     placeholder="Search..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && searchQuery.trim()) navigateToSearch(searchQuery);
+                      if (e.key === 'Escape') setShowSearch(false);
+                    }}
                     onBlur={() => !searchQuery && setShowSearch(false)}
                     autoFocus
                     className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded-full focus:outline-none focus:border-rose-300"
@@ -128,6 +132,17 @@ export const StoreHeader: React.FC = () => {
               <span>Beauty Advisor</span>
             </button>
 
+            {/* Saved lists */}
+            <button
+              onClick={() => navigateToLists()}
+              className="p-2 text-stone-600 hover:text-stone-900 transition-colors"
+              aria-label="Saved lists"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+              </svg>
+            </button>
+
             {/* Cart */}
             <button
               onClick={navigateToCart}
@@ -4,6 +4,7 @@ import { StoreHeader } from './StoreHeader';
 import { HeroBanner } from './HeroBanner';
 import { ProductSection } from './ProductSection';
 import { CategoryPage } from './CategoryPage';
+import { SearchPage } from './SearchPage';
 import { ProductDetailPage } from './ProductDetailPage';
 import { CartPage } from './CartPage';
 import { CheckoutPage } from './CheckoutPage';
@@ -12,9 +13,14 @@ import { AccountPage } from './AccountPage';
 import { AppointmentBooking } from './AppointmentBooking';
 import { EmailSignup } from './EmailSignup';
 import { ExitIntentOverlay } from './ExitIntentOverlay';
+import { RestockReminders } from './RestockReminders';
+import { SavedListsPage } from './SavedListsPage';
 import { useStore } from '@/contexts/StoreContext';
 import { useCustomer } from '@/contexts/CustomerContext';
+import { usePersonalizedRanking } from '@/hooks/usePersonalizedRanking';
+import { useReplenishment } from '@/hooks/useReplenishment';
 import { useBrowseTracking } from '@/hooks/useBrowseTracking';
+import { useSavedListAlerts } from '@/hooks/useSavedListAlerts';
 import type { Product, ProductCategory } from '@/types/product';
 
 interface StorefrontPageProps {
@@ -26,10 +32,13 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
 }) => {
   const { view, selectedCategory, selectedProduct, navigateHome, navigateToCategory } = useStore();
   const { customer, isAuthenticated } = useCustomer();
+  const { rank } = usePersonalizedRanking();
+  const { due: dueForRestock, reorder } = useReplenishment();
   const navigate = useNavigate();
   const navigateToAdvisor = useCallback(() => navigate('/advisor'), [navigate]);
   const navigateToSkinAdvisor = useCallback(() => navigate('/skin-advisor'), [navigate]);
   useBrowseTracking();
+  useSavedListAlerts(products);
 
   // Group products by category for home page sections
   const productGroups = useMemo(() => {
@@ -41,12 +50,15 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
     return groups;
   }, [products]);
 
+  // Best fit for the signed-in customer first; catalog order for anonymous shoppers
+  const rankedProducts = useMemo(() => rank(products), [products, rank]);
+
   // Get featured/bestseller products
   const featuredProducts = useMemo(() => {
-    return products
+    return rankedProducts
       .filter((p) => (p.personalizationScore || 0) > 0.8 || p.rating > 4.5)
       .slice(0, 8);
-  }, [products]);
+  }, [rankedProducts]);
 
   // Get new arrivals (just use first 8 for demo)
   const newArrivals = useMemo(() => {
@@ -55,33 +67,33 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
 
   // Skincare products
   const skincareProducts = useMemo(() => {
-    return products
+    return rankedProducts
       .filter((p) =>
         ['moisturizer', 'cleanser', 'serum', 'sunscreen', 'mask', 'toner', 'eye-cream', 'spot-treatment'].includes(
           p.category
         )
       )
       .slice(0, 4);
-  }, [products]);
+  }, [rankedProducts]);
 
   // Makeup products
   const makeupProducts = useMemo(() => {
-    return products
+    return rankedProducts
       .filter((p) => ['foundation', 'lipstick', 'mascara', 'blush'].includes(p.category))
       .slice(0, 4);
-  }, [products]);
+  }, [rankedProducts]);
 
   // Haircare products
   const haircareProducts = useMemo(() => {
-    return products
+    return rankedProducts
       .filter((p) => ['shampoo', 'conditioner', 'hair-treatment'].includes(p.category))
       .slice(0, 4);
-  }, [products]);
+  }, [rankedProducts]);
 
   // Fragrance products
   const fragranceProducts = useMemo(() => {
-    return products.filter((p) => p.category === 'fragrance').slice(0, 4);
-  }, [products]);
+    return rankedProducts.filter((p) => p.category === 'fragrance').slice(0, 4);
+  }, [rankedProducts]);
 
   const renderContent = () => {
     switch (view) {
@@ -89,6 +101,9 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
         if (!selectedCategory) return null;
         return <CategoryPage category={selectedCategory} products={products} />;
 
+      case 'search':
+        return <SearchPage products={products} />;
+
       case 'product':
         if (!selectedProduct) return null;
         return (
@@ -112,6 +127,9 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
       case 'appointment':
         return <AppointmentBooking />;
 
+      case 'lists':
+        return <SavedListsPage />;
+
       case 'home':
       default:
         return (
@@ -140,6 +158,17 @@ export const StorefrontPage: React.FC<StorefrontPageProps> = ({
               </div>
             )}
 
+            {/* Running-low reminders from order history */}
+            {isAuthenticated && dueForRestock.length > 0 && (
+              <section className="py-10">
+                <div className="max-w-3xl mx-auto px-4 sm:px-6">
+                  <h2 className="text-2xl font-medium text-stone-900">Time to Restock</h2>
+                  <p className="text-stone-500 mt-1 mb-4">Favorites we think you're running low on</p>
+                  <RestockReminders items={dueForRestock.slice(0, 4)} onReorder={reorder} />
+                </div>
+              </section>
+            )}
+
             {/* Featured/Best Sellers */}
             {featuredProducts.length > 0 && (
               <ProductSection
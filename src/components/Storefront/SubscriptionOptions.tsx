@@ -0,0 +1,104 @@
+import { SUBSCRIBE_AND_SAVE, roundCents } from '@/services/pricing';
+import type { Product } from '@/types/product';
+import type { CartSubscription } from '@/types/subscription';
+
+const subscriberPrice = (price: number) => roundCents(price * (1 - SUBSCRIBE_AND_SAVE.percentOff / 100));
+
+interface FrequencySelectProps {
+  value: number;
+  onChange: (frequencyDays: number) => void;
+  className?: string;
+}
+
+/** Delivery interval picker shared by the product page, bag and account page. */
+export const FrequencySelect: React.FC<FrequencySelectProps> = ({ value, onChange, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(Number(e.target.value))}
+    onClick={(e) => e.stopPropagation()}
+    aria-label="Delivery frequency"
+    className={`px-2 py-1 text-sm border border-stone-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-rose-500 ${className}`}
+  >
+    {SUBSCRIBE_AND_SAVE.frequencies.map((days) => (
+      <option key={days} value={days}>Every {days} days</option>
+    ))}
+  </select>
+);
+
+interface PurchaseOptionsProps {
+  product: Product;
+  value: CartSubscription | null;
+  onChange: (subscription: CartSubscription | null) => void;
+  suggestedFrequency: number;
+  /** When false the subscribe option is shown but asks the customer to sign in. */
+  canSubscribe: boolean;
+}
+
+/** One-time vs subscribe & save choice on the product page. */
+export const PurchaseOptions: React.FC<PurchaseOptionsProps> = ({
+  product, value, onChange, suggestedFrequency, canSubscribe,
+}) => {
+  const option = (selected: boolean) =>
+    `flex items-start gap-3 p-4 rounded-xl border cursor-pointer transition-colors ${
+      selected ? 'border-stone-900 bg-stone-50' : 'border-stone-200 hover:border-stone-300'
+    }`;
+
+  return (
+    <div className="space-y-2 mb-6" role="radiogroup" aria-label="Purchase options">
+      <label className={option(!value)}>
+        <input type="radio" checked={!value} onChange={() => onChange(null)} className="mt-1 accent-stone-900" />
+        <span className="flex-1 text-sm font-medium text-stone-900">One-time purchase</span>
+        <span className="text-sm text-stone-900">${product.price.toFixed(2)}</span>
+      </label>
+      <label className={`${option(!!value)} ${canSubscribe ? '' : 'opacity-60 cursor-not-allowed'}`}>
+        <input
+          type="radio"
+          checked={!!value}
+          disabled={!canSubscribe}
+          onChange={() => onChange({ frequencyDays: suggestedFrequency })}
+          className="mt-1 accent-stone-900"
+        />
+        <span className="flex-1">
+          <span className="block text-sm font-medium text-stone-900">
+            {SUBSCRIBE_AND_SAVE.label} {SUBSCRIBE_AND_SAVE.percentOff}%
+          </span>
+          <span className="block text-xs text-stone-500 mt-0.5">
+            {canSubscribe ? 'Skip, pause or cancel anytime from your account' : 'Sign in to subscribe'}
+          </span>
+          {value && (
+            <FrequencySelect
+              value={value.frequencyDays}
+              onChange={(frequencyDays) => onChange({ frequencyDays })}
+              className="mt-2"
+            />
+          )}
+        </span>
+        <span className="text-sm font-medium text-rose-600">${subscriberPrice(product.price).toFixed(2)}</span>
+      </label>
+    </div>
+  );
+};
+
+interface CartSubscriptionToggleProps {
+  value: CartSubscription | undefined;
+  onChange: (subscription: CartSubscription | null) => void;
+  suggestedFrequency: number;
+}
+
+/** Compact subscribe & save switch for a bag line. */
+export const CartSubscriptionToggle: React.FC<CartSubscriptionToggleProps> = ({ value, onChange, suggestedFrequency }) => (
+  <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+    <label className="flex items-center gap-2 cursor-pointer text-stone-700">
+      <input
+        type="checkbox"
+        checked={!!value}
+        onChange={(e) => onChange(e.target.checked ? { frequencyDays: suggestedFrequency } : null)}
+        className="accent-rose-600"
+      />
+      {SUBSCRIBE_AND_SAVE.label} {SUBSCRIBE_AND_SAVE.percentOff}%
+    </label>
+    {value && (
+      <FrequencySelect value={value.frequencyDays} onChange={(frequencyDays) => onChange({ frequencyDays })} />
+    )}
+  </div>
+);
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import type { RankingReason } from '@/services/ranking';
+import type { DataProvenance } from '@/types/customer';
+
+const PROVENANCE_LABELS: Record<DataProvenance, { label: string; className: string }> = {
+  stated: { label: '0P stated', className: 'bg-emerald-100 text-emerald-700' },
+  declared: { label: '1P declared', className: 'bg-sky-100 text-sky-700' },
+  observed: { label: '1P observed', className: 'bg-violet-100 text-violet-700' },
+  inferred: { label: '1P inferred', className: 'bg-amber-100 text-amber-700' },
+  agent_inferred: { label: '0P inferred', className: 'bg-amber-100 text-amber-700' },
+  appended: { label: '3P appended', className: 'bg-stone-100 text-stone-500' },
+};
+
+/** "Why this?" popover listing the profile signals behind a product's ranking. */
+export const WhyThisProduct: React.FC<{ reasons: RankingReason[] }> = ({ reasons }) => {
+  const [open, setOpen] = useState(false);
+  if (reasons.length === 0) return null;
+
+  return (
+    <div
+      className="relative inline-block"
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+    >
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen((prev) => !prev);
+        }}
+        onBlur={() => setOpen(false)}
+        aria-expanded={open}
+        className="text-[11px] text-rose-600 hover:text-rose-700 underline decoration-dotted"
+      >
+        Why this?
+      </button>
+      {open && (
+        <div
+          role="tooltip"
+          className="absolute z-20 bottom-full left-0 mb-2 w-64 p-3 bg-white border border-stone-200 rounded-xl shadow-lg"
+        >
+          <ul className="space-y-1.5">
+            {reasons.slice(0, 5).map((r) => (
+              <li key={r.reason} className="flex items-start justify-between gap-2 text-xs">
+                <span className={r.points < 0 ? 'text-red-600' : 'text-stone-700'}>{r.reason}</span>
+                <span className={`shrink-0 px-1.5 py-0.5 rounded-full text-[9px] font-medium ${PROVENANCE_LABELS[r.provenance].className}`}>
+                  {PROVENANCE_LABELS[r.provenance].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
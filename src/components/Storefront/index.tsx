@@ -4,6 +4,7 @@ export { ProfileDropdown } from './ProfileDropdown';
 export { HeroBanner } from './HeroBanner';
 export { ProductSection } from './ProductSection';
 export { CategoryPage } from './CategoryPage';
+export { SearchPage } from './SearchPage';
 export { ProductDetailPage } from './ProductDetailPage';
 export { CartPage } from './CartPage';
 export { CheckoutPage } from './CheckoutPage';
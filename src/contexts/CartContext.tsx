@@ -1,44 +1,158 @@
-import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import type { Product } from '@/types/product';
+import type { CustomerProfile } from '@/types/customer';
+import { useCustomer } from './CustomerContext';
+import { getCommerceClient } from '@/services/commerce';
+import {
+  GUEST_CART_OWNER,
+  deserializeCart,
+  isCommerceCartSyncEnabled,
+  loadCart,
+  mergeCarts,
+  ownerFromStorageKey,
+  removeCart,
+  saveCart,
+  syncCommerceCart,
+} from '@/services/cart';
+import type { StoredCart } from '@/services/cart';
+import type { LoyaltyRedemption } from '@/services/loyalty';
+import type { CartSubscription } from '@/types/subscription';
 
 export interface CartItem {
   product: Product;
   quantity: number;
+  /** Set when the line is a subscribe & save order; absent for one-off purchases. */
+  subscription?: CartSubscription;
+}
+
+/** The persisted bag plus the customer it belongs to. */
+interface CartState extends StoredCart {
+  owner: string;
 }
 
 interface CartContextValue {
   items: CartItem[];
   itemCount: number;
   subtotal: number;
-  addItem: (product: Product, quantity?: number) => void;
+  /** Add a product. Passing a subscription also switches an existing line to subscribe & save. */
+  addItem: (product: Product, quantity?: number, subscription?: CartSubscription) => void;
   removeItem: (productId: string) => void;
   updateQuantity: (productId: string, quantity: number) => void;
+  /** Switch a line between subscribe & save (with a frequency) and a one-off purchase (null). */
+  setItemSubscription: (productId: string, subscription: CartSubscription | null) => void;
   clearCart: () => void;
   isInCart: (productId: string) => boolean;
+  /** Promo code attached to the bag (normalized to upper case), or null. */
+  promoCode: string | null;
+  applyPromo: (code: string) => void;
+  removePromo: () => void;
+  /** Points redemption chosen for this order. Not persisted — balances are re-checked each visit. */
+  loyaltyRedemption: LoyaltyRedemption | null;
+  setLoyaltyRedemption: (redemption: LoyaltyRedemption | null) => void;
+  /** Mirrored Commerce on Core cart, set only while it matches the bag exactly. */
+  commerceCartId: string | null;
 }
 
 const CartContext = createContext<CartContextValue | null>(null);
 
+/** Known customers get their own bag; anonymous and appended-tier visitors share the guest bag. */
+function cartOwnerFor(customer: CustomerProfile | null): string {
+  if (!customer || customer.merkuryIdentity?.identityTier === 'appended') return GUEST_CART_OWNER;
+  return customer.id;
+}
+
+/**
+ * Cart state, persisted to localStorage per customer and kept in step across
+ * tabs via `storage` events. When Commerce is configured, every local change
+ * is also reconciled into a Commerce on Core cart so checkout can use it as-is.
+ */
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [items, setItems] = useState<CartItem[]>([]);
+  const { customer, _isRefreshRef } = useCustomer();
+  const owner = cartOwnerFor(customer);
+
+  const [cart, setCart] = useState<CartState>(() => ({ owner, ...loadCart(owner) }));
+  const [loyaltyRedemption, setLoyaltyRedemption] = useState<LoyaltyRedemption | null>(null);
+  const cartRef = useRef(cart);
+  cartRef.current = cart;
+  /** Set when a change arrived from another tab — that tab already synced it to Commerce. */
+  const skipSyncRef = useRef(false);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const items = cart.items;
+  const promoCode = cart.promoCode;
+
+  // Swap bags when the customer changes. Identifying mid-session (guest → known,
+  // flagged as a profile refresh) folds the guest bag in; a persona switch just
+  // loads that customer's own bag and leaves the previous one stored.
+  useEffect(() => {
+    const previous = cartRef.current;
+    if (previous.owner === owner) return;
+    let next = loadCart(owner);
+    if (previous.owner === GUEST_CART_OWNER && _isRefreshRef.current) {
+      next = mergeCarts(next, previous);
+      removeCart(GUEST_CART_OWNER);
+    }
+    setCart({ owner, ...next });
+    setLoyaltyRedemption(null);
+  }, [owner, _isRefreshRef]);
+
+  // Persist every change under the owner the state belongs to
+  useEffect(() => {
+    const { owner: cartOwner, ...stored } = cart;
+    saveCart(cartOwner, stored);
+  }, [cart]);
+
+  // Pick up changes made in other tabs
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      const changedOwner = ownerFromStorageKey(e.key);
+      if (!changedOwner || changedOwner !== cartRef.current.owner) return;
+      skipSyncRef.current = true;
+      setCart({ owner: changedOwner, ...deserializeCart(e.newValue) });
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
 
-  const addItem = useCallback((product: Product, quantity: number = 1) => {
+  // Mirror local changes into Commerce, one reconciliation at a time. Each run
+  // reads the latest bag, so a burst of edits collapses into a single diff.
+  useEffect(() => {
+    if (!isCommerceCartSyncEnabled()) return;
+    if (skipSyncRef.current) {
+      skipSyncRef.current = false;
+      return;
+    }
+    const syncOwner = cart.owner;
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      const current = cartRef.current;
+      if (current.owner !== syncOwner) return;
+      const commerce = await syncCommerceCart(getCommerceClient(), current.commerce, current.items);
+      cartRef.current = { ...cartRef.current, commerce };
+      setCart((prev) => (prev.owner === syncOwner ? { ...prev, commerce } : prev));
+    });
+  }, [cart.items]);
+
+  const setItems = useCallback((update: (prev: CartItem[]) => CartItem[]) => {
+    setCart((prev) => ({ ...prev, items: update(prev.items) }));
+  }, []);
+
+  const addItem = useCallback((product: Product, quantity: number = 1, subscription?: CartSubscription) => {
     setItems((prev) => {
       const existing = prev.find((item) => item.product.id === product.id);
       if (existing) {
         return prev.map((item) =>
           item.product.id === product.id
-            ? { ...item, quantity: item.quantity + quantity }
+            ? { ...item, quantity: item.quantity + quantity, ...(subscription && { subscription }) }
             : item
         );
       }
-      return [...prev, { product, quantity }];
+      return [...prev, { product, quantity, ...(subscription && { subscription }) }];
     });
-  }, []);
+  }, [setItems]);
 
   const removeItem = useCallback((productId: string) => {
     setItems((prev) => prev.filter((item) => item.product.id !== productId));
-  }, []);
+  }, [setItems]);
 
   const updateQuantity = useCallback((productId: string, quantity: number) => {
     if (quantity <= 0) {
@@ -50,12 +164,42 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         item.product.id === productId ? { ...item, quantity } : item
       )
     );
-  }, [removeItem]);
+  }, [setItems, removeItem]);
 
+  const setItemSubscription = useCallback((productId: string, subscription: CartSubscription | null) => {
+    setItems((prev) =>
+      prev.map((item) => {
+        if (item.product.id !== productId) return item;
+        if (subscription) return { ...item, subscription };
+        const { subscription: _removed, ...oneOff } = item;
+        return oneOff;
+      })
+    );
+  }, [setItems]);
+
+  // The Commerce cart is dropped too: after checkout it has become an order,
+  // and an abandoned one is left for Commerce to expire.
   const clearCart = useCallback(() => {
-    setItems([]);
+    setCart((prev) => ({ owner: prev.owner, items: [], promoCode: null, commerce: null }));
+    setLoyaltyRedemption(null);
+  }, []);
+
+  const applyPromo = useCallback((code: string) => {
+    const normalized = code.trim().toUpperCase();
+    setCart((prev) => ({ ...prev, promoCode: normalized || null }));
   }, []);
 
+  const removePromo = useCallback(() => {
+    setCart((prev) => ({ ...prev, promoCode: null }));
+  }, []);
+
+  const commerceCartId = useMemo(() => {
+    const ref = cart.commerce;
+    if (!ref || Object.keys(ref.lines).length !== items.length) return null;
+    const inSync = items.every((item) => ref.lines[item.product.id]?.quantity === item.quantity);
+    return inSync ? ref.cartId : null;
+  }, [cart.commerce, items]);
+
   const isInCart = useCallback(
     (productId: string) => items.some((item) => item.product.id === productId),
     [items]
@@ -80,8 +224,15 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         addItem,
         removeItem,
         updateQuantity,
+        setItemSubscription,
         clearCart,
         isInCart,
+        promoCode,
+        applyPromo,
+        removePromo,
+        loyaltyRedemption,
+        setLoyaltyRedemption,
+        commerceCartId,
       }}
     >
       {children}
@@ -1,34 +1,51 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { AgentMessage, UIAction } from '@/types/agent';
+import type { AgentMessage, DirectiveSequenceResult, DirectiveStepResult, UIAction, UIDirective } from '@/types/agent';
 import type { CustomerSessionContext, CustomerProfile, AgentCapturedProfile, CapturedProfileField, ChatSummary, TaggedContextField } from '@/types/customer';
 import { PROVENANCE_USAGE } from '@/types/customer';
 import { useScene } from './SceneContext';
 import { useCustomer } from './CustomerContext';
 import { useCampaign } from './CampaignContext';
-import { generateMockResponse, setMockCustomerContext, getMockAgentSnapshot, restoreMockAgentSnapshot } from '@/services/mock/mockAgent';
-import type { MockAgentSnapshot } from '@/services/mock/mockAgent';
 import type { AgentResponse } from '@/types/agent';
-import { getAgentforceClient, createAgentforceClient } from '@/services/agentforce/client';
-import type { AgentforceClient } from '@/services/agentforce/client';
+import { createAgentBackend, defaultAgentBackendConfig } from '@/services/agent';
+import type { AgentBackend, AgentBackendConfig, AgentBackendSnapshot } from '@/services/agent';
 import { getDataCloudWriteService } from '@/services/datacloud';
 import type { SceneSnapshot } from './SceneContext';
 import { useActivityToast } from '@/components/ActivityToast';
-
-const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
+import { listDirectives, withoutDelivered } from '@/utils/directives';
+import { useCartDirectives } from '@/hooks/useCartDirectives';
+import { bestRedemption, describeRedemption } from '@/services/loyalty';
+import { describeSkinProgress } from '@/types/skinanalysis';
+import { describeReplenishment, predictReplenishment } from '@/services/replenishment';
+import { describeSubscription } from '@/services/subscriptions';
+import { describeSavedList, loadSavedLists, savedListsOwnerFor } from '@/services/savedLists';
+import type { SavedList } from '@/services/savedLists';
+import { SUBSCRIBE_AND_SAVE } from '@/services/pricing';
+import { compareProducts, describeComparison } from '@/services/comparison';
+import { buildRoutine, checkRoutineConflicts } from '@/services/routine';
+import type { RoutineStep, SkinRoutine } from '@/types/routine';
+import type { Product } from '@/types/product';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { CartActionResult } from '@/hooks/useCartDirectives';
+import { canResumeLiveSession, directiveHistoryFrom, loadSession, removeSession, saveSession, summarizeTranscript } from '@/services/session';
+import { createSummarizer, describeChatSummary, summarizeConversation } from '@/services/summarization';
+import type { Summarizer } from '@/services/summarization';
+import type { DirectiveHandlers } from './SceneContext';
 
 /** Snapshot of a persona's full session state for instant restore. */
 interface SessionSnapshot {
   messages: AgentMessage[];
   suggestedActions: string[];
   sceneSnapshot: SceneSnapshot;
-  agentSessionId: string | null;
-  agentSequenceId: number;
-  mockSnapshot: MockAgentSnapshot | null;
+  agentSnapshot: AgentBackendSnapshot;
   sessionInitialized: boolean;
 }
 
-function buildSessionContext(customer: CustomerProfile, campaignAttribution?: import('@/types/campaign').CampaignAttribution): CustomerSessionContext {
+function buildSessionContext(
+  customer: CustomerProfile,
+  campaignAttribution?: import('@/types/campaign').CampaignAttribution,
+  lists: SavedList[] = [],
+): CustomerSessionContext {
   // Flatten recent orders into readable purchase summaries
   const recentOrders = (customer.orders || [])
     .sort((a, b) => b.orderDate.localeCompare(a.orderDate))
@@ -45,7 +62,7 @@ function buildSessionContext(customer: CustomerProfile, campaignAttribution?: im
   const chatContext = (customer.chatSummaries || [])
     .sort((a, b) => b.sessionDate.localeCompare(a.sessionDate))
     .slice(0, 3)
-    .map((c) => `[${c.sessionDate}] ${c.summary}`);
+    .map(describeChatSummary);
 
   // Meaningful events
   const meaningfulEvents = (customer.meaningfulEvents || [])
@@ -128,13 +145,53 @@ function buildSessionContext(customer: CustomerProfile, campaignAttribution?: im
   if (customer.loyalty) {
     const pts = customer.loyalty.pointsBalance ? ` (${customer.loyalty.pointsBalance} pts)` : '';
     taggedContext.push({ value: `Loyalty: ${customer.loyalty.tier}${pts}`, provenance: 'observed', usage: 'direct' });
+    const redeemable = bestRedemption(customer.loyalty);
+    if (redeemable) {
+      taggedContext.push({ value: `Can redeem: ${describeRedemption(redeemable)}`, provenance: 'observed', usage: 'direct' });
+    }
   }
 
   // Chat summaries — observed (from prior conversations)
   for (const chat of (customer.chatSummaries || []).slice(0, 3)) {
-    taggedContext.push({ value: `[${chat.sessionDate}] ${chat.summary}`, provenance: 'observed', usage: 'direct' });
+    taggedContext.push({ value: describeChatSummary(chat), provenance: 'observed', usage: 'direct' });
+  }
+
+  // Skin analysis progress — observed (measured by the scanner across sessions)
+  const skinProgress = describeSkinProgress(customer.skinAnalyses || []) ?? undefined;
+  if (skinProgress) {
+    taggedContext.push({ value: skinProgress, provenance: 'observed', usage: 'direct' });
+  }
+
+  // Subscriptions — declared (the customer set them up); subscribed products restock themselves
+  const openSubscriptions = (customer.subscriptions || []).filter((s) => s.status !== 'cancelled');
+  const subscriptions = openSubscriptions.map(describeSubscription);
+  for (const sub of subscriptions) {
+    taggedContext.push({ value: `Subscribed: ${sub}`, provenance: 'declared', usage: 'direct' });
+  }
+  const subscribedIds = new Set(openSubscriptions.map((s) => s.productId));
+
+  // Saved lists — declared (the customer picked these products themselves)
+  const savedLists = lists.filter((l) => l.items.length > 0).map((l) => describeSavedList(l, MOCK_PRODUCTS));
+  for (const list of savedLists) {
+    taggedContext.push({ value: `Saved list: ${list}`, provenance: 'declared', usage: 'direct' });
   }
 
+  // Replenishment — observed (estimated from their own order history)
+  const restock = predictReplenishment(customer.orders || [], MOCK_PRODUCTS)
+    .filter((p) => p.status === 'due' && p.product.inStock && !subscribedIds.has(p.product.id));
+  for (const prediction of restock.slice(0, 3)) {
+    taggedContext.push({ value: `Due for restock: ${describeReplenishment(prediction)}`, provenance: 'observed', usage: 'direct' });
+  }
+  const dueForRestock = restock.map((p) => ({
+    productId: p.product.id,
+    productName: p.product.name,
+    lastOrderedAt: p.lastOrderedAt,
+    quantity: p.quantity,
+    runOutDate: p.runOutDate,
+    daysLeft: p.daysLeft,
+    basis: p.basis,
+  }));
+
   // Meaningful events — may be stated or agent-inferred
   for (const event of customer.meaningfulEvents || []) {
     const prov = event.eventType === 'preference' || event.eventType === 'milestone' ? 'stated' : 'agent_inferred';
@@ -194,6 +251,10 @@ function buildSessionContext(customer: CustomerProfile, campaignAttribution?: im
     chatContext,
     meaningfulEvents,
     browseInterests,
+    skinProgress,
+    dueForRestock,
+    subscriptions,
+    savedLists,
     capturedProfile,
     missingProfileFields,
     taggedContext,
@@ -212,11 +273,11 @@ function buildSessionContext(customer: CustomerProfile, campaignAttribution?: im
 /** Build a welcome message that embeds customer context so the agent can personalize.
  *  Uses provenance-tagged fields so the agent knows what it can reference directly
  *  vs. what should only influence curation vs. what must never be mentioned. */
-function buildWelcomeMessage(ctx: CustomerSessionContext): string {
+function buildWelcomeMessage(ctx: CustomerSessionContext, header = '[WELCOME]'): string {
   const isAppended = ctx.identityTier === 'appended';
   const isAnonymous = ctx.identityTier === 'anonymous';
 
-  const lines: string[] = ['[WELCOME]'];
+  const lines: string[] = [header];
 
   // ── Identity header ──────────────────────────────────────────
   if (isAppended) {
@@ -271,6 +332,31 @@ function buildWelcomeMessage(ctx: CustomerSessionContext): string {
     }
   }
 
+  // ── Replenishment (known customers only) ─────────────────────
+  if (!isAppended && !isAnonymous && ctx.dueForRestock?.length) {
+    lines.push('');
+    lines.push('[RESTOCK — products likely running low, estimated from order history]');
+    ctx.dueForRestock.slice(0, 3).forEach((r) => {
+      const when = r.daysLeft < 0 ? `ran out ~${-r.daysLeft} days ago` : `runs out in ~${r.daysLeft} days`;
+      lines.push(`  - productId=${r.productId} | ${r.productName} | last ordered ${r.lastOrderedAt} x${r.quantity} | ${when} | basis=${r.basis}`);
+    });
+    lines.push('[INSTRUCTION] If it fits the conversation, offer to reorder one of these with ADD_TO_CART using its productId and last quantity. Frame it as an estimate ("you might be running low on..."), and do not list them all at once.');
+    lines.push(`[INSTRUCTION] For skincare and haircare they reorder regularly, you may instead suggest subscribe & save (${SUBSCRIBE_AND_SAVE.percentOff}% off, delivered every ${SUBSCRIBE_AND_SAVE.frequencies.join('/')} days) with PROPOSE_SUBSCRIPTION and subscriptionOffer { productId, frequencyDays, quantity }. The customer confirms it themselves.`);
+  }
+
+  if (!isAppended && !isAnonymous && ctx.subscriptions?.length) {
+    lines.push('');
+    lines.push('[SUBSCRIPTIONS — already delivered on a schedule; do not offer to reorder or subscribe to these]');
+    ctx.subscriptions.forEach((sub) => lines.push(`  - ${sub}`));
+  }
+
+  if (ctx.savedLists?.length) {
+    lines.push('');
+    lines.push('[SAVED LISTS — products the customer saved to wishlists, gift lists or for later]');
+    ctx.savedLists.forEach((list) => lines.push(`  - ${list}`));
+    lines.push('[INSTRUCTION] These are things they already want — prefer them over new suggestions, and mention a price drop if one is noted. Recommend for a gift list with its recipient and occasion in mind, not the customer\'s own skin profile.');
+  }
+
   // ── Campaign attribution (from ad click-through) ────────────
   if (ctx.campaignContext) {
     const cc = ctx.campaignContext;
@@ -295,73 +381,160 @@ function buildWelcomeMessage(ctx: CustomerSessionContext): string {
   return lines.join('\n');
 }
 
-async function getAgentResponse(
-  content: string,
-  client: AgentforceClient,
+/** Prefix for the next agent message describing what the agent's cart actions did. */
+function buildCartContext(results: CartActionResult[]): string | undefined {
+  if (!results.length) return undefined;
+  const lines = ['[CART UPDATE] Results of the cart actions from your previous reply:'];
+  for (const r of results) lines.push(`  - ${r.action} (${r.status}): ${r.summary}`);
+  lines.push('[INSTRUCTION] Acknowledge anything that was rejected or only partly applied. Do not repeat successful actions.');
+  return lines.join('\n');
+}
+
+/** Prefix for the next agent message listing scene directives from the last reply that failed. */
+function buildDirectiveContext(failed: DirectiveStepResult[]): string | undefined {
+  if (!failed.length) return undefined;
+  const lines = ['[UI UPDATE] These actions from your previous reply could not be shown:'];
+  for (const f of failed) lines.push(`  - ${f.action}: ${f.error || 'failed'}`);
+  lines.push('[INSTRUCTION] Do not refer to these as on screen. Retry with valid products or describe them in words instead.');
+  return lines.join('\n');
+}
+
+/** Prefix describing the comparison the customer has open, so "which is better?" has a referent. */
+function buildComparisonContext(products: Product[] | undefined, profile?: CustomerProfile['beautyProfile']): string | undefined {
+  if (!products?.length) return undefined;
+  const lines = ['[COMPARING] The customer has this side-by-side comparison open:'];
+  for (const line of describeComparison(compareProducts(products, profile))) lines.push(`  - ${line}`);
+  lines.push('[INSTRUCTION] Answer from these rows. Name a pick for them and say why, rather than restating the table.');
+  return lines.join('\n');
+}
+
+/** Join out-of-band context blocks for the next agent message, skipping empty ones. */
+function joinAgentContext(...blocks: (string | undefined)[]): string | undefined {
+  const present = blocks.filter(Boolean);
+  return present.length ? present.join('\n\n') : undefined;
+}
+
+/** Swap a background that was still loading when the scene was saved for the default image. */
+function withSettledBackground(snapshot: SceneSnapshot): SceneSnapshot {
+  const bg = snapshot.background;
+  const isIncomplete =
+    (bg.type === 'generative' && (!bg.value || bg.isLoading)) ||
+    (bg.type === 'image' && !bg.value);
+  if (!isIncomplete) return snapshot;
+  console.log('[session] Cached scene had incomplete background, using fallback');
+  return { ...snapshot, background: { type: 'image', value: '/assets/backgrounds/default.png' } };
+}
+
+/**
+ * Make sure the agent session is open before sending. A session already being
+ * opened (the replacement for an expired saved one) is waited for rather than
+ * raced with a second, context-free one; if it fails, a plain one is opened.
+ */
+async function ensureSession(
+  backend: AgentBackend,
   sessionRef: { current: boolean },
-): Promise<AgentResponse> {
-  if (useMockData) {
-    return generateMockResponse(content);
-  }
+  openingRef: { current: Promise<void> | null },
+): Promise<void> {
+  if (openingRef.current) await openingRef.current;
   if (!sessionRef.current) {
-    await client.initSession();
+    await backend.initSession();
     sessionRef.current = true;
   }
-  return client.sendMessage(content);
+}
+
+async function getAgentResponse(
+  content: string,
+  backend: AgentBackend,
+  sessionRef: { current: boolean },
+  openingRef: { current: Promise<void> | null },
+): Promise<AgentResponse> {
+  await ensureSession(backend, sessionRef, openingRef);
+  return backend.sendMessage(content);
 }
 
 /**
- * Like getAgentResponse but streams text chunks via onChunk as they arrive.
- * The returned promise resolves with the full AgentResponse when the stream ends.
+ * Like getAgentResponse but streams prose via onChunk as it arrives, and hands
+ * each directive to onDirective as soon as its JSON closes. The returned promise
+ * resolves with the full AgentResponse when the stream ends.
  * Falls back to buffered sendMessage if SSE is not supported by the server.
  */
 async function getAgentResponseStreaming(
   content: string,
   onChunk: (text: string) => void,
-  client: AgentforceClient,
+  backend: AgentBackend,
   sessionRef: { current: boolean },
+  openingRef: { current: Promise<void> | null },
+  agentContext?: string,
+  onDirective?: (directive: UIDirective) => void,
 ): Promise<AgentResponse> {
-  if (useMockData) {
-    return generateMockResponse(content);
+  await ensureSession(backend, sessionRef, openingRef);
+  return backend.sendMessageStreaming(content, onChunk, onDirective, agentContext);
+}
+
+/**
+ * A WELCOME_SCENE during a normal conversation (user typed a message) is
+ * downgraded to SHOW_PRODUCTS/CHANGE_SCENE so products and background still
+ * render — just without the welcome overlay.
+ */
+function downgradeWelcome(directive: UIDirective): UIDirective {
+  if (directive.action !== 'WELCOME_SCENE') return directive;
+  return {
+    ...directive,
+    action: (directive.payload?.products?.length ? 'SHOW_PRODUCTS' : 'CHANGE_SCENE') as UIAction,
+  };
+}
+
+/**
+ * The catalog a conversation draws on: the mock catalog, with every product
+ * the agent showed laid over it — Commerce results have no mock entry.
+ */
+function conversationCatalog(msgs: AgentMessage[]): Product[] {
+  const byId = new Map(MOCK_PRODUCTS.map((p) => [p.id, p]));
+  for (const m of msgs) {
+    for (const directive of m.uiDirectives ?? (m.uiDirective ? [m.uiDirective] : [])) {
+      for (const product of directive.payload?.products ?? []) byId.set(product.id, product);
+    }
   }
-  if (!sessionRef.current) {
-    await client.initSession();
-    sessionRef.current = true;
+  return [...byId.values()];
+}
+
+/**
+ * SHOW_ROUTINE usually arrives without a routine — the agent leaves building
+ * it to the client, from the customer's latest skin analysis and preferences.
+ * A routine the agent did send is matched to full catalog products (for their
+ * ingredients) and re-checked for conflicts. `catalog` is the conversation's,
+ * so Commerce products the agent showed are candidates too.
+ */
+function completeRoutine(directive: UIDirective, customer: CustomerProfile | null, catalog: Product[]): UIDirective {
+  if (directive.action !== 'SHOW_ROUTINE') return directive;
+  const sent = directive.payload?.routine;
+  let routine: SkinRoutine;
+  if (sent) {
+    const fromCatalog = (step: RoutineStep): RoutineStep =>
+      ({ ...step, product: catalog.find((p) => p.id === step.product.id) ?? step.product });
+    const steps = { morning: sent.morning.map(fromCatalog), evening: sent.evening.map(fromCatalog) };
+    routine = { ...sent, ...steps, conflicts: checkRoutineConflicts(steps) };
+  } else {
+    routine = buildRoutine({
+      analysis: customer?.skinAnalyses?.[0],
+      preferences: customer?.beautyProfile,
+      catalog,
+    });
   }
-  return client.sendMessageStreaming(content, onChunk);
+  return { ...directive, payload: { ...directive.payload, routine } };
 }
 
-/** Write a chat summary to Data Cloud when a conversation ends. */
-function writeConversationSummary(customerId: string, msgs: AgentMessage[]): void {
+/** Summarize a finished conversation and write it to Data Cloud. */
+async function writeConversationSummary(customerId: string, msgs: AgentMessage[], summarizer: Summarizer): Promise<void> {
   if (msgs.length < 2) return; // Need at least one exchange
 
-  const topics = extractTopicsFromMessages(msgs);
   const summary: ChatSummary = {
     sessionDate: new Date().toISOString().split('T')[0],
-    summary: `Customer discussed ${topics.join(', ')}. ${msgs.length} messages exchanged.`,
-    sentiment: 'neutral',
-    topicsDiscussed: topics,
+    ...await summarizeConversation({ messages: msgs, catalog: conversationCatalog(msgs) }, summarizer),
   };
 
   const sessionId = uuidv4();
-  getDataCloudWriteService().writeChatSummary(customerId, sessionId, summary).catch((err) => {
-    console.error('[datacloud] Failed to write chat summary:', err);
-  });
-}
-
-function extractTopicsFromMessages(msgs: AgentMessage[]): string[] {
-  const allText = msgs.map((m) => m.content.toLowerCase()).join(' ');
-  const topics: string[] = [];
-  if (allText.includes('moisturizer') || allText.includes('hydrat')) topics.push('moisturizer');
-  if (allText.includes('serum') || allText.includes('retinol')) topics.push('serum');
-  if (allText.includes('cleanser')) topics.push('cleanser');
-  if (allText.includes('sunscreen') || allText.includes('spf')) topics.push('sun protection');
-  if (allText.includes('fragrance') || allText.includes('perfume')) topics.push('fragrance');
-  if (allText.includes('travel')) topics.push('travel');
-  if (allText.includes('gift') || allText.includes('anniversary')) topics.push('gifting');
-  if (allText.includes('routine')) topics.push('skincare routine');
-  if (allText.includes('checkout') || allText.includes('buy')) topics.push('purchase intent');
-  return topics.length ? topics : ['general inquiry'];
+  await getDataCloudWriteService().writeChatSummary(customerId, sessionId, summary);
 }
 
 interface ConversationContextValue {
@@ -376,7 +549,14 @@ interface ConversationContextValue {
 
 const ConversationContext = createContext<ConversationContextValue | null>(null);
 
-export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId?: string }> = ({ children, agentId }) => {
+interface ConversationProviderProps {
+  children: React.ReactNode;
+  agentId?: string;
+  /** Which agent backend to talk to. Defaults to the rules engine in mock mode, else Agentforce with `agentId`. */
+  backend?: AgentBackendConfig;
+}
+
+export const ConversationProvider: React.FC<ConversationProviderProps> = ({ children, agentId, backend }) => {
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [isAgentTyping, setIsAgentTyping] = useState(false);
   const [isLoadingWelcome, setIsLoadingWelcome] = useState(false);
@@ -385,15 +565,23 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     'I need travel products',
     'What do you recommend?',
   ]);
-  // Per-instance agent client and session tracking (supports multiple ConversationProviders)
-  const agentClientRef = useRef<AgentforceClient>(
-    agentId ? createAgentforceClient(agentId) : getAgentforceClient()
-  );
+  // Per-instance agent backend and session tracking (supports multiple ConversationProviders)
+  const backendRef = useRef<AgentBackend | null>(null);
+  if (!backendRef.current) backendRef.current = createAgentBackend(backend ?? defaultAgentBackendConfig(agentId));
+  const agentBackend = backendRef.current;
+  const summarizerRef = useRef<Summarizer | null>(null);
+  if (!summarizerRef.current) summarizerRef.current = createSummarizer(backend ?? defaultAgentBackendConfig(agentId));
   const sessionInitializedRef = useRef(false);
-  const { processUIDirective, resetScene, setBackground, getSceneSnapshot, restoreSceneSnapshot } = useScene();
-  const { customer, selectedPersonaId, isAuthenticated, isResolving, identifyByEmail, _isRefreshRef, _onSessionReset } = useCustomer();
+  // A replacement session still opening — sends wait for it instead of opening their own
+  const sessionOpeningRef = useRef<Promise<void> | null>(null);
+  const { processUIDirectives, resetScene, setBackground, getSceneSnapshot, restoreSceneSnapshot } = useScene();
+  const {
+    customer, selectedPersonaId, isAuthenticated, isResolving, identifyByEmail,
+    addMeaningfulEvent, setCapturedProfileField, _isRefreshRef, _onSessionReset,
+  } = useCustomer();
   const { campaign } = useCampaign();
   const { showCapture } = useActivityToast();
+  const { handlers: cartHandlers, drainResults: drainCartResults } = useCartDirectives();
   const messagesRef = useRef<AgentMessage[]>([]);
   const suggestedActionsRef = useRef<string[]>([]);
   const prevCustomerIdRef = useRef<string | null>(null);
@@ -403,6 +591,15 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
   // if the effect re-fires (e.g., due to isResolving/customer batching) before the
   // async welcome completes.
   const welcomeInFlightForRef = useRef<string | null>(null);
+  // Persisted conversations are keyed per agent, since one agent can't resume another's session.
+  const sessionScope = agentId || 'default';
+  // Customer whose conversation is on screen — the storage key persisted state is written under.
+  const sessionOwnerRef = useRef<string | null>(null);
+  const personaOwnersRef = useRef<Map<string, string>>(new Map());
+  // Transcript summary for a replacement Agentforce session, sent with the next message.
+  const priorSummaryRef = useRef<string | undefined>(undefined);
+  // Scene directives that failed since the last message, reported with the next one.
+  const directiveFailuresRef = useRef<DirectiveStepResult[]>([]);
 
   // Keep refs in sync
   useEffect(() => {
@@ -416,9 +613,11 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
   useEffect(() => {
     return _onSessionReset((personaId: string) => {
       sessionCacheRef.current.delete(personaId);
+      const owner = personaOwnersRef.current.get(personaId);
+      if (owner) removeSession(sessionScope, owner);
       console.log('[session] Cleared cached session for', personaId);
     });
-  }, [_onSessionReset]);
+  }, [_onSessionReset, sessionScope]);
 
   // Write conversation summary when switching away from a customer
   useEffect(() => {
@@ -426,26 +625,57 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     prevCustomerIdRef.current = customer?.id || null;
 
     if (prevId && prevId !== customer?.id && messagesRef.current.length > 1) {
-      writeConversationSummary(prevId, messagesRef.current);
+      writeConversationSummary(prevId, messagesRef.current, summarizerRef.current!).catch((err) => {
+        console.error('[datacloud] Failed to queue chat summary:', err);
+      });
     }
   }, [customer?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Helper: save current persona's state into the session cache
   const saveCurrentSession = useCallback((personaId: string) => {
-    const client = agentClientRef.current;
-    const agentSnap = client.getSessionSnapshot();
     const snapshot: SessionSnapshot = {
       messages: [...messagesRef.current],
       suggestedActions: [...suggestedActionsRef.current],
       sceneSnapshot: getSceneSnapshot(),
-      agentSessionId: agentSnap.sessionId,
-      agentSequenceId: agentSnap.sequenceId,
-      mockSnapshot: useMockData ? getMockAgentSnapshot() : null,
+      agentSnapshot: agentBackend.getSessionSnapshot(),
       sessionInitialized: sessionInitializedRef.current,
     };
     sessionCacheRef.current.set(personaId, snapshot);
     console.log('[session] Saved session for', personaId, `(${snapshot.messages.length} messages)`);
-  }, [getSceneSnapshot]);
+  }, [getSceneSnapshot, agentBackend]);
+
+  // Helper: write the on-screen conversation to localStorage so it survives a reload
+  const persistSession = useCallback(() => {
+    const owner = sessionOwnerRef.current;
+    const msgs = messagesRef.current;
+    if (!owner) return;
+    if (!msgs.length) {
+      removeSession(sessionScope, owner);
+      return;
+    }
+    if (msgs.some((m) => m.isStreaming)) return;
+    const agentSnap = agentBackend.getSessionSnapshot();
+    saveSession(sessionScope, owner, {
+      savedAt: Date.now(),
+      messages: msgs,
+      suggestedActions: suggestedActionsRef.current,
+      directiveHistory: directiveHistoryFrom(msgs),
+      sceneSnapshot: getSceneSnapshot(),
+      agentSession: agentSnap.sessionId && sessionInitializedRef.current
+        ? { ...agentSnap, sessionId: agentSnap.sessionId, lastActiveAt: new Date(msgs[msgs.length - 1].timestamp).getTime() }
+        : null,
+    });
+  }, [getSceneSnapshot, sessionScope, agentBackend]);
+
+  useEffect(() => {
+    if (!isLoadingWelcome) persistSession();
+  }, [messages, suggestedActions, isLoadingWelcome, persistSession]);
+
+  // Scene changes land after the message that caused them — capture the final state on unload
+  useEffect(() => {
+    window.addEventListener('pagehide', persistSession);
+    return () => window.removeEventListener('pagehide', persistSession);
+  }, [persistSession]);
 
   // When persona changes, reset conversation and trigger welcome
   useEffect(() => {
@@ -469,7 +699,11 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     // Save outgoing persona's session (if any)
     if (prevPersonaId && prevPersonaId !== selectedPersonaId && messagesRef.current.length > 0) {
       saveCurrentSession(prevPersonaId);
+      persistSession();
     }
+    sessionOwnerRef.current = customer?.id ?? null;
+    priorSummaryRef.current = undefined;
+    if (customer && selectedPersonaId) personaOwnersRef.current.set(selectedPersonaId, customer.id);
 
     if (!customer) {
       // Anonymous / no identity — reset to default starting page with default background
@@ -483,10 +717,10 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       ]);
       setIsLoadingWelcome(false);
 
-      // Eagerly create the Agentforce session in the background so the first
+      // Eagerly create the agent session in the background so the first
       // message doesn't pay the session-creation round trip cost.
-      if (!useMockData && !sessionInitializedRef.current) {
-        agentClientRef.current.initSession().then(() => {
+      if (!sessionInitializedRef.current) {
+        agentBackend.initSession().then(() => {
           sessionInitializedRef.current = true;
           console.log('[session] Anonymous session pre-initialized');
         }).catch(err => {
@@ -505,34 +739,49 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       setMessages(cached.messages);
       setSuggestedActions(cached.suggestedActions);
 
-      // Check if the cached scene has an incomplete background (was still loading when saved)
-      const sceneBg = cached.sceneSnapshot.background;
-      const isIncompleteBackground =
-        (sceneBg.type === 'generative' && (!sceneBg.value || sceneBg.isLoading)) ||
-        (sceneBg.type === 'image' && !sceneBg.value);
-
-      if (isIncompleteBackground) {
-        // Restore scene but use fallback background instead of incomplete one
-        console.log('[session] Cached scene had incomplete background, using fallback');
-        restoreSceneSnapshot({
-          ...cached.sceneSnapshot,
-          background: { type: 'image', value: '/assets/backgrounds/default.png' },
-        });
-      } else {
-        restoreSceneSnapshot(cached.sceneSnapshot);
-      }
+      restoreSceneSnapshot(withSettledBackground(cached.sceneSnapshot));
       setIsLoadingWelcome(false);
 
-      // Restore agent client state
-      if (useMockData && cached.mockSnapshot) {
-        restoreMockAgentSnapshot(cached.mockSnapshot);
-      } else if (cached.agentSessionId) {
-        agentClientRef.current.restoreSession(cached.agentSessionId, cached.agentSequenceId);
-      }
+      agentBackend.restoreSnapshot(cached.agentSnapshot);
       sessionInitializedRef.current = cached.sessionInitialized;
       return;
     }
 
+    // Nothing in memory — look for a conversation saved before a reload
+    const persisted = loadSession(sessionScope, customer.id);
+
+    if (persisted) {
+      console.log('[session] Resuming saved conversation for', customer.id, `(${persisted.messages.length} messages)`);
+      setMessages(persisted.messages);
+      setSuggestedActions(persisted.suggestedActions);
+      restoreSceneSnapshot(persisted.sceneSnapshot);
+      setIsLoadingWelcome(false);
+
+      const sessionCtx = buildSessionContext(customer, campaign ?? undefined, loadSavedLists(savedListsOwnerFor(customer)));
+      if (persisted.agentSession && (!agentBackend.remote || canResumeLiveSession(persisted))) {
+        agentBackend.restoreSnapshot(persisted.agentSession);
+        sessionInitializedRef.current = true;
+      } else {
+        // The old agent session has timed out — open a new one and brief it on
+        // the prior transcript with the customer's next message instead of a welcome.
+        console.log('[session] Saved agent session expired — starting a new one seeded with the transcript');
+        priorSummaryRef.current = joinAgentContext(
+          buildWelcomeMessage(sessionCtx, '[SESSION CONTEXT]'),
+          summarizeTranscript(persisted.messages, persisted.directiveHistory),
+        );
+        sessionInitializedRef.current = false;
+        const opening = agentBackend.initSession(sessionCtx).then(() => {
+          sessionInitializedRef.current = true;
+        }, (err) => {
+          console.warn('[session] Replacement session init failed (will retry on first message):', err);
+        }).finally(() => {
+          if (sessionOpeningRef.current === opening) sessionOpeningRef.current = null;
+        });
+        sessionOpeningRef.current = opening;
+      }
+      return;
+    }
+
     // ── No cache — fresh session ──
     // Guard: if a welcome is already in-flight for this persona (effect re-fired due
     // to batched state updates during load), don't send a second one.
@@ -542,13 +791,8 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       return;
     }
 
-    const sessionCtx = buildSessionContext(customer, campaign ?? undefined);
-
-    if (useMockData) {
-      setMockCustomerContext(sessionCtx);
-    } else {
-      sessionInitializedRef.current = false;
-    }
+    const sessionCtx = buildSessionContext(customer, campaign ?? undefined, loadSavedLists(savedListsOwnerFor(customer)));
+    sessionInitializedRef.current = false;
 
     // Clear conversation, scene state, and trigger welcome
     resetScene();
@@ -562,13 +806,11 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     const timer = setTimeout(async () => {
       try {
         // Await session init so profile variables are available to the agent
-        if (!useMockData) {
-          try {
-            await agentClientRef.current.initSession(sessionCtx);
-            sessionInitializedRef.current = true;
-          } catch (err) {
-            console.error('Failed to init session:', err);
-          }
+        try {
+          await agentBackend.initSession(sessionCtx);
+          sessionInitializedRef.current = true;
+        } catch (err) {
+          console.error('Failed to init session:', err);
         }
 
         // Appended-tier customers: session is initialized with 3P signals
@@ -590,7 +832,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
         // WelcomeLoader stays visible throughout — same loading experience as
         // authenticated users — then the default chat view appears when ready.
         if (sessionCtx.identityTier === 'known' && !isAuthenticated) {
-          await getAgentResponse(welcomeMsg, agentClientRef.current, sessionInitializedRef).catch(err => {
+          await getAgentResponse(welcomeMsg, agentBackend, sessionInitializedRef, sessionOpeningRef).catch(err => {
             console.error('[welcome] Background identity resolution failed:', err);
           });
           setBackground({ type: 'image', value: '/assets/backgrounds/default.png' });
@@ -602,7 +844,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
           return;
         }
 
-        const response = await getAgentResponse(welcomeMsg, agentClientRef.current, sessionInitializedRef);
+        const response = await getAgentResponse(welcomeMsg, agentBackend, sessionInitializedRef, sessionOpeningRef);
 
         // The real Agentforce agent may return CHANGE_SCENE, SHOW_PRODUCTS,
         // or even plain text with no uiDirective on the first message. Since we
@@ -636,12 +878,14 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
           };
         }
 
+        const welcomeDirectives = listDirectives(response);
         const agentMessage: AgentMessage = {
           id: uuidv4(),
           role: 'agent',
           content: response.message,
           timestamp: new Date(),
           uiDirective: response.uiDirective,
+          uiDirectives: welcomeDirectives,
         };
         // Prepend welcome message — preserve any user message the visitor
         // typed via the WelcomeLoader queue-ahead input while loading.
@@ -657,9 +901,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
         }
         setSuggestedActions(actions);
 
-        if (response.uiDirective) {
-          await processUIDirective(response.uiDirective);
-        }
+        recordDirectiveFailures(await processUIDirectives(welcomeDirectives));
       } catch (error) {
         console.error('Welcome failed:', error);
       } finally {
@@ -671,6 +913,73 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     return () => clearTimeout(timer);
   }, [customer, selectedPersonaId, isAuthenticated, isResolving]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  const directiveHandlers = useMemo<DirectiveHandlers>(() => ({
+    ...cartHandlers,
+    // Handle identity capture: upgrade anonymous → known without resetting conversation
+    IDENTIFY_CUSTOMER: async (directive) => {
+      const email = directive.payload?.customerEmail;
+      if (!email) return { status: 'skipped' };
+      console.log('[conversation] IDENTIFY_CUSTOMER directive received for:', email);
+      const success = await identifyByEmail(email);
+      if (!success) return { status: 'failed', error: `Could not identify ${email}` };
+      showCapture({ type: 'contact_created', label: 'New Contact Created' });
+    },
+  }), [cartHandlers, identifyByEmail, showCapture]);
+
+  /** Queue a run's failed steps for the agent. Cart actions report through `[CART UPDATE]` instead. */
+  const recordDirectiveFailures = useCallback(({ failed }: DirectiveSequenceResult) => {
+    const unreported = failed.filter((step) => !(step.action in cartHandlers));
+    if (!unreported.length) return;
+    console.warn('[conversation] Directives failed:', unreported.map((step) => `${step.action}: ${step.error}`).join('; '));
+    directiveFailuresRef.current.push(...unreported);
+  }, [cartHandlers]);
+
+  const takeDirectiveFailures = useCallback(() => {
+    const failed = directiveFailuresRef.current;
+    directiveFailuresRef.current = [];
+    return buildDirectiveContext(failed);
+  }, []);
+
+  /** Hand the replacement-session briefing to exactly one outgoing message. */
+  const takePriorSummary = useCallback(() => {
+    const summary = priorSummaryRef.current;
+    priorSummaryRef.current = undefined;
+    return summary;
+  }, []);
+
+  const comparisonContext = useCallback(
+    () => buildComparisonContext(getSceneSnapshot().comparisonProducts, customer?.beautyProfile),
+    [getSceneSnapshot, customer?.beautyProfile],
+  );
+
+  /** Turn an agent directive into what the scene renders: welcome downgraded, routine filled in. */
+  const prepareDirective = useCallback(
+    (directive: UIDirective) =>
+      completeRoutine(downgradeWelcome(directive), customer, conversationCatalog(messagesRef.current)),
+    [customer],
+  );
+
+  /**
+   * Runs a turn's directives: those the stream delivers early start right away,
+   * in order, and `finish` runs whatever the final response adds on top.
+   */
+  const createDirectiveRunner = useCallback(() => {
+    const delivered: UIDirective[] = [];
+    let running: Promise<unknown> = Promise.resolve();
+    return {
+      onDirective: (streamed: UIDirective) => {
+        const directive = prepareDirective(streamed);
+        delivered.push(directive);
+        running = running.then(() => processUIDirectives([directive], directiveHandlers).then(recordDirectiveFailures));
+      },
+      finish: async (directives: UIDirective[]) => {
+        await running;
+        const rest = withoutDelivered(directives, delivered);
+        if (rest.length) recordDirectiveFailures(await processUIDirectives(rest, directiveHandlers));
+      },
+    };
+  }, [processUIDirectives, directiveHandlers, prepareDirective, recordDirectiveFailures]);
+
   const sendMessage = useCallback(async (content: string) => {
     const userMessage: AgentMessage = {
       id: uuidv4(),
@@ -686,23 +995,17 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     const agentMsgId = uuidv4();
 
     try {
-      // ── Streaming path (real Agentforce only) ──────────────────
-      // Text chunks arrive before the full response. We display them
-      // progressively, stopping once JSON directive content begins.
-      // When the stream completes, we replace the placeholder with the
-      // fully-parsed response (clean text + uiDirective).
+      // ── Streaming path ─────────────────────────────────────────
+      // Prose chunks arrive before the full response and are displayed
+      // progressively; directive JSON never reaches onChunk, and each
+      // directive runs as soon as it closes. When the stream completes, we
+      // replace the placeholder with the fully-parsed response. Backends
+      // that answer in one piece never call onChunk.
       let streamingContent = '';
-      let jsonStarted = false;
+      const runner = createDirectiveRunner();
 
       const response = await getAgentResponseStreaming(content, (chunk: string) => {
-        if (jsonStarted) return;
         streamingContent += chunk;
-        // Safety: stop streaming to UI if JSON slips through
-        const braceIdx = streamingContent.indexOf('{');
-        if (braceIdx !== -1) {
-          jsonStarted = true;
-          streamingContent = streamingContent.slice(0, braceIdx).trim();
-        }
         if (!streamingContent.trim()) return;
         // First chunk: switch from typing indicator to streaming message
         setIsAgentTyping(false);
@@ -722,17 +1025,9 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
           updated[idx] = { ...updated[idx], content: streamingContent };
           return updated;
         });
-      }, agentClientRef.current, sessionInitializedRef);
-
-      // If the agent returns a WELCOME_SCENE during a normal conversation
-      // (user typed a message), downgrade it to CHANGE_SCENE so products
-      // and background still render — just without the welcome overlay.
-      if (response.uiDirective?.action === 'WELCOME_SCENE') {
-        response.uiDirective = {
-          ...response.uiDirective,
-          action: (response.uiDirective.payload?.products?.length ? 'SHOW_PRODUCTS' : 'CHANGE_SCENE') as UIAction,
-        };
-      }
+      }, agentBackend, sessionInitializedRef, sessionOpeningRef, joinAgentContext(takePriorSummary(), buildCartContext(drainCartResults()), takeDirectiveFailures(), comparisonContext()), runner.onDirective);
+
+      const directives = listDirectives(response).map(prepareDirective);
 
       // Replace streaming placeholder with the final parsed response
       const agentMessage: AgentMessage = {
@@ -740,7 +1035,8 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
         role: 'agent',
         content: response.message,
         timestamp: new Date(),
-        uiDirective: response.uiDirective,
+        uiDirective: directives[0],
+        uiDirectives: directives,
         isStreaming: false,
       };
       setMessages((prev) => {
@@ -753,28 +1049,19 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       setSuggestedActions(response.suggestedActions || []);
       setIsAgentTyping(false);
 
-      if (response.uiDirective) {
-        // Handle identity capture: upgrade anonymous → known without resetting conversation
-        if (response.uiDirective.action === 'IDENTIFY_CUSTOMER' && response.uiDirective.payload?.customerEmail) {
-          const email = response.uiDirective.payload.customerEmail;
-          console.log('[conversation] IDENTIFY_CUSTOMER directive received for:', email);
-          const success = await identifyByEmail(email);
-          if (success) {
-            showCapture({ type: 'contact_created', label: 'New Contact Created' });
-          }
-        } else {
-          await processUIDirective(response.uiDirective);
-        }
-
+      await runner.finish(directives);
+      if (directives.length) {
         // Show toast notifications for any background captures.
         // The agent creates the actual Salesforce records via Create_Meaningful_Event
-        // flow action — we only surface the toast UI here, no client-side writes.
-        // Dedupe by type to avoid multiple toasts for the same capture detected
-        // through different detection paths in client.ts.
-        const captures = response.uiDirective.payload?.captures;
-        if (captures?.length) {
+        // flow action — we only mirror structured captures into the local profile
+        // and surface the toast UI here, no client-side writes.
+        // Dedupe toasts by type so several captures in one turn show once.
+        const captures = directives.flatMap((d) => d.payload?.captures || []);
+        if (captures.length) {
           const shown = new Set<string>();
           for (const c of captures) {
+            if (c.event) addMeaningfulEvent(c.event);
+            if (c.profileField) setCapturedProfileField(c.profileField);
             if (!shown.has(c.type)) {
               showCapture(c);
               shown.add(c.type);
@@ -846,7 +1133,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       });
       setIsAgentTyping(false);
     }
-  }, [processUIDirective, identifyByEmail, showCapture, customer]);
+  }, [createDirectiveRunner, prepareDirective, drainCartResults, takeDirectiveFailures, takePriorSummary, comparisonContext, showCapture, addMeaningfulEvent, setCapturedProfileField, customer, agentBackend]);
 
   // Like sendMessage but doesn't add the user message to the visible chat —
   // used for background signals like the skin analysis summary handoff.
@@ -856,12 +1143,9 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
     const agentMsgId = uuidv4();
     try {
       let streamingContent = '';
-      let jsonStarted = false;
+      const runner = createDirectiveRunner();
       const response = await getAgentResponseStreaming(content, (chunk: string) => {
-        if (jsonStarted) return;
         streamingContent += chunk;
-        const braceIdx = streamingContent.indexOf('{');
-        if (braceIdx !== -1) { jsonStarted = true; streamingContent = streamingContent.slice(0, braceIdx); }
         setMessages((prev) => {
           const idx = prev.findIndex(m => m.id === agentMsgId);
           if (idx === -1) return [...prev, { id: agentMsgId, role: 'agent' as const, content: streamingContent, timestamp: new Date(), isStreaming: true }];
@@ -869,11 +1153,9 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
           updated[idx] = { ...updated[idx], content: streamingContent };
           return updated;
         });
-      }, agentClientRef.current, sessionInitializedRef);
-      if (response.uiDirective?.action === 'WELCOME_SCENE') {
-        response.uiDirective = { ...response.uiDirective, action: (response.uiDirective.payload?.products?.length ? 'SHOW_PRODUCTS' : 'CHANGE_SCENE') as UIAction };
-      }
-      const agentMessage: AgentMessage = { id: agentMsgId, role: 'agent', content: response.message, timestamp: new Date(), uiDirective: response.uiDirective, isStreaming: false };
+      }, agentBackend, sessionInitializedRef, sessionOpeningRef, joinAgentContext(takePriorSummary(), buildCartContext(drainCartResults()), takeDirectiveFailures(), comparisonContext()), runner.onDirective);
+      const directives = listDirectives(response).map(prepareDirective);
+      const agentMessage: AgentMessage = { id: agentMsgId, role: 'agent', content: response.message, timestamp: new Date(), uiDirective: directives[0], uiDirectives: directives, isStreaming: false };
       setMessages((prev) => {
         const idx = prev.findIndex(m => m.id === agentMsgId);
         if (idx === -1) return [...prev, agentMessage];
@@ -881,7 +1163,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       });
       setSuggestedActions(response.suggestedActions || []);
       setIsAgentTyping(false);
-      if (response.uiDirective) await processUIDirective(response.uiDirective);
+      await runner.finish(directives);
     } catch (error) {
       console.error('Failed to get agent response:', error);
       setMessages((prev) => {
@@ -892,7 +1174,7 @@ export const ConversationProvider: React.FC<{ children: React.ReactNode; agentId
       });
       setIsAgentTyping(false);
     }
-  }, [processUIDirective]);
+  }, [createDirectiveRunner, prepareDirective, drainCartResults, takeDirectiveFailures, takePriorSummary, comparisonContext, agentBackend]);
 
   const clearConversation = useCallback(() => {
     setMessages([]);
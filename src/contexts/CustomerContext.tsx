@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
-import type { CustomerProfile } from '@/types/customer';
+import type { CustomerProfile, MeaningfulEvent } from '@/types/customer';
+import type { CapturedProfileUpdate } from '@/types/agent';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import type { Subscription } from '@/types/subscription';
 import { resolveMerkuryIdentity } from '@/services/merkury/mockTag';
 import { getPersonaById, PERSONAS } from '@/mocks/customerPersonas';
 import { getDataCloudService } from '@/services/datacloud';
@@ -23,8 +26,18 @@ interface CustomerContextValue {
   registerContact: (id: string) => Promise<void>;
   createGuestContact: (data: { email: string; firstName?: string; lastName?: string; merkuryId?: string }) => Promise<{ contactId: string; accountId: string } | null>;
   refreshProfile: () => Promise<void>;
+  /** Optimistically lower the loyalty balance after a redemption is written. */
+  deductLoyaltyPoints: (points: number) => void;
+  /** Optimistically add a finished skin analysis to the customer's history. */
+  addSkinAnalysis: (analysis: SkinAnalysisResult) => void;
+  /** Optimistically add a subscription, or replace the one with the same id. */
+  upsertSubscription: (subscription: Subscription) => void;
+  /** Optimistically add an event the agent just captured. */
+  addMeaningfulEvent: (event: MeaningfulEvent) => void;
+  /** Optimistically set a profile field the agent just captured. */
+  setCapturedProfileField: (update: CapturedProfileUpdate) => void;
   resetPersonaSession: (personaId: string) => void;
-  /** @internal Used by ConversationContext to detect refresh vs switch. */
+  /** @internal Used by ConversationContext and CartContext to detect refresh vs switch. */
   _isRefreshRef: React.MutableRefObject<boolean>;
   /** @internal Register callback for session reset notifications. */
   _onSessionReset: (cb: (personaId: string) => void) => () => void;
@@ -325,6 +338,8 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           agentCapturedProfile: fresh.agentCapturedProfile ?? prev.agentCapturedProfile,
           beautyProfile: fresh.beautyProfile ?? prev.beautyProfile,
           loyalty: fresh.loyalty ?? prev.loyalty,
+          skinAnalyses: fresh.skinAnalyses ?? prev.skinAnalyses,
+          subscriptions: fresh.subscriptions ?? prev.subscriptions,
         } : prev);
         // Clear flag after React processes the state update
         setTimeout(() => { isRefreshRef.current = false; }, 0);
@@ -343,6 +358,57 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   }, [selectedPersonaId, customer]);
 
+  const deductLoyaltyPoints = useCallback((points: number) => {
+    isRefreshRef.current = true;
+    setCustomer(prev => prev?.loyalty ? {
+      ...prev,
+      loyalty: { ...prev.loyalty, pointsBalance: Math.max(0, prev.loyalty.pointsBalance - points) },
+    } : prev);
+    setTimeout(() => { isRefreshRef.current = false; }, 0);
+  }, []);
+
+  const addSkinAnalysis = useCallback((analysis: SkinAnalysisResult) => {
+    isRefreshRef.current = true;
+    setCustomer(prev => prev ? {
+      ...prev,
+      skinAnalyses: [analysis, ...(prev.skinAnalyses ?? [])],
+    } : prev);
+    setTimeout(() => { isRefreshRef.current = false; }, 0);
+  }, []);
+
+  const upsertSubscription = useCallback((subscription: Subscription) => {
+    isRefreshRef.current = true;
+    setCustomer(prev => {
+      if (!prev) return prev;
+      const current = prev.subscriptions ?? [];
+      return {
+        ...prev,
+        subscriptions: current.some((s) => s.id === subscription.id)
+          ? current.map((s) => (s.id === subscription.id ? subscription : s))
+          : [subscription, ...current],
+      };
+    });
+    setTimeout(() => { isRefreshRef.current = false; }, 0);
+  }, []);
+
+  const addMeaningfulEvent = useCallback((event: MeaningfulEvent) => {
+    isRefreshRef.current = true;
+    setCustomer(prev => prev ? {
+      ...prev,
+      meaningfulEvents: [event, ...(prev.meaningfulEvents ?? [])],
+    } : prev);
+    setTimeout(() => { isRefreshRef.current = false; }, 0);
+  }, []);
+
+  const setCapturedProfileField = useCallback(({ name, field }: CapturedProfileUpdate) => {
+    isRefreshRef.current = true;
+    setCustomer(prev => prev ? {
+      ...prev,
+      agentCapturedProfile: { ...prev.agentCapturedProfile, [name]: field },
+    } : prev);
+    setTimeout(() => { isRefreshRef.current = false; }, 0);
+  }, []);
+
   /** Clear a persona's cached session so their next switch re-fires welcome. */
   const resetPersonaSession = useCallback((personaId: string) => {
     for (const cb of sessionResetCallbacksRef.current) cb(personaId);
@@ -464,7 +530,7 @@ export const CustomerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     <CustomerContext.Provider value={{
       customer, selectedPersonaId, isAuthenticated, isLoading, isResolving, error,
       selectPersona, signIn, signOut, identifyByEmail, registerContact, createGuestContact,
-      refreshProfile, resetPersonaSession,
+      refreshProfile, deductLoyaltyPoints, addSkinAnalysis, upsertSubscription, addMeaningfulEvent, setCapturedProfileField, resetPersonaSession,
       _isRefreshRef: isRefreshRef, _onSessionReset: onSessionReset,
     }}>
       {children}
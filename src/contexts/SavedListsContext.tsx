@@ -0,0 +1,121 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import type { Product } from '@/types/product';
+import { useCustomer } from './CustomerContext';
+import {
+  GUEST_LISTS_OWNER,
+  addToList,
+  createList as newList,
+  loadSavedLists,
+  mergeSavedLists,
+  removeFromList as removeItemFromList,
+  removeSavedLists,
+  saveSavedLists,
+  savedListsOwnerFor,
+} from '@/services/savedLists';
+import type { SavedList, SavedListKind } from '@/services/savedLists';
+
+interface SavedListsContextValue {
+  lists: SavedList[];
+  /** Wishlist and gift lists holding the product (not "saved for later"). */
+  listsWith: (productId: string) => SavedList[];
+  /** Save to a list, or to the wishlist (created on first use) when no list is given. */
+  saveToList: (product: Product, listId?: string) => void;
+  removeFromList: (listId: string, productId: string) => void;
+  /** Move a product out of the bag's way — the caller removes the bag line. */
+  saveForLater: (product: Product) => void;
+  createList: (name: string, kind: SavedListKind, details?: { recipient?: string; occasion?: string }) => SavedList;
+  deleteList: (listId: string) => void;
+  /** Replace every list at once, e.g. after refreshing alert baselines. */
+  replaceLists: (update: (prev: SavedList[]) => SavedList[]) => void;
+}
+
+const SavedListsContext = createContext<SavedListsContextValue | null>(null);
+
+/** Add to the first list of a kind, creating it if the customer has none. */
+function saveToKind(lists: SavedList[], kind: SavedListKind, product: Product): SavedList[] {
+  const target = lists.find((l) => l.kind === kind);
+  if (!target) return [...lists, addToList(newList('', kind), product)];
+  return lists.map((l) => (l === target ? addToList(l, product) : l));
+}
+
+/**
+ * Wishlists, gift lists and saved-for-later, persisted to localStorage per
+ * customer like the bag. Identifying mid-session folds the guest's lists in.
+ */
+export const SavedListsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { customer, _isRefreshRef } = useCustomer();
+  const owner = savedListsOwnerFor(customer);
+
+  const [state, setState] = useState(() => ({ owner, lists: loadSavedLists(owner) }));
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const lists = state.lists;
+
+  useEffect(() => {
+    const previous = stateRef.current;
+    if (previous.owner === owner) return;
+    let next = loadSavedLists(owner);
+    if (previous.owner === GUEST_LISTS_OWNER && _isRefreshRef.current) {
+      next = mergeSavedLists(next, previous.lists);
+      removeSavedLists(GUEST_LISTS_OWNER);
+    }
+    setState({ owner, lists: next });
+  }, [owner, _isRefreshRef]);
+
+  useEffect(() => {
+    saveSavedLists(state.owner, state.lists);
+  }, [state]);
+
+  const replaceLists = useCallback((update: (prev: SavedList[]) => SavedList[]) => {
+    setState((prev) => {
+      const next = update(prev.lists);
+      return next === prev.lists ? prev : { ...prev, lists: next };
+    });
+  }, []);
+
+  const saveToList = useCallback((product: Product, listId?: string) => {
+    replaceLists((prev) => {
+      if (!listId) return saveToKind(prev, 'wishlist', product);
+      return prev.map((l) => (l.id === listId ? addToList(l, product) : l));
+    });
+  }, [replaceLists]);
+
+  const removeFromList = useCallback((listId: string, productId: string) => {
+    replaceLists((prev) => prev.map((l) => (l.id === listId ? removeItemFromList(l, productId) : l)));
+  }, [replaceLists]);
+
+  const saveForLater = useCallback((product: Product) => {
+    replaceLists((prev) => saveToKind(prev, 'saved_for_later', product));
+  }, [replaceLists]);
+
+  const createList = useCallback((name: string, kind: SavedListKind, details?: { recipient?: string; occasion?: string }) => {
+    const list = newList(name, kind, details);
+    replaceLists((prev) => [...prev, list]);
+    return list;
+  }, [replaceLists]);
+
+  const deleteList = useCallback((listId: string) => {
+    replaceLists((prev) => prev.filter((l) => l.id !== listId));
+  }, [replaceLists]);
+
+  const listsWith = useCallback(
+    (productId: string) => lists.filter((l) => l.kind !== 'saved_for_later' && l.items.some((i) => i.productId === productId)),
+    [lists],
+  );
+
+  return (
+    <SavedListsContext.Provider
+      value={{ lists, listsWith, saveToList, removeFromList, saveForLater, createList, deleteList, replaceLists }}
+    >
+      {children}
+    </SavedListsContext.Provider>
+  );
+};
+
+export const useSavedLists = (): SavedListsContextValue => {
+  const context = useContext(SavedListsContext);
+  if (!context) {
+    throw new Error('useSavedLists must be used within SavedListsProvider');
+  }
+  return context;
+};
@@ -1,8 +1,10 @@
 import React, { createContext, useContext, useReducer, useCallback, useRef } from 'react';
 import type { SceneState, SceneLayout, SceneSetting, SceneBackground, WelcomeData, AdvisorMode } from '@/types/scene';
 import type { Product } from '@/types/product';
-import type { UIDirective } from '@/types/agent';
+import type { UIAction, UIDirective, DirectiveOutcome, DirectiveSequenceResult, DirectiveStepResult } from '@/types/agent';
 import { useGenerativeBackground, type BackgroundOptions } from '@/hooks/useGenerativeBackground';
+import { routineProducts } from '@/services/routine';
+import { MAX_COMPARED_PRODUCTS } from '@/services/comparison';
 
 /** Build BackgroundOptions from a UIDirective's sceneContext payload.
  *  The agent may provide a rich `backgroundPrompt`, or it may provide separate
@@ -73,18 +75,30 @@ function inferSettingFromProducts(products: Product[]): SceneSetting {
 
 export type SceneSnapshot = SceneState;
 
+/**
+ * Overrides for actions the scene doesn't own (identity, cart, …). A handler
+ * that returns nothing is treated as a success.
+ */
+export type DirectiveHandler = (directive: UIDirective) => Promise<DirectiveOutcome | void> | DirectiveOutcome | void;
+export type DirectiveHandlers = Partial<Record<UIAction, DirectiveHandler>>;
+
 interface SceneContextValue {
   scene: SceneState;
   transitionTo: (layout: SceneLayout, products?: Product[]) => void;
   setBackground: (background: SceneBackground) => void;
   setSetting: (setting: SceneSetting) => void;
-  processUIDirective: (directive: UIDirective) => Promise<void>;
+  processUIDirective: (directive: UIDirective) => Promise<DirectiveOutcome>;
+  /** Run a turn's directives in order, awaiting each (including background generation). */
+  processUIDirectives: (directives: UIDirective[], handlers?: DirectiveHandlers) => Promise<DirectiveSequenceResult>;
   openCheckout: () => void;
   closeCheckout: () => void;
   openSkinAnalysis: () => void;
   closeSkinAnalysis: () => void;
   openRetailerHandoff: (products?: Product[]) => void;
   closeRetailerHandoff: () => void;
+  /** Open the side-by-side comparison; needs at least two products. */
+  openComparison: (products: Product[]) => void;
+  closeComparison: () => void;
   setAdvisorMode: (mode: AdvisorMode) => void;
   dismissWelcome: () => void;
   resetScene: () => void;
@@ -120,6 +134,8 @@ type SceneAction =
   | { type: 'CLOSE_SKIN_ANALYSIS' }
   | { type: 'OPEN_RETAILER_HANDOFF' }
   | { type: 'CLOSE_RETAILER_HANDOFF' }
+  | { type: 'OPEN_COMPARISON'; products: Product[] }
+  | { type: 'CLOSE_COMPARISON' }
   | { type: 'SET_ADVISOR_MODE'; mode: AdvisorMode }
   | { type: 'SHOW_WELCOME'; welcomeData: WelcomeData }
   | { type: 'DISMISS_WELCOME' }
@@ -161,6 +177,10 @@ function sceneReducer(state: SceneState, action: SceneAction): SceneState {
       return { ...state, retailerHandoffActive: true, chatPosition: 'minimized' };
     case 'CLOSE_RETAILER_HANDOFF':
       return { ...state, retailerHandoffActive: false, chatPosition: 'bottom' };
+    case 'OPEN_COMPARISON':
+      return { ...state, comparisonProducts: action.products };
+    case 'CLOSE_COMPARISON':
+      return { ...state, comparisonProducts: undefined };
     case 'SET_ADVISOR_MODE':
       return { ...state, advisorMode: action.mode };
     case 'SHOW_WELCOME':
@@ -196,8 +216,10 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     dispatch({ type: 'SET_SETTING', setting });
   }, []);
 
-  const processUIDirective = useCallback(async (directive: UIDirective) => {
+  const processUIDirective = useCallback(async (directive: UIDirective): Promise<DirectiveOutcome> => {
     const { action, payload } = directive;
+    // Set when an awaited step (background generation) fails after its fallback was applied
+    let failure: string | undefined;
 
     switch (action) {
       case 'SHOW_PRODUCT':
@@ -261,6 +283,7 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             });
           } catch (error) {
             console.error('Background generation failed:', error);
+            failure = `Background generation failed: ${error instanceof Error ? error.message : String(error)}`;
             dispatch({
               type: 'SET_BACKGROUND',
               background: {
@@ -324,6 +347,7 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             });
           } catch (error) {
             console.error('Background generation failed:', error);
+            failure = `Background generation failed: ${error instanceof Error ? error.message : String(error)}`;
             dispatch({
               type: 'SET_BACKGROUND',
               background: {
@@ -370,6 +394,14 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         break;
       }
 
+      case 'SHOW_ROUTINE':
+        // The routine card renders in the chat; keep its products in scene state
+        // so "where to buy" and follow-up cart actions resolve against them.
+        if (payload.routine) {
+          dispatch({ type: 'SET_PRODUCTS', products: routineProducts(payload.routine) });
+        }
+        break;
+
       case 'RETAILER_HANDOFF':
         // If the agent passes products (cold-start "where to buy" with no prior recommendation),
         // set them into scene state so the retailer panel has something to resolve against.
@@ -383,6 +415,18 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         dispatch({ type: 'CLOSE_CHECKOUT' });
         break;
 
+      case 'COMPARE_PRODUCTS': {
+        // Repeats and products past the table's width are dropped
+        const products = (payload.products || [])
+          .filter((p, i, all) => all.findIndex((q) => q.id === p.id) === i)
+          .slice(0, MAX_COMPARED_PRODUCTS);
+        if (products.length < 2) {
+          return { status: 'failed', error: `COMPARE_PRODUCTS needs at least two distinct products, got ${products.length}` };
+        }
+        dispatch({ type: 'OPEN_COMPARISON', products });
+        break;
+      }
+
       case 'WELCOME_SCENE': {
         // Show welcome overlay
         dispatch({
@@ -415,6 +459,7 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             });
           } catch (error) {
             console.error('Welcome background generation failed:', error);
+            failure = `Welcome background generation failed: ${error instanceof Error ? error.message : String(error)}`;
           }
         } else {
           // Use static default background (e.g. for unknown/appended customers)
@@ -429,9 +474,48 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       case 'RESET_SCENE':
         dispatch({ type: 'RESET' });
         break;
+
+      default:
+        // IDENTIFY_CUSTOMER, CAPTURE_ONLY etc. are handled outside the scene
+        return { status: 'skipped' };
     }
+
+    return failure ? { status: 'failed', error: failure } : { status: 'ok' };
   }, [generateBackground]);
 
+  const processUIDirectives = useCallback(async (
+    directives: UIDirective[],
+    handlers: DirectiveHandlers = {},
+  ): Promise<DirectiveSequenceResult> => {
+    const steps: DirectiveStepResult[] = [];
+
+    // Sequential on purpose: a CHANGE_SCENE must finish generating before the
+    // next step renders over it, and later steps may depend on earlier state.
+    for (const [index, directive] of directives.entries()) {
+      try {
+        const handler = handlers[directive.action];
+        const outcome = handler
+          ? (await handler(directive)) ?? { status: 'ok' as const }
+          : await processUIDirective(directive);
+        steps.push({ index, action: directive.action, ...outcome });
+      } catch (error) {
+        console.error(`[scene] Directive ${index} (${directive.action}) failed:`, error);
+        steps.push({
+          index,
+          action: directive.action,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const failed = steps.filter((s) => s.status === 'failed');
+    if (failed.length) {
+      console.warn('[scene] Directive sequence finished with failures:', failed);
+    }
+    return { steps, failed };
+  }, [processUIDirective]);
+
   const openCheckout = useCallback(() => {
     dispatch({ type: 'OPEN_CHECKOUT' });
   }, []);
@@ -457,6 +541,14 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     dispatch({ type: 'CLOSE_RETAILER_HANDOFF' });
   }, []);
 
+  const openComparison = useCallback((products: Product[]) => {
+    if (products.length >= 2) dispatch({ type: 'OPEN_COMPARISON', products });
+  }, []);
+
+  const closeComparison = useCallback(() => {
+    dispatch({ type: 'CLOSE_COMPARISON' });
+  }, []);
+
   const setAdvisorMode = useCallback((mode: AdvisorMode) => {
     dispatch({ type: 'SET_ADVISOR_MODE', mode });
   }, []);
@@ -485,12 +577,15 @@ export const SceneProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         setBackground,
         setSetting,
         processUIDirective,
+        processUIDirectives,
         openCheckout,
         closeCheckout,
         openSkinAnalysis,
         closeSkinAnalysis,
         openRetailerHandoff,
         closeRetailerHandoff,
+        openComparison,
+        closeComparison,
         setAdvisorMode,
         dismissWelcome,
         resetScene,
@@ -2,9 +2,11 @@ import React, { createContext, useContext, useState, useCallback, useEffect, use
 import { useNavigate, useLocation } from 'react-router-dom';
 import type { Product, ProductCategory } from '@/types/product';
 import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { PriceBreakdown } from '@/services/pricing';
 import { isPersonalizationConfigured, notifyNavigation } from '@/services/personalization';
+import { toSearchParams } from '@/services/search';
 
-export type StoreView = 'home' | 'category' | 'product' | 'cart' | 'checkout' | 'order-confirmation' | 'account' | 'appointment';
+export type StoreView = 'home' | 'category' | 'search' | 'product' | 'cart' | 'checkout' | 'order-confirmation' | 'account' | 'appointment' | 'lists';
 
 export interface OrderResult {
   success: boolean;
@@ -15,6 +17,10 @@ export interface OrderResult {
   estimatedDelivery: string;
   shippingStatus: string;
   pointsEarned: number;
+  /** Price breakdown the order was charged at. */
+  pricing?: PriceBreakdown;
+  /** What Commerce charged, when it priced the order instead of the local engine. */
+  chargedTotal?: number;
 }
 
 interface StoreContextValue {
@@ -32,6 +38,10 @@ interface StoreContextValue {
   navigateToOrderConfirmation: (orderId: string, result?: OrderResult) => void;
   navigateToAccount: () => void;
   navigateToAppointment: () => void;
+  /** Saved lists, or a list someone shared when given its share token. */
+  navigateToLists: (sharedToken?: string) => void;
+  /** Open the search results page for a query; filters start cleared. */
+  navigateToSearch: (query: string) => void;
   setSearchQuery: (query: string) => void;
   goBack: () => void;
 }
@@ -45,6 +55,8 @@ const STATIC_ROUTES: Record<string, StoreView> = {
   '/order-confirmation': 'order-confirmation',
   '/account': 'account',
   '/appointment': 'appointment',
+  '/search': 'search',
+  '/lists': 'lists',
 };
 
 export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -131,6 +143,14 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     navigate('/appointment');
   }, [navigate]);
 
+  const navigateToLists = useCallback((sharedToken?: string) => {
+    navigate(sharedToken ? `/lists?shared=${encodeURIComponent(sharedToken)}` : '/lists');
+  }, [navigate]);
+
+  const navigateToSearch = useCallback((query: string) => {
+    navigate(`/search?${toSearchParams({ query: query.trim() || undefined })}`);
+  }, [navigate]);
+
   const goBack = useCallback(() => {
     navigate(-1);
   }, [navigate]);
@@ -169,6 +189,8 @@ export const StoreProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         navigateToOrderConfirmation,
         navigateToAccount,
         navigateToAppointment,
+        navigateToLists,
+        navigateToSearch,
         setSearchQuery,
         goBack,
       }}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getCaptureMetrics, subscribeCaptureMetrics } from '@/services/agentforce';
+import type { CaptureMetrics } from '@/services/agentforce';
+
+/** Live per-source counts of agent captures since page load. */
+export function useCaptureMetrics(): CaptureMetrics {
+  return useSyncExternalStore(subscribeCaptureMetrics, getCaptureMetrics);
+}
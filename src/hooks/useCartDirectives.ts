@@ -0,0 +1,309 @@
+import { useCallback, useMemo, useRef } from 'react';
+import type { CartDirectiveItem, DirectiveOutcome, UIDirective } from '@/types/agent';
+import type { Product } from '@/types/product';
+import type { DirectiveHandlers } from '@/contexts/SceneContext';
+import { useCart } from '@/contexts/CartContext';
+import type { CartItem } from '@/contexts/CartContext';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { useScene } from '@/contexts/SceneContext';
+import { useActivityToast } from '@/components/ActivityToast';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { findPromotion, SUBSCRIBE_AND_SAVE } from '@/services/pricing';
+import { isSubscribable, nearestFrequency } from '@/services/subscriptions';
+import { useSubscriptions } from './useSubscriptions';
+import {
+  bestRedemption,
+  describeRedemption,
+  redemptionForPoints,
+  redemptionForReward,
+  validateRedemption,
+} from '@/services/loyalty';
+import type { LoyaltyRedemption } from '@/services/loyalty';
+
+/** What happened when the agent asked to change the bag — reported back on the next turn. */
+export interface CartActionResult {
+  action: 'ADD_TO_CART' | 'REMOVE_FROM_CART' | 'APPLY_PROMO' | 'OFFER_LOYALTY_REDEMPTION' | 'PROPOSE_SUBSCRIPTION';
+  /** `offered` means the customer still has to accept in the UI. */
+  status: 'applied' | 'partial' | 'offered' | 'rejected';
+  summary: string;
+}
+
+/**
+ * Resolve an agent-supplied product reference. The agent may send a local
+ * catalog ID, a Salesforce Product2 ID, or a product name, and the product
+ * may only exist in the directive payload or the products currently on screen.
+ */
+function resolveProduct(ref: string, candidates: Product[]): Product | undefined {
+  const needle = ref.trim().toLowerCase();
+  const matches = (p: Product) =>
+    p.id.toLowerCase() === needle ||
+    p.salesforceId?.toLowerCase() === needle ||
+    p.name.toLowerCase() === needle;
+  return candidates.find(matches) || MOCK_PRODUCTS.find(matches);
+}
+
+/**
+ * The bag after changing a line by `delta`, the way CartContext will. Kept in
+ * step so a remove later in the same turn sees what an add just put there.
+ */
+function adjustLine(items: CartItem[], product: Product, delta: number): CartItem[] {
+  const line = items.find((i) => i.product.id === product.id);
+  if (!line) return delta > 0 ? [...items, { product, quantity: delta }] : items;
+  const quantity = line.quantity + delta;
+  return quantity > 0
+    ? items.map((i) => (i === line ? { ...i, quantity } : i))
+    : items.filter((i) => i !== line);
+}
+
+function formatLines(lines: { product: Product; quantity: number }[]): string {
+  return lines.map((l) => `${l.quantity} × ${l.product.name}`).join(', ');
+}
+
+/**
+ * Directive handlers that route agent cart and loyalty actions into CartContext.
+ *
+ * Changes are applied optimistically and surfaced as an ActivityToast with an
+ * Undo that reverses exactly what the directive did. Results queue up until
+ * `drainResults` is called so ConversationContext can hand them to the agent
+ * with the customer's next message.
+ */
+export function useCartDirectives(): {
+  handlers: DirectiveHandlers;
+  drainResults: () => CartActionResult[];
+} {
+  const {
+    items, addItem, updateQuantity, removeItem, setItemSubscription, promoCode, applyPromo, removePromo, setLoyaltyRedemption,
+  } = useCart();
+  const { customer } = useCustomer();
+  const { canSubscribe, suggestFor, subscriptionFor } = useSubscriptions();
+  const { scene } = useScene();
+  const { showActivity } = useActivityToast();
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const promoRef = useRef(promoCode);
+  promoRef.current = promoCode;
+  const sceneProductsRef = useRef(scene.products);
+  sceneProductsRef.current = scene.products;
+  const loyaltyRef = useRef(customer?.loyalty);
+  loyaltyRef.current = customer?.loyalty;
+  const resultsRef = useRef<CartActionResult[]>([]);
+
+  const record = useCallback((result: CartActionResult): DirectiveOutcome => {
+    resultsRef.current.push(result);
+    return result.status === 'rejected' ? { status: 'failed', error: result.summary } : { status: 'ok' };
+  }, []);
+
+  const resolveAll = useCallback((directive: UIDirective) => {
+    const candidates = [...(directive.payload.products || []), ...sceneProductsRef.current];
+    const resolved: { product: Product; item: CartDirectiveItem }[] = [];
+    const unresolved: string[] = [];
+    for (const item of directive.payload.cartItems || []) {
+      const product = resolveProduct(item.productId, candidates);
+      if (product) resolved.push({ product, item });
+      else unresolved.push(item.productId);
+    }
+    return { resolved, unresolved };
+  }, []);
+
+  const handleAdd = useCallback((directive: UIDirective): DirectiveOutcome => {
+    const { resolved, unresolved } = resolveAll(directive);
+    const added: { product: Product; quantity: number }[] = [];
+    const problems = unresolved.map((id) => `"${id}" (not in catalog)`);
+
+    for (const { product, item } of resolved) {
+      if (!product.inStock) {
+        problems.push(`${product.name} (out of stock)`);
+        continue;
+      }
+      const quantity = item.quantity ?? 1;
+      addItem(product, quantity);
+      itemsRef.current = adjustLine(itemsRef.current, product, quantity);
+      added.push({ product, quantity });
+    }
+
+    if (added.length) {
+      showActivity({
+        type: 'cart_update',
+        label: `Added ${formatLines(added)}`,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            for (const { product, quantity } of added) {
+              const current = itemsRef.current.find((i) => i.product.id === product.id)?.quantity ?? 0;
+              updateQuantity(product.id, current - quantity);
+            }
+          },
+        },
+      });
+    }
+
+    const parts = [
+      added.length ? `Added ${formatLines(added)} to the bag.` : '',
+      problems.length ? `Could not add ${problems.join(', ')}.` : '',
+    ].filter(Boolean);
+    return record({
+      action: 'ADD_TO_CART',
+      status: !added.length ? 'rejected' : problems.length ? 'partial' : 'applied',
+      summary: parts.join(' ') || 'Nothing to add.',
+    });
+  }, [resolveAll, addItem, updateQuantity, showActivity, record]);
+
+  const handleRemove = useCallback((directive: UIDirective): DirectiveOutcome => {
+    const { resolved, unresolved } = resolveAll(directive);
+    const removed: { product: Product; quantity: number }[] = [];
+    const problems = unresolved.map((id) => `"${id}" (not in catalog)`);
+
+    for (const { product, item } of resolved) {
+      const line = itemsRef.current.find((i) => i.product.id === product.id);
+      if (!line) {
+        problems.push(`${product.name} (not in bag)`);
+        continue;
+      }
+      const quantity = Math.min(item.quantity ?? line.quantity, line.quantity);
+      if (quantity >= line.quantity) removeItem(product.id);
+      else updateQuantity(product.id, line.quantity - quantity);
+      itemsRef.current = adjustLine(itemsRef.current, product, -quantity);
+      removed.push({ product: line.product, quantity });
+    }
+
+    if (removed.length) {
+      showActivity({
+        type: 'cart_update',
+        label: `Removed ${formatLines(removed)}`,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            for (const { product, quantity } of removed) addItem(product, quantity);
+          },
+        },
+      });
+    }
+
+    const parts = [
+      removed.length ? `Removed ${formatLines(removed)} from the bag.` : '',
+      problems.length ? `Could not remove ${problems.join(', ')}.` : '',
+    ].filter(Boolean);
+    return record({
+      action: 'REMOVE_FROM_CART',
+      status: !removed.length ? 'rejected' : problems.length ? 'partial' : 'applied',
+      summary: parts.join(' ') || 'Nothing to remove.',
+    });
+  }, [resolveAll, addItem, removeItem, updateQuantity, showActivity, record]);
+
+  const handlePromo = useCallback((directive: UIDirective): DirectiveOutcome => {
+    const code = directive.payload.promoCode?.trim();
+    if (!code) {
+      return record({ action: 'APPLY_PROMO', status: 'rejected', summary: 'No promo code was provided.' });
+    }
+    const promo = findPromotion(code);
+    if (!promo) {
+      return record({ action: 'APPLY_PROMO', status: 'rejected', summary: `${code.toUpperCase()} is not a valid promo code.` });
+    }
+    const previous = promoRef.current;
+    applyPromo(promo.code);
+    showActivity({
+      type: 'cart_update',
+      label: `Promo ${promo.code} applied`,
+      action: {
+        label: 'Undo',
+        onClick: () => (previous ? applyPromo(previous) : removePromo()),
+      },
+    });
+    return record({
+      action: 'APPLY_PROMO',
+      status: 'applied',
+      summary: `Promo code ${promo.code} (${promo.label}) is attached to the bag${previous ? ` (replacing ${previous})` : ''}.`,
+    });
+  }, [applyPromo, removePromo, showActivity, record]);
+
+  // Offers are never applied silently — points are the customer's to spend,
+  // so the toast's action is what attaches the redemption to the bag.
+  const handleLoyaltyOffer = useCallback((directive: UIDirective): DirectiveOutcome => {
+    const loyalty = loyaltyRef.current;
+    const offer = directive.payload.loyaltyOffer || {};
+    let redemption: LoyaltyRedemption | null;
+    if (offer.rewardName) {
+      const reward = loyalty?.rewardsAvailable.find((r) => r.name.toLowerCase() === offer.rewardName!.toLowerCase());
+      redemption = reward ? redemptionForReward(reward) : null;
+    } else if (offer.points) {
+      redemption = redemptionForPoints(offer.points);
+    } else {
+      redemption = bestRedemption(loyalty);
+    }
+
+    const problem = !redemption
+      ? 'No matching reward is available on this account.'
+      : validateRedemption(loyalty, redemption, Infinity);
+    if (problem || !redemption) {
+      return record({ action: 'OFFER_LOYALTY_REDEMPTION', status: 'rejected', summary: problem || 'Nothing to offer.' });
+    }
+
+    const offered = redemption;
+    showActivity({
+      type: 'cart_update',
+      label: `Use ${describeRedemption(offered)}?`,
+      action: { label: 'Apply', onClick: () => setLoyaltyRedemption(offered) },
+    });
+    return record({
+      action: 'OFFER_LOYALTY_REDEMPTION',
+      status: 'offered',
+      summary: `Offered ${describeRedemption(offered)}; the customer can apply it from the notification or at checkout.`,
+    });
+  }, [showActivity, setLoyaltyRedemption, record]);
+
+  // Like points, a recurring charge needs the customer's say-so: the toast's
+  // action is what puts the subscribed line in the bag.
+  const handleSubscriptionOffer = useCallback((directive: UIDirective): DirectiveOutcome => {
+    const offer = directive.payload.subscriptionOffer;
+    const reject = (summary: string) => record({ action: 'PROPOSE_SUBSCRIPTION', status: 'rejected', summary });
+    if (!offer?.productId) return reject('No product was provided.');
+    if (!canSubscribe) return reject('Subscriptions need a signed-in account.');
+
+    const candidates = [...(directive.payload.products || []), ...sceneProductsRef.current];
+    const product = resolveProduct(offer.productId, candidates);
+    if (!product) return reject(`"${offer.productId}" is not in the catalog.`);
+    if (!isSubscribable(product)) return reject(`${product.name} isn't available on subscribe & save.`);
+    if (!product.inStock) return reject(`${product.name} is out of stock.`);
+    const existing = subscriptionFor(product.id);
+    if (existing) {
+      return reject(`The customer already has a ${existing.status} subscription to ${product.name} (every ${existing.frequencyDays} days).`);
+    }
+
+    const frequencyDays = offer.frequencyDays ? nearestFrequency(offer.frequencyDays) : suggestFor(product);
+    const quantity = offer.quantity ?? 1;
+    const description = `${quantity > 1 ? `${quantity} × ` : ''}${product.name} every ${frequencyDays} days`;
+    showActivity({
+      type: 'cart_update',
+      label: `Subscribe to ${description} and save ${SUBSCRIBE_AND_SAVE.percentOff}%?`,
+      action: {
+        label: 'Subscribe',
+        onClick: () => {
+          if (itemsRef.current.some((i) => i.product.id === product.id)) setItemSubscription(product.id, { frequencyDays });
+          else addItem(product, quantity, { frequencyDays });
+        },
+      },
+    });
+    return record({
+      action: 'PROPOSE_SUBSCRIPTION',
+      status: 'offered',
+      summary: `Offered a subscription to ${description} at ${SUBSCRIBE_AND_SAVE.percentOff}% off; it starts when the customer accepts and checks out.`,
+    });
+  }, [canSubscribe, subscriptionFor, suggestFor, addItem, setItemSubscription, showActivity, record]);
+
+  const handlers = useMemo<DirectiveHandlers>(() => ({
+    ADD_TO_CART: handleAdd,
+    REMOVE_FROM_CART: handleRemove,
+    APPLY_PROMO: handlePromo,
+    OFFER_LOYALTY_REDEMPTION: handleLoyaltyOffer,
+    PROPOSE_SUBSCRIPTION: handleSubscriptionOffer,
+  }), [handleAdd, handleRemove, handlePromo, handleLoyaltyOffer, handleSubscriptionOffer]);
+
+  const drainResults = useCallback(() => {
+    const results = resultsRef.current;
+    resultsRef.current = [];
+    return results;
+  }, []);
+
+  return { handlers, drainResults };
+}
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { priceOrder, roundCents } from '@/services/pricing';
+import type { PriceBreakdown, PricingAddress, PricingInput, ShippingMethod } from '@/services/pricing';
+import { validateRedemption } from '@/services/loyalty';
+import type { LoyaltyData } from '@/types/customer';
+
+/** Merchandise value a points credit may cover — everything but the redemption itself. */
+export function redeemableValue(pricing: PriceBreakdown): number {
+  const other = pricing.discounts.filter((d) => d.source !== 'redemption').reduce((sum, d) => sum + d.amount, 0);
+  return roundCents(pricing.subtotal - other);
+}
+
+/**
+ * Price with the chosen redemption only if the member can still afford it.
+ * Returns the breakdown and, when the redemption was dropped, why.
+ */
+export function priceWithRedemption(
+  input: PricingInput,
+  loyalty: LoyaltyData | null | undefined,
+): { pricing: PriceBreakdown; redemptionError: string | null } {
+  const base = priceOrder({ ...input, loyaltyRedemption: null });
+  if (!input.loyaltyRedemption) return { pricing: base, redemptionError: null };
+  const redemptionError = validateRedemption(loyalty, input.loyaltyRedemption, redeemableValue(base));
+  return {
+    pricing: redemptionError ? base : priceOrder(input),
+    redemptionError,
+  };
+}
+
+/**
+ * Price the current bag for the signed-in customer.
+ * Defaults to the customer's default shipping address until checkout supplies one.
+ */
+export function useCartPricing(options: { address?: PricingAddress; shippingMethod?: ShippingMethod } = {}): {
+  pricing: PriceBreakdown;
+  redemptionError: string | null;
+} {
+  const { items, promoCode, loyaltyRedemption } = useCart();
+  const { customer } = useCustomer();
+  const defaultAddress = customer?.shippingAddresses?.find((a) => a.isDefault) || customer?.shippingAddresses?.[0];
+
+  const state = options.address?.state ?? defaultAddress?.state;
+  const postalCode = options.address?.postalCode ?? defaultAddress?.postalCode;
+  const loyalty = customer?.loyalty;
+
+  return useMemo(
+    () => priceWithRedemption({
+      items,
+      promoCode,
+      loyaltyTier: loyalty?.tier ?? null,
+      address: { state, postalCode, countryCode: 'US' },
+      shippingMethod: options.shippingMethod,
+      loyaltyRedemption,
+    }, loyalty),
+    [items, promoCode, loyalty, state, postalCode, options.shippingMethod, loyaltyRedemption],
+  );
+}
@@ -0,0 +1,28 @@
+import { useCallback, useState } from 'react';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { checkProductSafety } from '@/services/ingredients';
+import type { FlaggedProduct } from '@/services/ingredients';
+import type { IngredientWarning, Product } from '@/types/product';
+
+/**
+ * Ingredient warnings for the signed-in customer's allergies and fragrance
+ * preference. Anonymous shoppers get no warnings.
+ */
+export function useIngredientGuard(): (product: Product) => IngredientWarning[] {
+  const { customer } = useCustomer();
+  const preferences = customer?.beautyProfile;
+
+  return useCallback((product: Product) => checkProductSafety(product, preferences), [preferences]);
+}
+
+/**
+ * "Order these anyway" for a bag with allergy conflicts. The confirmation
+ * covers the conflicting products it was given for; once that set changes,
+ * it has to be given again.
+ */
+export function useAllergyConfirmation(conflicts: FlaggedProduct[]): [boolean, (confirmed: boolean) => void] {
+  const conflictIds = conflicts.map((c) => c.product.id).sort().join('|');
+  const [confirmedFor, setConfirmedFor] = useState<string | null>(null);
+  const confirm = useCallback((confirmed: boolean) => setConfirmedFor(confirmed ? conflictIds : null), [conflictIds]);
+  return [confirmedFor === conflictIds, confirm];
+}
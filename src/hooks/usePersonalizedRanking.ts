@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from 'react';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { buildRankingSignals, rankProducts, scoreProduct } from '@/services/ranking';
+import type { RankingReason } from '@/services/ranking';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { Product } from '@/types/product';
+
+export interface PersonalizedRanking {
+  /** False for anonymous shoppers — `rank` then keeps the given order. */
+  active: boolean;
+  /** Products best fit first, each with `personalizationScore` set. */
+  rank: (products: Product[]) => Product[];
+  /** Why a product scored the way it did, strongest reason first. */
+  explain: (product: Product) => RankingReason[];
+}
+
+/** Rank and explain products for the signed-in customer's profile and history. */
+export function usePersonalizedRanking(): PersonalizedRanking {
+  const { customer } = useCustomer();
+  // Order and browse history refer to products outside whatever list is being ranked
+  const signals = useMemo(() => (customer ? buildRankingSignals(customer, MOCK_PRODUCTS) : []), [customer]);
+  const active = signals.length > 0;
+
+  const rank = useCallback(
+    (products: Product[]) => (active ? rankProducts(products, signals).map((r) => r.product) : products),
+    [active, signals],
+  );
+  const explain = useCallback((product: Product) => scoreProduct(product, signals).reasons, [signals]);
+
+  return { active, rank, explain };
+}
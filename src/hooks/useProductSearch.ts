@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  isCommerceSearchEnabled,
+  parseSearchParams,
+  searchCatalog,
+  searchProducts,
+  toSearchParams,
+} from '@/services/search';
+import type { SearchFilters, SearchResult, SearchSort } from '@/services/search';
+import { usePersonalizedRanking } from './usePersonalizedRanking';
+import type { Product, ProductCategory } from '@/types/product';
+
+export interface ProductSearchState {
+  filters: SearchFilters;
+  sort: SearchSort;
+  result: SearchResult;
+  /** True while a Commerce search is in flight; the previous result stays on screen. */
+  loading: boolean;
+  /** True when the default order is ranked for the signed-in customer rather than catalog order. */
+  personalized: boolean;
+  setFilters: (update: (prev: SearchFilters) => SearchFilters) => void;
+  setSort: (sort: SearchSort) => void;
+  clearFilters: () => void;
+}
+
+/**
+ * Faceted search whose state lives in the URL query string, so filtered
+ * listings can be shared, bookmarked and restored with the back button.
+ */
+export function useProductSearch(catalog: Product[], category?: ProductCategory): ProductSearchState {
+  const [params, setParams] = useSearchParams();
+  const paramsKey = params.toString();
+  const { filters, sort } = useMemo(() => {
+    const parsed = parseSearchParams(new URLSearchParams(paramsKey));
+    return { ...parsed, filters: { ...parsed.filters, category } };
+  }, [paramsKey, category]);
+
+  const localResult = useMemo(() => searchCatalog(catalog, filters, sort), [catalog, filters, sort]);
+  const [remoteResult, setRemoteResult] = useState<SearchResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { active, rank } = usePersonalizedRanking();
+
+  useEffect(() => {
+    if (!isCommerceSearchEnabled()) return;
+    let cancelled = false;
+    setLoading(true);
+    searchProducts(catalog, filters, sort).then((result) => {
+      if (cancelled) return;
+      setRemoteResult(result);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [catalog, filters, sort]);
+
+  // Category comes from the path, so toSearchParams leaves it out of the query string
+  const write = useCallback((next: SearchFilters, nextSort: SearchSort) => {
+    setParams(toSearchParams(next, nextSort), { replace: true });
+  }, [setParams]);
+
+  const setFilters = useCallback(
+    (update: (prev: SearchFilters) => SearchFilters) => write(update(filters), sort),
+    [write, filters, sort],
+  );
+  const setSort = useCallback((next: SearchSort) => write(filters, next), [write, filters]);
+  const clearFilters = useCallback(() => write({ query: filters.query }, sort), [write, filters.query, sort]);
+
+  const baseResult = isCommerceSearchEnabled() && remoteResult ? remoteResult : localResult;
+  // A query has its own relevance order; without one, "Featured" is the customer's best fits
+  const personalized = active && sort === 'relevance' && !filters.query;
+  const result = useMemo(
+    () => (personalized ? { ...baseResult, products: rank(baseResult.products) } : baseResult),
+    [personalized, baseResult, rank],
+  );
+
+  return {
+    filters,
+    sort,
+    result,
+    loading,
+    personalized,
+    setFilters,
+    setSort,
+    clearFilters,
+  };
+}
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { getDataCloudWriteService } from '@/services/datacloud';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+
+/**
+ * Keep a finished skin analysis: write it to Salesforce and add it to the
+ * local history so the account page and agent context see it immediately.
+ */
+export function useRecordSkinAnalysis(): (analysis: SkinAnalysisResult) => void {
+  const { customer, addSkinAnalysis } = useCustomer();
+
+  return useCallback((analysis: SkinAnalysisResult) => {
+    if (!customer) return;
+    // The raw provider payload is only needed once, for enrichment; don't carry it in the history
+    const { rawResult: _raw, ...stored } = analysis;
+    // Anonymous visitors have no record to attach it to — their history lasts the session
+    const tier = customer.merkuryIdentity?.identityTier ?? 'anonymous';
+    if (tier !== 'anonymous') {
+      getDataCloudWriteService()
+        .writeSkinAnalysis(customer.id, stored)
+        .catch((err) => console.error('[skin-analysis] Failed to record analysis:', err));
+    }
+    addSkinAnalysis(stored);
+  }, [customer, addSkinAnalysis]);
+}
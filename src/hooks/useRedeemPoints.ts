@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { getDataCloudWriteService } from '@/services/datacloud';
+import type { PriceBreakdown } from '@/services/pricing';
+
+/**
+ * Finalize a points redemption once an order is placed: write it back to
+ * Salesforce and lower the local balance so the UI reflects it immediately.
+ */
+export function useRedeemPoints(): (orderId: string, pricing: PriceBreakdown) => void {
+  const { loyaltyRedemption, setLoyaltyRedemption } = useCart();
+  const { customer, deductLoyaltyPoints } = useCustomer();
+
+  return useCallback((orderId: string, pricing: PriceBreakdown) => {
+    if (!customer || !loyaltyRedemption || !pricing.pointsRedeemed) return;
+    const credit = pricing.discounts.find((d) => d.source === 'redemption')?.amount ?? 0;
+    getDataCloudWriteService()
+      .writeLoyaltyRedemption(customer.id, {
+        orderId,
+        points: pricing.pointsRedeemed,
+        credit,
+        rewardName: loyaltyRedemption.kind === 'reward' ? loyaltyRedemption.rewardName : undefined,
+      })
+      .catch((err) => console.error('[loyalty] Failed to record redemption:', err));
+    deductLoyaltyPoints(pricing.pointsRedeemed);
+    setLoyaltyRedemption(null);
+  }, [customer, loyaltyRedemption, deductLoyaltyPoints, setLoyaltyRedemption]);
+}
@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react';
+import { useCustomer } from '@/contexts/CustomerContext';
+import { useCart } from '@/contexts/CartContext';
+import { useStore } from '@/contexts/StoreContext';
+import { predictReplenishment } from '@/services/replenishment';
+import type { ReplenishmentPrediction } from '@/services/replenishment';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+
+export interface Replenishment {
+  /** Every product the customer buys for themselves, soonest run-out first. */
+  predictions: ReplenishmentPrediction[];
+  /** In-stock products running out within the reminder window, or already out. Subscribed products arrive on their own. */
+  due: ReplenishmentPrediction[];
+  /** Add the items at their last-ordered quantities and go straight to checkout. */
+  reorder: (items: ReplenishmentPrediction[]) => void;
+}
+
+/** Running-low reminders and one-click reorder for the signed-in customer. */
+export function useReplenishment(): Replenishment {
+  const { customer } = useCustomer();
+  const { addItem } = useCart();
+  const { navigateToCheckout } = useStore();
+
+  const predictions = useMemo(
+    () => (customer ? predictReplenishment(customer.orders ?? [], MOCK_PRODUCTS) : []),
+    [customer],
+  );
+  const due = useMemo(() => {
+    const subscribed = new Set(
+      (customer?.subscriptions ?? []).filter((s) => s.status !== 'cancelled').map((s) => s.productId),
+    );
+    return predictions.filter((p) => p.status === 'due' && p.product.inStock && !subscribed.has(p.product.id));
+  }, [predictions, customer?.subscriptions]);
+
+  const reorder = useCallback((items: ReplenishmentPrediction[]) => {
+    if (!items.length) return;
+    for (const item of items) addItem(item.product, item.quantity);
+    navigateToCheckout();
+  }, [addItem, navigateToCheckout]);
+
+  return { predictions, due, reorder };
+}
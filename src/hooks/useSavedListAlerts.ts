@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { useSavedLists } from '@/contexts/SavedListsContext';
+import { useStore } from '@/contexts/StoreContext';
+import { useActivityToast } from '@/components/ActivityToast';
+import { describeListAlert, findListAlerts, markListsSeen } from '@/services/savedLists';
+import type { Product } from '@/types/product';
+
+/**
+ * Side-effect-only hook: toasts price drops and restocks on saved products,
+ * then moves each item's baseline to the current catalog so an alert shows once.
+ * Mount once in StorefrontPage.
+ */
+export function useSavedListAlerts(catalog: Product[]) {
+  const { lists, replaceLists } = useSavedLists();
+  const { navigateToProduct } = useStore();
+  const { showActivity } = useActivityToast();
+
+  useEffect(() => {
+    if (!catalog.length) return;
+    const alerts = findListAlerts(lists, catalog);
+    if (!alerts.length) return;
+    for (const alert of alerts) {
+      showActivity({
+        type: 'saved_list',
+        label: describeListAlert(alert),
+        action: { label: 'View', onClick: () => navigateToProduct(alert.product) },
+      });
+    }
+    replaceLists((prev) => markListsSeen(prev, catalog));
+  }, [lists, catalog, showActivity, navigateToProduct, replaceLists]);
+}
@@ -0,0 +1,105 @@
+import { useCallback, useMemo } from 'react';
+import { useCustomer } from '@/contexts/CustomerContext';
+import type { CartItem } from '@/contexts/CartContext';
+import { getDataCloudWriteService } from '@/services/datacloud';
+import { predictReplenishment } from '@/services/replenishment';
+import {
+  cancelSubscription,
+  changeFrequency,
+  createSubscription,
+  isSubscribable,
+  pauseSubscription,
+  resumeSubscription,
+  skipNextDelivery,
+  suggestFrequency,
+} from '@/services/subscriptions';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { Product } from '@/types/product';
+import type { Subscription } from '@/types/subscription';
+
+export interface SubscriptionControls {
+  /** Active and paused subscriptions first, then cancelled ones. */
+  subscriptions: Subscription[];
+  /** Subscriptions need an account to manage them from. */
+  canSubscribe: boolean;
+  /** Default frequency for a product — the customer's own reorder cycle when we know it. */
+  suggestFor: (product: Product) => number;
+  /** Active or paused subscription for a product, if any. */
+  subscriptionFor: (productId: string) => Subscription | undefined;
+  /** Turn the subscribed lines of a placed order into subscriptions. */
+  startSubscriptions: (orderId: string, items: CartItem[]) => void;
+  skip: (id: string) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  setFrequency: (id: string, frequencyDays: number) => void;
+  cancel: (id: string) => void;
+}
+
+const STATUS_ORDER: Record<Subscription['status'], number> = { active: 0, paused: 1, cancelled: 2 };
+
+/** Subscribe & save for the signed-in customer, written back to Salesforce on every change. */
+export function useSubscriptions(): SubscriptionControls {
+  const { customer, isAuthenticated, upsertSubscription } = useCustomer();
+  const canSubscribe = !!customer && isAuthenticated;
+
+  const subscriptions = useMemo(
+    () => [...(customer?.subscriptions ?? [])].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]),
+    [customer?.subscriptions],
+  );
+
+  const cycles = useMemo(
+    () => new Map(predictReplenishment(customer?.orders ?? [], MOCK_PRODUCTS).map((p) => [p.product.id, p.cycleDays])),
+    [customer?.orders],
+  );
+
+  const suggestFor = useCallback(
+    (product: Product) => suggestFrequency(product, cycles.get(product.id)),
+    [cycles],
+  );
+
+  const subscriptionFor = useCallback(
+    (productId: string) => subscriptions.find((s) => s.productId === productId && s.status !== 'cancelled'),
+    [subscriptions],
+  );
+
+  const save = useCallback((subscription: Subscription) => {
+    if (!customer) return;
+    getDataCloudWriteService()
+      .saveSubscription(customer.id, subscription)
+      .catch((err) => console.error('[subscriptions] Failed to save subscription:', err));
+    upsertSubscription(subscription);
+  }, [customer, upsertSubscription]);
+
+  const startSubscriptions = useCallback((orderId: string, items: CartItem[]) => {
+    if (!canSubscribe) return;
+    for (const item of items) {
+      if (!item.subscription || !isSubscribable(item.product)) continue;
+      save(createSubscription({
+        product: item.product,
+        quantity: item.quantity,
+        frequencyDays: item.subscription.frequencyDays,
+        sourceOrderId: orderId,
+      }));
+    }
+  }, [canSubscribe, save]);
+
+  const update = useCallback((id: string, change: (sub: Subscription) => Subscription) => {
+    const current = subscriptions.find((s) => s.id === id);
+    if (!current) return;
+    const next = change(current);
+    if (next !== current) save(next);
+  }, [subscriptions, save]);
+
+  return {
+    subscriptions,
+    canSubscribe,
+    suggestFor,
+    subscriptionFor,
+    startSubscriptions,
+    skip: useCallback((id: string) => update(id, skipNextDelivery), [update]),
+    pause: useCallback((id: string) => update(id, pauseSubscription), [update]),
+    resume: useCallback((id: string) => update(id, (s) => resumeSubscription(s)), [update]),
+    setFrequency: useCallback((id: string, days: number) => update(id, (s) => changeFrequency(s, days)), [update]),
+    cancel: useCallback((id: string) => update(id, cancelSubscription), [update]),
+  };
+}
@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getDataCloudWriteService } from '@/services/datacloud';
+import type { QueuedWrite, WriteQueue } from '@/services/datacloud';
+
+/** Live view of the Data Cloud outbound queue, with manual retry and discard. */
+export function useWriteQueue(): {
+  writes: QueuedWrite[];
+  retry: WriteQueue['retry'];
+  discard: WriteQueue['discard'];
+} {
+  const queue = getDataCloudWriteService().writeQueue;
+  const subscribe = useCallback((listener: () => void) => queue.subscribe(listener), [queue]);
+  const writes = useSyncExternalStore(subscribe, () => queue.list());
+  const retry = useCallback((id: string) => queue.retry(id), [queue]);
+  const discard = useCallback((id: string) => queue.discard(id), [queue]);
+  return { writes, retry, discard };
+}
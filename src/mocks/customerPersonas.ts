@@ -54,6 +54,38 @@ const sarahChen: CustomerProfile = {
   meaningfulEvents: [],
   agentCapturedProfile: {},
 
+  // Two in-store scans: redness and dehydration easing since she switched to the Hydra-Calm routine
+  skinAnalyses: [
+    {
+      skinType: 'sensitive',
+      skinAge: 33,
+      overallScore: 68,
+      primaryConcern: 'Dehydration',
+      analyzedAt: '2026-01-24T17:10:00.000Z',
+      concerns: [
+        { concern: 'hydration', label: 'Dehydration', score: 48, severity: 'moderate' },
+        { concern: 'redness', label: 'Redness', score: 38, severity: 'mild' },
+        { concern: 'sensitivity', label: 'Sensitivity', score: 44, severity: 'moderate' },
+        { concern: 'texture', label: 'Uneven Texture', score: 26, severity: 'mild' },
+        { concern: 'wrinkle', label: 'Wrinkles', score: 15, severity: 'none' },
+      ],
+    },
+    {
+      skinType: 'sensitive',
+      skinAge: 34,
+      overallScore: 57,
+      primaryConcern: 'Redness',
+      analyzedAt: '2025-10-30T16:45:00.000Z',
+      concerns: [
+        { concern: 'hydration', label: 'Dehydration', score: 62, severity: 'moderate' },
+        { concern: 'redness', label: 'Redness', score: 58, severity: 'moderate' },
+        { concern: 'sensitivity', label: 'Sensitivity', score: 51, severity: 'moderate' },
+        { concern: 'texture', label: 'Uneven Texture', score: 30, severity: 'mild' },
+        { concern: 'wrinkle', label: 'Wrinkles', score: 14, severity: 'none' },
+      ],
+    },
+  ],
+
   browseSessions: [
     {
       sessionDate: '2026-01-22',
@@ -0,0 +1,17 @@
+import { createAgentforceClient, getAgentforceClient } from '@/services/agentforce/client';
+import { RulesAgentBackend } from '@/services/mock/rulesEngine';
+import type { AgentBackend, AgentBackendConfig } from './types';
+
+const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
+
+/** The backend a provider gets when it doesn't choose one: the rules engine in mock mode, else Agentforce. */
+export function defaultAgentBackendConfig(agentId?: string): AgentBackendConfig {
+  return useMockData ? { kind: 'rules' } : { kind: 'agentforce', agentId };
+}
+
+export function createAgentBackend(config: AgentBackendConfig): AgentBackend {
+  if (config.kind === 'rules') return new RulesAgentBackend({ packs: config.packs });
+  return config.agentId ? createAgentforceClient(config.agentId) : getAgentforceClient();
+}
+
+export type { AgentBackend, AgentBackendConfig, AgentBackendSnapshot } from './types';
@@ -0,0 +1,53 @@
+import type { AgentResponse, UIDirective } from '@/types/agent';
+import type { CustomerSessionContext } from '@/types/customer';
+
+/**
+ * Everything needed to pick a conversation back up on the same backend:
+ * the Agentforce session ID and sequence counter, or the rules engine's
+ * in-memory conversation state.
+ */
+export interface AgentBackendSnapshot {
+  sessionId: string | null;
+  sequenceId: number;
+  /** Backend-private state, JSON-serializable so it can be persisted with the transcript. */
+  state?: unknown;
+}
+
+/**
+ * A conversational agent the ConversationProvider can talk to. Implemented by
+ * AgentforceClient (remote) and RulesAgentBackend (local, data-driven rules).
+ */
+export interface AgentBackend {
+  /**
+   * True when the session lives on a server and can expire there. A remote
+   * session is only resumed inside its idle window; a local one always is.
+   */
+  readonly remote: boolean;
+  /** Open a session for this customer (anonymous when omitted). Resolves with the session ID. */
+  initSession(customerContext?: CustomerSessionContext): Promise<string>;
+  /**
+   * `agentContext` is out-of-band context (cart results, a prior-session summary)
+   * sent alongside the customer's message; backends that can't use it ignore it.
+   */
+  sendMessage(message: string, agentContext?: string): Promise<AgentResponse>;
+  sendMessageStreaming(
+    message: string,
+    onChunk: (text: string) => void,
+    onDirective?: (directive: UIDirective) => void,
+    agentContext?: string,
+  ): Promise<AgentResponse>;
+  endSession(): Promise<void>;
+  getSessionSnapshot(): AgentBackendSnapshot;
+  /** Restore a snapshot taken by the same kind of backend. No network call. */
+  restoreSnapshot(snapshot: AgentBackendSnapshot): void;
+}
+
+/**
+ * Which backend a ConversationProvider uses.
+ * - `agentforce`: the Agentforce Agent API; `agentId` defaults to VITE_AGENTFORCE_AGENT_ID.
+ * - `rules`: the local rules engine; `packs` are rule pack names from
+ *   src/services/mock/rules, checked in order.
+ */
+export type AgentBackendConfig =
+  | { kind: 'agentforce'; agentId?: string }
+  | { kind: 'rules'; packs?: string[] };
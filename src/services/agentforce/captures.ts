@@ -0,0 +1,340 @@
+import type { CaptureNotification, CaptureSource, CapturedProfileUpdate, UIDirective } from '@/types/agent';
+import type { AgentCapturedProfile, EventUrgency, MeaningfulEvent } from '@/types/customer';
+
+const EVENT_TYPES: MeaningfulEvent['eventType'][] = ['preference', 'milestone', 'life-event', 'concern', 'intent', 'skincare-video'];
+const URGENCIES: EventUrgency[] = ['Immediate', 'This Week', 'This Month', 'Future', 'No Date'];
+
+/** Captured-profile fields, and whether each holds a list. */
+const PROFILE_FIELDS: Record<keyof AgentCapturedProfile, 'text' | 'list'> = {
+  birthday: 'text', anniversary: 'text', partnerName: 'text',
+  giftsFor: 'list', upcomingOccasions: 'list',
+  morningRoutineTime: 'text', makeupFrequency: 'text', exerciseRoutine: 'text', workEnvironment: 'text',
+  beautyPriority: 'text', priceRange: 'text', sustainabilityPref: 'text',
+  climateContext: 'text', waterIntake: 'text', sleepPattern: 'text',
+};
+
+/** Update_Contact_Profile outputs that are captured-profile fields, keyed by flow variable name. */
+const PROFILE_ACTION_FIELDS: Record<string, keyof AgentCapturedProfile> = {
+  beautyPriority: 'beautyPriority',
+  birthday: 'birthday',
+  climateContext: 'climateContext',
+  priceRange: 'priceRange',
+  sustainabilityPreference: 'sustainabilityPref',
+};
+
+const MEANINGFUL_EVENT_ACTION = /create_?meaningful_?event/i;
+const PROFILE_ACTION = /update_?contact_?profile/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const confidenceOf = (value: unknown): CaptureNotification['confidence'] =>
+  value === 'stated' || value === 'inferred' ? value : undefined;
+
+function parseJsonObject(value: unknown): Record<string, unknown> | undefined {
+  if (isRecord(value)) return value;
+  if (typeof value !== 'string') return undefined;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isRecord(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map an agent-supplied event (directive `event` or Create_Meaningful_Event
+ * outputs) onto MeaningfulEvent. The flow's own categories (Travel, Wedding…)
+ * are life events. Returns null without a description.
+ */
+export function toMeaningfulEvent(raw: Record<string, unknown>, capturedAt = new Date().toISOString()): MeaningfulEvent | null {
+  const description = text(raw.description) ?? text(raw.eventDescription);
+  if (!description) return null;
+
+  const metadata = parseJsonObject(raw.metadata) ?? parseJsonObject(raw.metadataJson);
+  const field = (key: string) => text(raw[key]) ?? text(metadata?.[key]);
+  const rawType = field('eventType')?.toLowerCase();
+  const urgency = field('urgency');
+
+  return {
+    eventType: EVENT_TYPES.find((t) => t === rawType) ?? 'life-event',
+    description,
+    capturedAt,
+    agentNote: text(raw.agentNote),
+    metadata: metadata
+      ? Object.fromEntries(Object.entries(metadata).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]))
+      : undefined,
+    relativeTimeText: field('relativeTimeText'),
+    eventDate: field('eventDate'),
+    urgency: URGENCIES.find((u) => u === urgency),
+  };
+}
+
+export function toProfileUpdate(
+  name: string,
+  value: unknown,
+  confidence: 'stated' | 'inferred',
+  capturedAt = new Date().toISOString(),
+): CapturedProfileUpdate | null {
+  if (!Object.prototype.hasOwnProperty.call(PROFILE_FIELDS, name)) return null;
+  const key = name as keyof AgentCapturedProfile;
+  const values = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[;,]/) : [])
+    .map(text)
+    .filter((v): v is string => v !== undefined);
+  if (!values.length) return null;
+
+  return {
+    name: key,
+    field: {
+      value: PROFILE_FIELDS[key] === 'list' ? values : values.join(', '),
+      capturedAt,
+      capturedFrom: `chat session ${capturedAt.split('T')[0]}`,
+      confidence,
+    },
+  };
+}
+
+/**
+ * Normalize a capture from a directive's `captures` array, keeping the typed
+ * record when it is usable. Only an explicit `stated` counts as stated.
+ */
+export function normalizeDirectiveCapture(raw: CaptureNotification): CaptureNotification {
+  const loose = raw as unknown as Record<string, unknown>;
+  const confidence = confidenceOf(loose.confidence) ?? 'inferred';
+  const capture: CaptureNotification = { type: raw.type, label: raw.label, source: 'directive', confidence };
+
+  if (raw.type === 'meaningful_event' && isRecord(loose.event)) {
+    capture.event = toMeaningfulEvent(loose.event) ?? undefined;
+  }
+  const profile = loose.profileField;
+  if (raw.type === 'profile_enrichment' && isRecord(profile) && typeof profile.name === 'string') {
+    capture.profileField = toProfileUpdate(profile.name, profile.value, confidence) ?? undefined;
+  }
+  return capture;
+}
+
+/**
+ * Action outputs from an Agent API message. Results arrive either as an
+ * object or as a `[{ name, value }]` list depending on the API version.
+ */
+function actionOutputs(message: Record<string, unknown>): Record<string, unknown> | undefined {
+  for (const key of ['result', 'outputs', 'output', 'actionOutput']) {
+    const value = message[key];
+    if (isRecord(value)) return value;
+    if (Array.isArray(value)) {
+      const entries = value
+        .filter(isRecord)
+        .map((e) => [text(e.name) ?? text(e.property), e.value] as const)
+        .filter(([name]) => name !== undefined);
+      if (entries.length) return Object.fromEntries(entries);
+    }
+    const parsed = typeof value === 'string' ? parseJsonObject(value) : undefined;
+    if (parsed) return parsed;
+  }
+  return undefined;
+}
+
+const actionNameOf = (message: Record<string, unknown>) =>
+  text(message.actionName) ?? text(message.name) ?? text(message.identifier) ?? '';
+
+/**
+ * Captures from Create_Meaningful_Event / Update_Contact_Profile results,
+ * mapped straight from their outputs. The flows echo the agent's
+ * `confidence`; without one the capture is treated as inferred.
+ */
+export function parseActionCaptures(rawMessages: unknown[]): CaptureNotification[] {
+  const captures: CaptureNotification[] = [];
+  for (const message of rawMessages.filter(isRecord)) {
+    const actionName = actionNameOf(message);
+    const outputs = actionOutputs(message);
+    if (!outputs || outputs.outputSuccess === false) continue;
+    const confidence = confidenceOf(outputs.confidence) ?? 'inferred';
+
+    if (MEANINGFUL_EVENT_ACTION.test(actionName)) {
+      const event = toMeaningfulEvent(outputs);
+      if (!event) continue;
+      if (typeof outputs.outputRecordId === 'string') event.id = outputs.outputRecordId;
+      captures.push({ type: 'meaningful_event', label: `Event Captured: ${event.description}`, source: 'action', confidence, event });
+    } else if (PROFILE_ACTION.test(actionName)) {
+      for (const [output, name] of Object.entries(PROFILE_ACTION_FIELDS)) {
+        const profileField = toProfileUpdate(name, outputs[output], confidence);
+        if (profileField) {
+          captures.push({ type: 'profile_enrichment', label: `Profile Updated: ${name}`, source: 'action', confidence, profileField });
+        }
+      }
+    }
+  }
+  return captures;
+}
+
+// Fallback scraping only keeps meaningful_event captures that read like a real life event
+const LIFE_EVENT_KEYWORDS = /\b(trip|travel|anniversary|birthday|wedding|baby|pregnan|moving|graduat|retire|vacation|holiday|honeymoon|prom|reunion|concert|festival|event|appointment|surgery|celebration)\b/i;
+
+function isLikelyLifeEvent(capture: CaptureNotification): boolean {
+  if (capture.type !== 'meaningful_event') return true;
+  const desc = capture.label.replace(/^Event\s+Captured:\s*/i, '').trim();
+  return LIFE_EVENT_KEYWORDS.test(desc) || (capture.label.startsWith('Event Captured:') && desc.length > 15);
+}
+
+/**
+ * Fallback for agents that don't return structured captures: scrape capture
+ * markers and "I've noted…" phrasing out of the prose. Only the label is
+ * known, so every capture is marked `inferred`, and weak event matches are
+ * dropped by a keyword filter.
+ */
+export function scrapeTextCaptures(
+  displayMessage: string,
+  fullText: string,
+  rawMessages: unknown[],
+): { captures: CaptureNotification[]; filtered: CaptureNotification[] } {
+  const found: Array<Pick<CaptureNotification, 'type' | 'label'>> = [];
+  const add = (type: CaptureNotification['type'], label: string) => {
+    if (!found.some((c) => c.label === label)) found.push({ type, label });
+  };
+
+  const captureJson = fullText.match(/\{\s*"captured"\s*:\s*true[^}]*"eventType"\s*:\s*"([^"]+)"[^}]*\}/);
+  if (captureJson) {
+    const label = captureJson[0].match(/"label"\s*:\s*"([^"]+)"/);
+    add('meaningful_event', label ? label[1] : `Event Captured: ${captureJson[1]}`);
+  }
+
+  let match;
+  const captureRegex = /\((?:Event [Cc]aptured|event captured|Captured|captured):\s*(.+?)\)/g;
+  while ((match = captureRegex.exec(displayMessage)) !== null) add('meaningful_event', `Event Captured: ${match[1]}`);
+  const profileRegex = /\((?:Profile [Uu]pdated|profile updated|Updated|Saved):\s*(.+?)\)/g;
+  while ((match = profileRegex.exec(displayMessage)) !== null) add('profile_enrichment', `Profile Updated: ${match[1]}`);
+  const bareEventRegex = /(?:^|\s)Event\s+Captured:\s*([^\n.!?]+)/gi;
+  while ((match = bareEventRegex.exec(displayMessage)) !== null) add('meaningful_event', `Event Captured: ${match[1].trim()}`);
+
+  // Action messages without usable outputs still tell us an action ran
+  for (const message of rawMessages.filter(isRecord)) {
+    const msgType = (text(message.type) ?? '').toLowerCase();
+    if (msgType === 'text' || msgType === '') continue;
+    const combined = `${(text(message.message) ?? text(message.text) ?? text(message.content) ?? '').toLowerCase()} ${actionNameOf(message).toLowerCase()}`;
+    if (/meaningful|capture_?key/.test(combined) && !found.some((c) => c.type === 'meaningful_event')) {
+      add('meaningful_event', 'Event Captured');
+    }
+    if (/profile_?enrichment|update_?contact_?profile/.test(combined) && !found.some((c) => c.type === 'profile_enrichment')) {
+      add('profile_enrichment', 'Profile Updated');
+    }
+  }
+
+  if (found.length === 0) {
+    const eventPhrases = [
+      /i'(?:ve|ll)\s+(?:noted|captured|recorded|saved)\s+(?:your\s+)?(?:upcoming\s+)?(?:trip|travel|wedding|birthday|anniversary|move|graduation|pregnancy|baby)/i,
+      /i'(?:ve|ll)\s+(?:noted|recorded|saved)\s+that\s+you(?:'re| are)\s+(?:planning|going|traveling|moving|expecting|getting married)/i,
+    ];
+    for (const re of eventPhrases) {
+      const m = displayMessage.match(re);
+      if (m) {
+        const summary = m[0].replace(/^i'(?:ve|ll)\s+(?:noted|captured|recorded|saved)\s+/i, '').trim();
+        add('meaningful_event', `Event Captured: ${summary.substring(0, 50)}`);
+        break;
+      }
+    }
+    const lower = displayMessage.toLowerCase();
+    if (lower.includes("i've noted your skin") || lower.includes("i've saved your") ||
+        lower.includes("i've updated your profile") || lower.includes("got it, i've noted")) {
+      add('profile_enrichment', 'Profile Updated');
+    }
+  }
+
+  const captures: CaptureNotification[] = [];
+  const filtered: CaptureNotification[] = [];
+  for (const c of found) {
+    const capture: CaptureNotification = { ...c, source: 'text', confidence: 'inferred' };
+    (isLikelyLifeEvent(capture) ? captures : filtered).push(capture);
+  }
+  return { captures, filtered };
+}
+
+const captureKey = (c: CaptureNotification) =>
+  `${c.type}:${(c.event?.description ?? c.profileField?.name ?? c.label).toLowerCase()}`;
+
+/**
+ * Resolve a turn's captures: the directives' own `captures` plus action
+ * results, falling back to prose scraping only when neither has any.
+ * Captures are written into the first directive's payload — or a new
+ * CAPTURE_ONLY directive — and counted per source.
+ */
+export function resolveCaptures(
+  uiDirectives: UIDirective[],
+  rawMessages: unknown[],
+  displayMessage: string,
+  fullText: string,
+): UIDirective | undefined {
+  let uiDirective: UIDirective | undefined = uiDirectives[0];
+  const fromDirectives: CaptureNotification[] = [];
+  for (const d of uiDirectives) {
+    if (!d.payload?.captures?.length) continue;
+    d.payload.captures = d.payload.captures.map(normalizeDirectiveCapture);
+    fromDirectives.push(...d.payload.captures);
+  }
+  const seen = new Set(fromDirectives.map(captureKey));
+  const fromActions = parseActionCaptures(rawMessages).filter((c) => !seen.has(captureKey(c)));
+
+  let added = fromActions;
+  if (fromDirectives.length || fromActions.length) {
+    recordCaptureMetrics('directive', fromDirectives.length);
+    recordCaptureMetrics('action', fromActions.length);
+  } else {
+    const scraped = scrapeTextCaptures(displayMessage, fullText, rawMessages);
+    for (const c of scraped.filtered) console.log('[agentforce] Filtered out low-quality capture:', c.label);
+    recordCaptureMetrics('text', scraped.captures.length, scraped.filtered.length);
+    added = scraped.captures;
+  }
+
+  if (added.length) {
+    console.log('[agentforce] Detected captures:', added);
+    if (uiDirective) {
+      uiDirective.payload.captures = [...(uiDirective.payload.captures ?? []), ...added];
+    } else {
+      uiDirective = { action: 'CAPTURE_ONLY', payload: { captures: added } };
+    }
+  }
+  return uiDirective;
+}
+
+// ─── Per-source metrics ─────────────────────────────────────────
+
+export interface CaptureSourceMetrics {
+  captured: number;
+  /** Scraped captures the quality filter dropped (text source only). */
+  filtered: number;
+}
+
+export type CaptureMetrics = Record<CaptureSource, CaptureSourceMetrics>;
+
+const emptyMetrics = (): CaptureMetrics => ({
+  action: { captured: 0, filtered: 0 },
+  directive: { captured: 0, filtered: 0 },
+  text: { captured: 0, filtered: 0 },
+});
+
+let metrics = emptyMetrics();
+const metricListeners = new Set<() => void>();
+
+function recordCaptureMetrics(source: CaptureSource, captured: number, filtered = 0): void {
+  if (!captured && !filtered) return;
+  const current = metrics[source];
+  metrics = { ...metrics, [source]: { captured: current.captured + captured, filtered: current.filtered + filtered } };
+  metricListeners.forEach((l) => l());
+}
+
+/** Counts since page load. The snapshot only changes identity when a count does. */
+export function getCaptureMetrics(): CaptureMetrics {
+  return metrics;
+}
+
+export function subscribeCaptureMetrics(listener: () => void): () => void {
+  metricListeners.add(listener);
+  return () => metricListeners.delete(listener);
+}
+
+export function resetCaptureMetrics(): void {
+  metrics = emptyMetrics();
+  metricListeners.forEach((l) => l());
+}
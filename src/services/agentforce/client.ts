@@ -1,7 +1,21 @@
-import type { AgentResponse, UIAction, UIDirective } from '@/types/agent';
-import type { AgentforceConfig } from './types';
+import type { AgentResponse, DirectiveParseReport, UIAction, UIDirective } from '@/types/agent';
+import type { AgentforceConfig, DirectiveParseMode } from './types';
 import type { CustomerSessionContext } from '@/types/customer';
-import { parseUIDirective, normalizeProducts } from './parseDirectives';
+import type { AgentBackend, AgentBackendSnapshot } from '@/services/agent/types';
+import { parseUIDirectiveDetailed, normalizeProducts } from './parseDirectives';
+import { resolveCaptures } from './captures';
+import { listDirectives } from '@/utils/directives';
+import { DirectiveStreamParser, SSEDecoder, readAgentStreamEvent } from './streamParser';
+import { clock, serviceFetch } from '@/services/replay/runtime';
+
+// Out-of-band context (e.g. cart action results) rides along with the
+// customer's message; the visible chat only ever shows the message itself.
+const withAgentContext = (message: string, agentContext?: string): string =>
+  agentContext ? `${agentContext}\n\n${message}` : message;
+
+/** The `directiveReport` field for a response — left off when parsing reported nothing. */
+const withReport = (report: DirectiveParseReport): Pick<AgentResponse, 'directiveReport'> =>
+  report.errors.length || report.diagnostics.length ? { directiveReport: report } : {};
 
 /**
  * Parse Adaptive Response Format messages (Card Carousel, Choices, Buttons)
@@ -88,18 +102,19 @@ function parseStructuredMessages(rawMessages: unknown[]): UIDirective | null {
   return null;
 }
 
-export class AgentforceClient {
+export class AgentforceClient implements AgentBackend {
+  readonly remote = true;
   private config: AgentforceConfig;
   private sessionId: string | null = null;
   private accessToken: string | null = null;
   private tokenExpiresAt = 0;
   private sequenceId = 0;
   // Tracks whether SSE streaming is supported by the connected Agentforce org.
-  // Defaults to true (unsupported) because the Agentforce /messages endpoint currently
-  // returns 500 for Accept: text/event-stream, and a failed SSE attempt sends the message
-  // to SF which processes it, causing a duplicate-sequenceId error on the JSON retry.
-  // Reset to false on each new session so future SF SSE support is auto-detected per session.
-  private _sseUnsupported = true;
+  // Streaming goes to /messages/stream — the plain /messages endpoint returns 500 for
+  // Accept: text/event-stream, and orgs without SSE can answer the stream endpoint the
+  // same way. Set when the stream endpoint is rejected (500 included), and reset on
+  // each new session so support is re-detected per session.
+  private _sseUnsupported = false;
   // Serialization lock — Agentforce sessions don't support concurrent messages.
   // The background welcome (seq=1) and the user's first message (seq=2) must be
   // sent sequentially, or the API may process seq=2 before seq=1's context is
@@ -111,8 +126,19 @@ export class AgentforceClient {
     this.accessToken = config.accessToken || null;
   }
 
+  /** Parse directives out of agent text, adding schema errors and v0 coercions to the turn's report. */
+  private _parseDirectives(text: string, report: DirectiveParseReport): UIDirective[] {
+    const { directives, errors, diagnostics } = parseUIDirectiveDetailed(
+      { message: text, rawText: text },
+      { mode: this.config.directiveMode },
+    );
+    report.errors.push(...errors);
+    report.diagnostics.push(...diagnostics);
+    return directives;
+  }
+
   async getAccessToken(): Promise<string> {
-    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+    if (this.accessToken && clock.now() < this.tokenExpiresAt) {
       return this.accessToken;
     }
 
@@ -123,7 +149,7 @@ export class AgentforceClient {
 
     // OAuth via server-side proxy — credentials stay server-side, never in the browser bundle
     const t0token = Date.now();
-    const response = await fetch('/api/sf/token', { method: 'POST' });
+    const response = await serviceFetch('agentforce', '/api/sf/token', { method: 'POST' });
 
     if (!response.ok) {
       const errText = await response.text();
@@ -134,7 +160,7 @@ export class AgentforceClient {
     console.log(`[timing] token fetch: ${Date.now() - t0token}ms`);
     this.accessToken = data.access_token;
     // Expire 5 minutes early to avoid edge cases
-    this.tokenExpiresAt = Date.now() + (data.expires_in ? data.expires_in * 1000 : 7200_000) - 300_000;
+    this.tokenExpiresAt = clock.now() + (data.expires_in ? data.expires_in * 1000 : 7200_000) - 300_000;
     return this.accessToken!;
   }
 
@@ -142,7 +168,7 @@ export class AgentforceClient {
     const token = await this.getAccessToken();
     this.sequenceId = 0;
     this._sendLock = Promise.resolve(); // reset lock for fresh session
-    this._sseUnsupported = true; // re-detect SSE support per session (currently unsupported)
+    this._sseUnsupported = false; // re-detect SSE support per session
 
     const url = `${this.config.baseUrl}/agents/${this.config.agentId}/sessions`;
 
@@ -164,7 +190,7 @@ export class AgentforceClient {
     // message text in buildWelcomeMessage() and the agent extracts it from there when
     // calling actions like Create_Meaningful_Event.
 
-    const response = await fetch(url, {
+    const response = await serviceFetch('agentforce', url, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${token}`,
@@ -218,6 +244,7 @@ export class AgentforceClient {
         sessionId: this.sessionId!,
         message: precedingText || '',
         uiDirective: structuredDirective,
+        uiDirectives: [structuredDirective],
         suggestedActions: (data.suggestedActions as string[]) || [],
         confidence: (data.confidence as number) || 1,
       };
@@ -226,20 +253,21 @@ export class AgentforceClient {
     const fullText = agentMessages.map((m) => m.message).join('');
     console.log('[agentforce] raw text:', fullText.substring(0, 500));
 
-    let uiDirective: ReturnType<typeof parseUIDirective> = undefined;
-    const directive = parseUIDirective({ message: fullText, rawText: fullText });
-    if (directive) {
-      console.log('[agentforce] parsed directive:', directive.action, JSON.stringify(directive.payload).substring(0, 300));
-      uiDirective = directive;
+    // A turn may carry several directives — either as a `uiDirectives` array in
+    // one JSON blob, or as one directive per message. Both are kept in order.
+    const report: DirectiveParseReport = { errors: [], diagnostics: [] };
+    let uiDirectives = this._parseDirectives(fullText, report);
+    for (const d of uiDirectives) {
+      console.log('[agentforce] parsed directive:', d.action, JSON.stringify(d.payload).substring(0, 300));
     }
 
     const textParts: string[] = [];
-    if (!uiDirective) {
+    if (!uiDirectives.length) {
       for (const msg of agentMessages) {
         const text = msg.message || '';
-        const d = parseUIDirective({ message: text, rawText: text });
-        if (d) {
-          uiDirective = d;
+        const ds = this._parseDirectives(text, report);
+        if (ds.length) {
+          uiDirectives = [...uiDirectives, ...ds];
         } else if (text) {
           textParts.push(text);
         }
@@ -270,6 +298,7 @@ export class AgentforceClient {
       )
       .filter(Boolean);
 
+    let uiDirective: UIDirective | undefined = uiDirectives[0];
     let displayMessage = cleanTextParts.join('\n');
     if (!displayMessage && uiDirective) {
       const payloadMsg = (uiDirective.payload as Record<string, unknown>)?.message as string | undefined;
@@ -285,122 +314,8 @@ export class AgentforceClient {
       }
     }
 
-    // ─── Detect capture JSON in the raw response text ──────────
-    const captureJsonMatch = fullText.match(/\{\s*"captured"\s*:\s*true[^}]*"eventType"\s*:\s*"([^"]+)"[^}]*\}/);
-    if (captureJsonMatch) {
-      const captureType = captureJsonMatch[1];
-      console.log('[agentforce] Detected capture JSON in response for event type:', captureType);
-      const labelMatch = captureJsonMatch[0].match(/"label"\s*:\s*"([^"]+)"/);
-      const label = labelMatch ? labelMatch[1] : `Event Captured: ${captureType}`;
-      if (!uiDirective) {
-        uiDirective = {
-          action: 'CAPTURE_ONLY' as UIAction,
-          payload: { captures: [{ type: 'meaningful_event', label }] } as unknown as UIDirective['payload'],
-        };
-      } else {
-        const existing = (uiDirective.payload as Record<string, unknown>)?.captures as unknown[] || [];
-        (uiDirective.payload as Record<string, unknown>).captures = [...existing, { type: 'meaningful_event', label }];
-      }
-    }
-
-    // ─── Client-side event capture detection ─────────────────────
-    const detectedCaptures: Array<{ type: 'meaningful_event' | 'profile_enrichment'; label: string }> = [];
-
-    const captureRegex = /\((?:Event [Cc]aptured|event captured|Captured|captured):\s*(.+?)\)/g;
-    let captureMatch;
-    while ((captureMatch = captureRegex.exec(displayMessage)) !== null) {
-      detectedCaptures.push({ type: 'meaningful_event', label: `Event Captured: ${captureMatch[1]}` });
-    }
-    const profileRegex = /\((?:Profile [Uu]pdated|profile updated|Updated|Saved):\s*(.+?)\)/g;
-    while ((captureMatch = profileRegex.exec(displayMessage)) !== null) {
-      detectedCaptures.push({ type: 'profile_enrichment', label: `Profile Updated: ${captureMatch[1]}` });
-    }
-
-    const bareEventRegex = /(?:^|\s)Event\s+Captured:\s*([^\n.!?]+)/gi;
-    while ((captureMatch = bareEventRegex.exec(displayMessage)) !== null) {
-      const label = `Event Captured: ${captureMatch[1].trim()}`;
-      if (!detectedCaptures.some(c => c.label === label)) {
-        detectedCaptures.push({ type: 'meaningful_event', label });
-      }
-    }
-
-    for (const m of rawMessages) {
-      const msg = m as Record<string, unknown>;
-      const msgType = ((msg.type as string) || '').toLowerCase();
-      if (msgType === 'text' || msgType === '') continue;
-      const content = ((msg.message || msg.text || msg.content || '') as string).toLowerCase();
-      const actionName = ((msg.actionName || msg.name || msg.identifier || '') as string).toLowerCase();
-      const combined = `${content} ${actionName}`;
-
-      if (combined.includes('meaningful') || combined.includes('capturekey') || combined.includes('capture_key')) {
-        if (!detectedCaptures.some(c => c.type === 'meaningful_event')) {
-          detectedCaptures.push({ type: 'meaningful_event', label: 'Event Captured' });
-        }
-      }
-      if (combined.includes('profileenrichment') || combined.includes('profile_enrichment') ||
-          combined.includes('updatecontactprofile') || combined.includes('update_contact_profile')) {
-        if (!detectedCaptures.some(c => c.type === 'profile_enrichment')) {
-          detectedCaptures.push({ type: 'profile_enrichment', label: 'Profile Updated' });
-        }
-      }
-    }
-
-    if (detectedCaptures.length === 0) {
-      const lower = displayMessage.toLowerCase();
-      const eventPhrases = [
-        /i'(?:ve|ll)\s+(?:noted|captured|recorded|saved)\s+(?:your\s+)?(?:upcoming\s+)?(?:trip|travel|wedding|birthday|anniversary|move|graduation|pregnancy|baby)/i,
-        /i'(?:ve|ll)\s+(?:noted|recorded|saved)\s+that\s+you(?:'re| are)\s+(?:planning|going|traveling|moving|expecting|getting married)/i,
-      ];
-      for (const re of eventPhrases) {
-        const m = displayMessage.match(re);
-        if (m) {
-          const summary = m[0].replace(/^i'(?:ve|ll)\s+(?:noted|captured|recorded|saved)\s+/i, '').trim();
-          detectedCaptures.push({ type: 'meaningful_event', label: `Event Captured: ${summary.substring(0, 50)}` });
-          break;
-        }
-      }
-      if (lower.includes("i've noted your skin") || lower.includes("i've saved your") ||
-          lower.includes("i've updated your profile") || lower.includes("got it, i've noted")) {
-        detectedCaptures.push({ type: 'profile_enrichment', label: 'Profile Updated' });
-      }
-    }
-
-    if (detectedCaptures.length > 0) {
-      console.log('[agentforce] Detected captures:', detectedCaptures);
-      const existingCaptures = ((uiDirective?.payload as Record<string, unknown>)?.captures as Array<{ type: string; label: string }>) || [];
-      const hasExistingEvent = existingCaptures.some(c => c.type === 'meaningful_event');
-      const deduped = detectedCaptures.filter(c => {
-        if (c.type === 'meaningful_event' && hasExistingEvent) return false;
-        return true;
-      });
-      if (deduped.length > 0) {
-        if (uiDirective) {
-          (uiDirective.payload as Record<string, unknown>).captures = [...existingCaptures, ...deduped];
-        } else {
-          uiDirective = {
-            action: 'CAPTURE_ONLY' as UIAction,
-            payload: { captures: deduped } as unknown as UIDirective['payload'],
-          };
-        }
-      }
-    }
-
-    // ─── Quality filter: remove false-positive meaningful_event captures ───
-    const allCaptures = ((uiDirective?.payload as Record<string, unknown>)?.captures as Array<{ type: string; label: string }>) || [];
-    if (allCaptures.length > 0) {
-      const lifeEventKeywords = /\b(trip|travel|anniversary|birthday|wedding|baby|pregnan|moving|graduat|retire|vacation|holiday|honeymoon|prom|reunion|concert|festival|event|appointment|surgery|celebration)\b/i;
-      const filtered = allCaptures.filter(c => {
-        if (c.type !== 'meaningful_event') return true;
-        const desc = c.label.replace(/^Event\s+Captured:\s*/i, '').trim();
-        if (lifeEventKeywords.test(desc)) return true;
-        if (c.label.startsWith('Event Captured:') && desc.length > 15) return true;
-        console.log('[agentforce] Filtered out low-quality capture:', c.label);
-        return false;
-      });
-      if (filtered.length < allCaptures.length) {
-        (uiDirective!.payload as Record<string, unknown>).captures = filtered;
-      }
-    }
+    // ─── Captures: structured results first, prose scraping only as a fallback ───
+    uiDirective = resolveCaptures(uiDirectives, rawMessages, displayMessage, fullText);
 
     // ─── Strip meta-text noise from displayed message ───────────
     displayMessage = displayMessage
@@ -430,14 +345,16 @@ export class AgentforceClient {
       sessionId: this.sessionId!,
       message: displayMessage,
       uiDirective,
+      uiDirectives: listDirectives({ uiDirective, uiDirectives }),
       suggestedActions: (data.suggestedActions as string[])?.length
         ? data.suggestedActions as string[]
         : (uiDirective?.payload as Record<string, unknown>)?.suggestedActions as string[] || [],
       confidence: (data.confidence as number) || 1,
+      ...withReport(report),
     };
   }
 
-  async sendMessage(message: string): Promise<AgentResponse> {
+  async sendMessage(message: string, agentContext?: string): Promise<AgentResponse> {
     if (!this.sessionId) {
       throw new Error('Session not initialized. Call initSession() first.');
     }
@@ -461,7 +378,8 @@ export class AgentforceClient {
       const t1 = Date.now();
       this.sequenceId++;
 
-      const response = await fetch(
+      const response = await serviceFetch(
+        'agentforce',
         `${this.config.baseUrl}/sessions/${this.sessionId}/messages`,
         {
           method: 'POST',
@@ -470,7 +388,7 @@ export class AgentforceClient {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            message: { sequenceId: this.sequenceId, type: 'Text', text: message },
+            message: { sequenceId: this.sequenceId, type: 'Text', text: withAgentContext(message, agentContext) },
           }),
         }
       );
@@ -497,13 +415,17 @@ export class AgentforceClient {
 
   /**
    * Send a message using SSE streaming so text chunks arrive incrementally.
-   * onChunk is called with each text fragment as it arrives. JSON directive
-   * content is never passed to onChunk — only clean prose text is streamed.
+   * onChunk is called with each prose fragment as it arrives; embedded directive
+   * JSON is held back and handed to onDirective as soon as each block closes, so
+   * the UI can act on it before the prose finishes. The returned response still
+   * lists every directive, including those already delivered.
    * Falls back to buffered JSON parsing if the server doesn't support SSE.
    */
   async sendMessageStreaming(
     message: string,
     onChunk: (text: string) => void,
+    onDirective?: (directive: UIDirective) => void,
+    agentContext?: string,
   ): Promise<AgentResponse> {
     if (!this.sessionId) {
       throw new Error('Session not initialized. Call initSession() first.');
@@ -528,14 +450,14 @@ export class AgentforceClient {
 
       const url = `${this.config.baseUrl}/sessions/${this.sessionId}/messages`;
       const bodyPayload = JSON.stringify({
-        message: { sequenceId: this.sequenceId, type: 'Text', text: message },
+        message: { sequenceId: this.sequenceId, type: 'Text', text: withAgentContext(message, agentContext) },
       });
 
       // ── Helper: buffered JSON request (no SSE) ─────────────────
       // Used both for the SSE-unsupported fast path and as a fallback
       // after a 406. Does NOT re-acquire the lock — lock is already held.
       const sendBuffered = async (): Promise<AgentResponse> => {
-        const r = await fetch(url, {
+        const r = await serviceFetch('agentforce', url, {
           method: 'POST',
           headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
           body: bodyPayload,
@@ -555,7 +477,7 @@ export class AgentforceClient {
         return await sendBuffered();
       }
 
-      const response = await fetch(url, {
+      const response = await serviceFetch('agentforce', `${url}/stream`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -566,11 +488,13 @@ export class AgentforceClient {
       });
 
       if (!response.ok) {
-        // 406 = SSE not accepted by this API version. Mark and fall back to JSON.
-        if (response.status === 406 || response.status === 415 || response.status === 500) {
+        // The stream endpoint is missing or refuses SSE on this org — mark and resend
+        // as JSON under the same sequenceId. A 500 is how orgs without SSE usually
+        // answer; throwing there would lose the turn, and if SF did take the message
+        // the retry fails on the duplicate sequenceId rather than sending it twice.
+        if ([404, 405, 406, 415, 500].includes(response.status)) {
           this._sseUnsupported = true;
           console.log(`[agentforce] SSE not supported (${response.status}) — falling back to JSON for this session`);
-          // Need a fresh token check but can reuse the one we already have.
           // Retry as buffered (lock is already held, so safe to call directly).
           return await sendBuffered();
         }
@@ -590,85 +514,105 @@ export class AgentforceClient {
       // ── SSE streaming path ──────────────────────────────────────
       const reader = response.body!.getReader();
       const decoder = new TextDecoder();
-      let buffer = '';
+      const sse = new SSEDecoder();
       let firstChunkAt: number | null = null;
       let finalData: Record<string, unknown> | null = null;
-      // Accumulate streamed text so we can detect when JSON starts.
-      // Once '{' appears we stop calling onChunk (no JSON leaks to UI).
+      // Accumulated raw text, used to synthesize a response if no final event arrives
       let accumulatedStreamText = '';
-      let jsonStarted = false;
-
-      const processLine = (line: string) => {
-        if (!line.startsWith('data: ')) return;
-        const rawData = line.slice(6).trim();
-        if (!rawData || rawData === '[DONE]') return;
-        try {
-          const parsed = JSON.parse(rawData) as Record<string, unknown>;
-
-          // Final event containing the full messages array
-          if (parsed.messages || parsed.responseMessages) {
-            finalData = parsed;
-            return;
+      let streamedProse = '';
+      const streamedDirectives: UIDirective[] = [];
+      const streamedReport: DirectiveParseReport = { errors: [], diagnostics: [] };
+      const prose = new DirectiveStreamParser({
+        onText: (text) => {
+          streamedProse += text;
+          onChunk(text);
+        },
+        onJson: (json) => {
+          for (const directive of this._parseDirectives(json, streamedReport)) {
+            streamedDirectives.push(directive);
+            onDirective?.(directive);
           }
+        },
+      });
 
-          // Incremental text chunk
-          const chunkText = ((parsed.message || parsed.text || parsed.chunk || '') as string);
-          if (chunkText && typeof chunkText === 'string' && !jsonStarted) {
-            if (!firstChunkAt) {
-              firstChunkAt = Date.now();
-              console.log(`[timing] seq=${this.sequenceId} | first SSE chunk: ${firstChunkAt - t1}ms`);
-            }
-            accumulatedStreamText += chunkText;
-            // Stop streaming to UI once JSON directive begins
-            const braceIdx = accumulatedStreamText.indexOf('{');
-            if (braceIdx !== -1) {
-              jsonStarted = true;
-              // Call with any clean text that preceded the brace
-              const cleanBefore = accumulatedStreamText.slice(0, braceIdx).trim();
-              if (cleanBefore) onChunk(cleanBefore);
-            } else {
-              onChunk(chunkText);
-            }
+      const handleEvent = (data: string) => {
+        const event = readAgentStreamEvent(data);
+        if (event?.kind === 'final') {
+          // The Agent API sends one Inform event per agent message — keep them all
+          const prior = finalData?.messages as unknown[] | undefined;
+          const incoming = event.data.messages as unknown[] | undefined;
+          finalData = prior && incoming ? { ...event.data, messages: [...prior, ...incoming] } : event.data;
+        } else if (event?.kind === 'chunk') {
+          if (!firstChunkAt) {
+            firstChunkAt = Date.now();
+            console.log(`[timing] seq=${this.sequenceId} | first SSE chunk: ${firstChunkAt - t1}ms`);
           }
-        } catch {
-          // Ignore malformed SSE lines
+          accumulatedStreamText += event.text;
+          prose.push(event.text);
         }
       };
 
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        for (const line of lines) processLine(line);
+        for (const event of sse.push(decoder.decode(value, { stream: true }))) handleEvent(event.data);
       }
-      if (buffer) processLine(buffer);
+      for (const event of sse.push(decoder.decode())) handleEvent(event.data);
+      for (const event of sse.end()) handleEvent(event.data);
+      prose.end();
 
       const t2 = Date.now();
       console.log(`[timing] seq=${this.sequenceId} | SSE stream complete: ${t2 - t0}ms | first chunk: ${firstChunkAt ? firstChunkAt - t1 : 'none'}ms`);
 
       // Use the final event data if the server sent one; otherwise synthesize from chunks
-      if (finalData) {
-        return this._processResponse(finalData);
-      }
-      // Synthetic fallback: treat accumulated stream text as the agent message
-      const syntheticData: Record<string, unknown> = {
+      const result = this._processResponse(finalData ?? {
         messages: [{ type: 'Text', message: accumulatedStreamText }],
         suggestedActions: [],
         confidence: 1,
-      };
-      return this._processResponse(syntheticData);
+      });
+      return this._preferStreamed(result, streamedDirectives, streamedProse, streamedReport);
     } finally {
       releaseLock();
     }
   }
 
+  /**
+   * The whole-text parse in _processResponse only finds one JSON block per
+   * message, while the stream parser splits prose from every block exactly.
+   * When the stream saw more directives, trust it for directives, text and the
+   * parse report, keeping any captures the final parse attached.
+   */
+  private _preferStreamed(
+    response: AgentResponse,
+    directives: UIDirective[],
+    prose: string,
+    report: DirectiveParseReport,
+  ): AgentResponse {
+    if (directives.length <= (response.uiDirectives?.length ?? 0)) return response;
+    const captures = response.uiDirective?.payload?.captures;
+    const [first, ...rest] = directives;
+    const uiDirective = captures?.length
+      ? { ...first, payload: { ...first.payload, captures: [...(first.payload?.captures ?? []), ...captures] } }
+      : first;
+    const { directiveReport: _finalParse, ...finalResponse } = response;
+    return {
+      ...finalResponse,
+      message: prose.replace(/\s{2,}/g, ' ').trim() || response.message,
+      uiDirective,
+      uiDirectives: [uiDirective, ...rest],
+      ...withReport(report),
+    };
+  }
+
   /** Snapshot current session state for later restoration. */
-  getSessionSnapshot(): { sessionId: string | null; sequenceId: number } {
+  getSessionSnapshot(): AgentBackendSnapshot {
     return { sessionId: this.sessionId, sequenceId: this.sequenceId };
   }
 
+  restoreSnapshot(snapshot: AgentBackendSnapshot): void {
+    if (snapshot.sessionId) this.restoreSession(snapshot.sessionId, snapshot.sequenceId);
+  }
+
   /** Restore a previously snapshotted session (no API call — session persists server-side). */
   restoreSession(sessionId: string, sequenceId: number): void {
     this.sessionId = sessionId;
@@ -678,7 +622,7 @@ export class AgentforceClient {
   async endSession(): Promise<void> {
     if (this.sessionId) {
       const token = await this.getAccessToken();
-      await fetch(`${this.config.baseUrl}/sessions/${this.sessionId}`, {
+      await serviceFetch('agentforce', `${this.config.baseUrl}/sessions/${this.sessionId}`, {
         method: 'DELETE',
         headers: { 'Authorization': `Bearer ${token}` },
       });
@@ -689,12 +633,16 @@ export class AgentforceClient {
 
 let agentforceClient: AgentforceClient | null = null;
 
+const directiveModeFromEnv = (): DirectiveParseMode =>
+  import.meta.env.VITE_DIRECTIVE_PARSE_MODE === 'strict' ? 'strict' : 'lenient';
+
 export const getAgentforceClient = (): AgentforceClient => {
   if (!agentforceClient) {
     agentforceClient = new AgentforceClient({
       baseUrl: '/api/agentforce',
       agentId: import.meta.env.VITE_AGENTFORCE_AGENT_ID || '',
       instanceUrl: import.meta.env.VITE_AGENTFORCE_INSTANCE_URL || '',
+      directiveMode: directiveModeFromEnv(),
     });
   }
   return agentforceClient;
@@ -706,5 +654,6 @@ export const createAgentforceClient = (agentId: string): AgentforceClient => {
     baseUrl: '/api/agentforce',
     agentId,
     instanceUrl: import.meta.env.VITE_AGENTFORCE_INSTANCE_URL || '',
+    directiveMode: directiveModeFromEnv(),
   });
 };
@@ -0,0 +1,292 @@
+import type { DirectiveValidationError, UIAction, UIDirective, UIDirectiveVersion } from '@/types/agent';
+import { CURRENT_DIRECTIVE_VERSION } from '@/types/agent';
+
+/**
+ * Runtime schema for versioned UI directives.
+ *
+ * The agent emits `{ version, action, payload }`. Each action declares which
+ * payload fields it requires; every known payload field has a shape check
+ * regardless of action. Unknown payload keys are tolerated so the agent can
+ * add fields ahead of the frontend, but unknown keys on the directive root are
+ * rejected — that is where legacy (v0) payloads put misplaced data.
+ */
+
+export const SUPPORTED_DIRECTIVE_VERSIONS: readonly UIDirectiveVersion[] = [CURRENT_DIRECTIVE_VERSION];
+
+type Check = (value: unknown, path: string, errors: DirectiveValidationError[]) => void;
+
+interface ActionSchema {
+  /** Payload fields that must be present for this action. */
+  required: string[];
+}
+
+const ACTION_SCHEMAS: Record<UIAction, ActionSchema> = {
+  SHOW_PRODUCT: { required: ['products'] },
+  SHOW_PRODUCTS: { required: ['products'] },
+  COMPARE_PRODUCTS: { required: ['products'] },
+  CHANGE_SCENE: { required: ['sceneContext'] },
+  WELCOME_SCENE: { required: ['welcomeMessage'] },
+  INITIATE_CHECKOUT: { required: [] },
+  CONFIRM_ORDER: { required: [] },
+  RESET_SCENE: { required: [] },
+  IDENTIFY_CUSTOMER: { required: ['customerEmail'] },
+  CAPTURE_ONLY: { required: ['captures'] },
+  LAUNCH_SKIN_ANALYSIS: { required: [] },
+  SHOW_SKIN_REPORT: { required: [] },
+  SHOW_ROUTINE: { required: [] },
+  RETAILER_HANDOFF: { required: [] },
+  ADD_TO_CART: { required: ['cartItems'] },
+  REMOVE_FROM_CART: { required: ['cartItems'] },
+  APPLY_PROMO: { required: ['promoCode'] },
+  OFFER_LOYALTY_REDEMPTION: { required: [] },
+  PROPOSE_SUBSCRIPTION: { required: ['subscriptionOffer'] },
+};
+
+const ROOT_KEYS = new Set(['version', 'action', 'payload']);
+
+const CAPTURE_TYPES = ['contact_created', 'meaningful_event', 'profile_enrichment'];
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+function expectType(expected: 'string' | 'number' | 'boolean' | 'object' | 'array'): Check {
+  return (value, path, errors) => {
+    const actual = typeOf(value);
+    if (actual !== expected) {
+      errors.push({ path, code: 'invalid_type', message: `Expected ${expected}, received ${actual}` });
+    }
+  };
+}
+
+const isString = expectType('string');
+const isBoolean = expectType('boolean');
+
+function arrayOf(item: Check): Check {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push({ path, code: 'invalid_type', message: `Expected array, received ${typeOf(value)}` });
+      return;
+    }
+    value.forEach((v, i) => item(v, `${path}[${i}]`, errors));
+  };
+}
+
+function objectOf(fields: Record<string, Check>, required: string[] = []): Check {
+  return (value, path, errors) => {
+    if (!isRecord(value)) {
+      errors.push({ path, code: 'invalid_type', message: `Expected object, received ${typeOf(value)}` });
+      return;
+    }
+    for (const key of required) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push({ path: `${path}.${key}`, code: 'required', message: `"${key}" is required` });
+      }
+    }
+    for (const [key, check] of Object.entries(fields)) {
+      if (value[key] !== undefined) check(value[key], `${path}.${key}`, errors);
+    }
+  };
+}
+
+const nonEmptyString: Check = (value, path, errors) => {
+  isString(value, path, errors);
+  if (typeof value === 'string' && !value.trim()) {
+    errors.push({ path, code: 'invalid_value', message: 'Must not be empty' });
+  }
+};
+
+const product = objectOf(
+  {
+    id: nonEmptyString,
+    name: isString,
+    brand: isString,
+    category: isString,
+    price: expectType('number'),
+    imageUrl: isString,
+    images: arrayOf(isString),
+  },
+  ['id', 'name'],
+);
+
+const sceneContext = objectOf(
+  {
+    setting: nonEmptyString,
+    mood: isString,
+    generateBackground: isBoolean,
+    backgroundPrompt: isString,
+    cmsAssetId: isString,
+    cmsTag: isString,
+    editMode: isBoolean,
+    sceneAssetId: isString,
+    imageUrl: isString,
+  },
+  ['setting'],
+);
+
+const oneOf = (allowed: string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push({ path, code: 'invalid_value', message: `Expected one of ${allowed.join(', ')}` });
+  }
+};
+
+const stringOrStrings: Check = (value, path, errors) => {
+  if (Array.isArray(value)) arrayOf(isString)(value, path, errors);
+  else isString(value, path, errors);
+};
+
+const capture = objectOf(
+  {
+    type: oneOf(CAPTURE_TYPES),
+    label: isString,
+    confidence: oneOf(['stated', 'inferred']),
+    event: objectOf(
+      { eventType: nonEmptyString, description: nonEmptyString, eventDate: isString, relativeTimeText: isString, agentNote: isString },
+      ['description'],
+    ),
+    profileField: objectOf({ name: nonEmptyString, value: stringOrStrings }, ['name', 'value']),
+  },
+  ['type', 'label'],
+);
+
+const retailerLink = objectOf(
+  { name: isString, url: isString, inStore: isBoolean, online: isBoolean, promo: isString },
+  ['name', 'url'],
+);
+
+const positiveInteger: Check = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    errors.push({ path, code: 'invalid_value', message: 'Expected a positive integer' });
+  }
+};
+
+const cartItem = objectOf({ productId: nonEmptyString, quantity: positiveInteger }, ['productId']);
+
+const ROUTINE_STEPS = ['cleanser', 'toner', 'serum', 'moisturizer', 'sunscreen'];
+
+const routineStep = objectOf(
+  {
+    step: (value, path, errors) => {
+      if (typeof value !== 'string' || !ROUTINE_STEPS.includes(value)) {
+        errors.push({ path, code: 'invalid_value', message: `Expected one of ${ROUTINE_STEPS.join(', ')}` });
+      }
+    },
+    product,
+    reason: isString,
+  },
+  ['step', 'product'],
+);
+
+const routine = objectOf(
+  {
+    morning: arrayOf(routineStep),
+    evening: arrayOf(routineStep),
+    conflicts: arrayOf(objectOf({ message: isString }, ['message'])),
+    focus: arrayOf(isString),
+  },
+  ['morning', 'evening'],
+);
+
+const email: Check = (value, path, errors) => {
+  isString(value, path, errors);
+  if (typeof value === 'string' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+    errors.push({ path, code: 'invalid_value', message: 'Not a valid email address' });
+  }
+};
+
+/** Shape checks for every known payload field, applied whenever the field is present. */
+const PAYLOAD_FIELDS: Record<string, Check> = {
+  products: arrayOf(product),
+  welcomeMessage: nonEmptyString,
+  welcomeSubtext: isString,
+  message: isString,
+  suggestedActions: arrayOf(isString),
+  sceneContext,
+  checkoutData: objectOf({ products: arrayOf(product), useStoredPayment: isBoolean }, ['products']),
+  orderConfirmation: objectOf({ orderId: nonEmptyString, estimatedDelivery: isString }, ['orderId']),
+  customerEmail: email,
+  cartItems: arrayOf(cartItem),
+  promoCode: nonEmptyString,
+  loyaltyOffer: objectOf({ rewardName: nonEmptyString, points: positiveInteger }),
+  subscriptionOffer: objectOf(
+    { productId: nonEmptyString, frequencyDays: positiveInteger, quantity: positiveInteger },
+    ['productId'],
+  ),
+  captures: arrayOf(capture),
+  routine,
+  retailerHandoff: objectOf({ retailers: arrayOf(retailerLink), headline: isString }, ['retailers']),
+};
+
+export function isKnownAction(action: unknown): action is UIAction {
+  return typeof action === 'string' && Object.prototype.hasOwnProperty.call(ACTION_SCHEMAS, action);
+}
+
+/**
+ * Validate a raw directive object against the versioned schema.
+ * Returns every violation found (not just the first) so the agent prompt
+ * author can fix a payload in one pass.
+ */
+export function validateUIDirective(input: unknown): DirectiveValidationError[] {
+  const errors: DirectiveValidationError[] = [];
+
+  if (!isRecord(input)) {
+    errors.push({ path: 'uiDirective', code: 'invalid_type', message: `Expected object, received ${typeOf(input)}` });
+    return errors;
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!ROOT_KEYS.has(key)) {
+      errors.push({ path: key, code: 'unknown_field', message: `Unexpected field "${key}" on directive root` });
+    }
+  }
+
+  if (input.version === undefined) {
+    errors.push({ path: 'version', code: 'required', message: '"version" is required' });
+  } else if (!SUPPORTED_DIRECTIVE_VERSIONS.includes(input.version as UIDirectiveVersion)) {
+    errors.push({
+      path: 'version',
+      code: 'unsupported_version',
+      message: `Unsupported version ${JSON.stringify(input.version)}; supported: ${SUPPORTED_DIRECTIVE_VERSIONS.join(', ')}`,
+    });
+  }
+
+  if (input.action === undefined) {
+    errors.push({ path: 'action', code: 'required', message: '"action" is required' });
+  } else if (!isKnownAction(input.action)) {
+    errors.push({ path: 'action', code: 'invalid_value', message: `Unknown action ${JSON.stringify(input.action)}` });
+  }
+
+  if (input.payload === undefined) {
+    errors.push({ path: 'payload', code: 'required', message: '"payload" is required' });
+    return errors;
+  }
+  if (!isRecord(input.payload)) {
+    errors.push({ path: 'payload', code: 'invalid_type', message: `Expected object, received ${typeOf(input.payload)}` });
+    return errors;
+  }
+
+  const payload = input.payload;
+  if (isKnownAction(input.action)) {
+    for (const key of ACTION_SCHEMAS[input.action].required) {
+      if (payload[key] === undefined || payload[key] === null) {
+        errors.push({ path: `payload.${key}`, code: 'required', message: `"${key}" is required for ${input.action}` });
+      }
+    }
+  }
+  for (const [key, check] of Object.entries(PAYLOAD_FIELDS)) {
+    if (payload[key] !== undefined) check(payload[key], `payload.${key}`, errors);
+  }
+
+  return errors;
+}
+
+/** Type guard companion to validateUIDirective for callers that only need a yes/no. */
+export function isValidUIDirective(input: unknown): input is UIDirective {
+  return validateUIDirective(input).length === 0;
+}
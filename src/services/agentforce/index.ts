@@ -1,2 +1,13 @@
 export { AgentforceClient, getAgentforceClient } from './client';
-export { parseUIDirective } from './parseDirectives';
+export { getCaptureMetrics, resetCaptureMetrics, subscribeCaptureMetrics } from './captures';
+export type { CaptureMetrics, CaptureSourceMetrics } from './captures';
+export { parseUIDirective, parseUIDirectives, parseUIDirectiveDetailed } from './parseDirectives';
+export { SSEDecoder, DirectiveStreamParser, readAgentStreamEvent } from './streamParser';
+export { validateUIDirective, isValidUIDirective, SUPPORTED_DIRECTIVE_VERSIONS } from './directiveSchema';
+export type { DirectiveParseMode } from './types';
+export type {
+  DirectiveParseResult,
+  DirectiveParseReport,
+  DirectiveValidationError,
+  DirectiveDiagnostic,
+} from '@/types/agent';
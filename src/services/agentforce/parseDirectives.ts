@@ -1,7 +1,15 @@
-import type { UIDirective, UIAction } from '@/types/agent';
+import type {
+  DirectiveDiagnostic,
+  DirectiveParseResult,
+  DirectiveValidationError,
+  UIDirective,
+  UIAction,
+  UIDirectiveVersion,
+} from '@/types/agent';
 import type { Product } from '@/types/product';
-import type { RawAgentResponse } from './types';
+import type { RawAgentResponse, ParseDirectiveOptions } from './types';
 import { MOCK_PRODUCTS } from '@/mocks/products';
+import { validateUIDirective } from './directiveSchema';
 
 /**
  * Strip invisible/control characters that Agentforce sometimes injects,
@@ -27,16 +35,31 @@ for (const p of MOCK_PRODUCTS) {
  *
  * Exported so Card Carousel items from Adaptive Response Formats can be
  * enriched with the same catalog data as text-parsed directives.
+ *
+ * Coercions (string → product, synthesized IDs, dropped placeholders) are
+ * pushed onto `diagnostics` when a sink is provided.
  */
-export function normalizeProducts(products: unknown[]): Product[] {
+export function normalizeProducts(
+  products: unknown[],
+  diagnostics?: DirectiveDiagnostic[],
+  basePath = 'payload.products',
+): Product[] {
   return products.flatMap((p, i) => {
+    const path = `${basePath}[${i}]`;
     // Agent sometimes returns bare strings instead of product objects
+    if (typeof p === 'string') {
+      diagnostics?.push({ code: 'product_from_string', path, message: `Wrapped bare string "${p}" as a product` });
+    }
     const raw = (typeof p === 'string' ? { id: p, name: p } : p) as Record<string, unknown>;
     if (!raw.id) {
       raw.id = raw.productId || raw.sku || raw.productCode || `product-${i}`;
+      diagnostics?.push({ code: 'product_id_filled', path: `${path}.id`, message: `Filled missing id with "${raw.id}"` });
     }
     // Filter out template placeholders the agent returns when Search_Product_Catalog isn't wired up
-    if (typeof raw.id === 'string' && raw.id.startsWith('<')) return [];
+    if (typeof raw.id === 'string' && raw.id.startsWith('<')) {
+      diagnostics?.push({ code: 'product_placeholder_dropped', path, message: `Dropped template placeholder "${raw.id}"` });
+      return [];
+    }
 
     // Try to resolve to a local catalog product for correct imageUrl
     const catalogProduct =
@@ -54,6 +77,8 @@ export function normalizeProducts(products: unknown[]): Product[] {
       if (!raw.price && catalogProduct.price) raw.price = catalogProduct.price;
       if (!raw.shortDescription) raw.shortDescription = catalogProduct.shortDescription;
       if (!raw.salesforceId) raw.salesforceId = catalogProduct.salesforceId;
+      // Agents rarely send ingredient lists — without the catalog's, the allergy guard has nothing to check
+      raw.attributes = { ...catalogProduct.attributes, ...(raw.attributes as Record<string, unknown> | undefined) };
     }
 
     return [raw as unknown as Product];
@@ -65,15 +90,15 @@ export function normalizeProducts(products: unknown[]): Product[] {
  * The agent uses arbitrary key names (productCarousel, productShowcase,
  * productGrid, recommendations, etc.) — this handles all of them.
  */
-function findNestedProducts(d: Record<string, unknown>): unknown[] | null {
-  const SKIP = new Set(['payload', 'action', 'scene', 'sceneContext', 'captures',
+function findNestedProducts(d: Record<string, unknown>): { products: unknown[]; path: string } | null {
+  const SKIP = new Set(['payload', 'action', 'version', 'scene', 'sceneContext', 'captures',
     'welcomeMessage', 'welcomeSubtext', 'message', 'suggestionPrompt']);
   for (const [key, val] of Object.entries(d)) {
     if (SKIP.has(key)) continue;
     if (val && typeof val === 'object' && !Array.isArray(val)) {
       const nested = val as Record<string, unknown>;
-      if (Array.isArray(nested.products)) return nested.products;
-      if (Array.isArray(nested.items)) return nested.items;
+      if (Array.isArray(nested.products)) return { products: nested.products, path: `${key}.products` };
+      if (Array.isArray(nested.items)) return { products: nested.items, path: `${key}.items` };
     }
   }
   return null;
@@ -127,87 +152,149 @@ function inferAction(d: Record<string, unknown>): UIAction | undefined {
  */
 function normalizePayload(
   d: Record<string, unknown>,
-  action: UIAction,
+  diagnostics: DirectiveDiagnostic[],
 ): UIDirective['payload'] {
   const existing = (d.payload || {}) as Record<string, unknown>;
 
   // Map `items` → `products` (agent sometimes uses wrong key)
   if (!existing.products && (d.items || existing.items)) {
     existing.products = d.items || existing.items;
-    console.warn('[parseDirectives] Normalized "items" → "products"');
+    diagnostics.push({
+      code: 'field_renamed',
+      path: d.items ? 'items' : 'payload.items',
+      message: 'Renamed "items" to "payload.products"',
+    });
   }
 
   // Map `d.products` (flat on uiDirective root) into payload
   if (!existing.products && d.products) {
     existing.products = d.products;
-    console.warn('[parseDirectives] Moved root-level "products" into payload');
+    diagnostics.push({ code: 'field_hoisted', path: 'products', message: 'Moved root-level "products" into payload' });
   }
 
   // Scan any nested container for products (productCarousel, productShowcase, etc.)
   if (!existing.products) {
     const nested = findNestedProducts(d);
     if (nested) {
-      existing.products = nested;
-      console.warn('[parseDirectives] Extracted products from nested container');
+      existing.products = nested.products;
+      diagnostics.push({
+        code: 'field_hoisted',
+        path: nested.path,
+        message: `Extracted products from nested container "${nested.path}"`,
+      });
     }
   }
 
   // Map `d.scene` → `sceneContext` (agent sometimes uses "scene" instead of "sceneContext")
   if (!existing.sceneContext && d.scene) {
     existing.sceneContext = d.scene;
-    console.warn('[parseDirectives] Normalized "scene" → "sceneContext"');
+    diagnostics.push({ code: 'field_renamed', path: 'scene', message: 'Renamed "scene" to "payload.sceneContext"' });
   }
 
-  // Map welcome fields from root into payload
-  if (!existing.welcomeMessage && d.welcomeMessage) {
-    existing.welcomeMessage = d.welcomeMessage;
-  }
-  if (!existing.welcomeSubtext && d.welcomeSubtext) {
-    existing.welcomeSubtext = d.welcomeSubtext;
+  // Map welcome fields, sceneContext and captures from root into payload
+  for (const key of ['welcomeMessage', 'welcomeSubtext', 'sceneContext', 'captures']) {
+    if (!existing[key] && d[key]) {
+      existing[key] = d[key];
+      diagnostics.push({ code: 'field_hoisted', path: key, message: `Moved root-level "${key}" into payload` });
+    }
   }
 
-  // Map sceneContext from root into payload
-  if (!existing.sceneContext && d.sceneContext) {
-    existing.sceneContext = d.sceneContext;
-  }
+  return existing as UIDirective['payload'];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
 
-  // Map captures from root into payload
-  if (!existing.captures && d.captures) {
-    existing.captures = d.captures;
+/**
+ * Pull the raw directive objects out of a parsed agent payload. A turn may
+ * carry an ordered `uiDirectives` array or a single `uiDirective`; `multi`
+ * tells the caller to index error paths into the array.
+ */
+function getRawDirectives(obj: unknown): { raws: Record<string, unknown>[]; multi: boolean } | undefined {
+  if (!isPlainObject(obj)) return undefined;
+  if (Array.isArray(obj.uiDirectives)) {
+    return { raws: obj.uiDirectives.filter(isPlainObject), multi: true };
   }
+  if (isPlainObject(obj.uiDirective)) {
+    return { raws: [obj.uiDirective], multi: false };
+  }
+  return undefined;
+}
 
-  return existing as UIDirective['payload'];
+/** Resolve products in a validated or coerced payload against the local catalog. */
+function normalizePayloadProducts(payload: UIDirective['payload'], diagnostics: DirectiveDiagnostic[]): void {
+  if (payload.products && Array.isArray(payload.products)) {
+    payload.products = normalizeProducts(payload.products, diagnostics);
+  }
+  if (payload.checkoutData?.products && Array.isArray(payload.checkoutData.products)) {
+    payload.checkoutData.products = normalizeProducts(
+      payload.checkoutData.products,
+      diagnostics,
+      'payload.checkoutData.products',
+    );
+  }
 }
 
-function extractDirective(obj: unknown): UIDirective | undefined {
-  if (obj && typeof obj === 'object' && 'uiDirective' in (obj as Record<string, unknown>)) {
-    const d = (obj as Record<string, unknown>).uiDirective as Record<string, unknown>;
-    if (!d) return undefined;
+/**
+ * v0 compatibility layer: coerce a legacy, unversioned directive into the
+ * `{ action, payload }` shape, recording each coercion as a diagnostic.
+ */
+function coerceLegacyDirective(
+  d: Record<string, unknown>,
+  diagnostics: DirectiveDiagnostic[],
+): UIDirective | undefined {
+  const action = inferAction(d);
+  if (!action) return undefined;
 
-    const action = inferAction(d);
-    if (!action) {
-      console.warn('[parseDirectives] Could not infer action from uiDirective:', Object.keys(d));
-      return undefined;
-    }
+  if (!d.action) {
+    diagnostics.push({ code: 'action_inferred', path: 'action', message: `Inferred missing action "${action}"` });
+  }
 
-    if (!d.action) {
-      console.warn(`[parseDirectives] Inferred missing action: "${action}"`);
-    }
+  const payload = normalizePayload(d, diagnostics);
+  normalizePayloadProducts(payload, diagnostics);
+  return { action, payload, version: 0 };
+}
 
-    const payload = normalizePayload(d, action);
+function extractDirective(
+  d: Record<string, unknown>,
+  strict: boolean,
+  diagnostics: DirectiveDiagnostic[],
+): { directive?: UIDirective; errors: DirectiveValidationError[] } {
+  const errors = validateUIDirective(d);
+
+  if (errors.length === 0) {
+    const payload = d.payload as UIDirective['payload'];
+    normalizePayloadProducts(payload, diagnostics);
+    return {
+      directive: { action: d.action as UIAction, payload, version: d.version as UIDirectiveVersion },
+      errors,
+    };
+  }
 
-    if (payload.products && Array.isArray(payload.products)) {
-      payload.products = normalizeProducts(payload.products);
-    }
-    if (payload.checkoutData?.products && Array.isArray(payload.checkoutData.products)) {
-      payload.checkoutData.products = normalizeProducts(payload.checkoutData.products);
-    }
-    return { action, payload };
+  if (strict) return { errors };
+
+  // Unversioned payloads are expected to fail validation — only surface the
+  // errors when the agent claimed a version and still got the shape wrong.
+  const claimedVersion = d.version !== undefined;
+  if (claimedVersion) {
+    diagnostics.push({
+      code: 'version_fallback',
+      path: 'version',
+      message: `Directive declared version ${JSON.stringify(d.version)} but failed validation; applied v0 coercion`,
+    });
   }
-  return undefined;
+
+  const directive = coerceLegacyDirective(d, diagnostics);
+  if (!directive) {
+    return {
+      errors: [{ path: 'action', code: 'required', message: `Could not infer action from keys: ${Object.keys(d).join(', ')}` }],
+    };
+  }
+  return { directive, errors: claimedVersion ? errors : [] };
 }
 
-function tryParseJSON(text: string): unknown | undefined {
+function tryParseJSON(text: string, allowRepair: boolean, diagnostics: DirectiveDiagnostic[]): unknown | undefined {
   const clean = sanitize(text);
 
   // Direct parse
@@ -233,6 +320,9 @@ function tryParseJSON(text: string): unknown | undefined {
     candidate = clean.slice(start);
   }
 
+  // Strict mode never repairs — truncated JSON is simply not a directive.
+  if (!allowRepair) return undefined;
+
   // Agentforce sometimes returns truncated JSON — missing closing braces,
   // brackets, or even cut mid-string. Attempt progressive repair.
   let depth = 0;
@@ -268,10 +358,12 @@ function tryParseJSON(text: string): unknown | undefined {
     repaired += ']'.repeat(Math.max(0, bracketDepth)) + '}'.repeat(Math.max(0, depth));
 
     try {
-      console.warn(
-        `[parseDirectives] Repaired truncated JSON: closedString=${inStr}, brackets=${bracketDepth}, braces=${depth}`
-      );
-      return JSON.parse(repaired);
+      const parsed = JSON.parse(repaired);
+      diagnostics.push({
+        code: 'json_repaired',
+        message: `Repaired truncated JSON: closedString=${inStr}, brackets=${bracketDepth}, braces=${depth}`,
+      });
+      return parsed;
     } catch { /* continue */ }
 
     // If the simple repair failed, try trimming back to the last complete
@@ -282,8 +374,9 @@ function tryParseJSON(text: string): unknown | undefined {
         ']'.repeat(Math.max(0, bracketDepth)) +
         '}'.repeat(Math.max(0, depth));
       try {
-        console.warn('[parseDirectives] Repaired by trimming to last complete array element');
-        return JSON.parse(trimmed);
+        const parsed = JSON.parse(trimmed);
+        diagnostics.push({ code: 'json_repaired', message: 'Repaired by trimming to last complete array element' });
+        return parsed;
       } catch { /* continue */ }
     }
   }
@@ -291,16 +384,72 @@ function tryParseJSON(text: string): unknown | undefined {
   return undefined;
 }
 
-export function parseUIDirective(response: RawAgentResponse): UIDirective | undefined {
-  if (response.metadata?.uiDirective) {
-    return extractDirective({ uiDirective: response.metadata.uiDirective });
+function extractDirectives(
+  found: { raws: Record<string, unknown>[]; multi: boolean },
+  strict: boolean,
+  diagnostics: DirectiveDiagnostic[],
+): DirectiveParseResult {
+  const directives: UIDirective[] = [];
+  const errors: DirectiveValidationError[] = [];
+
+  found.raws.forEach((raw, i) => {
+    const prefix = found.multi ? `uiDirectives[${i}].` : '';
+    const local: DirectiveDiagnostic[] = [];
+    const result = extractDirective(raw, strict, local);
+    if (result.directive) directives.push(result.directive);
+    errors.push(...result.errors.map((e) => ({ ...e, path: prefix + e.path })));
+    diagnostics.push(...local.map((d) => (d.path ? { ...d, path: prefix + d.path } : d)));
+  });
+
+  return { directive: directives[0], directives, errors, diagnostics };
+}
+
+/**
+ * Parse UI directives from an agent response and report how they were obtained.
+ *
+ * Sources are tried in order: `metadata`, then JSON embedded in `message`,
+ * then `rawText`. Each source may carry a single `uiDirective` or an ordered
+ * `uiDirectives` array. Versioned directives are schema-validated; in lenient
+ * mode anything that fails validation goes through the v0 compatibility
+ * layer, in strict mode it is dropped with field-level errors.
+ */
+export function parseUIDirectiveDetailed(
+  response: RawAgentResponse,
+  options: ParseDirectiveOptions = {},
+): DirectiveParseResult {
+  const strict = options.mode === 'strict';
+  const diagnostics: DirectiveDiagnostic[] = [];
+
+  const fromMetadata = getRawDirectives(response.metadata);
+  if (fromMetadata) {
+    return extractDirectives(fromMetadata, strict, diagnostics);
   }
 
-  const text = response.message || response.rawText || '';
-  const parsed = tryParseJSON(text);
-  if (parsed) {
-    return extractDirective(parsed);
+  const sources = [response.message, response.rawText].filter(
+    (t, i, all): t is string => !!t && all.indexOf(t) === i,
+  );
+  for (const text of sources) {
+    const sourceDiagnostics: DirectiveDiagnostic[] = [];
+    const found = getRawDirectives(tryParseJSON(text, !strict, sourceDiagnostics));
+    if (!found) continue;
+    diagnostics.push(...sourceDiagnostics);
+    return extractDirectives(found, strict, diagnostics);
   }
 
-  return undefined;
+  return { directives: [], errors: [], diagnostics };
+}
+
+export function parseUIDirective(
+  response: RawAgentResponse,
+  options?: ParseDirectiveOptions,
+): UIDirective | undefined {
+  return parseUIDirectiveDetailed(response, options).directive;
+}
+
+/** All directives in the response, in the order the agent listed them. */
+export function parseUIDirectives(
+  response: RawAgentResponse,
+  options?: ParseDirectiveOptions,
+): UIDirective[] {
+  return parseUIDirectiveDetailed(response, options).directives;
 }
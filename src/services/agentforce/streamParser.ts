@@ -0,0 +1,203 @@
+/**
+ * Incremental parsing for the Agentforce SSE stream.
+ *
+ * Three layers, each fed whatever slice of the response the network hands us:
+ *   1. SSEDecoder turns raw bytes-as-text into complete `event`/`data` records.
+ *   2. readAgentStreamEvent maps an event's data to a text chunk or the final turn.
+ *   3. DirectiveStreamParser splits the agent's text into prose (safe to show as it
+ *      arrives) and embedded JSON blocks (held back until they close).
+ */
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/** Spec-compliant `text/event-stream` framing: CRLF/LF, multi-line data, comments. */
+export class SSEDecoder {
+  private buffer = '';
+  private pendingCR = false;
+  private event: string | undefined;
+  private data: string[] = [];
+
+  push(text: string): SSEEvent[] {
+    // A "\r\n" split across two slices must not read as an extra blank line
+    if (this.pendingCR && text.startsWith('\n')) text = text.slice(1);
+    this.pendingCR = text.endsWith('\r');
+    this.buffer += text;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? '';
+    const events: SSEEvent[] = [];
+    for (const line of lines) {
+      const event = this._readLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /** Flush a final event the server didn't terminate with a blank line. */
+  end(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    const rest = this.buffer;
+    this.buffer = '';
+    this.pendingCR = false;
+    if (rest) {
+      const event = this._readLine(rest);
+      if (event) events.push(event);
+    }
+    const last = this._dispatch();
+    if (last) events.push(last);
+    return events;
+  }
+
+  private _readLine(line: string): SSEEvent | null {
+    if (line === '') return this._dispatch();
+    if (line.startsWith(':')) return null;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'data') this.data.push(value);
+    else if (field === 'event') this.event = value;
+    return null;
+  }
+
+  private _dispatch(): SSEEvent | null {
+    const event = this.data.length ? { event: this.event, data: this.data.join('\n') } : null;
+    this.event = undefined;
+    this.data = [];
+    return event;
+  }
+}
+
+export type AgentStreamEvent =
+  | { kind: 'chunk'; text: string }
+  | { kind: 'final'; data: Record<string, unknown> }
+  | { kind: 'end' };
+
+/**
+ * Interpret one SSE data payload. Handles the Agent API shape
+ * (`{"message": {"type": "TextChunk" | "Inform" | "EndOfTurn", ...}}`) as well as
+ * flat `{"message": "…"}` / `{"chunk": "…"}` chunks and a final `messages` array.
+ */
+export function readAgentStreamEvent(data: string): AgentStreamEvent | null {
+  if (!data || data === '[DONE]') return null;
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  if (parsed.messages || parsed.responseMessages) return { kind: 'final', data: parsed };
+
+  const message = parsed.message;
+  if (message && typeof message === 'object') {
+    const msg = message as Record<string, unknown>;
+    const type = ((msg.type as string) || '').toLowerCase();
+    if (type === 'textchunk') return typeof msg.message === 'string' ? { kind: 'chunk', text: msg.message } : null;
+    if (type === 'endofturn') return { kind: 'end' };
+    if (type === 'progressindicator') return null;
+    // Inform and structured messages carry the turn's complete content
+    return { kind: 'final', data: { messages: [msg] } };
+  }
+
+  const text = (message || parsed.text || parsed.chunk) as unknown;
+  return typeof text === 'string' && text ? { kind: 'chunk', text } : null;
+}
+
+export interface DirectiveStreamHandlers {
+  /** Prose, in order, with every JSON block and code fence removed. */
+  onText: (text: string) => void;
+  /** Raw text of a JSON object once its closing brace arrives. */
+  onJson: (json: string) => void;
+}
+
+/**
+ * Splits streamed agent text into prose and top-level JSON objects, tolerating
+ * JSON (and the ``` fences around it) split at any point across chunks.
+ * Braces inside JSON strings don't affect nesting. A JSON block that never
+ * closes is dropped rather than shown.
+ */
+export class DirectiveStreamParser {
+  private mode: 'prose' | 'json' | 'fence' = 'prose';
+  private json = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private backticks = 0;
+  private handlers: DirectiveStreamHandlers;
+
+  constructor(handlers: DirectiveStreamHandlers) {
+    this.handlers = handlers;
+  }
+
+  push(chunk: string): void {
+    let text = '';
+    for (const ch of chunk) {
+      if (this.mode === 'json') {
+        this._pushJson(ch);
+        continue;
+      }
+      if (this.mode === 'fence') {
+        // Skip the fence's language tag (```json) and the newline after it
+        if (/[A-Za-z]/.test(ch)) continue;
+        this.mode = 'prose';
+        if (ch === '\n') continue;
+      }
+      if (ch === '`') {
+        this.backticks++;
+        continue;
+      }
+      if (this.backticks) {
+        const fence = this.backticks >= 3;
+        if (!fence) text += '`'.repeat(this.backticks);
+        this.backticks = 0;
+        if (fence && /[A-Za-z]/.test(ch)) {
+          this.mode = 'fence';
+          continue;
+        }
+        if (fence && ch === '\n') continue;
+      }
+      if (ch === '{') {
+        if (text) this.handlers.onText(text);
+        text = '';
+        this.mode = 'json';
+        this._pushJson(ch);
+        continue;
+      }
+      text += ch;
+    }
+    if (text) this.handlers.onText(text);
+  }
+
+  end(): void {
+    if (this.mode !== 'json' && this.backticks && this.backticks < 3) {
+      this.handlers.onText('`'.repeat(this.backticks));
+    }
+    this.mode = 'prose';
+    this.json = '';
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.backticks = 0;
+  }
+
+  private _pushJson(ch: string): void {
+    this.json += ch;
+    if (this.inString) {
+      if (this.escaped) this.escaped = false;
+      else if (ch === '\\') this.escaped = true;
+      else if (ch === '"') this.inString = false;
+      return;
+    }
+    if (ch === '"') this.inString = true;
+    else if (ch === '{') this.depth++;
+    else if (ch === '}' && --this.depth === 0) {
+      const json = this.json;
+      this.json = '';
+      this.mode = 'prose';
+      this.handlers.onJson(json);
+    }
+  }
+}
@@ -3,15 +3,34 @@ export interface AgentforceConfig {
   agentId: string;
   accessToken?: string;
   instanceUrl?: string;
+  /** How agent directives are parsed — see DirectiveParseMode. Defaults to 'lenient'. */
+  directiveMode?: DirectiveParseMode;
+}
+
+interface RawUIDirective {
+  action: string;
+  payload: Record<string, unknown>;
+  version?: number;
 }
 
 export interface RawAgentResponse {
   message: string;
   metadata?: {
-    uiDirective?: {
-      action: string;
-      payload: Record<string, unknown>;
-    };
+    uiDirective?: RawUIDirective;
+    uiDirectives?: RawUIDirective[];
   };
   rawText?: string;
 }
+
+/**
+ * - `lenient`: unversioned (v0) directives go through the compatibility layer,
+ *   which infers missing actions and hoists misplaced fields. Every coercion is
+ *   reported as a DirectiveDiagnostic.
+ * - `strict`: only directives that declare a supported `version` and pass
+ *   schema validation are accepted. Nothing is coerced or repaired.
+ */
+export type DirectiveParseMode = 'lenient' | 'strict';
+
+export interface ParseDirectiveOptions {
+  mode?: DirectiveParseMode;
+}
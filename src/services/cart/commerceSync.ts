@@ -0,0 +1,60 @@
+import type { CommerceClient } from '@/services/commerce';
+import type { CommerceCartRef, StoredCartItem } from './storage';
+
+const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
+
+/** Mirror the bag into Commerce on Core only when a live webstore is configured. */
+export function isCommerceCartSyncEnabled(): boolean {
+  return !useMockData && !!import.meta.env.VITE_COMMERCE_SITE_ID;
+}
+
+/**
+ * Reconcile a Commerce on Core cart with the local bag.
+ *
+ * Only the difference against `ref` is sent: new lines are added, changed
+ * quantities patched, and removed lines deleted. Each successful call is
+ * recorded on the returned ref as it completes, so a failure part-way leaves
+ * an accurate mapping and the next sync retries just what's left.
+ */
+export async function syncCommerceCart(
+  client: CommerceClient,
+  ref: CommerceCartRef | null,
+  items: StoredCartItem[],
+): Promise<CommerceCartRef | null> {
+  if (!ref && !items.length) return null;
+
+  let next: CommerceCartRef;
+  try {
+    next = ref
+      ? { cartId: ref.cartId, lines: { ...ref.lines } }
+      : { cartId: await client.createCart(), lines: {} };
+  } catch (err) {
+    console.warn('[cart] Commerce cart creation failed:', err);
+    return ref;
+  }
+
+  const wanted = new Map(items.map((item) => [item.product.id, item]));
+
+  try {
+    for (const [productId, line] of Object.entries(next.lines)) {
+      if (wanted.has(productId)) continue;
+      await client.deleteCartItem(next.cartId, line.cartItemId);
+      delete next.lines[productId];
+    }
+
+    for (const { product, quantity } of items) {
+      const line = next.lines[product.id];
+      if (!line) {
+        const cartItemId = await client.addCartItem(next.cartId, product.salesforceId || product.id, quantity);
+        next.lines[product.id] = { cartItemId, quantity };
+      } else if (line.quantity !== quantity) {
+        await client.updateCartItem(next.cartId, line.cartItemId, quantity);
+        next.lines[product.id] = { ...line, quantity };
+      }
+    }
+  } catch (err) {
+    console.warn('[cart] Commerce cart sync incomplete:', err);
+  }
+
+  return next;
+}
@@ -0,0 +1,14 @@
+export {
+  GUEST_CART_OWNER,
+  EMPTY_CART,
+  cartStorageKey,
+  ownerFromStorageKey,
+  deserializeCart,
+  serializeCart,
+  loadCart,
+  saveCart,
+  removeCart,
+  mergeCarts,
+} from './storage';
+export { isCommerceCartSyncEnabled, syncCommerceCart } from './commerceSync';
+export type { StoredCart, StoredCartItem, CommerceCartRef } from './storage';
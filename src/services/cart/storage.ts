@@ -0,0 +1,127 @@
+import type { Product } from '@/types/product';
+import type { CartSubscription } from '@/types/subscription';
+
+/** Key used for visitors we can't tie to a known customer (anonymous and appended tiers). */
+export const GUEST_CART_OWNER = 'guest';
+
+const STORAGE_PREFIX = 'beaute-cart:';
+const STORAGE_VERSION = 1;
+
+export interface StoredCartItem {
+  product: Product;
+  quantity: number;
+  subscription?: CartSubscription;
+}
+
+/** Mapping from the local cart to a mirrored Commerce on Core cart. */
+export interface CommerceCartRef {
+  cartId: string;
+  /** Keyed by local product ID. */
+  lines: Record<string, { cartItemId: string; quantity: number }>;
+}
+
+export interface StoredCart {
+  items: StoredCartItem[];
+  promoCode: string | null;
+  commerce: CommerceCartRef | null;
+}
+
+export const EMPTY_CART: StoredCart = { items: [], promoCode: null, commerce: null };
+
+export function cartStorageKey(owner: string): string {
+  return `${STORAGE_PREFIX}${owner}`;
+}
+
+/** Owner key for a storage key written by this module, or null for unrelated keys. */
+export function ownerFromStorageKey(key: string | null): string | null {
+  return key?.startsWith(STORAGE_PREFIX) ? key.slice(STORAGE_PREFIX.length) : null;
+}
+
+function isStoredItem(value: unknown): value is StoredCartItem {
+  const item = value as StoredCartItem | null;
+  return !!item &&
+    typeof item.product?.id === 'string' &&
+    typeof item.product.price === 'number' &&
+    Number.isInteger(item.quantity) &&
+    item.quantity > 0 &&
+    (item.subscription === undefined || (Number.isInteger(item.subscription?.frequencyDays) && item.subscription.frequencyDays > 0));
+}
+
+/** Parse a serialized cart, dropping anything malformed rather than failing the whole bag. */
+export function deserializeCart(raw: string | null): StoredCart {
+  if (!raw) return EMPTY_CART;
+  try {
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION) return EMPTY_CART;
+    return {
+      items: Array.isArray(data.items) ? data.items.filter(isStoredItem) : [],
+      promoCode: typeof data.promoCode === 'string' ? data.promoCode : null,
+      commerce: typeof data.commerce?.cartId === 'string' ? data.commerce : null,
+    };
+  } catch {
+    return EMPTY_CART;
+  }
+}
+
+export function serializeCart(cart: StoredCart): string {
+  return JSON.stringify({ version: STORAGE_VERSION, ...cart });
+}
+
+export function loadCart(owner: string): StoredCart {
+  try {
+    return deserializeCart(localStorage.getItem(cartStorageKey(owner)));
+  } catch {
+    return EMPTY_CART;
+  }
+}
+
+/**
+ * Write a cart for `owner`. Skips the write when nothing changed so that a tab
+ * applying another tab's update doesn't bounce a fresh `storage` event back.
+ */
+export function saveCart(owner: string, cart: StoredCart): void {
+  try {
+    const key = cartStorageKey(owner);
+    const value = serializeCart(cart);
+    if (localStorage.getItem(key) === value) return;
+    if (!cart.items.length && !cart.promoCode && !cart.commerce) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch (err) {
+    console.warn('[cart] Failed to persist cart:', err);
+  }
+}
+
+export function removeCart(owner: string): void {
+  try {
+    localStorage.removeItem(cartStorageKey(owner));
+  } catch {
+    // Storage unavailable (private mode) — nothing to remove
+  }
+}
+
+/**
+ * Fold a guest bag into a known customer's bag when they identify mid-session.
+ * Quantities for the same product are summed; the known cart's promo code,
+ * Commerce cart and subscription choices win, since those were set by the customer on an earlier visit.
+ * A guest Commerce cart is adopted only when the known bag has none.
+ */
+export function mergeCarts(known: StoredCart, guest: StoredCart): StoredCart {
+  const items = known.items.map((item) => ({ ...item }));
+  for (const guestItem of guest.items) {
+    const existing = items.find((item) => item.product.id === guestItem.product.id);
+    if (existing) {
+      existing.quantity += guestItem.quantity;
+      existing.subscription ??= guestItem.subscription;
+    } else {
+      items.push({ ...guestItem });
+    }
+  }
+  return {
+    items,
+    promoCode: known.promoCode || guest.promoCode,
+    commerce: known.commerce || guest.commerce,
+  };
+}
@@ -3,6 +3,8 @@
  * Used as fallback when CMS delivery API finds no matching content.
  */
 
+import { contains, eq, soql } from '@/services/soql';
+
 export async function fetchContentVersionByTag(
   tag: string,
   token: string
@@ -10,21 +12,25 @@ export async function fetchContentVersionByTag(
   if (!tag || !token) return null;
 
   try {
-    const soql = `SELECT Id FROM ContentVersion WHERE Description LIKE '%${tag}%' AND IsLatest = true ORDER BY CreatedDate DESC LIMIT 1`;
+    const query = soql('ContentVersion')
+      .select('Id')
+      .where(contains('Description', tag))
+      .where(eq('IsLatest', true))
+      .orderBy('CreatedDate', 'DESC')
+      .limit(1);
 
     const response = await fetch('/api/sf-query', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ soql, token }),
+      body: JSON.stringify({ soql: query.toString(), token }),
     });
 
     if (!response.ok) return null;
 
-    const data = await response.json();
-    const records = data.records || [];
-    if (records.length === 0) return null;
+    const [record] = query.rows(await response.json());
+    if (!record) return null;
 
-    const versionId = records[0].Id;
+    const versionId = record.Id;
     console.log(`[cms] ContentVersion fallback found "${tag}" → ${versionId}`);
     return `/api/sf-file/${versionId}`;
   } catch {
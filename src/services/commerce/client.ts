@@ -1,4 +1,4 @@
-import type { Product } from '@/types/product';
+import type { Product, ProductAttributes } from '@/types/product';
 import type { CommerceConfig, ProductSearchParams, OrderResponse } from './types';
 
 // ─── Commerce on Core Connect API response shapes ─────────────────────────
@@ -15,6 +15,13 @@ interface ConnectProduct {
   fields?: Record<string, unknown>;
 }
 
+interface ConnectSearchRefinement {
+  nameOrId: string;
+  type: 'DistinctValue';
+  attributeType: 'Custom' | 'ProductAttribute';
+  values: string[];
+}
+
 interface ConnectProductSearchResponse {
   productsPage?: {
     count?: number;
@@ -23,6 +30,11 @@ interface ConnectProductSearchResponse {
   };
 }
 
+/** Multi-select picklist fields arrive as "Dry;Oily" — the storefront uses lower-case arrays. */
+function multiPicklist(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(';').map((v) => v.trim().toLowerCase()).filter(Boolean) : [];
+}
+
 /** Basket item for checkout. */
 export interface BasketItem {
   productId: string;
@@ -100,11 +112,24 @@ export class CommerceClient {
   // ─── Product Catalog ────────────────────────────────────────────────────
 
   async searchProducts(params: ProductSearchParams): Promise<Product[]> {
+    const pageSize = params.limit || 20;
+    // Product2 picklist values are title case ("Dry", "Acne"); the storefront uses lower case
+    const picklist = (values: string[]) => values.map((v) => v.replace(/\b\w/g, (c) => c.toUpperCase()));
+    const refinements: ConnectSearchRefinement[] = [];
+    const refine = (field: string, values: string[] | undefined) => {
+      if (values?.length) refinements.push({ nameOrId: field, type: 'DistinctValue', attributeType: 'Custom', values: picklist(values) });
+    };
+    refine('Category__c', params.category ? [params.category] : undefined);
+    refine('Skin_Types__c', typeof params.skinType === 'string' ? [params.skinType] : params.skinType);
+    refine('Concerns__c', params.concerns);
+
     // Commerce Connect API product search uses POST with a JSON body
     const body = JSON.stringify({
       searchTerm: params.query || '*',
-      page: 0,
-      pageSize: params.limit || 20,
+      page: Math.floor((params.offset || 0) / pageSize),
+      pageSize,
+      includePrices: true,
+      ...(refinements.length ? { refinements } : {}),
     });
 
     const response = await fetch(
@@ -122,7 +147,10 @@ export class CommerceClient {
     }
 
     const data = await response.json() as ConnectProductSearchResponse;
-    return (data.productsPage?.products || []).map((p) => this.mapProduct(p));
+    const products = (data.productsPage?.products || []).map((p) => this.mapProduct(p));
+    // Search refinements can't express a price range, so it's applied to the priced results
+    const { min, max } = params.priceRange ?? {};
+    return products.filter((p) => (min === undefined || p.price >= min) && (max === undefined || p.price < max));
   }
 
   async getProduct(productId: string): Promise<Product> {
@@ -157,26 +185,73 @@ export class CommerceClient {
     return data.cartId || '';
   }
 
+  /** Add a single item to an existing cart. Returns the cartItemId. */
+  async addCartItem(cartId: string, productId: string, quantity: number): Promise<string> {
+    const response = await fetch(
+      `${this.baseUrl}/carts/${encodeURIComponent(cartId)}/cart-items`,
+      {
+        method: 'POST',
+        headers: await this.authHeaders(),
+        body: JSON.stringify({ productId, quantity, type: 'Product' }),
+      }
+    );
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Add item to cart failed (${response.status}): ${errText}`);
+    }
+    const data = await response.json() as { cartItemId?: string };
+    return data.cartItemId || '';
+  }
+
   /** Add items to an existing cart. */
   async addItemsToCart(cartId: string, items: BasketItem[]): Promise<void> {
     for (const item of items) {
-      const response = await fetch(
-        `${this.baseUrl}/carts/${encodeURIComponent(cartId)}/cart-items`,
-        {
-          method: 'POST',
-          headers: await this.authHeaders(),
-          body: JSON.stringify({
-            productId: item.productId,
-            quantity: item.quantity,
-            type: 'Product',
-          }),
-        }
-      );
-      if (!response.ok) {
-        const errText = await response.text();
-        throw new Error(`Add item to cart failed (${response.status}): ${errText}`);
+      await this.addCartItem(cartId, item.productId, item.quantity);
+    }
+  }
+
+  /** Change the quantity of an existing cart item. */
+  async updateCartItem(cartId: string, cartItemId: string, quantity: number): Promise<void> {
+    const response = await fetch(
+      `${this.baseUrl}/carts/${encodeURIComponent(cartId)}/cart-items/${encodeURIComponent(cartItemId)}`,
+      {
+        method: 'PATCH',
+        headers: await this.authHeaders(),
+        body: JSON.stringify({ quantity }),
+      }
+    );
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Update cart item failed (${response.status}): ${errText}`);
+    }
+  }
+
+  /** Remove an item from a cart. */
+  async deleteCartItem(cartId: string, cartItemId: string): Promise<void> {
+    const response = await fetch(
+      `${this.baseUrl}/carts/${encodeURIComponent(cartId)}/cart-items/${encodeURIComponent(cartItemId)}`,
+      {
+        method: 'DELETE',
+        headers: await this.authHeaders(),
       }
+    );
+    // 404 means the line is already gone — the end state we wanted
+    if (!response.ok && response.status !== 404) {
+      const errText = await response.text();
+      throw new Error(`Delete cart item failed (${response.status}): ${errText}`);
+    }
+  }
+
+  /** The cart's grand total as Commerce priced it — promotions, shipping and tax included. */
+  async getCartTotal(cartId: string): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/carts/${encodeURIComponent(cartId)}`, {
+      headers: await this.authHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`Cart fetch failed: ${response.statusText}`);
     }
+    const data = await response.json() as { grandTotalAmount?: string | number };
+    return Number(data.grandTotalAmount) || 0;
   }
 
   /** Create a checkout from the cart and return a simple order summary. */
@@ -196,20 +271,27 @@ export class CommerceClient {
     return {
       orderId: data.orderReferenceNumber || data.checkoutId || '',
       status: 'confirmed',
-      total: 0, // Connect API checkout doesn't return total inline
+      // Connect API checkout doesn't return total inline — read it back from the cart
+      total: await this.getCartTotal(cartId).catch((err) => {
+        console.warn('[commerce] Could not read the checked-out cart total:', err);
+        return 0;
+      }),
       estimatedDelivery: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
     };
   }
 
   /**
    * Full checkout flow: create cart → add items → create checkout.
+   * Pass `cartId` to check out a cart that CartContext has already mirrored.
    */
   async checkout(params: {
     items: BasketItem[];
     email: string;
     shippingAddress: ShippingAddress;
     paymentMethodId?: string;
+    cartId?: string;
   }): Promise<OrderResponse> {
+    if (params.cartId) return this.createCheckout(params.cartId);
     const cartId = await this.createCart();
     await this.addItemsToCart(cartId, params.items);
     return this.createCheckout(cartId);
@@ -228,6 +310,7 @@ export class CommerceClient {
     const rawDefaultImage = raw.defaultImage?.url;
     const defaultImageIsPlaceholder = !rawDefaultImage || rawDefaultImage.includes('default-product-image');
     const imageUrl = sfImageUrl || (defaultImageIsPlaceholder ? localImage : rawDefaultImage);
+    const flag = (field: string) => raw.fields?.[field] === true || raw.fields?.[field] === 'true';
     return {
       id: raw.id || '',
       salesforceId: raw.id,
@@ -241,13 +324,20 @@ export class CommerceClient {
       imageUrl,
       images: imageUrl ? [imageUrl] : [],
       attributes: {
-        skinType: [] as ('dry' | 'oily' | 'combination' | 'sensitive' | 'normal')[],
-        concerns: [],
+        skinType: multiPicklist(raw.fields?.['Skin_Types__c']) as NonNullable<ProductAttributes['skinType']>,
+        concerns: multiPicklist(raw.fields?.['Concerns__c']),
         ingredients: [],
+        keyIngredients: ((raw.fields?.['Key_Ingredients__c'] as string) || '').split(/[,;\n]/).map((i) => i.trim()).filter(Boolean),
         size: (raw.fields?.['Size__c'] as string) || '',
-        isTravel: false,
+        isTravel: flag('Is_Travel__c'),
+        isVegan: flag('Is_Vegan__c'),
+        isCrueltyFree: flag('Is_Cruelty_Free__c'),
+        isFragranceFree: flag('Is_Fragrance_Free__c'),
+        isParabenFree: flag('Is_Paraben_Free__c'),
+        isHypoallergenic: flag('Is_Hypoallergenic__c'),
+        isDermatologistTested: flag('Is_Dermatologist_Tested__c'),
       },
-      rating: 0,
+      rating: Number(raw.fields?.['Rating__c']) || 0,
       reviewCount: 0,
       inStock: true,
     };
@@ -8,8 +8,9 @@ export interface CommerceConfig {
 export interface ProductSearchParams {
   query?: string;
   category?: string;
-  skinType?: string;
+  skinType?: string | string[];
   concerns?: string[];
+  /** Min inclusive, max exclusive. */
   priceRange?: { min?: number; max?: number };
   limit?: number;
   offset?: number;
@@ -0,0 +1,89 @@
+import type { ProfilePreferences } from '@/types/customer';
+import type { Product, ProductAttributes } from '@/types/product';
+import { checkProductSafety } from '@/services/ingredients';
+import { hasConcern } from '@/services/ranking';
+import { parseSize } from '@/services/replenishment';
+import type { ComparedProduct, ProductComparison } from './types';
+
+/** More than this and the columns stop fitting side by side. */
+export const MAX_COMPARED_PRODUCTS = 4;
+
+const FLAG_LABELS: [keyof ProductAttributes, string][] = [
+  ['isFragranceFree', 'Fragrance-free'],
+  ['isHypoallergenic', 'Hypoallergenic'],
+  ['isDermatologistTested', 'Dermatologist tested'],
+  ['isParabenFree', 'Paraben-free'],
+  ['isVegan', 'Vegan'],
+  ['isCrueltyFree', 'Cruelty-free'],
+];
+
+type ComparisonProfile = Partial<Pick<ProfilePreferences, 'skinType' | 'concerns' | 'allergies' | 'fragrancePreference'>>;
+
+function compareOne(product: Product, profile?: ComparisonProfile | null): ComparedProduct {
+  const { attributes } = product;
+  const size = parseSize(attributes.size);
+  const skinTypes = attributes.skinType ?? [];
+  return {
+    product,
+    size: attributes.size,
+    pricePerMl: size?.unit === 'ml' && size.amount > 0 ? product.price / size.amount : null,
+    keyIngredients: attributes.keyIngredients ?? [],
+    skinTypes,
+    suitsSkinType: profile?.skinType && skinTypes.length ? skinTypes.includes(profile.skinType) : null,
+    flags: FLAG_LABELS.filter(([key]) => attributes[key] === true).map(([, label]) => label),
+    warnings: checkProductSafety(product, profile),
+    rating: product.rating,
+    reviewCount: product.reviewCount,
+    concernsMatched: (profile?.concerns ?? []).filter((c) => hasConcern(product, c.toLowerCase())),
+  };
+}
+
+/** Id of the single best column by `score`, or undefined on a tie or when nothing scores. */
+function winner(columns: ComparedProduct[], score: (c: ComparedProduct) => number | null): string | undefined {
+  const scored = columns
+    .map((c) => ({ id: c.product.id, value: score(c) }))
+    .filter((s): s is { id: string; value: number } => s.value !== null);
+  if (scored.length < 2) return undefined;
+  const best = Math.max(...scored.map((s) => s.value));
+  const top = scored.filter((s) => s.value === best);
+  return top.length === 1 ? top[0].id : undefined;
+}
+
+/**
+ * Side-by-side comparison built only from catalog attributes and the
+ * customer's beauty profile. Products past {@link MAX_COMPARED_PRODUCTS}
+ * and repeats are dropped.
+ */
+export function compareProducts(products: Product[], profile?: ComparisonProfile | null): ProductComparison {
+  const unique = products.filter((p, i) => products.findIndex((q) => q.id === p.id) === i).slice(0, MAX_COMPARED_PRODUCTS);
+  const columns = unique.map((p) => compareOne(p, profile));
+
+  const ingredientSets = columns.map((c) => new Set(c.keyIngredients.map((i) => i.toLowerCase())));
+  const sharedIngredients = columns.length < 2
+    ? []
+    : columns[0].keyIngredients.filter((i) => ingredientSets.every((set) => set.has(i.toLowerCase())));
+
+  return {
+    columns,
+    concerns: profile?.concerns ?? [],
+    sharedIngredients,
+    highlights: {
+      lowestPricePerMl: winner(columns, (c) => (c.pricePerMl === null ? null : -c.pricePerMl)),
+      topRated: winner(columns, (c) => c.rating),
+      bestConcernFit: winner(columns, (c) => (c.concernsMatched.length ? c.concernsMatched.length : null)),
+    },
+  };
+}
+
+/** One line per product for the agent, so it can talk through the same table the customer sees. */
+export function describeComparison(comparison: ProductComparison): string[] {
+  return comparison.columns.map((c) => [
+    `${c.product.name} (${c.product.id})`,
+    `$${c.product.price.toFixed(2)}${c.pricePerMl !== null ? ` ($${c.pricePerMl.toFixed(2)}/ml)` : ''}`,
+    c.keyIngredients.length ? `key: ${c.keyIngredients.join(', ')}` : null,
+    c.suitsSkinType === false ? 'not formulated for their skin type' : null,
+    c.concernsMatched.length ? `targets ${c.concernsMatched.join(', ')}` : null,
+    c.warnings.length ? `warning: ${c.warnings.map((w) => w.message).join('; ')}` : null,
+    `${c.rating}★ (${c.reviewCount})`,
+  ].filter(Boolean).join(' | '));
+}
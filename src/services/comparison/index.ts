@@ -0,0 +1,2 @@
+export { MAX_COMPARED_PRODUCTS, compareProducts, describeComparison } from './compare';
+export type { ComparedProduct, ProductComparison } from './types';
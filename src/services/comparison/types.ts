@@ -0,0 +1,37 @@
+import type { IngredientWarning, Product } from '@/types/product';
+
+/** One product's column in a side-by-side comparison. */
+export interface ComparedProduct {
+  product: Product;
+  /** Catalog size as written, e.g. "50ml". */
+  size?: string;
+  /** Price per ml, or null for products sold by count or without a readable size. */
+  pricePerMl: number | null;
+  keyIngredients: string[];
+  /** Skin types the product is formulated for. */
+  skinTypes: string[];
+  /** Whether it suits the customer's skin type; null when either side doesn't say. */
+  suitsSkinType: boolean | null;
+  /** Formula claims such as "Fragrance-free" or "Vegan". */
+  flags: string[];
+  /** Allergy and fragrance-preference warnings for the customer. */
+  warnings: IngredientWarning[];
+  rating: number;
+  reviewCount: number;
+  /** The customer's concerns this product targets, as the customer phrased them. */
+  concernsMatched: string[];
+}
+
+export interface ProductComparison {
+  columns: ComparedProduct[];
+  /** The customer's concerns, for the "fits your concerns" row; empty for anonymous shoppers. */
+  concerns: string[];
+  /** Key ingredients every compared product shares — the difference lies elsewhere. */
+  sharedIngredients: string[];
+  /** Winners per row, each omitted when there's no single one. */
+  highlights: {
+    lowestPricePerMl?: string;
+    topRated?: string;
+    bestConcernFit?: string;
+  };
+}
@@ -0,0 +1,101 @@
+/** Result of one request inside a batch — batches can partly fail. */
+export type BatchOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export interface RequestBatcherOptions<Req, Res> {
+  /** Name used in logs, e.g. "composite". */
+  label: string;
+  /** Send one batch. Must return one outcome per request, in the same order. */
+  send: (requests: Req[]) => Promise<BatchOutcome<Res>[]>;
+  /** Whether `next` can join `batch`, or has to start a new one. */
+  fits: (batch: Req[], next: Req) => boolean;
+  /** Requests with different keys never share a batch (e.g. one sObject type per collection call). */
+  groupBy?: (request: Req) => string;
+  /** How long to collect requests before sending. */
+  windowMs?: number;
+}
+
+interface Entry<Req, Res> {
+  request: Req;
+  resolve: (value: Res) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Coalesces requests made within a short window into batched API calls.
+ * Every caller still gets its own promise: it resolves or rejects with its
+ * own sub-request's outcome, so one bad record doesn't sink the rest.
+ */
+export class RequestBatcher<Req, Res> {
+  private options: RequestBatcherOptions<Req, Res>;
+  private queued: Entry<Req, Res>[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestBatcherOptions<Req, Res>) {
+    this.options = options;
+  }
+
+  add(request: Req): Promise<Res> {
+    return new Promise<Res>((resolve, reject) => {
+      this.queued.push({ request, resolve, reject });
+      if (!this.timer) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          void this.flush();
+        }, this.options.windowMs ?? 10);
+      }
+    });
+  }
+
+  /** Send everything queued now, without waiting for the window to close. */
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const entries = this.queued;
+    this.queued = [];
+    if (!entries.length) return;
+    await Promise.all(this.split(entries).map((batch) => this.sendBatch(batch)));
+  }
+
+  private split(entries: Entry<Req, Res>[]): Entry<Req, Res>[][] {
+    const groups = new Map<string, Entry<Req, Res>[][]>();
+    for (const entry of entries) {
+      const key = this.options.groupBy?.(entry.request) ?? '';
+      const batches = groups.get(key) ?? [];
+      const current = batches[batches.length - 1];
+      if (current && this.options.fits(current.map((e) => e.request), entry.request)) {
+        current.push(entry);
+      } else {
+        batches.push([entry]);
+      }
+      groups.set(key, batches);
+    }
+    return Array.from(groups.values()).flat();
+  }
+
+  private async sendBatch(batch: Entry<Req, Res>[]): Promise<void> {
+    let outcomes: BatchOutcome<Res>[];
+    try {
+      outcomes = await this.options.send(batch.map((e) => e.request));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      batch.forEach((e) => e.reject(error));
+      return;
+    }
+
+    const failures: string[] = [];
+    batch.forEach((entry, i) => {
+      const outcome = outcomes[i] ?? { ok: false, error: 'No result returned for this sub-request' };
+      if (outcome.ok) {
+        entry.resolve(outcome.value);
+      } else {
+        failures.push(outcome.error);
+        entry.reject(new Error(outcome.error));
+      }
+    });
+    if (failures.length) {
+      console.warn(`[${this.options.label}] ${failures.length} of ${batch.length} sub-requests failed:`, failures);
+    }
+  }
+}
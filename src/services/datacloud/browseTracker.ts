@@ -93,10 +93,10 @@ class BrowseSessionTracker {
     getDataCloudWriteService()
       .writeBrowseSession(snapshot.customerId, session)
       .then(() => {
-        console.log('[browse-tracker] Flushed session:', snapshot.products.length, 'products,', snapshot.categories.length, 'categories');
+        console.log('[browse-tracker] Queued session:', snapshot.products.length, 'products,', snapshot.categories.length, 'categories');
       })
       .catch((err) => {
-        console.warn('[browse-tracker] Failed to flush session:', err);
+        console.warn('[browse-tracker] Failed to queue session:', err);
       })
       .finally(() => {
         this.isFlushing = false;
@@ -0,0 +1,85 @@
+import type { BatchOutcome } from './batcher';
+import type { CollectionResult, CompositeSubrequest, CompositeSubresponse } from './types';
+
+/** Salesforce limits: 25 sub-requests per Composite call, at most 5 of them queries. */
+export const COMPOSITE_MAX_SUBREQUESTS = 25;
+export const COMPOSITE_MAX_QUERIES = 5;
+/** Records per sObject Collections call. */
+export const COLLECTION_MAX_RECORDS = 200;
+
+const isQuery = (request: CompositeSubrequest) => /\/query(All)?\/?\?/.test(request.url);
+
+export function fitsComposite(batch: CompositeSubrequest[], next: CompositeSubrequest): boolean {
+  if (batch.length >= COMPOSITE_MAX_SUBREQUESTS) return false;
+  return !isQuery(next) || batch.filter(isQuery).length < COMPOSITE_MAX_QUERIES;
+}
+
+export function fitsCollection<T>(batch: T[]): boolean {
+  return batch.length < COLLECTION_MAX_RECORDS;
+}
+
+/**
+ * Browsers reject a keepalive request once the bodies of all keepalive
+ * requests in flight pass 64 KB.
+ */
+export const KEEPALIVE_MAX_BYTES = 64 * 1024;
+// `{"allOrNone":false,"records":[]}` with room to spare
+const COLLECTION_ENVELOPE_BYTES = 64;
+
+/** UTF-8 size of a request body, which is what the keepalive quota counts. */
+export function byteLength(body: string): number {
+  return new TextEncoder().encode(body).length;
+}
+
+/** Like `fitsCollection`, but also keeps the serialized batch inside the keepalive quota. */
+export function fitsKeepaliveCollection<T extends { bytes: number }>(batch: T[], next: T): boolean {
+  if (!fitsCollection(batch)) return false;
+  // One comma between records
+  const size = batch.reduce((sum, r) => sum + r.bytes + 1, COLLECTION_ENVELOPE_BYTES);
+  return size + next.bytes <= KEEPALIVE_MAX_BYTES;
+}
+
+/** Independent sub-requests: `allOrNone: false` so one failure doesn't roll back the rest. */
+export function buildCompositeRequest(requests: CompositeSubrequest[]) {
+  return {
+    allOrNone: false,
+    compositeRequest: requests.map((r, i) => ({ ...r, referenceId: `r${i}` })),
+  };
+}
+
+/** Salesforce error bodies are `[{ errorCode, message }]`; fall back to raw text. */
+function describeErrors(body: unknown): string {
+  if (Array.isArray(body)) {
+    return body
+      .map((e: { errorCode?: string; statusCode?: string; message?: string }) =>
+        [e.errorCode ?? e.statusCode, e.message].filter(Boolean).join(': '))
+      .join('; ');
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/** Match Composite sub-responses back to their requests by reference id. */
+export function compositeOutcomes<T>(
+  requests: CompositeSubrequest[],
+  responses: CompositeSubresponse[],
+): BatchOutcome<T>[] {
+  const byRef = new Map(responses.map((r) => [r.referenceId, r]));
+  return requests.map((_, i) => {
+    const response = byRef.get(`r${i}`);
+    if (!response) return { ok: false, error: 'Data Cloud request failed: missing composite sub-response' };
+    if (response.httpStatusCode >= 300) {
+      return { ok: false, error: `Data Cloud request failed (${response.httpStatusCode}): ${describeErrors(response.body)}` };
+    }
+    return { ok: true, value: response.body as T };
+  });
+}
+
+/** sObject Collections results come back in request order, one per record. */
+export function collectionOutcomes(results: CollectionResult[], count: number): BatchOutcome<string | undefined>[] {
+  return Array.from({ length: count }, (_, i) => {
+    const result = results[i];
+    if (!result) return { ok: false, error: 'Data Cloud write failed: missing collection result' };
+    if (!result.success) return { ok: false, error: `Data Cloud write failed: ${describeErrors(result.errors)}` };
+    return { ok: true, value: result.id };
+  });
+}
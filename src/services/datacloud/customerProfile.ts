@@ -11,16 +11,48 @@ import type {
   MerkuryIdentity,
   AppendedProfile,
 } from '@/types/customer';
-import type { DataCloudConfig } from './types';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import type { Subscription } from '@/types/subscription';
+import type { CompositeSubrequest, CompositeSubresponse, DataCloudConfig } from './types';
+import { RequestBatcher } from './batcher';
+import { buildCompositeRequest, compositeOutcomes, fitsComposite } from './composite';
+import { and, eq, inQuery, or, soql } from '@/services/soql';
+import type { FieldOf, SelectedRow } from '@/services/soql';
+
+const CONTACT_FIELDS = [
+  'Id', 'FirstName', 'LastName', 'Email', 'Merkury_Id__c', 'Skin_Type__c', 'Skin_Concerns__c', 'Allergies__c',
+  'Preferred_Brands__c', 'MailingStreet', 'MailingCity', 'MailingState', 'MailingPostalCode', 'MailingCountry',
+] as const satisfies readonly FieldOf<'Contact'>[];
+
+type ContactRow = SelectedRow<'Contact', typeof CONTACT_FIELDS[number]>;
+
+/** One malformed Concern_Scores_JSON__c shouldn't cost the customer their whole skin history. */
+function parseConcernScores(json: string | null | undefined, analyzedAt: string): SkinAnalysisResult['concerns'] {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('[datacloud] Unreadable concern scores on skin analysis from', analyzedAt, err);
+    return [];
+  }
+}
 
 export class DataCloudCustomerService {
   private config: DataCloudConfig;
   private accessToken: string | null;
   private tokenExpiresAt = 0;
+  /** Coalesces the queries of a profile load into a few Composite calls. */
+  private reads: RequestBatcher<CompositeSubrequest, Record<string, unknown>>;
 
   constructor(config: DataCloudConfig) {
     this.config = config;
     this.accessToken = config.accessToken || null;
+    this.reads = new RequestBatcher({
+      label: 'composite',
+      send: (requests) => this.sendComposite(requests),
+      fits: fitsComposite,
+    });
   }
 
   // ─── OAuth Token Management ─────────────────────────────────────
@@ -54,31 +86,29 @@ export class DataCloudCustomerService {
     return this.accessToken!;
   }
 
-  private async fetchJson(path: string): Promise<Record<string, unknown>> {
+  /** Queue a GET; requests made in the same tick share a Composite call. */
+  private fetchJson(path: string): Promise<Record<string, unknown>> {
+    return this.reads.add({ method: 'GET', url: path });
+  }
+
+  private async sendComposite(requests: CompositeSubrequest[]) {
     const token = await this.getAccessToken();
-    // Route through proxy to avoid CORS. Strip the /services/data/v60.0 prefix
-    // since the proxy rewrites /api/datacloud → /services/data/v60.0
-    const proxyPath = path.replace(/^\/services\/data\/v60\.0/, '/api/datacloud');
-    const response = await fetch(proxyPath, {
+    // Route through proxy to avoid CORS — the proxy rewrites /api/datacloud → /services/data/v60.0
+    const response = await fetch('/api/datacloud/composite', {
+      method: 'POST',
       headers: {
         'Authorization': `Bearer ${token}`,
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify(buildCompositeRequest(requests)),
     });
 
     if (!response.ok) {
       throw new Error(`Data Cloud request failed (${response.status}): ${response.statusText}`);
     }
 
-    return response.json();
-  }
-
-  // ─── SOQL sanitization ──────────────────────────────────────────
-
-  /** Escape a value for safe inclusion in a SOQL WHERE clause single-quoted string. */
-  private sanitizeSoql(value: string): string {
-    // Remove characters that could break out of SOQL string literals
-    return value.replace(/['\\\n\r]/g, '');
+    const data = await response.json() as { compositeResponse?: CompositeSubresponse[] };
+    return compositeOutcomes<Record<string, unknown>>(requests, data.compositeResponse ?? []);
   }
 
   // ─── Profile building (shared) ──────────────────────────────────
@@ -88,7 +118,7 @@ export class DataCloudCustomerService {
   }
 
   private buildProfileFromContact(
-    raw: Record<string, string | null>,
+    raw: ContactRow,
     contactId: string,
     relatedData: {
       orders: OrderRecord[];
@@ -97,6 +127,8 @@ export class DataCloudCustomerService {
       browseSessions: BrowseSession[];
       loyalty: LoyaltyData | null;
       agentCapturedProfile: AgentCapturedProfile | undefined;
+      skinAnalyses: SkinAnalysisResult[];
+      subscriptions: Subscription[];
     },
     merkuryIdentity?: CustomerProfile['merkuryIdentity'],
   ): CustomerProfile {
@@ -130,8 +162,12 @@ export class DataCloudCustomerService {
     };
   }
 
+  /**
+   * All eight queries are issued in the same tick, so they go out as two
+   * Composite calls (five queries each at most) rather than eight round trips.
+   */
   private async fetchRelatedData(contactId: string) {
-    const [orders, chatSummaries, meaningfulEvents, browseSessions, loyalty, agentCapturedProfile] =
+    const [orders, chatSummaries, meaningfulEvents, browseSessions, loyalty, agentCapturedProfile, skinAnalyses, subscriptions] =
       await Promise.all([
         this.getCustomerOrders(contactId).catch(() => [] as OrderRecord[]),
         this.getCustomerChatSummaries(contactId).catch(() => [] as ChatSummary[]),
@@ -139,26 +175,27 @@ export class DataCloudCustomerService {
         this.getCustomerBrowseSessions(contactId).catch(() => [] as BrowseSession[]),
         this.getCustomerLoyalty(contactId).catch(() => null),
         this.getCustomerCapturedProfile(contactId).catch(() => undefined),
+        this.getCustomerSkinAnalyses(contactId).catch(() => [] as SkinAnalysisResult[]),
+        this.getCustomerSubscriptions(contactId).catch(() => [] as Subscription[]),
       ]);
-    return { orders, chatSummaries, meaningfulEvents, browseSessions, loyalty, agentCapturedProfile };
+    return { orders, chatSummaries, meaningfulEvents, browseSessions, loyalty, agentCapturedProfile, skinAnalyses, subscriptions };
   }
 
-  private static readonly CONTACT_FIELDS = 'Id,FirstName,LastName,Email,Merkury_Id__c,Skin_Type__c,Skin_Concerns__c,Allergies__c,Preferred_Brands__c,MailingStreet,MailingCity,MailingState,MailingPostalCode,MailingCountry';
+  /** Look up one Contact by a unique field. */
+  private async findContact(field: 'Id' | 'Email' | 'Merkury_Id__c', value: string): Promise<ContactRow> {
+    const query = soql('Contact').select(...CONTACT_FIELDS).where(eq(field, value)).limit(1);
+    const [raw] = query.rows(await this.fetchJson(query.toPath()));
+    if (!raw) {
+      throw new Error(`No Contact found with ${field} = ${value}`);
+    }
+    return raw;
+  }
 
   // ─── Full Profile (parallel sub-queries) ────────────────────────
 
   async getCustomerProfile(customerId: string): Promise<CustomerProfile> {
-    const safe = this.sanitizeSoql(customerId);
-    const contactData = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+${DataCloudCustomerService.CONTACT_FIELDS}+FROM+Contact+WHERE+Merkury_Id__c='${safe}'+LIMIT+1`
-    );
-
-    const records = (contactData.records || []) as Record<string, string | null>[];
-    if (records.length === 0) {
-      throw new Error(`No Contact found with Merkury_Id__c = ${customerId}`);
-    }
-    const raw = records[0];
-    const contactId = raw.Id!;
+    const raw = await this.findContact('Merkury_Id__c', customerId);
+    const contactId = raw.Id;
     const relatedData = await this.fetchRelatedData(contactId);
     return this.buildProfileFromContact(raw, contactId, relatedData);
   }
@@ -166,17 +203,8 @@ export class DataCloudCustomerService {
   // ─── Lookup by Email ───────────────────────────────────────────
 
   async getCustomerProfileByEmail(email: string): Promise<CustomerProfile> {
-    const safe = this.sanitizeSoql(email);
-    const contactData = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+${DataCloudCustomerService.CONTACT_FIELDS}+FROM+Contact+WHERE+Email='${safe}'+LIMIT+1`
-    );
-
-    const records = (contactData.records || []) as Record<string, string | null>[];
-    if (records.length === 0) {
-      throw new Error(`No Contact found with Email = ${email}`);
-    }
-    const raw = records[0];
-    const contactId = raw.Id!;
+    const raw = await this.findContact('Email', email);
+    const contactId = raw.Id;
     const relatedData = await this.fetchRelatedData(contactId);
     return this.buildProfileFromContact(raw, contactId, relatedData);
   }
@@ -184,16 +212,7 @@ export class DataCloudCustomerService {
   // ─── Lookup by Contact ID ──────────────────────────────────────
 
   async getCustomerProfileById(contactId: string): Promise<CustomerProfile> {
-    const safe = this.sanitizeSoql(contactId);
-    const contactData = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+${DataCloudCustomerService.CONTACT_FIELDS}+FROM+Contact+WHERE+Id='${safe}'+LIMIT+1`
-    );
-
-    const records = (contactData.records || []) as Record<string, string | null>[];
-    if (records.length === 0) {
-      throw new Error(`No Contact found with Id = ${contactId}`);
-    }
-    const raw = records[0];
+    const raw = await this.findContact('Id', contactId);
     const relatedData = await this.fetchRelatedData(contactId);
     return this.buildProfileFromContact(raw, contactId, relatedData, raw.Merkury_Id__c ? {
       merkuryId: raw.Merkury_Id__c,
@@ -206,121 +225,174 @@ export class DataCloudCustomerService {
   // ─── Sub-queries ────────────────────────────────────────────────
 
   async getCustomerOrders(customerId: string): Promise<OrderRecord[]> {
-    const safe = this.sanitizeSoql(customerId);
-    const data = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Id,OrderNumber,EffectiveDate,Status,TotalAmount,Channel__c,Tracking_Number__c,Carrier__c,Shipping_Status__c,Estimated_Delivery__c,Shipped_Date__c,Delivered_Date__c,Payment_Method__c+FROM+Order+WHERE+AccountId+IN+(SELECT+AccountId+FROM+Contact+WHERE+Id='${safe}')+ORDER+BY+EffectiveDate+DESC+LIMIT+10`
-    );
-
-    const orders: OrderRecord[] = [];
-    for (const record of (data.records || []) as Record<string, string | number | null>[]) {
-      // Fetch line items for this order — OrderId comes from Salesforce so is safe
+    const query = soql('Order')
+      .select('Id', 'OrderNumber', 'EffectiveDate', 'Status', 'TotalAmount', 'Channel__c', 'Tracking_Number__c', 'Carrier__c',
+        'Shipping_Status__c', 'Estimated_Delivery__c', 'Shipped_Date__c', 'Delivered_Date__c', 'Payment_Method__c')
+      .where(inQuery('AccountId', soql('Contact').select('AccountId').where(eq('Id', customerId))))
+      .orderBy('EffectiveDate', 'DESC')
+      .limit(10);
+    const data = await this.fetchJson(query.toPath());
+
+    // Line item queries go out together so they batch into one Composite call
+    return Promise.all(query.rows(data).map(async (record): Promise<OrderRecord> => {
       let lineItems: OrderLineItem[] = [];
       try {
-        const orderId = this.sanitizeSoql(record.Id as string);
-        const liData = await this.fetchJson(
-          `/services/data/v60.0/query/?q=SELECT+Product2Id,Product2.Name,Quantity,UnitPrice+FROM+OrderItem+WHERE+OrderId='${orderId}'`
-        );
-        lineItems = ((liData.records || []) as Record<string, unknown>[]).map((li) => ({
-          productId: li.Product2Id as string,
-          productName: ((li.Product2 as Record<string, string>)?.Name) || '',
-          quantity: li.Quantity as number,
-          unitPrice: li.UnitPrice as number,
+        const liQuery = soql('OrderItem')
+          .select('Product2Id', 'Product2.Name', 'Quantity', 'UnitPrice')
+          .where(eq('OrderId', record.Id));
+        lineItems = liQuery.rows(await this.fetchJson(liQuery.toPath())).map((li) => ({
+          productId: li.Product2Id,
+          productName: li.Product2?.Name || '',
+          quantity: li.Quantity,
+          unitPrice: li.UnitPrice,
         }));
       } catch {
         // Continue without line items
       }
 
-      orders.push({
-        orderId: (record.OrderNumber || record.Id) as string,
-        orderNumber: record.OrderNumber as string,
-        orderDate: record.EffectiveDate as string,
-        channel: ((record.Channel__c as string) || 'online') as 'online' | 'in-store' | 'mobile-app',
+      return {
+        orderId: record.OrderNumber || record.Id,
+        orderNumber: record.OrderNumber ?? undefined,
+        orderDate: record.EffectiveDate ?? '',
+        channel: (record.Channel__c || 'online') as OrderRecord['channel'],
         lineItems,
-        totalAmount: (record.TotalAmount as number) || 0,
-        status: record.Status === 'Activated' ? 'completed' : ((record.Status as string)?.toLowerCase() as OrderRecord['status']) || 'completed',
-        trackingNumber: (record.Tracking_Number__c as string) || undefined,
-        carrier: (record.Carrier__c as string) || undefined,
-        shippingStatus: (record.Shipping_Status__c as string) || undefined,
-        estimatedDelivery: (record.Estimated_Delivery__c as string) || undefined,
-        shippedDate: (record.Shipped_Date__c as string) || undefined,
-        deliveredDate: (record.Delivered_Date__c as string) || undefined,
-        paymentMethod: (record.Payment_Method__c as string) || undefined,
-      });
-    }
-
-    return orders;
+        totalAmount: record.TotalAmount || 0,
+        status: record.Status === 'Activated' ? 'completed' : (record.Status?.toLowerCase() as OrderRecord['status']) || 'completed',
+        trackingNumber: record.Tracking_Number__c || undefined,
+        carrier: record.Carrier__c || undefined,
+        shippingStatus: record.Shipping_Status__c || undefined,
+        estimatedDelivery: record.Estimated_Delivery__c || undefined,
+        shippedDate: record.Shipped_Date__c || undefined,
+        deliveredDate: record.Delivered_Date__c || undefined,
+        paymentMethod: record.Payment_Method__c || undefined,
+      };
+    }));
   }
 
   async getCustomerChatSummaries(customerId: string): Promise<ChatSummary[]> {
-    const safe = this.sanitizeSoql(customerId);
-    const data = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Id,Session_Date__c,Summary_Text__c,Sentiment__c,Topics_Discussed__c+FROM+Chat_Summary__c+WHERE+Customer_Id__c='${safe}'+ORDER+BY+Session_Date__c+DESC+LIMIT+5`
-    );
-
-    return ((data.records || []) as Record<string, string | null>[]).map((r) => ({
-      id: r.Id as string,
-      sessionDate: r.Session_Date__c as string,
-      summary: r.Summary_Text__c as string,
+    const query = soql('Chat_Summary__c')
+      .select('Id', 'Session_Date__c', 'Summary_Text__c', 'Sentiment__c', 'Sentiment_Score__c', 'Topics_Discussed__c',
+        'Products_Mentioned__c', 'Objections__c', 'Next_Best_Action__c')
+      .where(eq('Customer_Id__c', customerId))
+      .orderBy('Session_Date__c', 'DESC')
+      .limit(5);
+
+    return query.rows(await this.fetchJson(query.toPath())).map((r) => ({
+      id: r.Id,
+      sessionDate: r.Session_Date__c ?? '',
+      summary: r.Summary_Text__c ?? '',
       sentiment: (r.Sentiment__c as ChatSummary['sentiment']) || 'neutral',
+      sentimentScore: r.Sentiment_Score__c ?? undefined,
       topicsDiscussed: r.Topics_Discussed__c ? r.Topics_Discussed__c.split(';') : [],
+      productsMentioned: r.Products_Mentioned__c ? r.Products_Mentioned__c.split(';') : undefined,
+      objections: r.Objections__c ? r.Objections__c.split(';') : undefined,
+      nextBestAction: r.Next_Best_Action__c || undefined,
     }));
   }
 
   async getCustomerMeaningfulEvents(customerId: string): Promise<MeaningfulEvent[]> {
-    const safe = this.sanitizeSoql(customerId);
     // Query by BOTH Customer_Id__c (text field, set by flow when agent passes contactId correctly)
     // AND Contact__c (lookup field, set when the flow resolves the contact by email/ID lookup).
     // This covers both paths so events appear regardless of which field the flow populated.
-    const data = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Id,Event_Type__c,Description__c,Captured_At__c,Agent_Note__c,Metadata_JSON__c+FROM+Meaningful_Event__c+WHERE+(Customer_Id__c='${safe}'+OR+Contact__c='${safe}')+ORDER+BY+Captured_At__c+DESC`
-    );
+    const query = soql('Meaningful_Event__c')
+      .select('Id', 'Event_Type__c', 'Description__c', 'Captured_At__c', 'Agent_Note__c', 'Metadata_JSON__c')
+      .where(or(eq('Customer_Id__c', customerId), eq('Contact__c', customerId)))
+      .orderBy('Captured_At__c', 'DESC');
 
-    return ((data.records || []) as Record<string, string | null>[]).map((r) => ({
-      id: r.Id as string,
+    return query.rows(await this.fetchJson(query.toPath())).map((r) => ({
+      id: r.Id,
       eventType: r.Event_Type__c as MeaningfulEvent['eventType'],
-      description: r.Description__c as string,
-      capturedAt: r.Captured_At__c as string,
-      agentNote: r.Agent_Note__c as string | undefined,
+      description: r.Description__c ?? '',
+      capturedAt: r.Captured_At__c ?? '',
+      agentNote: r.Agent_Note__c ?? undefined,
       metadata: r.Metadata_JSON__c ? JSON.parse(r.Metadata_JSON__c) : undefined,
     }));
   }
 
   async getCustomerBrowseSessions(customerId: string): Promise<BrowseSession[]> {
-    const safe = this.sanitizeSoql(customerId);
-    const data = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Session_Date__c,Categories_Browsed__c,Products_Viewed__c,Duration_Minutes__c,Device__c+FROM+Browse_Session__c+WHERE+Customer_Id__c='${safe}'+ORDER+BY+Session_Date__c+DESC+LIMIT+5`
-    );
-
-    return ((data.records || []) as Record<string, string | number | null>[]).map((r) => ({
-      sessionDate: r.Session_Date__c as string,
-      categoriesBrowsed: r.Categories_Browsed__c ? (r.Categories_Browsed__c as string).split(';') : [],
-      productsViewed: r.Products_Viewed__c ? (r.Products_Viewed__c as string).split(';') : [],
-      durationMinutes: (r.Duration_Minutes__c as number) || 0,
+    const query = soql('Browse_Session__c')
+      .select('Session_Date__c', 'Categories_Browsed__c', 'Products_Viewed__c', 'Duration_Minutes__c', 'Device__c')
+      .where(eq('Customer_Id__c', customerId))
+      .orderBy('Session_Date__c', 'DESC')
+      .limit(5);
+
+    return query.rows(await this.fetchJson(query.toPath())).map((r) => ({
+      sessionDate: r.Session_Date__c ?? '',
+      categoriesBrowsed: r.Categories_Browsed__c ? r.Categories_Browsed__c.split(';') : [],
+      productsViewed: r.Products_Viewed__c ? r.Products_Viewed__c.split(';') : [],
+      durationMinutes: r.Duration_Minutes__c || 0,
       device: (r.Device__c as BrowseSession['device']) || 'desktop',
     }));
   }
 
-  async getCustomerLoyalty(customerId: string): Promise<LoyaltyData | null> {
-    const safe = this.sanitizeSoql(customerId);
-    const memberData = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Id,MembershipNumber,EnrollmentDate,MemberStatus+FROM+LoyaltyProgramMember+WHERE+ContactId='${safe}'+AND+MemberStatus='Active'+LIMIT+1`
-    );
+  async getCustomerSkinAnalyses(customerId: string): Promise<SkinAnalysisResult[]> {
+    const query = soql('Skin_Analysis__c')
+      .select('Analyzed_At__c', 'Skin_Type__c', 'Skin_Age__c', 'Overall_Score__c', 'Primary_Concern__c',
+        'Concern_Scores_JSON__c', 'Provider__c', 'Calibration_Version__c')
+      .where(eq('Customer_Id__c', customerId))
+      .orderBy('Analyzed_At__c', 'DESC')
+      .limit(12);
+
+    return query.rows(await this.fetchJson(query.toPath())).map((r) => ({
+      analyzedAt: r.Analyzed_At__c ?? '',
+      skinType: (r.Skin_Type__c || 'normal').toLowerCase() as SkinAnalysisResult['skinType'],
+      skinAge: r.Skin_Age__c || 0,
+      overallScore: r.Overall_Score__c || 0,
+      primaryConcern: r.Primary_Concern__c || 'None detected',
+      concerns: parseConcernScores(r.Concern_Scores_JSON__c, r.Analyzed_At__c ?? ''),
+      provider: (r.Provider__c as SkinAnalysisResult['provider']) || undefined,
+      calibrationVersion: r.Calibration_Version__c || undefined,
+    }));
+  }
 
-    const memberRecords = (memberData.records || []) as Record<string, string>[];
-    if (memberRecords.length === 0) return null;
+  async getCustomerSubscriptions(customerId: string): Promise<Subscription[]> {
+    const query = soql('Subscription__c')
+      .select('Subscription_Key__c', 'Product_Id__c', 'Product_Name__c', 'Quantity__c', 'Frequency_Days__c',
+        'Discount_Percent__c', 'Status__c', 'Next_Order_Date__c', 'Started_At__c', 'Source_Order_Id__c')
+      .where(eq('Customer_Id__c', customerId))
+      .orderBy('Started_At__c', 'DESC')
+      .limit(50);
+
+    return query.rows(await this.fetchJson(query.toPath())).map((r) => ({
+      id: r.Subscription_Key__c,
+      productId: r.Product_Id__c,
+      productName: r.Product_Name__c || '',
+      quantity: r.Quantity__c || 1,
+      frequencyDays: r.Frequency_Days__c || 30,
+      discountPercent: r.Discount_Percent__c || 0,
+      status: (r.Status__c || 'active').toLowerCase() as Subscription['status'],
+      nextOrderDate: r.Next_Order_Date__c,
+      createdAt: r.Started_At__c,
+      sourceOrderId: r.Source_Order_Id__c || undefined,
+    }));
+  }
 
-    const member = memberRecords[0];
-    const memberId = this.sanitizeSoql(member.Id);
+  async getCustomerLoyalty(customerId: string): Promise<LoyaltyData | null> {
+    const memberQuery = soql('LoyaltyProgramMember')
+      .select('Id', 'MembershipNumber', 'EnrollmentDate', 'MemberStatus')
+      .where(and(eq('ContactId', customerId), eq('MemberStatus', 'Active')))
+      .limit(1);
+    const [member] = memberQuery.rows(await this.fetchJson(memberQuery.toPath()));
+    if (!member) return null;
+
+    // Tier and balance are independent — request both so they share a Composite call
+    const tierQuery = soql('LoyaltyMemberTier')
+      .select('LoyaltyTierId', 'LoyaltyTier.Name')
+      .where(eq('LoyaltyMemberId', member.Id));
+    const currencyQuery = soql('LoyaltyMemberCurrency')
+      .select('PointsBalance', 'TotalPointsAccrued')
+      .where(eq('LoyaltyMemberId', member.Id));
+    const [tierResult, currencyResult] = await Promise.allSettled([
+      this.fetchJson(tierQuery.toPath()),
+      this.fetchJson(currencyQuery.toPath()),
+    ]);
 
     const tierRank: Record<string, number> = { bronze: 1, silver: 2, gold: 3, platinum: 4 };
     let tier: LoyaltyData['tier'] = 'bronze';
-    try {
-      const memberTierData = await this.fetchJson(
-        `/services/data/v60.0/query/?q=SELECT+LoyaltyTierId,LoyaltyTier.Name+FROM+LoyaltyMemberTier+WHERE+LoyaltyMemberId='${memberId}'`
-      );
+    if (tierResult.status === 'fulfilled') {
       let bestRank = 0;
-      for (const mt of ((memberTierData.records || []) as Record<string, unknown>[])) {
-        const raw = (mt.LoyaltyTier as Record<string, string>)?.Name;
+      for (const mt of tierQuery.rows(tierResult.value)) {
+        const raw = mt.LoyaltyTier?.Name;
         if (!raw) continue;
         const name = raw.toLowerCase().replace(' tier', '');
         const rank = tierRank[name] || 0;
@@ -329,35 +401,30 @@ export class DataCloudCustomerService {
           tier = name as LoyaltyData['tier'];
         }
       }
-    } catch (e) {
-      console.warn('[datacloud] Could not fetch tier:', e);
+    } else {
+      console.warn('[datacloud] Could not fetch tier:', tierResult.reason);
     }
 
     let pointsBalance = 0;
     let lifetimePoints = 0;
-    try {
-      const currencyData = await this.fetchJson(
-        `/services/data/v60.0/query/?q=SELECT+PointsBalance,TotalPointsAccrued+FROM+LoyaltyMemberCurrency+WHERE+LoyaltyMemberId='${memberId}'`
-      );
-      for (const c of ((currencyData.records || []) as Record<string, number>[])) {
+    if (currencyResult.status === 'fulfilled') {
+      for (const c of currencyQuery.rows(currencyResult.value)) {
         const bal = c.PointsBalance || 0;
         const acc = c.TotalPointsAccrued || 0;
         if (bal > pointsBalance) pointsBalance = bal;
         if (acc > lifetimePoints) lifetimePoints = acc;
       }
       if (lifetimePoints === 0 && pointsBalance > 0) lifetimePoints = pointsBalance;
-    } catch (e) {
-      console.warn('[datacloud] Could not fetch points balance:', e);
+    } else {
+      console.warn('[datacloud] Could not fetch points balance:', currencyResult.reason);
     }
 
     // Demo fallback: Loyalty Management accrual engine hasn't processed
     // points for seeded contacts — use expected values for known demos.
     if (pointsBalance === 0) {
       try {
-        const contactData = await this.fetchJson(
-          `/services/data/v60.0/query/?q=SELECT+Email+FROM+Contact+WHERE+Id='${safe}'+LIMIT+1`
-        );
-        const email = ((contactData.records as Record<string, string>[])?.[0])?.Email;
+        const emailQuery = soql('Contact').select('Email').where(eq('Id', customerId)).limit(1);
+        const email = emailQuery.rows(await this.fetchJson(emailQuery.toPath()))[0]?.Email;
         const demoPoints: Record<string, [number, number]> = {
           'sarah.chen@example.com': [2450, 4800],
           'maya.thompson@example.com': [5200, 12400],
@@ -380,12 +447,11 @@ export class DataCloudCustomerService {
   }
 
   async getCustomerCapturedProfile(customerId: string): Promise<AgentCapturedProfile | undefined> {
-    const safe = this.sanitizeSoql(customerId);
-    const data = await this.fetchJson(
-      `/services/data/v60.0/query/?q=SELECT+Field_Name__c,Field_Value__c,Captured_At__c,Captured_From__c,Confidence__c,Data_Type__c+FROM+Agent_Captured_Profile__c+WHERE+Customer_Id__c='${safe}'`
-    );
+    const query = soql('Agent_Captured_Profile__c')
+      .select('Field_Name__c', 'Field_Value__c', 'Captured_At__c', 'Captured_From__c', 'Confidence__c', 'Data_Type__c')
+      .where(eq('Customer_Id__c', customerId));
 
-    const records = (data.records || []) as Record<string, string>[];
+    const records = query.rows(await this.fetchJson(query.toPath()));
     if (records.length === 0) return undefined;
 
     const profile: AgentCapturedProfile = {};
@@ -403,8 +469,8 @@ export class DataCloudCustomerService {
 
       const field: CapturedProfileField = {
         value: (Array.isArray(value) ? value.join(',') : value) as string,
-        capturedAt: r.Captured_At__c as string,
-        capturedFrom: r.Captured_From__c as string,
+        capturedAt: r.Captured_At__c,
+        capturedFrom: r.Captured_From__c ?? '',
         confidence: (r.Confidence__c as 'stated' | 'inferred') || 'inferred',
       };
 
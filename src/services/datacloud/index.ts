@@ -1,4 +1,5 @@
 export { DataCloudCustomerService, getDataCloudService } from './customerProfile';
 export { DataCloudWriteService, getDataCloudWriteService } from './writeProfile';
 export { getBrowseTracker } from './browseTracker';
-export type { DataCloudConfig } from './types';
+export { WriteQueue } from './writeQueue';
+export type { DataCloudConfig, QueuedWrite, QueuedWriteStatus } from './types';
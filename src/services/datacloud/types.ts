@@ -4,3 +4,46 @@ export interface DataCloudConfig {
   clientId?: string;
   clientSecret?: string;
 }
+
+export type QueuedWriteStatus = 'pending' | 'failed';
+
+/** A Salesforce record write waiting in the outbound queue. */
+export interface QueuedWrite {
+  /** Idempotency key, sent as the record's external id so a retried upsert can't create a duplicate. */
+  id: string;
+  sobject: string;
+  body: Record<string, unknown>;
+  /** Pending writes are retried with backoff; failed ones wait for a manual retry. */
+  status: QueuedWriteStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/** Durable storage behind the write queue. */
+export interface WriteQueueStore {
+  load(): Promise<QueuedWrite[]>;
+  put(write: QueuedWrite): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** One call inside a Salesforce Composite request. `url` is the full REST path. */
+export interface CompositeSubrequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: Record<string, unknown>;
+}
+
+export interface CompositeSubresponse {
+  referenceId: string;
+  httpStatusCode: number;
+  body: unknown;
+}
+
+/** Per-record result from an sObject Collections call. */
+export interface CollectionResult {
+  id?: string;
+  success: boolean;
+  errors: { statusCode: string; message: string; fields?: string[] }[];
+}
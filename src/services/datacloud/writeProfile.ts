@@ -1,5 +1,17 @@
 import type { BrowseSession, ChatSummary, MeaningfulEvent, CapturedProfileField, ProfilePreferences } from '@/types/customer';
-import type { DataCloudConfig } from './types';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import type { Subscription } from '@/types/subscription';
+import type { CollectionResult, DataCloudConfig, QueuedWrite } from './types';
+import { WriteQueue, openWriteQueueStore } from './writeQueue';
+import { RequestBatcher } from './batcher';
+import {
+  COLLECTION_MAX_RECORDS,
+  KEEPALIVE_MAX_BYTES,
+  byteLength,
+  collectionOutcomes,
+  fitsCollection,
+  fitsKeepaliveCollection,
+} from './composite';
 
 const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
 
@@ -17,14 +29,37 @@ export interface CommunicationPreferencesUpdate {
   pushOptIn?: boolean;
 }
 
+/** A queued write on its way into an sObject Collections upsert. */
+interface CollectionUpsert {
+  write: QueuedWrite;
+  /** Sent from a page-exit flush, so the request must outlive the page. */
+  keepalive: boolean;
+  /** Serialized size of the write's collection record. */
+  bytes: number;
+}
+
+const collectionRecord = (write: QueuedWrite) =>
+  ({ attributes: { type: write.sobject }, Idempotency_Key__c: write.id, ...write.body });
+
 export class DataCloudWriteService {
   private config: DataCloudConfig;
   private accessToken: string | null;
   private tokenExpiresAt = 0;
+  private queue: WriteQueue | null = null;
+  /** Coalesces queued upserts into one sObject Collections call per object type. */
+  private upserts: RequestBatcher<CollectionUpsert, string | undefined>;
+  /** Bytes of keepalive request bodies still in flight — the browser's quota is shared between them. */
+  private keepaliveBytes = 0;
 
   constructor(config: DataCloudConfig) {
     this.config = config;
     this.accessToken = config.accessToken || null;
+    this.upserts = new RequestBatcher({
+      label: 'collections',
+      send: (upserts) => this.upsertCollection(upserts),
+      groupBy: (upsert) => `${upsert.write.sobject}${upsert.keepalive ? ':keepalive' : ''}`,
+      fits: (batch, next) => (next.keepalive ? fitsKeepaliveCollection(batch, next) : fitsCollection(batch)),
+    });
   }
 
   private async getAccessToken(): Promise<string> {
@@ -82,14 +117,112 @@ export class DataCloudWriteService {
     });
 
     if (!response.ok) {
+      if (response.status === 401) this.dropToken();
       const errText = await response.text();
       throw new Error(`Data Cloud patch failed (${response.status}): ${errText}`);
     }
   }
 
   /**
-   * Delete multiple Salesforce records by ID. Uses individual DELETE calls
-   * since the Salesforce REST API doesn't support batch delete on sobjects.
+   * sObject Collections call. Returns one result per record, in request order.
+   * A `keepalive` request that would overrun the browser's quota is sent
+   * without it rather than being rejected outright.
+   */
+  private async collectionRequest(
+    method: 'PATCH' | 'DELETE',
+    path: string,
+    body?: Record<string, unknown>,
+    keepalive = false,
+  ): Promise<CollectionResult[]> {
+    const token = await this.getAccessToken();
+    // Route through proxy to avoid CORS
+    const proxyPath = path.replace(/^\/services\/data\/v60\.0/, '/api/datacloud');
+    const payload = body && JSON.stringify(body);
+    const bytes = payload ? byteLength(payload) : 0;
+    const useKeepalive = keepalive && this.keepaliveBytes + bytes <= KEEPALIVE_MAX_BYTES;
+    if (useKeepalive) this.keepaliveBytes += bytes;
+
+    let response: Response;
+    try {
+      response = await fetch(proxyPath, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        ...(payload && { body: payload }),
+        keepalive: useKeepalive,
+      });
+    } finally {
+      if (useKeepalive) this.keepaliveBytes -= bytes;
+    }
+
+    if (!response.ok) {
+      if (response.status === 401) this.dropToken();
+      const errText = await response.text();
+      throw new Error(`Data Cloud collection ${method} failed (${response.status}): ${errText}`);
+    }
+    return response.json();
+  }
+
+  /** Expired or revoked token — fetch a fresh one on the next attempt. */
+  private dropToken() {
+    this.accessToken = null;
+    this.tokenExpiresAt = 0;
+  }
+
+  /**
+   * Outbound queue for capture writes (chat summaries, meaningful events,
+   * browse sessions, captured profile fields). Created on first use so mock
+   * mode never opens IndexedDB.
+   */
+  get writeQueue(): WriteQueue {
+    if (!this.queue) {
+      this.queue = new WriteQueue({
+        store: openWriteQueueStore(),
+        send: (write, { pageExit }) => this.sendQueuedWrite(write, pageExit),
+      });
+      if (typeof window !== 'undefined') this.queue.listenForPageExit();
+    }
+    return this.queue;
+  }
+
+  private async sendQueuedWrite(write: QueuedWrite, pageExit: boolean): Promise<void> {
+    const sent = this.upserts.add({
+      write,
+      keepalive: pageExit,
+      bytes: byteLength(JSON.stringify(collectionRecord(write))),
+    });
+    // The queue hands over every due write in one tick, so send as soon as it's
+    // done rather than waiting out the window — on pagehide there's no time to
+    queueMicrotask(() => { void this.upserts.flush(); });
+    await sent;
+  }
+
+  /**
+   * Upsert on each write's idempotency key, so a retry after a lost response
+   * updates the record the first attempt created. Records succeed or fail
+   * individually. Page-exit batches are grouped and sized for keepalive.
+   */
+  private async upsertCollection(upserts: CollectionUpsert[]) {
+    const sobject = upserts[0].write.sobject;
+    const results = await this.collectionRequest(
+      'PATCH',
+      `/services/data/v60.0/composite/sobjects/${sobject}/Idempotency_Key__c`,
+      { allOrNone: false, records: upserts.map((u) => collectionRecord(u.write)) },
+      upserts[0].keepalive,
+    );
+    return collectionOutcomes(results, upserts.length);
+  }
+
+  /** Queue a record for delivery. Resolves once it's stored, not when Salesforce has it. */
+  private enqueueWrite(sobject: string, body: Record<string, unknown>): Promise<void> {
+    return this.writeQueue.enqueue({ id: crypto.randomUUID(), sobject, body });
+  }
+
+  /**
+   * Delete multiple Salesforce records by ID, up to 200 per sObject
+   * Collections call. Each ID succeeds or fails on its own.
    */
   async deleteRecords(sobjectType: string, recordIds: string[]): Promise<{ deleted: string[]; failed: string[] }> {
     if (useMockData) {
@@ -97,28 +230,30 @@ export class DataCloudWriteService {
       return { deleted: recordIds, failed: [] };
     }
 
-    // Try to get a client-side token, but let the proxy fall back to server-side auth
-    let token: string | null = null;
-    try { token = await this.getAccessToken(); } catch { /* proxy will use server token */ }
     const deleted: string[] = [];
     const failed: string[] = [];
+    const chunks: string[][] = [];
+    for (let i = 0; i < recordIds.length; i += COLLECTION_MAX_RECORDS) {
+      chunks.push(recordIds.slice(i, i + COLLECTION_MAX_RECORDS));
+    }
 
-    await Promise.all(recordIds.map(async (id) => {
+    await Promise.all(chunks.map(async (ids) => {
       try {
-        const response = await fetch(`/api/sf-record/${id}`, {
-          method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sobject: sobjectType, ...(token && { token }) }),
+        const results = await this.collectionRequest(
+          'DELETE',
+          `/services/data/v60.0/composite/sobjects?ids=${ids.map(encodeURIComponent).join(',')}&allOrNone=false`,
+        );
+        collectionOutcomes(results, ids.length).forEach((outcome, i) => {
+          if (outcome.ok) {
+            deleted.push(ids[i]);
+          } else {
+            console.error(`[datacloud] Failed to delete ${sobjectType}/${ids[i]}: ${outcome.error}`);
+            failed.push(ids[i]);
+          }
         });
-        if (response.ok || response.status === 204) {
-          deleted.push(id);
-        } else {
-          console.error(`[datacloud] Failed to delete ${sobjectType}/${id}: ${response.status}`);
-          failed.push(id);
-        }
       } catch (err) {
-        console.error(`[datacloud] Delete error for ${sobjectType}/${id}:`, err);
-        failed.push(id);
+        console.error(`[datacloud] Delete error for ${ids.length} ${sobjectType} records:`, err);
+        failed.push(...ids);
       }
     }));
 
@@ -135,13 +270,17 @@ export class DataCloudWriteService {
       return;
     }
 
-    await this.postJson('/services/data/v60.0/sobjects/Chat_Summary__c', {
+    await this.enqueueWrite('Chat_Summary__c', {
       Customer_Id__c: customerId,
       Session_Id__c: sessionId,
       Session_Date__c: summary.sessionDate,
       Summary_Text__c: summary.summary,
       Sentiment__c: summary.sentiment,
+      Sentiment_Score__c: summary.sentimentScore,
       Topics_Discussed__c: summary.topicsDiscussed.join(';'),
+      Products_Mentioned__c: summary.productsMentioned?.join(';'),
+      Objections__c: summary.objections?.join(';'),
+      Next_Best_Action__c: summary.nextBestAction,
     });
   }
 
@@ -184,7 +323,7 @@ export class DataCloudWriteService {
       record.Urgency__c = event.urgency;
     }
 
-    await this.postJson('/services/data/v60.0/sobjects/Meaningful_Event__c', record);
+    await this.enqueueWrite('Meaningful_Event__c', record);
   }
 
   async writeBrowseSession(
@@ -200,7 +339,7 @@ export class DataCloudWriteService {
       return;
     }
 
-    await this.postJson('/services/data/v60.0/sobjects/Browse_Session__c', {
+    await this.enqueueWrite('Browse_Session__c', {
       Customer_Id__c: customerId,
       Session_Date__c: session.sessionDate,
       Categories_Browsed__c: session.categoriesBrowsed.join(';'),
@@ -227,7 +366,7 @@ export class DataCloudWriteService {
     const dataType = Array.isArray(field.value) ? 'array' : 'string';
     const fieldValue = dataType === 'array' ? JSON.stringify(field.value) : String(field.value);
 
-    await this.postJson('/services/data/v60.0/sobjects/Agent_Captured_Profile__c', {
+    await this.enqueueWrite('Agent_Captured_Profile__c', {
       Customer_Id__c: customerId,
       Field_Name__c: fieldName,
       Field_Value__c: fieldValue,
@@ -238,6 +377,76 @@ export class DataCloudWriteService {
     });
   }
 
+  /**
+   * Store a skin analysis so progress can be tracked across sessions. Concern
+   * scores go in as JSON; the raw provider response stays client-side.
+   */
+  async writeSkinAnalysis(customerId: string, analysis: SkinAnalysisResult): Promise<void> {
+    if (useMockData) {
+      console.log('[mock] Would write skin analysis:', analysis.overallScore, 'overall,', analysis.primaryConcern);
+      return;
+    }
+
+    await this.postJson('/services/data/v60.0/sobjects/Skin_Analysis__c', {
+      Customer_Id__c: customerId,
+      Analyzed_At__c: analysis.analyzedAt,
+      Skin_Type__c: analysis.skinType,
+      Skin_Age__c: analysis.skinAge,
+      Overall_Score__c: analysis.overallScore,
+      Primary_Concern__c: analysis.primaryConcern,
+      Concern_Scores_JSON__c: JSON.stringify(analysis.concerns),
+      Provider__c: analysis.provider ?? null,
+      Calibration_Version__c: analysis.calibrationVersion ?? null,
+    });
+  }
+
+  /**
+   * Record points spent at checkout. Loyalty Management deducts the balance
+   * from the redemption record; the UI updates its local balance optimistically.
+   */
+  async writeLoyaltyRedemption(
+    customerId: string,
+    redemption: { orderId: string; points: number; credit: number; rewardName?: string },
+  ): Promise<void> {
+    if (useMockData) {
+      console.log('[mock] Would write loyalty redemption:', redemption.points, 'pts for order', redemption.orderId);
+      return;
+    }
+
+    await this.postJson('/services/data/v60.0/sobjects/Loyalty_Redemption__c', {
+      Customer_Id__c: customerId,
+      Order_Id__c: redemption.orderId,
+      Points_Redeemed__c: redemption.points,
+      Credit_Amount__c: redemption.credit,
+      Reward_Name__c: redemption.rewardName || null,
+      Redeemed_At__c: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Create or update a subscribe & save record. Upserts on the client-generated
+   * key, so starting, skipping, pausing and cancelling are all the same write.
+   */
+  async saveSubscription(customerId: string, subscription: Subscription): Promise<void> {
+    if (useMockData) {
+      console.log('[mock] Would save subscription:', subscription.productId, subscription.status, 'next', subscription.nextOrderDate);
+      return;
+    }
+
+    await this.patchJson(`/services/data/v60.0/sobjects/Subscription__c/Subscription_Key__c/${encodeURIComponent(subscription.id)}`, {
+      Customer_Id__c: customerId,
+      Product_Id__c: subscription.productId,
+      Product_Name__c: subscription.productName,
+      Quantity__c: subscription.quantity,
+      Frequency_Days__c: subscription.frequencyDays,
+      Discount_Percent__c: subscription.discountPercent,
+      Status__c: subscription.status,
+      Next_Order_Date__c: subscription.nextOrderDate,
+      Started_At__c: subscription.createdAt,
+      Source_Order_Id__c: subscription.sourceOrderId || null,
+    });
+  }
+
   /**
    * Update Contact beauty preferences (user-editable fields in preference center).
    * Maps to Contact custom fields in Salesforce.
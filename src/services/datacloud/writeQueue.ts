@@ -0,0 +1,255 @@
+import type { QueuedWrite, WriteQueueStore } from './types';
+
+const DB_NAME = 'beaute-datacloud';
+const STORE_NAME = 'outbound-writes';
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_DELAY_MS = 2_000;
+const DEFAULT_MAX_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Delay before the next try after `attempts` failures: doubles each time, capped at `maxMs`. */
+export function backoffDelay(attempts: number, baseMs = DEFAULT_BASE_DELAY_MS, maxMs = DEFAULT_MAX_DELAY_MS): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempts - 1));
+}
+
+export function createMemoryWriteStore(): WriteQueueStore {
+  const writes = new Map<string, QueuedWrite>();
+  return {
+    load: async () => Array.from(writes.values()),
+    put: async (write) => { writes.set(write.id, write); },
+    remove: async (id) => { writes.delete(id); },
+  };
+}
+
+export function createIndexedDbWriteStore(factory: IDBFactory = indexedDB): WriteQueueStore {
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const open = factory.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+  // Resolve on transaction complete, not request success, so the write has actually landed
+  const transact = async (mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest) => {
+    const tx = (await db).transaction(STORE_NAME, mode);
+    const request = fn(tx.objectStore(STORE_NAME));
+    return new Promise<unknown>((resolve, reject) => {
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  return {
+    load: async () => (await transact('readonly', (store) => store.getAll())) as QueuedWrite[],
+    put: async (write) => { await transact('readwrite', (store) => store.put(write)); },
+    remove: async (id) => { await transact('readwrite', (store) => store.delete(id)); },
+  };
+}
+
+/** IndexedDB where the browser has it; memory otherwise (tests, some private modes). */
+export function openWriteQueueStore(): WriteQueueStore {
+  return typeof indexedDB === 'undefined' ? createMemoryWriteStore() : createIndexedDbWriteStore();
+}
+
+export interface FlushOptions {
+  /** Also send pending writes still waiting out their backoff. */
+  includeWaiting?: boolean;
+  /** The page is going away: sends should use `keepalive` so they outlive it. */
+  pageExit?: boolean;
+}
+
+export interface WriteQueueOptions {
+  store: WriteQueueStore;
+  send: (write: QueuedWrite, options: { pageExit: boolean }) => Promise<void>;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Durable outbound queue for Data Cloud writes. Writes are stored before they
+ * are sent, retried with exponential backoff, and marked failed after
+ * `maxAttempts` so they can be retried by hand. Writes left over from a
+ * previous page load are picked up on construction.
+ */
+export class WriteQueue {
+  private store: WriteQueueStore;
+  private send: WriteQueueOptions['send'];
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private now: () => number;
+  private writes = new Map<string, QueuedWrite>();
+  private snapshot: QueuedWrite[] = [];
+  private listeners = new Set<() => void>();
+  private ready: Promise<void>;
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: WriteQueueOptions) {
+    this.store = options.store;
+    this.send = options.send;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.now = options.now ?? Date.now;
+
+    this.ready = this.store.load()
+      .then((stored) => {
+        for (const write of stored) {
+          if (!this.writes.has(write.id)) this.writes.set(write.id, write);
+        }
+        this.emit();
+        if (stored.length) this.schedule();
+      })
+      .catch((err) => console.warn('[write-queue] Could not load stored writes:', err));
+  }
+
+  /** Store a write and start sending it. Resolves once stored; a repeated id is ignored. */
+  async enqueue(write: Pick<QueuedWrite, 'id' | 'sobject' | 'body'>): Promise<void> {
+    await this.ready;
+    if (this.writes.has(write.id)) return;
+    const now = this.now();
+    const queued: QueuedWrite = { ...write, status: 'pending', attempts: 0, createdAt: now, nextAttemptAt: now };
+    this.writes.set(queued.id, queued);
+    this.emit();
+    await this.persist(queued);
+    void this.flush();
+  }
+
+  /**
+   * Send pending writes whose backoff has elapsed, all at once. With
+   * `includeWaiting`, send every pending write now — used when the page is
+   * going away and there may not be a later chance. Concurrent calls share
+   * one pass, except on page exit: requests already in flight die with the
+   * page, so those writes go again (upserts are keyed, so that's harmless).
+   */
+  flush(options: FlushOptions = {}): Promise<void> {
+    if (options.pageExit) return this.drain(options).finally(() => this.schedule());
+    if (!this.flushing) {
+      this.flushing = this.drain(options).finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+    }
+    return this.flushing;
+  }
+
+  /** Reset a write's attempts and send it again. */
+  async retry(id: string): Promise<void> {
+    const write = this.writes.get(id);
+    if (!write) return;
+    const reset: QueuedWrite = { ...write, status: 'pending', attempts: 0, nextAttemptAt: this.now(), lastError: undefined };
+    this.writes.set(id, reset);
+    this.emit();
+    await this.persist(reset);
+    await this.flushing;
+    return this.flush();
+  }
+
+  /** Drop a write for good — for ones Salesforce will never accept. */
+  async discard(id: string): Promise<void> {
+    if (!this.writes.delete(id)) return;
+    this.emit();
+    await this.unpersist(id);
+  }
+
+  /** Queued writes, oldest first. Stable between changes, for `useSyncExternalStore`. */
+  list(): QueuedWrite[] {
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Flush when the tab is hidden or closed, and when the connection comes back. */
+  listenForPageExit(target: Window = window): () => void {
+    const flushOnExit = () => { void this.flush({ includeWaiting: true, pageExit: true }); };
+    const flushOnline = () => { void this.flush({ includeWaiting: true }); };
+    const onVisibility = () => {
+      if (target.document.visibilityState === 'hidden') flushOnExit();
+    };
+    target.document.addEventListener('visibilitychange', onVisibility);
+    target.addEventListener('pagehide', flushOnExit);
+    target.addEventListener('online', flushOnline);
+    return () => {
+      target.document.removeEventListener('visibilitychange', onVisibility);
+      target.removeEventListener('pagehide', flushOnExit);
+      target.removeEventListener('online', flushOnline);
+    };
+  }
+
+  private async drain({ includeWaiting = false, pageExit = false }: FlushOptions): Promise<void> {
+    await this.ready;
+    const now = this.now();
+    const due = this.snapshot.filter((w) => w.status === 'pending' && (includeWaiting || w.nextAttemptAt <= now));
+    // Hand every due write to `send` in the same tick so a batching transport can combine them
+    await Promise.all(due.map((write) => this.attempt(write, pageExit)));
+  }
+
+  private async attempt(write: QueuedWrite, pageExit: boolean): Promise<void> {
+    try {
+      await this.send(write, { pageExit });
+      this.writes.delete(write.id);
+      this.emit();
+      await this.unpersist(write.id);
+    } catch (err) {
+      // Retried or discarded while in flight — leave the newer state alone
+      if (this.writes.get(write.id) !== write) return;
+      const attempts = write.attempts + 1;
+      const failed = attempts >= this.maxAttempts;
+      const delay = backoffDelay(attempts, this.baseDelayMs, this.maxDelayMs);
+      const next: QueuedWrite = {
+        ...write,
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: this.now() + delay,
+        lastError: err instanceof Error ? err.message : String(err),
+      };
+      this.writes.set(write.id, next);
+      this.emit();
+      await this.persist(next);
+      console.warn(
+        `[write-queue] ${write.sobject} ${failed ? `failed after ${attempts} attempts` : `attempt ${attempts} failed, retrying in ${Math.round(delay / 1000)}s`}:`,
+        next.lastError,
+      );
+    }
+  }
+
+  /** Wake up for the earliest pending write still in backoff. */
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const waiting = this.snapshot.filter((w) => w.status === 'pending').map((w) => w.nextAttemptAt);
+    if (!waiting.length) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, Math.max(0, Math.min(...waiting) - this.now()));
+  }
+
+  private emit() {
+    this.snapshot = Array.from(this.writes.values()).sort((a, b) => a.createdAt - b.createdAt);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persist(write: QueuedWrite) {
+    try {
+      await this.store.put(write);
+    } catch (err) {
+      console.warn('[write-queue] Could not store write, keeping it in memory:', err);
+    }
+  }
+
+  private async unpersist(id: string) {
+    try {
+      await this.store.remove(id);
+    } catch (err) {
+      console.warn('[write-queue] Could not remove stored write:', err);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { SCENE_PROMPTS, buildScenePrompt, BRAND_STYLE_PRESETS, BRAND_STYLE_STREN
 import type { SceneSetting } from '@/types/scene';
 import type { Product } from '@/types/product';
 import type { FireflyConfig, GenerationOptions } from './types';
+import { clock, serviceFetch } from '@/services/replay/runtime';
 
 const POLL_INTERVAL_MS = 2000;
 const MAX_POLL_ATTEMPTS = 30; // 60s max wait
@@ -16,11 +17,11 @@ export class FireflyClient {
   }
 
   private async getAccessToken(): Promise<string> {
-    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+    if (this.accessToken && clock.now() < this.tokenExpiresAt) {
       return this.accessToken;
     }
 
-    const response = await fetch('/api/firefly/token', {
+    const response = await serviceFetch('firefly', '/api/firefly/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: new URLSearchParams({
@@ -39,7 +40,7 @@ export class FireflyClient {
     const data = await response.json();
     this.accessToken = data.access_token;
     // Expire 5 minutes early
-    this.tokenExpiresAt = Date.now() + (data.expires_in ? data.expires_in * 1000 : 86400_000) - 300_000;
+    this.tokenExpiresAt = clock.now() + (data.expires_in ? data.expires_in * 1000 : 86400_000) - 300_000;
     return this.accessToken!;
   }
 
@@ -49,9 +50,9 @@ export class FireflyClient {
    */
   private async pollForResult(jobId: string, token: string): Promise<string> {
     for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-      await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+      await clock.sleep(POLL_INTERVAL_MS);
 
-      const statusRes = await fetch(`/api/firefly/status/${jobId}`, {
+      const statusRes = await serviceFetch('firefly', `/api/firefly/status/${jobId}`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -99,7 +100,7 @@ export class FireflyClient {
     const token = await this.getAccessToken();
 
     // Submit async generation job
-    const response = await fetch('/api/firefly/generate', {
+    const response = await serviceFetch('firefly', '/api/firefly/generate', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${token}`,
@@ -8,7 +8,10 @@
 
 import { base64ToBlobUrl, imageUrlToBase64 } from '@/services/imagen/utils';
 import type { SceneSetting } from '@/types/scene';
-import type { SkinAnalysisResult, SkinConcernScore } from '@/types/skinanalysis';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import { calibrateSkinReading } from '@/services/skinanalysis/calibration';
+import type { SkinReading } from '@/services/skinanalysis/types';
+import { clock, serviceFetch } from '@/services/replay/runtime';
 
 interface GeminiConfig {
   apiKey: string;
@@ -42,7 +45,7 @@ export class GeminiClient {
    */
   private async editImage(imageBase64: string, prompt: string, mimeType = 'image/jpeg'): Promise<string> {
     console.log('[gemini] editImage request — prompt:', prompt.substring(0, 80), '...');
-    const response = await fetch('/api/gemini/generateContent', {
+    const response = await serviceFetch('gemini', '/api/gemini/generateContent', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -143,10 +146,15 @@ export class GeminiClient {
   }
 
   /**
-   * Analyse a skin photo using Gemini 2.0 Flash vision.
-   * Returns a structured SkinAnalysisResult parsed from the model's JSON output.
+   * Analyse a skin photo using Gemini 2.0 Flash vision, calibrated onto the
+   * shared scale. Use the skin analysis registry for failover to other providers.
    */
   async analyzeSkin(imageFile: File): Promise<SkinAnalysisResult> {
+    return calibrateSkinReading(await this.readSkin(imageFile));
+  }
+
+  /** Ask the model for a structured reading and return its scores as given. */
+  async readSkin(imageFile: File): Promise<SkinReading> {
     const base64 = await fileToBase64(imageFile);
     const mimeType = imageFile.type || 'image/jpeg';
 
@@ -175,7 +183,7 @@ export class GeminiClient {
 }
 Score each concern 0–100 (0 = not present, 100 = very severe). Set severity based on score: 0–19 = none, 20–39 = mild, 40–64 = moderate, 65+ = severe.`;
 
-    const response = await fetch('/api/gemini/vision', {
+    const response = await serviceFetch('gemini', '/api/gemini/vision', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -206,20 +214,16 @@ Score each concern 0–100 (0 = not present, 100 = very severe). Set severity ba
       skinType: SkinAnalysisResult['skinType'];
       skinAge: number;
       overallScore: number;
-      concerns: SkinConcernScore[];
+      concerns: Array<{ concern: string; score: number }>;
     };
 
-    const primaryConcern = parsed.concerns
-      .filter((c) => c.severity !== 'none')
-      .sort((a, b) => b.score - a.score)[0]?.label ?? 'None detected';
-
     return {
+      provider: 'gemini',
       skinType: parsed.skinType,
       skinAge: parsed.skinAge,
       overallScore: parsed.overallScore,
-      concerns: parsed.concerns,
-      primaryConcern,
-      analyzedAt: new Date().toISOString(),
+      concerns: parsed.concerns.map((c) => ({ key: c.concern, score: c.score })),
+      capturedAt: new Date(clock.now()).toISOString(),
     };
   }
 }
@@ -3,6 +3,7 @@ import type { SceneSetting } from '@/types/scene';
 import type { Product } from '@/types/product';
 import type { ImagenConfig } from './types';
 import { base64ToBlobUrl } from './utils';
+import { serviceFetch } from '@/services/replay/runtime';
 
 export class ImagenClient {
   private config: ImagenConfig;
@@ -18,7 +19,7 @@ export class ImagenClient {
   ): Promise<string> {
     const prompt = buildScenePrompt(setting);
 
-    const response = await fetch('/api/imagen/generate', {
+    const response = await serviceFetch('imagen', '/api/imagen/generate', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -55,7 +56,7 @@ export class ImagenClient {
 
   /** Generate a scene background from a raw prompt string (no setting mapping). */
   async generateFromPrompt(prompt: string): Promise<string> {
-    const response = await fetch('/api/imagen/generate', {
+    const response = await serviceFetch('imagen', '/api/imagen/generate', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
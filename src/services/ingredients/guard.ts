@@ -0,0 +1,94 @@
+import type { ProfilePreferences } from '@/types/customer';
+import type { IngredientWarning, Product } from '@/types/product';
+import { ALLERGEN_GROUPS, allergenGroupFor, ingredientNames, normalizeIngredient } from './synonyms';
+import type { AllergenGroup } from './synonyms';
+
+export type SafetyPreferences = Partial<Pick<ProfilePreferences, 'allergies' | 'fragrancePreference'>>;
+
+const FRAGRANCE_GROUP = ALLERGEN_GROUPS.find((g) => g.id === 'fragrance')!;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A product's ingredients, key ingredients first, each once. */
+function listedIngredients(product: Product): string[] {
+  const attributes = product.attributes ?? {};
+  return [...new Set([...(attributes.keyIngredients ?? []), ...(attributes.ingredients ?? [])])];
+}
+
+/**
+ * The first listed ingredient that belongs to an allergen family. A free-of
+ * flag only stands in for a missing INCI list — when the list is there, it wins.
+ */
+function findInGroup(product: Product, group: AllergenGroup): string | undefined {
+  const hasInciList = Boolean(product.attributes?.ingredients?.length);
+  if (group.freeOf && product.attributes?.[group.freeOf] && !hasInciList && product.category !== 'fragrance') return undefined;
+  // A perfume is fragrance whatever its notes are called
+  if (group.id === 'fragrance' && product.category === 'fragrance') return 'Fragrance';
+  return listedIngredients(product).find((ingredient) =>
+    ingredientNames(ingredient).some((name) => group.match.test(name) && !group.exclude?.test(name)),
+  );
+}
+
+/** The first listed ingredient matching free-text the customer typed, by whole words or alias. */
+function findByName(product: Product, allergy: string): string | undefined {
+  const wanted = ingredientNames(allergy).map((name) => new RegExp(`(^|\\W)${escapeRegExp(name)}(\\W|$)`));
+  return listedIngredients(product).find((ingredient) =>
+    ingredientNames(ingredient).some((name) => wanted.some((pattern) => pattern.test(name))),
+  );
+}
+
+/**
+ * Cross-check a product against the customer's allergies and fragrance
+ * preference. Allergies naming a family ("nuts", "parabens") match every label
+ * spelling in it; anything else is matched by name and INCI alias.
+ */
+export function checkProductSafety(product: Product, preferences?: SafetyPreferences | null): IngredientWarning[] {
+  if (!preferences) return [];
+  const warnings: IngredientWarning[] = [];
+  const flagged = new Set<string>();
+
+  for (const allergy of preferences.allergies ?? []) {
+    if (!normalizeIngredient(allergy)) continue;
+    const group = allergenGroupFor(allergy);
+    const ingredient = group ? findInGroup(product, group) : findByName(product, allergy);
+    if (!ingredient) continue;
+    if (group) flagged.add(group.id);
+    warnings.push({
+      reason: 'allergy',
+      allergen: allergy,
+      ingredient,
+      message: `Contains ${ingredient} — you've listed ${allergy} as an allergy`,
+    });
+  }
+
+  const { fragrancePreference } = preferences;
+  if ((fragrancePreference === 'fragrance-free' || fragrancePreference === 'sensitive') && !flagged.has('fragrance')) {
+    const ingredient = findInGroup(product, FRAGRANCE_GROUP);
+    if (ingredient) {
+      warnings.push({
+        reason: 'preference',
+        allergen: fragrancePreference,
+        ingredient,
+        message: fragrancePreference === 'fragrance-free'
+          ? `Contains ${ingredient} — your profile is set to fragrance-free`
+          : `Contains ${ingredient}, which can irritate fragrance-sensitive skin`,
+      });
+    }
+  }
+  return warnings;
+}
+
+export interface FlaggedProduct {
+  product: Product;
+  warnings: IngredientWarning[];
+}
+
+/** Products that conflict with a listed allergy — what checkout asks the customer to confirm. */
+export function findAllergyConflicts(products: Product[], preferences?: SafetyPreferences | null): FlaggedProduct[] {
+  return products.flatMap((product) => {
+    const warnings = checkProductSafety(product, preferences).filter((w) => w.reason === 'allergy');
+    return warnings.length ? [{ product, warnings }] : [];
+  });
+}
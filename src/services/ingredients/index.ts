@@ -0,0 +1,4 @@
+export { checkProductSafety, findAllergyConflicts } from './guard';
+export { ALLERGEN_GROUPS, allergenGroupFor, ingredientNames, normalizeIngredient } from './synonyms';
+export type { FlaggedProduct, SafetyPreferences } from './guard';
+export type { AllergenGroup } from './synonyms';
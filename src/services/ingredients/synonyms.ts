@@ -0,0 +1,179 @@
+import type { ProductAttributes } from '@/types/product';
+
+/**
+ * Everyday names and their INCI (label) equivalents. A customer who is allergic
+ * to "tea tree oil" should be warned about "Melaleuca Alternifolia Leaf Oil"
+ * and vice versa, so both spellings resolve to the first name in each row.
+ */
+const INCI_ALIASES: string[][] = [
+  ['water', 'aqua', 'eau'],
+  ['fragrance', 'parfum', 'perfume', 'aroma'],
+  ['tea tree oil', 'melaleuca alternifolia leaf oil'],
+  ['sweet almond oil', 'prunus amygdalus dulcis oil', 'almond oil'],
+  ['shea butter', 'butyrospermum parkii butter'],
+  ['argan oil', 'argania spinosa kernel oil'],
+  ['jojoba oil', 'simmondsia chinensis seed oil', 'jojoba seed oil'],
+  ['coconut oil', 'cocos nucifera oil'],
+  ['castor oil', 'ricinus communis seed oil'],
+  ['rosehip oil', 'rosa canina fruit oil'],
+  ['soybean oil', 'glycine soja oil', 'soy oil'],
+  ['beeswax', 'cera alba'],
+  ['lanolin', 'wool wax', 'adeps lanae'],
+  ['honey', 'mel'],
+  ['aloe vera', 'aloe barbadensis leaf juice'],
+  ['green tea', 'camellia sinensis leaf extract', 'green tea extract'],
+  ['licorice root', 'glycyrrhiza glabra root extract'],
+  ['witch hazel', 'hamamelis virginiana water'],
+  ['oat extract', 'avena sativa kernel extract', 'colloidal oatmeal'],
+  ['centella asiatica', 'centella', 'cica'],
+  ['bergamot', 'citrus aurantium bergamia fruit oil'],
+  ['lavender oil', 'lavandula angustifolia oil'],
+  ['hyaluronic acid', 'sodium hyaluronate'],
+  ['vitamin a', 'retinol'],
+  ['vitamin b3', 'niacinamide'],
+  ['vitamin b5', 'panthenol'],
+  ['vitamin c', 'ascorbic acid', 'l-ascorbic acid'],
+  ['vitamin e', 'tocopherol'],
+];
+
+const ALIAS_INDEX = new Map<string, string[]>();
+for (const row of INCI_ALIASES) {
+  for (const name of row) ALIAS_INDEX.set(name, row);
+}
+
+/**
+ * Allergen families a customer can name in one word, matched against every
+ * spelling that appears on labels. `freeOf` names the product flag that
+ * claims the family is absent; it is only trusted when there is no full
+ * ingredient list to check.
+ */
+export interface AllergenGroup {
+  id: string;
+  label: string;
+  /** What a customer might type for this family. */
+  names: string[];
+  match: RegExp;
+  /** Exceptions — e.g. fatty alcohols are not drying "alcohol". */
+  exclude?: RegExp;
+  freeOf?: keyof Pick<ProductAttributes, 'isFragranceFree' | 'isParabenFree'>;
+}
+
+export const ALLERGEN_GROUPS: AllergenGroup[] = [
+  {
+    id: 'fragrance',
+    label: 'Fragrance',
+    names: ['fragrance', 'fragrances', 'perfume', 'parfum', 'scent', 'scented'],
+    // Labelled fragrance plus the EU-declarable fragrance allergens
+    match: /\b(fragrance|parfum|perfume|aroma|linalool|limonene|citral|geraniol|eugenol|coumarin|citronellol)\b/,
+    freeOf: 'isFragranceFree',
+  },
+  {
+    id: 'essential-oils',
+    label: 'Essential oils',
+    names: ['essential oil', 'essential oils'],
+    match: /essential oil|tea tree|melaleuca|lavend|bergamot|eucalyptus|peppermint|rosemary (leaf )?oil|ylang|citrus \w+ (peel |fruit )?oil/,
+  },
+  {
+    id: 'parabens',
+    label: 'Parabens',
+    names: ['paraben', 'parabens'],
+    match: /paraben/,
+    freeOf: 'isParabenFree',
+  },
+  {
+    id: 'sulfates',
+    label: 'Sulfates',
+    names: ['sulfate', 'sulfates', 'sulphate', 'sulphates', 'sls', 'sles'],
+    match: /\b(lauryl|laureth|coco) sul(f|ph)ate|\bsl(e)?s\b/,
+  },
+  {
+    id: 'alcohol',
+    label: 'Drying alcohol',
+    names: ['alcohol', 'alcohols', 'denatured alcohol'],
+    match: /^alcohol$|alcohol denat|denatured alcohol|\bsd alcohol|\bethanol\b|(isopropyl|ethyl) alcohol/,
+    exclude: /\b(cetyl|cetearyl|stearyl|behenyl|lanolin)\b/,
+  },
+  {
+    id: 'retinoids',
+    label: 'Retinoids',
+    names: ['retinol', 'retinoid', 'retinoids', 'vitamin a'],
+    // Bakuchiol is sold as the retinol alternative for people who can't use retinol
+    match: /\bretin(ol|al|oid|yl)|tretinoin|adapalene|\bvitamin a\b/,
+  },
+  {
+    id: 'vitamin-c',
+    label: 'Vitamin C',
+    names: ['vitamin c', 'ascorbic acid'],
+    match: /ascorb|\bvitamin c\b/,
+  },
+  {
+    id: 'lanolin',
+    label: 'Lanolin',
+    names: ['lanolin', 'wool', 'wool wax'],
+    match: /lanolin|wool wax|adeps lanae/,
+  },
+  {
+    id: 'formaldehyde',
+    label: 'Formaldehyde releasers',
+    names: ['formaldehyde'],
+    match: /formaldehyde|dmdm hydantoin|(imidazolidinyl|diazolidinyl) urea|quaternium-15|bronopol/,
+  },
+  {
+    id: 'silicones',
+    label: 'Silicones',
+    names: ['silicone', 'silicones'],
+    match: /silicone|\w*(methicone|methiconol|siloxane)\b/,
+  },
+  {
+    id: 'nuts',
+    label: 'Tree nuts',
+    names: ['nut', 'nuts', 'tree nut', 'tree nuts', 'nut oils'],
+    match: /almond|prunus amygdalus|\bshea\b|butyrospermum|argan|macadamia|walnut|juglans|hazelnut|corylus|cashew|pecan|pistachio|brazil nut|kukui/,
+  },
+  {
+    id: 'soy',
+    label: 'Soy',
+    names: ['soy', 'soya', 'soybean'],
+    match: /\bsoy|glycine soja|\bsoja\b/,
+  },
+];
+
+const GROUP_BY_NAME = new Map<string, AllergenGroup>();
+for (const group of ALLERGEN_GROUPS) {
+  for (const name of group.names) GROUP_BY_NAME.set(name, group);
+}
+
+/**
+ * Lower-case, accent-free, strength-free form of an ingredient or allergy:
+ * "Glycolic Acid 5%" → "glycolic acid", "Crème d'Amande" → "creme d'amande".
+ */
+export function normalizeIngredient(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\d+(\.\d+)?\s*%/g, '')
+    .replace(/[_/]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Every name an ingredient is known by: its normalized label, any parenthetical
+ * alternate ("Aqua (Water)"), and their INCI/common-name aliases.
+ */
+export function ingredientNames(name: string): string[] {
+  const base = normalizeIngredient(name);
+  const parts = [base.replace(/\s*\(.*?\)\s*/g, ' ').trim(), ...[...base.matchAll(/\(([^)]+)\)/g)].map((m) => m[1].trim())];
+  const names = new Set<string>();
+  for (const part of parts.filter(Boolean)) {
+    names.add(part);
+    for (const alias of ALIAS_INDEX.get(part) ?? []) names.add(alias);
+  }
+  return [...names];
+}
+
+/** The allergen family a customer's wording refers to, if it names one. */
+export function allergenGroupFor(allergy: string): AllergenGroup | undefined {
+  return GROUP_BY_NAME.get(normalizeIngredient(allergy));
+}
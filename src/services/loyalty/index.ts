@@ -0,0 +1,13 @@
+export {
+  POINTS_PER_DOLLAR,
+  MIN_POINTS_REDEMPTION,
+  POINTS_REDEMPTION_STEP,
+  rewardCredit,
+  redemptionForReward,
+  redemptionForPoints,
+  maxRedeemablePoints,
+  validateRedemption,
+  bestRedemption,
+  describeRedemption,
+} from './redemption';
+export type { LoyaltyRedemption } from './redemption';
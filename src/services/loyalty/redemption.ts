@@ -0,0 +1,83 @@
+import type { LoyaltyData } from '@/types/customer';
+
+/** Points needed for $1 of credit when converting points directly. */
+export const POINTS_PER_DOLLAR = 100;
+/** Smallest direct conversion we allow, and the step size above it. */
+export const MIN_POINTS_REDEMPTION = 500;
+export const POINTS_REDEMPTION_STEP = 100;
+
+/** A loyalty redemption attached to an order, expressed as a dollar credit. */
+export type LoyaltyRedemption =
+  | { kind: 'reward'; rewardName: string; points: number; credit: number }
+  | { kind: 'points'; points: number; credit: number };
+
+/** Dollar value of a catalog reward, read from its name (e.g. "$10 off next purchase"). */
+export function rewardCredit(rewardName: string): number | null {
+  const match = rewardName.match(/\$\s?(\d+(?:\.\d{1,2})?)/);
+  return match ? Number(match[1]) : null;
+}
+
+export function redemptionForReward(reward: LoyaltyData['rewardsAvailable'][number]): LoyaltyRedemption | null {
+  const credit = rewardCredit(reward.name);
+  if (credit === null) return null;
+  return { kind: 'reward', rewardName: reward.name, points: reward.pointsCost, credit };
+}
+
+export function redemptionForPoints(points: number): LoyaltyRedemption {
+  return { kind: 'points', points, credit: points / POINTS_PER_DOLLAR };
+}
+
+/** Largest direct conversion the balance allows, rounded down to the step size. */
+export function maxRedeemablePoints(balance: number): number {
+  const points = Math.floor(balance / POINTS_REDEMPTION_STEP) * POINTS_REDEMPTION_STEP;
+  return points >= MIN_POINTS_REDEMPTION ? points : 0;
+}
+
+/**
+ * Check a redemption against the member's balance and the order it would apply to.
+ * Returns a customer-facing reason when it can't be used, or null when it can.
+ */
+export function validateRedemption(
+  loyalty: LoyaltyData | null | undefined,
+  redemption: LoyaltyRedemption,
+  orderValue: number,
+): string | null {
+  if (!loyalty) return 'Join our loyalty program to redeem points.';
+  if (redemption.points > loyalty.pointsBalance) {
+    return `That needs ${redemption.points.toLocaleString()} points — you have ${loyalty.pointsBalance.toLocaleString()}.`;
+  }
+  if (redemption.kind === 'reward') {
+    const offered = loyalty.rewardsAvailable.some((r) => r.name === redemption.rewardName && r.pointsCost === redemption.points);
+    if (!offered) return `${redemption.rewardName} isn't available on your account.`;
+  } else {
+    if (redemption.points < MIN_POINTS_REDEMPTION) {
+      return `Redeem at least ${MIN_POINTS_REDEMPTION.toLocaleString()} points at a time.`;
+    }
+    if (redemption.points % POINTS_REDEMPTION_STEP !== 0) {
+      return `Redeem points in steps of ${POINTS_REDEMPTION_STEP}.`;
+    }
+  }
+  if (redemption.credit > orderValue) {
+    return `This order is $${orderValue.toFixed(2)} — pick a smaller credit.`;
+  }
+  return null;
+}
+
+/** Best single option to suggest to a member: the most valuable affordable reward, else a points conversion. */
+export function bestRedemption(loyalty: LoyaltyData | null | undefined): LoyaltyRedemption | null {
+  if (!loyalty) return null;
+  const rewards = loyalty.rewardsAvailable
+    .filter((r) => r.pointsCost <= loyalty.pointsBalance)
+    .map(redemptionForReward)
+    .filter((r): r is LoyaltyRedemption => r !== null)
+    .sort((a, b) => b.credit - a.credit);
+  if (rewards.length) return rewards[0];
+  const points = maxRedeemablePoints(loyalty.pointsBalance);
+  return points ? redemptionForPoints(points) : null;
+}
+
+export function describeRedemption(redemption: LoyaltyRedemption): string {
+  return redemption.kind === 'reward'
+    ? `${redemption.rewardName} (${redemption.points.toLocaleString()} pts)`
+    : `${redemption.points.toLocaleString()} pts → $${redemption.credit.toFixed(2)} credit`;
+}
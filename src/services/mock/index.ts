@@ -0,0 +1,6 @@
+export { RulesAgentBackend, compileRulePack, TEMPLATE_VARIABLES } from './rulesEngine';
+export { RULE_PACKS, DEFAULT_RULE_PACKS } from './rules';
+export { generateWelcomeResponse, getEnrichmentProbe } from './welcome';
+export { generateMockResponse, setMockCustomerContext, getMockAgentSnapshot, restoreMockAgentSnapshot } from './mockAgent';
+export type { RulesAgentOptions, RulesAgentState } from './rulesEngine';
+export type { MockRule, RuleOutcome, RuleCondition, ProductSelector, RulePack, RuleHandlerName } from './types';
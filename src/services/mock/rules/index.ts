@@ -0,0 +1,16 @@
+import type { RulePack } from '../types';
+
+// Every JSON file in this folder is a rule pack, registered under its `name`.
+const modules = import.meta.glob<RulePack>('./*.json', { eager: true, import: 'default' });
+
+export const RULE_PACKS: Record<string, RulePack> = Object.fromEntries(
+  Object.values(modules).map((pack) => [pack.name, pack]),
+);
+
+const packsFromEnv = ((import.meta.env.VITE_MOCK_RULE_PACKS as string | undefined) || '')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+/** Packs the local agent uses unless a ConversationProvider asks for others. Override with VITE_MOCK_RULE_PACKS. */
+export const DEFAULT_RULE_PACKS: string[] = packsFromEnv.length ? packsFromEnv : ['skin-concierge', 'beaute'];
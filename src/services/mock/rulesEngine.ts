@@ -0,0 +1,343 @@
+import type { AgentResponse, UIAction, UIDirective, UIDirectivePayload } from '@/types/agent';
+import type { CustomerSessionContext } from '@/types/customer';
+import type { Product } from '@/types/product';
+import type { AgentBackend, AgentBackendSnapshot } from '@/services/agent/types';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { clock, random } from '@/services/replay/runtime';
+import { generateWelcomeResponse, getEnrichmentProbe } from './welcome';
+import { DEFAULT_RULE_PACKS, RULE_PACKS } from './rules';
+import type { MockRule, ProductSelector, RuleCondition, RuleHandlerName, RuleOutcome, RulePack } from './types';
+
+interface ConversationState {
+  lastShownProductIds: string[];
+  currentProductId: string | null;
+  hasGreeted: boolean;
+}
+
+/** What RulesAgentBackend keeps between turns — the `state` of its session snapshot. */
+export interface RulesAgentState {
+  conversation: ConversationState;
+  customerCtx: CustomerSessionContext | null;
+}
+
+export interface RulesAgentOptions {
+  /** Rule packs, or names of packs in src/services/mock/rules, checked in order. */
+  packs?: (string | RulePack)[];
+  /** Simulated think time before each reply, in ms. Defaults to 800–1200. */
+  latencyMs?: { min: number; max: number };
+  /** Defaults to the replay runtime's RNG, which is seeded in demo record/replay mode. */
+  random?: () => number;
+}
+
+interface CompiledRule {
+  rule: MockRule;
+  keywords: string[];
+  patterns: RegExp[];
+  extract: RegExp | null;
+}
+
+interface CompiledPack {
+  pack: RulePack;
+  rules: CompiledRule[];
+}
+
+interface TemplateScope {
+  match?: string;
+  customer: CustomerSessionContext | null;
+  products: Product[];
+}
+
+/** Values a rule's templates can reference as `{{name}}` or `{{name|filter}}`. */
+export const TEMPLATE_VARIABLES: Record<string, (scope: TemplateScope) => string | undefined> = {
+  'match': (s) => s.match,
+  'customer.name': (s) => s.customer?.name,
+  'loyalty.points': (s) => s.customer?.loyaltyPoints?.toLocaleString(),
+  'product.name': (s) => s.products[0]?.name,
+  'product.ingredients': (s) => s.products[0]?.attributes.ingredients?.join(', '),
+  'products.names': (s) => s.products.map((p) => p.name).join(' and ') || undefined,
+};
+
+const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+  upper: (v) => v.toUpperCase(),
+  lower: (v) => v.toLowerCase(),
+};
+
+const DEFAULT_FALLBACK: RuleOutcome = {
+  reply: "I'd be happy to help! What are you looking for today?",
+  suggestedActions: [],
+  confidence: 0.8,
+};
+
+/** Render `{{…}}` placeholders, or return null if any of them has no value. */
+function renderTemplate(template: string, scope: TemplateScope): string | null {
+  let missing = false;
+  const text = template.replace(/\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g, (_, name: string, filter?: string) => {
+    const value = TEMPLATE_VARIABLES[name]?.(scope);
+    if (!value) {
+      missing = true;
+      return '';
+    }
+    return filter && TEMPLATE_FILTERS[filter] ? TEMPLATE_FILTERS[filter](value) : value;
+  });
+  return missing ? null : text;
+}
+
+/** Render every string inside a payload literal. */
+function renderValue(value: unknown, scope: TemplateScope): unknown {
+  if (typeof value === 'string') return renderTemplate(value, scope);
+  if (Array.isArray(value)) {
+    const items = value.map((v) => renderValue(v, scope));
+    return items.includes(null) ? null : items;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([k, v]) => [k, renderValue(v, scope)] as const);
+    return entries.some(([, v]) => v === null) ? null : Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/** Payload fields an action takes from the rule's product selection. */
+function productPayload(action: UIAction, products: Product[]): Partial<UIDirectivePayload> {
+  switch (action) {
+    case 'SHOW_PRODUCT':
+    case 'SHOW_PRODUCTS':
+    case 'COMPARE_PRODUCTS':
+      return { products };
+    case 'ADD_TO_CART':
+      return { cartItems: products.map((p) => ({ productId: p.id, quantity: 1 })) };
+    case 'REMOVE_FROM_CART':
+      return { cartItems: products.map((p) => ({ productId: p.id })) };
+    case 'PROPOSE_SUBSCRIPTION':
+      return products.length ? { subscriptionOffer: { productId: products[0].id } } : {};
+    default:
+      return {};
+  }
+}
+
+function compilePattern(source: string, where: string): RegExp | null {
+  try {
+    return new RegExp(source, 'i');
+  } catch (err) {
+    console.warn(`[rules] ${where}: invalid pattern ${JSON.stringify(source)} — ignored`, err);
+    return null;
+  }
+}
+
+/** Validate a pack and precompile its patterns. Malformed rules are logged and skipped, not fatal. */
+export function compileRulePack(pack: RulePack): CompiledPack {
+  const rules: CompiledRule[] = [];
+  for (const rule of pack.rules || []) {
+    const where = `${pack.name}/${rule.id || '(no id)'}`;
+    if (!rule.id || typeof rule.reply !== 'string') {
+      console.warn(`[rules] ${where}: every rule needs an id and a reply — skipped`);
+      continue;
+    }
+    const keywords = (rule.keywords || []).map((k) => k.toLowerCase()).filter(Boolean);
+    const patterns = (rule.patterns || [])
+      .map((p) => compilePattern(p, where))
+      .filter((p): p is RegExp => p !== null);
+    if (!keywords.length && !patterns.length) {
+      console.warn(`[rules] ${where}: no keywords or patterns, so it can never match — skipped`);
+      continue;
+    }
+    rules.push({ rule, keywords, patterns, extract: rule.extract ? compilePattern(rule.extract, where) : null });
+  }
+  return { pack, rules };
+}
+
+function resolvePacks(packs: (string | RulePack)[]): CompiledPack[] {
+  return packs.flatMap((entry) => {
+    const pack = typeof entry === 'string' ? RULE_PACKS[entry] : entry;
+    if (!pack) {
+      console.warn(`[rules] Unknown rule pack "${entry}" — available: ${Object.keys(RULE_PACKS).join(', ')}`);
+      return [];
+    }
+    return [compileRulePack(pack)];
+  });
+}
+
+const freshConversation = (): ConversationState => ({
+  lastShownProductIds: [],
+  currentProductId: null,
+  hasGreeted: false,
+});
+
+/**
+ * Local stand-in for the Agentforce agent, driven by declarative rule packs.
+ * Each instance keeps its own conversation, so several ConversationProviders
+ * can run side by side.
+ */
+export class RulesAgentBackend implements AgentBackend {
+  readonly remote = false;
+  private packs: CompiledPack[];
+  private catalog: Product[];
+  private latency: { min: number; max: number };
+  private random: () => number;
+  private sessionId: string | null = null;
+  private sequenceId = 0;
+  private customerCtx: CustomerSessionContext | null = null;
+  private state: ConversationState = freshConversation();
+  private readonly handlers: Record<RuleHandlerName, () => AgentResponse | null> = {
+    welcome: () => this._welcome(),
+  };
+
+  constructor(options: RulesAgentOptions = {}) {
+    this.packs = resolvePacks(options.packs ?? DEFAULT_RULE_PACKS);
+    this.catalog = [...MOCK_PRODUCTS, ...this.packs.flatMap(({ pack }) => pack.products || [])];
+    this.latency = options.latencyMs ?? { min: 800, max: 1200 };
+    this.random = options.random ?? random;
+  }
+
+  async initSession(customerContext?: CustomerSessionContext): Promise<string> {
+    this.customerCtx = customerContext ?? null;
+    this.state = freshConversation();
+    this.sequenceId = 0;
+    this.sessionId = `rules-${crypto.randomUUID()}`;
+    return this.sessionId;
+  }
+
+  async sendMessage(message: string, _agentContext?: string): Promise<AgentResponse> {
+    const { min, max } = this.latency;
+    if (max > 0) await clock.sleep(min + this.random() * (max - min));
+    return this.respond(message);
+  }
+
+  /** Replies arrive whole, so there is nothing to stream — directives come back with the response. */
+  async sendMessageStreaming(
+    message: string,
+    _onChunk: (text: string) => void,
+    _onDirective?: (directive: UIDirective) => void,
+    agentContext?: string,
+  ): Promise<AgentResponse> {
+    return this.sendMessage(message, agentContext);
+  }
+
+  async endSession(): Promise<void> {
+    this.sessionId = null;
+  }
+
+  getSessionSnapshot(): AgentBackendSnapshot {
+    const state: RulesAgentState = {
+      conversation: { ...this.state, lastShownProductIds: [...this.state.lastShownProductIds] },
+      customerCtx: this.customerCtx,
+    };
+    return { sessionId: this.sessionId, sequenceId: this.sequenceId, state };
+  }
+
+  restoreSnapshot(snapshot: AgentBackendSnapshot): void {
+    const state = snapshot.state as RulesAgentState | undefined;
+    this.sessionId = snapshot.sessionId;
+    this.sequenceId = snapshot.sequenceId;
+    this.state = { ...freshConversation(), ...state?.conversation };
+    this.customerCtx = state?.customerCtx ?? null;
+  }
+
+  /** Answer one customer message, without the simulated latency. */
+  respond(message: string): AgentResponse {
+    this.sequenceId++;
+
+    // Welcome trigger sent by ConversationContext when a persona's session starts
+    if (message.startsWith('[WELCOME]')) {
+      const welcome = this._welcome();
+      if (welcome) return this._finish(welcome);
+    }
+
+    const lower = message.toLowerCase();
+    for (const { pack, rules } of this.packs) {
+      for (const { rule, keywords, patterns, extract } of rules) {
+        if (!keywords.some((k) => lower.includes(k)) && !patterns.some((p) => p.test(message))) continue;
+        const match = extract ? message.match(extract)?.[1] : undefined;
+        const result = (rule.handler && this.handlers[rule.handler]?.()) || this._resolve(rule, match);
+        // A rule with nothing to say (no products, no otherwise) lets later rules try
+        if (!result) continue;
+        return this._finish(pack.enrichmentProbes ? this._withProbe(result) : result);
+      }
+    }
+
+    const fallback = [...this.packs].reverse().find(({ pack }) => pack.fallback)?.pack.fallback ?? DEFAULT_FALLBACK;
+    return this._finish(this._resolve(fallback) ?? this._resolve(DEFAULT_FALLBACK)!);
+  }
+
+  private _welcome(): AgentResponse | null {
+    if (this.state.hasGreeted) return null;
+    this.state.hasGreeted = true;
+    return generateWelcomeResponse(this.customerCtx);
+  }
+
+  private _meets(condition: RuleCondition): boolean {
+    const ctx = this.customerCtx;
+    if (condition.minLoyaltyPoints !== undefined && (ctx?.loyaltyPoints ?? 0) < condition.minLoyaltyPoints) return false;
+    if (condition.identityTier && !condition.identityTier.includes(ctx?.identityTier ?? 'anonymous')) return false;
+    return true;
+  }
+
+  private _select(selector: ProductSelector): Product[] {
+    const byId = (ids: string[]) => ids
+      .map((id) => this.catalog.find((p) => p.id === id))
+      .filter((p): p is Product => !!p);
+    let products: Product[];
+    if ('ids' in selector) {
+      products = byId(selector.ids);
+    } else if ('category' in selector) {
+      products = this.catalog.filter((p) => p.category === selector.category);
+    } else if ('attribute' in selector) {
+      products = this.catalog.filter((p) => !!(p.attributes as Record<string, unknown>)[selector.attribute]);
+    } else if (selector.from === 'current') {
+      products = byId(this.state.currentProductId ? [this.state.currentProductId] : []);
+    } else if (selector.from === 'shown') {
+      products = byId(this.state.lastShownProductIds);
+    } else if (selector.from === 'focus') {
+      products = byId(this.state.currentProductId ? [this.state.currentProductId] : this.state.lastShownProductIds);
+    } else {
+      products = byId([...new Set(this.customerCtx?.recentPurchases || [])]);
+    }
+    return selector.limit ? products.slice(0, selector.limit) : products;
+  }
+
+  /** Turn an outcome into a response, falling through to `otherwise` when it can't be satisfied. */
+  private _resolve(outcome: RuleOutcome, match?: string): Partial<AgentResponse> | null {
+    const fallThrough = () => (outcome.otherwise ? this._resolve(outcome.otherwise, match) : null);
+    if (outcome.when && !this._meets(outcome.when)) return fallThrough();
+
+    const products = outcome.products ? this._select(outcome.products) : [];
+    if (outcome.products && !products.length) return fallThrough();
+
+    const scope: TemplateScope = { match, customer: this.customerCtx, products };
+    const message = renderTemplate(outcome.reply, scope);
+    const suggestedActions = renderValue(outcome.suggestedActions ?? [], scope) as string[] | null;
+    const payload = renderValue(outcome.payload ?? {}, scope) as UIDirectivePayload | null;
+    if (message === null || suggestedActions === null || payload === null) return fallThrough();
+
+    if (outcome.action === 'SHOW_PRODUCT') this.state.currentProductId = products[0].id;
+    if (outcome.action === 'SHOW_PRODUCTS') this.state.lastShownProductIds = products.map((p) => p.id);
+
+    return {
+      message,
+      uiDirective: outcome.action
+        ? { action: outcome.action, payload: { ...payload, ...productPayload(outcome.action, products) } }
+        : undefined,
+      suggestedActions,
+      confidence: outcome.confidence,
+    };
+  }
+
+  /** Occasionally slip in an enrichment probe as the last suggested action. */
+  private _withProbe(result: Partial<AgentResponse>): Partial<AgentResponse> {
+    const actions = [...(result.suggestedActions || [])];
+    const probe = getEnrichmentProbe(this.customerCtx, this.random);
+    if (probe && actions.length >= 2 && this.random() < 0.4) {
+      actions[actions.length - 1] = probe;
+    }
+    return { ...result, suggestedActions: actions };
+  }
+
+  private _finish(result: Partial<AgentResponse>): AgentResponse {
+    return {
+      sessionId: this.sessionId || 'mock-session',
+      message: result.message || '',
+      uiDirective: result.uiDirective,
+      suggestedActions: result.suggestedActions || [],
+      confidence: result.confidence || 0.95,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import type { Product } from '@/types/product';
+import type { UIAction } from '@/types/agent';
+
+/**
+ * Rule packs are plain JSON (see src/services/mock/rules/README.md) so a demo
+ * for a new brand is a new file, not a code change. These types describe that
+ * JSON; the engine validates it at load time rather than trusting it.
+ */
+
+/** Which products a rule shows or acts on. */
+export type ProductSelector =
+  | { ids: string[]; limit?: number }
+  | { category: string; limit?: number }
+  /** Products whose attribute is truthy, e.g. `isTravel`. */
+  | { attribute: string; limit?: number }
+  /**
+   * Conversation state rather than the catalog:
+   * - `current`: the single product last shown
+   * - `focus`: the current product, else the last list shown
+   * - `shown`: the last list shown, even if a single product was shown since
+   * - `recentPurchases`: the customer's recent orders
+   */
+  | { from: 'current' | 'focus' | 'shown' | 'recentPurchases'; limit?: number };
+
+export interface RuleCondition {
+  minLoyaltyPoints?: number;
+  identityTier?: string[];
+}
+
+/**
+ * What the agent says and does. Strings in `reply`, `payload` and
+ * `suggestedActions` are templates — see TEMPLATE_VARIABLES in rulesEngine.ts.
+ * If `when` fails, `products` selects nothing, or a template references a value
+ * that isn't there, `otherwise` is used instead.
+ */
+export interface RuleOutcome {
+  when?: RuleCondition;
+  reply: string;
+  action?: UIAction;
+  products?: ProductSelector;
+  /**
+   * Literal payload fields (e.g. `sceneContext`). Selected products are added
+   * as `products` for SHOW_PRODUCT(S) and as `cartItems` for cart actions.
+   */
+  payload?: Record<string, unknown>;
+  suggestedActions?: string[];
+  confidence?: number;
+  otherwise?: RuleOutcome;
+}
+
+/** Behaviour too rich to express as data, referenced from a rule by name. */
+export type RuleHandlerName = 'welcome';
+
+export interface MockRule extends RuleOutcome {
+  id: string;
+  /** The rule fires when the message contains any of these (case-insensitive). */
+  keywords?: string[];
+  /** Regular expression sources, case-insensitive, for what keywords can't express. */
+  patterns?: string[];
+  /** Regular expression whose first group becomes `{{match}}`. */
+  extract?: string;
+  /** Tried first; the rule's own outcome is used when the handler has nothing to say. */
+  handler?: RuleHandlerName;
+}
+
+export interface RulePack {
+  name: string;
+  description?: string;
+  /** Occasionally swap the last suggested action for a profile-enrichment question. */
+  enrichmentProbes?: boolean;
+  /** Products this pack can show in addition to the built-in catalog. */
+  products?: Product[];
+  rules: MockRule[];
+  /** Reply when no rule in any active pack matches. The last pack with one wins. */
+  fallback?: RuleOutcome;
+}
@@ -0,0 +1,283 @@
+import type { AgentResponse, UIAction } from '@/types/agent';
+import type { CustomerSessionContext } from '@/types/customer';
+
+// ─── Subtle enrichment probes ────────────────────────────────────
+// Maps missing profile fields to conversationally natural follow-up prompts.
+// The agent slips one of these into suggested actions to capture profile data.
+const ENRICHMENT_PROBES: Record<string, string[]> = {
+  'Birthday': ['Any special occasions coming up?'],
+  'Anniversary': ['Shopping for someone special?', 'Any celebrations on the horizon?'],
+  'Morning routine': ['How much time do you usually have in the morning?'],
+  'Exercise': ['Do you work out regularly? It can affect your skin!'],
+  'Work environment': ['Do you work indoors or outdoors? Helps me pick the right SPF.'],
+  'Beauty priority': ['What matters most to you in skincare?'],
+  'Price sensitivity': ['Do you have a budget in mind?'],
+};
+
+/** Pick a subtle enrichment probe based on missing fields, or null if none relevant. */
+export function getEnrichmentProbe(customerCtx: CustomerSessionContext | null, random: () => number = Math.random): string | null {
+  const missing = customerCtx?.missingProfileFields;
+  if (!missing?.length) return null;
+  // Pick a random missing field that has probes
+  const candidates = missing.filter((f) => ENRICHMENT_PROBES[f]);
+  if (!candidates.length) return null;
+  const field = candidates[Math.floor(random() * candidates.length)];
+  const probes = ENRICHMENT_PROBES[field];
+  return probes[Math.floor(random() * probes.length)];
+}
+
+// ─── Personalized welcome responses ───────────────────────────────
+
+/** The persona-aware greeting for a session's first turn, or null when there's no customer context. */
+export function generateWelcomeResponse(customerCtx: CustomerSessionContext | null): AgentResponse | null {
+  if (!customerCtx) return null;
+
+  const tier = customerCtx.identityTier;
+
+  if (tier === 'known') {
+    // Check for meaningful events and context from the richer data
+    const hasTripEvent = customerCtx.meaningfulEvents?.some((e) => e.includes('Mumbai') || e.includes('trip'));
+    const hasAnniversary = customerCtx.meaningfulEvents?.some((e) => e.toLowerCase().includes('anniversary'));
+    const hasBrowseFragrance = customerCtx.browseInterests?.some((b) => b.includes('fragrance'));
+    const hasBrowseSerum = customerCtx.browseInterests?.some((b) => b.includes('serum'));
+    const loyaltyInfo = customerCtx.loyaltyTier
+      ? `${customerCtx.loyaltyTier} member${customerCtx.loyaltyPoints ? ` with ${customerCtx.loyaltyPoints.toLocaleString()} points` : ''}`
+      : null;
+    const isNotLoyalty = !customerCtx.loyaltyTier;
+
+    // Sarah-like: known + trip + loyalty
+    if (hasTripEvent && loyaltyInfo) {
+      return {
+        sessionId: 'mock-session',
+        message: `Welcome back, ${customerCtx.name}! How was the trip? Let me know if you need to restock anything.`,
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: `Welcome back, ${customerCtx.name}!`,
+            welcomeSubtext: `How was the trip? Let me help you restock.`,
+            sceneContext: {
+              setting: 'lifestyle',
+              mood: 'warm-travel-return',
+              generateBackground: true,
+              backgroundPrompt: 'Warm golden hour luxury lifestyle setting, welcoming atmosphere, soft ambient light, travel memories, elegant beauty space',
+            },
+          },
+        },
+        suggestedActions: ['Restock my travel essentials', "What's new since I've been away?", 'Show me evening skincare'],
+        confidence: 0.98,
+      };
+    }
+
+    // James-like: known + anniversary + browsing fragrances + no loyalty
+    if (hasAnniversary && hasBrowseFragrance) {
+      return {
+        sessionId: 'mock-session',
+        message: `Welcome back, ${customerCtx.name}! Shopping for something special? I can help you find the perfect pick.`,
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: `Welcome back, ${customerCtx.name}!`,
+            welcomeSubtext: `Shopping for something special? I can help.`,
+            sceneContext: {
+              setting: 'bedroom',
+              mood: 'elegant-gifting',
+              generateBackground: true,
+              backgroundPrompt: 'Elegant intimate bedroom setting, soft evening light, luxury fragrance display atmosphere, romantic gift-giving mood',
+            },
+          },
+        },
+        suggestedActions: ['Show me fragrances', 'Help me find a gift', isNotLoyalty ? 'Tell me about loyalty' : 'Restock my cleanser'],
+        confidence: 0.96,
+      };
+    }
+
+    // Maya-like: known + platinum + had a return + makeup focus
+    const hasReturnEvent = customerCtx.meaningfulEvents?.some((e) => e.toLowerCase().includes('return'));
+    const hasBrowseMakeup = customerCtx.browseInterests?.some((b) => /foundation|blush|makeup|lipstick|mascara/.test(b));
+    if (hasReturnEvent && loyaltyInfo) {
+      return {
+        sessionId: 'mock-session',
+        message: `Welcome back, ${customerCtx.name}! I have some alternatives that might be a better fit. Want to take a look?`,
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: `Welcome back, ${customerCtx.name}!`,
+            welcomeSubtext: `I found some alternatives that might be a better fit.`,
+            sceneContext: {
+              setting: 'vanity',
+              mood: 'elegant-makeup',
+              generateBackground: true,
+              backgroundPrompt: 'Luxurious makeup vanity setting, soft glamorous lighting, high-end beauty atmosphere, warm and inviting',
+            },
+          },
+        },
+        suggestedActions: ['Show me lighter serums', 'Restock my makeup', 'What\'s new?'],
+        confidence: 0.97,
+      };
+    }
+
+    // Marcus-like: known + beginner + no loyalty + recent first order
+    const isBeginnerEvent = customerCtx.meaningfulEvents?.some((e) => e.toLowerCase().includes('beginner'));
+    if (isBeginnerEvent && isNotLoyalty) {
+      return {
+        sessionId: 'mock-session',
+        message: `Hey ${customerCtx.name}! Ready to add the next step to your routine?`,
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: `Hey ${customerCtx.name}!`,
+            welcomeSubtext: `Ready for the next step in your routine?`,
+            sceneContext: {
+              setting: 'bathroom',
+              mood: 'fresh-start',
+              generateBackground: true,
+              backgroundPrompt: 'Clean modern bathroom setting, bright natural light, minimalist beauty space, fresh and inviting',
+            },
+          },
+        },
+        suggestedActions: ['What should I add next?', 'Show me moisturizers', 'Build me a simple routine'],
+        confidence: 0.96,
+      };
+    }
+
+    // Generic known with browse context
+    if (hasBrowseSerum || hasBrowseFragrance || hasBrowseMakeup) {
+      const browseContext = hasBrowseFragrance ? 'fragrances' : hasBrowseMakeup ? 'makeup' : 'serums';
+      const setting = hasBrowseFragrance ? 'bedroom' : hasBrowseMakeup ? 'vanity' : 'lifestyle';
+      return {
+        sessionId: 'mock-session',
+        message: `Welcome back, ${customerCtx.name}! Shall I pick up where you left off with ${browseContext}?`,
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: `Welcome back, ${customerCtx.name}!`,
+            welcomeSubtext: `Pick up where you left off?`,
+            sceneContext: {
+              setting,
+              mood: 'personalized-return',
+              generateBackground: true,
+              backgroundPrompt: hasBrowseFragrance
+                ? 'Elegant intimate bedroom setting, soft evening light, luxury fragrance display atmosphere'
+                : hasBrowseMakeup
+                  ? 'Luxurious makeup vanity setting, soft glamorous lighting, high-end beauty atmosphere'
+                  : 'Sophisticated lifestyle beauty setting, warm natural light, luxury skincare atmosphere',
+            },
+          },
+        },
+        suggestedActions: [
+          browseContext === 'fragrances' ? 'Show me fragrances' : browseContext === 'makeup' ? 'Show me makeup' : 'Show me serums',
+          'Recommend something new',
+          'Restock my favorites',
+        ],
+        confidence: 0.96,
+      };
+    }
+
+    // Known customer, generic welcome
+    const loyaltySubtext = loyaltyInfo
+      ? `Great to see you — what can I help you find today?`
+      : "What can I help you find today?";
+    return {
+      sessionId: 'mock-session',
+      message: `Welcome back, ${customerCtx.name}! What can I help you find today?`,
+      uiDirective: {
+        action: 'WELCOME_SCENE' as UIAction,
+        payload: {
+          welcomeMessage: `Welcome back, ${customerCtx.name}!`,
+          welcomeSubtext: loyaltySubtext,
+          sceneContext: {
+            setting: 'lifestyle',
+            mood: 'personalized-welcome',
+            generateBackground: true,
+            backgroundPrompt: 'Elegant luxury beauty lifestyle setting, warm welcoming atmosphere, soft golden light',
+          },
+        },
+      },
+      suggestedActions: ['Show me what\'s new', 'Restock my favorites', 'Build me a routine'],
+      confidence: 0.95,
+    };
+  }
+
+  if (tier === 'appended') {
+    // Appended tier: Merkury resolved identity and appended demographic/interest data,
+    // but this person never gave us their info directly. We must NOT:
+    //   - Greet by name (they didn't tell us their name)
+    //   - Reference specific interests directly ("I see you like wellness")
+    //   - Reveal we know anything about them
+    // We CAN subtly use appended signals to:
+    //   - Curate which products we lead with
+    //   - Choose an appropriate scene/mood
+    //   - Tailor suggested actions toward likely interests
+    const interests = customerCtx.appendedInterests || [];
+    const isWellness = interests.some((i) => i.includes('wellness') || i.includes('yoga'));
+    const isClean = interests.some((i) => i.includes('clean'));
+    const isAntiAging = interests.some((i) => i.includes('anti-aging') || i.includes('spa'));
+    const isLuxury = interests.some((i) => i.includes('luxury'));
+
+    // Priya-like: anti-aging + luxury + spa — lead with premium, don't say why
+    if (isAntiAging && isLuxury) {
+      return {
+        sessionId: 'mock-session',
+        message: "Welcome! We have some incredible new arrivals this season. I'd love to help you find something perfect.",
+        uiDirective: {
+          action: 'WELCOME_SCENE' as UIAction,
+          payload: {
+            welcomeMessage: 'Welcome!',
+            welcomeSubtext: "Discover our latest collection — from targeted treatments to everyday essentials.",
+            sceneContext: {
+              setting: 'neutral',
+              generateBackground: false,
+            },
+          },
+        },
+        // Subtly surface anti-aging and premium options without saying "we know you want this"
+        suggestedActions: ['Show me your bestsellers', "What's trending in skincare?", 'Help me build a routine'],
+        confidence: 0.9,
+      };
+    }
+
+    // Aisha-like: clean beauty + wellness — set a calming tone, don't reference interests
+    return {
+      sessionId: 'mock-session',
+      message: "Welcome! I'm here to help you discover something you'll love. What are you looking for today?",
+      uiDirective: {
+        action: 'WELCOME_SCENE' as UIAction,
+        payload: {
+          welcomeMessage: 'Welcome!',
+          welcomeSubtext: "Your personal beauty advisor — let's find your perfect match.",
+          sceneContext: {
+            setting: 'neutral',
+            generateBackground: false,
+          },
+        },
+      },
+      // Subtly steer toward likely interests without being explicit
+      suggestedActions: [
+        isClean ? 'Show me clean beauty brands' : 'Show me skincare',
+        isWellness ? 'Help me build a routine' : 'What do you recommend?',
+        'Show me bestsellers',
+      ],
+      confidence: 0.9,
+    };
+  }
+
+  // Anonymous
+  return {
+    sessionId: 'mock-session',
+    message: "Welcome to your personal beauty advisor! What can I help you discover today?",
+    uiDirective: {
+      action: 'WELCOME_SCENE' as UIAction,
+      payload: {
+        welcomeMessage: 'Welcome!',
+        welcomeSubtext: 'Your personal beauty advisor is ready to help you discover something perfect.',
+        sceneContext: {
+          setting: 'neutral',
+          mood: 'elegant-welcome',
+          generateBackground: false,
+        },
+      },
+    },
+    suggestedActions: ['Show me moisturizers', 'I need travel products', 'What do you recommend?'],
+    confidence: 0.85,
+  };
+}
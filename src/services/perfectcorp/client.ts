@@ -14,8 +14,10 @@
  */
 
 import { unzipSync } from 'fflate';
-import type { SkinAnalysisResult, SkinConcernScore } from '@/types/skinanalysis';
-import { getGeminiClient } from '@/services/gemini/client';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import { calibrateSkinReading } from '@/services/skinanalysis/calibration';
+import type { SkinReading } from '@/services/skinanalysis/types';
+import { clock, serviceFetch } from '@/services/replay/runtime';
 
 /** HD dst_actions to request — all HD (cannot mix HD + SD). */
 const HD_ACTIONS = [
@@ -24,24 +26,6 @@ const HD_ACTIONS = [
   'hd_firmness', 'hd_moisture', 'hd_redness', 'hd_skin_type',
 ];
 
-/** Maps Perfect Corp HD action result keys → our internal concern keys + labels.
- *  inverted=true means high ui_score = healthy (so concern = 100 - ui_score). */
-const HD_CONCERN_MAP: Record<string, { key: string; label: string; inverted?: boolean }> = {
-  hd_acne:        { key: 'acne',        label: 'Acne' },
-  hd_wrinkle:     { key: 'wrinkle',     label: 'Wrinkles' },
-  hd_dark_circle: { key: 'dark_circle', label: 'Dark Circles' },
-  hd_eye_bag:     { key: 'eye_bag',     label: 'Eye Bags' },
-  hd_pore:        { key: 'pore',        label: 'Enlarged Pores' },
-  hd_age_spot:    { key: 'spot',        label: 'Dark Spots' },
-  hd_redness:     { key: 'redness',     label: 'Redness' },
-  hd_texture:     { key: 'texture',     label: 'Uneven Texture' },
-  hd_oiliness:    { key: 'oiliness',    label: 'Oiliness' },
-  hd_moisture:    { key: 'hydration',   label: 'Dehydration',      inverted: true },
-  hd_firmness:    { key: 'firmness',    label: 'Loss of Firmness', inverted: true },
-  hd_radiance:    { key: 'radiance',    label: 'Dullness',         inverted: true },
-  hd_skin_type:   { key: 'skin_type',   label: 'Skin Type' },
-};
-
 export interface PerfectCorpConfig {
   apiKey?: string;
   useMock?: boolean;
@@ -51,42 +35,27 @@ export class PerfectCorpClient {
   private useMock: boolean;
 
   constructor(config: PerfectCorpConfig = {}) {
-    // Use mock when no API key is configured or mock is forced
+    // Unavailable when no API key is configured or mock is forced
     this.useMock = config.useMock ?? !config.apiKey;
   }
 
+  /** False when no API key is configured — the skin analysis registry skips to the next provider. */
+  get isConfigured(): boolean {
+    return !this.useMock;
+  }
+
   /**
-   * Analyse a skin photo.
-   * Tier 1: Perfect Corp YouCam API (when VITE_PERFECT_CORP_API_KEY is set)
-   * Tier 2: Gemini 2.0 Flash Vision (when VITE_IMAGEN_API_KEY is set)
-   * Tier 3: Mock data (local dev / no API keys)
+   * Analyse a skin photo with Perfect Corp alone, calibrated onto the shared
+   * scale. Use the skin analysis registry for failover to other providers.
    */
   async analyzeSkin(imageFile: File): Promise<SkinAnalysisResult> {
-    if (!this.useMock) {
-      try {
-        return await this.liveAnalysis(imageFile);
-      } catch (err) {
-        console.warn('[skin-analysis] Perfect Corp failed, trying Gemini fallback:', err);
-      }
-    }
-
-    // Gemini fallback (works when VITE_IMAGEN_API_KEY is set, even without Perfect Corp key)
-    const geminiApiKey = import.meta.env.VITE_IMAGEN_API_KEY as string | undefined;
-    if (geminiApiKey) {
-      try {
-        console.log('[skin-analysis] Using Gemini Vision fallback');
-        return await getGeminiClient().analyzeSkin(imageFile);
-      } catch (err) {
-        console.warn('[skin-analysis] Gemini Vision failed, falling back to mock:', err);
-      }
-    }
-
-    return this.mockAnalysis();
+    return calibrateSkinReading(await this.readSkin(imageFile));
   }
 
-  // ─── Live API flow ────────────────────────────────────────────────────────
+  /** Run the live API flow and return Perfect Corp's native scores. */
+  async readSkin(imageFile: File): Promise<SkinReading> {
+    if (this.useMock) throw new Error('Perfect Corp API key is not configured');
 
-  private async liveAnalysis(imageFile: File): Promise<SkinAnalysisResult> {
     // Step 1: Create file slot → get file_id + pre-signed upload_url
     const { fileId, uploadUrl, uploadHeaders } = await this.createFileSlot(imageFile);
 
@@ -99,11 +68,13 @@ export class PerfectCorpClient {
     // Step 4: Poll until complete
     const raw = await this.pollTask(taskId);
 
-    return this.normalizeResult(raw);
+    return this.toReading(raw);
   }
 
+  // ─── Live API flow ────────────────────────────────────────────────────────
+
   private async createFileSlot(imageFile: File): Promise<{ fileId: string; uploadUrl: string; uploadHeaders: Record<string, string> }> {
-    const res = await fetch('/api/perfectcorp/file', {
+    const res = await serviceFetch('perfectcorp', '/api/perfectcorp/file', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ files: [{ file_name: imageFile.name, content_type: imageFile.type || 'image/jpeg', file_size: imageFile.size }] }),
@@ -127,7 +98,7 @@ export class PerfectCorpClient {
   }
 
   private async uploadToPresignedUrl(imageFile: File, uploadUrl: string, uploadHeaders: Record<string, string>): Promise<void> {
-    const res = await fetch(uploadUrl, {
+    const res = await serviceFetch('perfectcorp', uploadUrl, {
       method: 'PUT',
       headers: { 'Content-Type': imageFile.type || 'image/jpeg', ...uploadHeaders },
       body: imageFile,
@@ -138,7 +109,7 @@ export class PerfectCorpClient {
   private async submitTask(fileId: string): Promise<string> {
     const taskBody = { src_file_id: fileId, dst_actions: HD_ACTIONS };
     console.log('[perfectcorp] submitTask body:', JSON.stringify(taskBody));
-    const res = await fetch('/api/perfectcorp/task', {
+    const res = await serviceFetch('perfectcorp', '/api/perfectcorp/task', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(taskBody),
@@ -156,12 +127,12 @@ export class PerfectCorpClient {
 
   private async pollTask(taskId: string, maxWaitMs = 60_000): Promise<Record<string, unknown>> {
     const interval = 2000;
-    const deadline = Date.now() + maxWaitMs;
+    const deadline = clock.now() + maxWaitMs;
 
-    while (Date.now() < deadline) {
-      await new Promise((r) => setTimeout(r, interval));
+    while (clock.now() < deadline) {
+      await clock.sleep(interval);
 
-      const res = await fetch('/api/perfectcorp/poll', {
+      const res = await serviceFetch('perfectcorp', '/api/perfectcorp/poll', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ task_id: taskId }),
@@ -176,7 +147,7 @@ export class PerfectCorpClient {
         const zipUrl = json?.data?.results?.url ?? json?.results?.url;
         if (zipUrl) {
           console.log('[perfectcorp] fetching results ZIP...');
-          const zipRes = await fetch(zipUrl);
+          const zipRes = await serviceFetch('perfectcorp', zipUrl);
           const zipBuf = new Uint8Array(await zipRes.arrayBuffer());
           const files = unzipSync(zipBuf);
           console.log('[perfectcorp] ZIP entries:', Object.keys(files).join(', '));
@@ -199,42 +170,24 @@ export class PerfectCorpClient {
     throw new Error('Perfect Corp analysis timed out after 60 seconds');
   }
 
-  // ─── Result normalisation ─────────────────────────────────────────────────
+  // ─── Result extraction ────────────────────────────────────────────────────
 
-  private normalizeResult(raw: Record<string, unknown>): SkinAnalysisResult {
+  private toReading(raw: Record<string, unknown>): SkinReading {
     // V2.0 poll response: { status, task_status, results: { url, hd_acne: {score}, ... } }
     // or results may only contain { url } pointing to a JSON file with the actual scores
     console.log('[perfectcorp] raw poll response:', JSON.stringify(raw).substring(0, 800));
     const resultsBlock = (raw.results ?? (raw.data as Record<string, unknown>)?.results ?? {}) as Record<string, unknown>;
     console.log('[perfectcorp] results keys:', Object.keys(resultsBlock).join(', '));
 
-    const concerns: SkinConcernScore[] = HD_ACTIONS.map((action) => {
-      const mapping = HD_CONCERN_MAP[action];
+    // Native ui_scores, un-inverted — calibration knows which HD metrics are "positive"
+    const concerns = HD_ACTIONS.filter((action) => action !== 'hd_skin_type').map((action) => {
       const resultEntry = resultsBlock[action] as Record<string, unknown> | undefined;
-      const uiScore = typeof resultEntry === 'number'
+      const score = typeof resultEntry === 'number'
         ? Math.round(resultEntry * 100)
         : Math.round((resultEntry?.ui_score as number) ?? (resultEntry?.score as number) ?? 0);
-      // Invert "positive" metrics: high radiance/moisture/firmness = low concern
-      const score = mapping?.inverted ? Math.max(0, 100 - uiScore) : uiScore;
-      return {
-        concern: mapping?.key ?? action,
-        label: mapping?.label ?? action,
-        score,
-        severity: scoreToseverity(score),
-      };
+      return { key: action, score };
     });
 
-    const topConcern = concerns
-      .filter((c) => c.severity !== 'none')
-      .sort((a, b) => b.score - a.score)[0];
-
-    // Use Perfect Corp's aggregate score if available, otherwise derive from concerns
-    const pcOverall = (resultsBlock.all as Record<string, unknown>)?.score as number | undefined;
-    const avgConcernScore = concerns.reduce((s, c) => s + c.score, 0) / concerns.length;
-    const overallScore = pcOverall !== undefined
-      ? Math.round(pcOverall)
-      : Math.max(0, Math.round(100 - avgConcernScore));
-
     // hd_skin_type: check for a string field, or fall back from the 'all' summary block
     const skinTypeEntry = resultsBlock.hd_skin_type as Record<string, unknown> | string | undefined;
     const allBlock = resultsBlock.all as Record<string, unknown> | undefined;
@@ -248,56 +201,15 @@ export class PerfectCorpClient {
         ?? 'normal';
 
     return {
+      provider: 'perfectcorp',
       skinType: skinTypeRaw as SkinAnalysisResult['skinType'],
       skinAge: (resultsBlock.skin_age as number) ?? 0,
-      overallScore,
+      overallScore: allBlock?.score as number | undefined,
       concerns,
-      primaryConcern: topConcern?.label ?? 'None detected',
-      analyzedAt: new Date().toISOString(),
+      capturedAt: new Date(clock.now()).toISOString(),
       rawResult: raw,
     };
   }
-
-  // ─── Mock fallback ────────────────────────────────────────────────────────
-
-  private async mockAnalysis(): Promise<SkinAnalysisResult> {
-    // Simulate API latency
-    await new Promise((r) => setTimeout(r, 2200));
-
-    const concerns: SkinConcernScore[] = [
-      { concern: 'hydration',    label: 'Dehydration',       score: 62, severity: 'moderate' },
-      { concern: 'redness',      label: 'Redness',           score: 45, severity: 'mild' },
-      { concern: 'pore',         label: 'Enlarged Pores',    score: 38, severity: 'mild' },
-      { concern: 'texture',      label: 'Uneven Texture',    score: 30, severity: 'mild' },
-      { concern: 'oiliness',     label: 'Oiliness',          score: 25, severity: 'mild' },
-      { concern: 'uv_damage',    label: 'UV Damage',         score: 22, severity: 'mild' },
-      { concern: 'spot',         label: 'Dark Spots',        score: 18, severity: 'none' },
-      { concern: 'wrinkle',      label: 'Wrinkles',          score: 15, severity: 'none' },
-      { concern: 'dark_circle',  label: 'Dark Circles',      score: 35, severity: 'mild' },
-      { concern: 'eye_bag',      label: 'Eye Bags',          score: 20, severity: 'none' },
-      { concern: 'firmness',     label: 'Loss of Firmness',  score: 12, severity: 'none' },
-      { concern: 'radiance',     label: 'Dullness',          score: 40, severity: 'mild' },
-      { concern: 'sensitivity',  label: 'Sensitivity',       score: 55, severity: 'moderate' },
-      { concern: 'acne',         label: 'Acne',              score: 10, severity: 'none' },
-      { concern: 'uneven_tone',  label: 'Uneven Tone',       score: 28, severity: 'mild' },
-    ];
-
-    return {
-      skinType: 'combination',
-      skinAge: 28,
-      overallScore: 71,
-      concerns,
-      primaryConcern: 'Dehydration',
-      analyzedAt: new Date().toISOString(),
-    };
-  }
-}
-
-function scoreToseverity(score: number): SkinConcernScore['severity'] {
-  if (score < 20) return 'none';
-  if (score < 40) return 'mild';
-  if (score < 65) return 'moderate';
-  return 'severe';
 }
 
 // Singleton — re-created if config changes (e.g. on login)
@@ -0,0 +1,264 @@
+import type { PriceAdjustment, PriceBreakdown, PricedLine, PricingInput, PricingModule } from './types';
+import {
+  DEFAULT_TAX_RATE,
+  LINE_DISCOUNT_RULES,
+  LOYALTY_PERKS,
+  REMOTE_STATES,
+  REMOTE_SURCHARGE,
+  SHIPPING_RATES,
+  STATE_TAX_RATES,
+  SUBSCRIBE_AND_SAVE,
+  findPromotion,
+} from './rules';
+
+export const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+function applyLineAdjustment(line: PricedLine, adjustment: PriceAdjustment): void {
+  const amount = roundCents(Math.min(adjustment.amount, line.net));
+  if (amount <= 0) return;
+  line.adjustments.push({ ...adjustment, amount });
+  line.discount = roundCents(line.discount + amount);
+  line.net = roundCents(line.gross - line.discount);
+}
+
+/** Merchandise value after every discount applied so far — the base for shipping thresholds and tax. */
+export function merchandiseTotal(draft: PriceBreakdown): number {
+  const lines = draft.lines.reduce((sum, l) => sum + l.net, 0);
+  const orderLevel = draft.discounts.reduce((sum, d) => sum + d.amount, 0);
+  return roundCents(Math.max(0, lines - orderLevel));
+}
+
+// ─── Modules ──────────────────────────────────────────────────────
+
+/** Subscribed lines come off first, so the subscriber price is what later discounts build on. */
+export const subscriptionModule: PricingModule = {
+  id: 'subscription',
+  apply: (draft, input) => {
+    draft.lines.forEach((line, i) => {
+      const { product, subscription } = input.items[i];
+      if (!subscription || !SUBSCRIBE_AND_SAVE.categories.includes(product.category)) return;
+      applyLineAdjustment(line, {
+        source: 'subscription',
+        id: 'subscribe-and-save',
+        label: `${SUBSCRIBE_AND_SAVE.label} ${SUBSCRIBE_AND_SAVE.percentOff}%`,
+        amount: line.net * (SUBSCRIBE_AND_SAVE.percentOff / 100),
+      });
+    });
+  },
+};
+
+export const lineDiscountModule: PricingModule = {
+  id: 'line-discounts',
+  apply: (draft, input) => {
+    draft.lines.forEach((line, i) => {
+      const { product } = input.items[i];
+      for (const rule of LINE_DISCOUNT_RULES) {
+        if (line.quantity < rule.minQuantity) continue;
+        if (rule.categories && !rule.categories.includes(product.category)) continue;
+        applyLineAdjustment(line, {
+          source: 'line',
+          id: rule.id,
+          label: rule.label,
+          amount: line.net * (rule.percentOff / 100),
+        });
+      }
+    });
+  },
+};
+
+export const promoModule: PricingModule = {
+  id: 'promo',
+  apply: (draft, input) => {
+    const code = input.promoCode?.trim().toUpperCase();
+    if (!code) return;
+    const promo = findPromotion(code);
+    if (!promo) {
+      draft.promo = { code, status: 'invalid', message: `${code} isn't a valid promo code.` };
+      return;
+    }
+    if (promo.minSubtotal && merchandiseTotal(draft) < promo.minSubtotal) {
+      draft.promo = {
+        code,
+        status: 'not_eligible',
+        message: `${code} needs a $${promo.minSubtotal.toFixed(2)} minimum order.`,
+      };
+      return;
+    }
+    const eligible = draft.lines.filter((_, i) =>
+      !promo.categories || promo.categories.includes(input.items[i].product.category));
+    if (!eligible.length) {
+      draft.promo = { code, status: 'not_eligible', message: `Nothing in your bag qualifies for ${code}.` };
+      return;
+    }
+    for (const line of eligible) {
+      applyLineAdjustment(line, {
+        source: 'promo',
+        id: promo.code,
+        label: `${promo.code} · ${promo.label}`,
+        amount: line.net * (promo.percentOff / 100),
+      });
+    }
+    draft.promo = { code, status: 'applied', message: promo.label };
+  },
+};
+
+export const loyaltyModule: PricingModule = {
+  id: 'loyalty',
+  apply: (draft, input) => {
+    if (!input.loyaltyTier) return;
+    const perk = LOYALTY_PERKS[input.loyaltyTier];
+    if (!perk.percentOff) return;
+    const amount = roundCents(merchandiseTotal(draft) * (perk.percentOff / 100));
+    if (amount <= 0) return;
+    const tier = input.loyaltyTier.charAt(0).toUpperCase() + input.loyaltyTier.slice(1);
+    draft.discounts.push({ source: 'loyalty', id: input.loyaltyTier, label: `${tier} member ${perk.percentOff}% off`, amount });
+  },
+};
+
+export const shippingModule: PricingModule = {
+  id: 'shipping',
+  apply: (draft, input) => {
+    const method = input.shippingMethod || 'standard';
+    const rate = SHIPPING_RATES[method];
+    const merchandise = merchandiseTotal(draft);
+    const notes: string[] = [];
+    let amount = rate.rate;
+
+    const perkFree = !!input.loyaltyTier && LOYALTY_PERKS[input.loyaltyTier].freeShipping.includes(method);
+    const thresholdFree = rate.freeOver !== null && merchandise >= rate.freeOver;
+    if (!draft.lines.length) {
+      amount = 0;
+    } else if (perkFree) {
+      amount = 0;
+      notes.push('Free with your loyalty tier');
+    } else if (thresholdFree) {
+      amount = 0;
+    } else {
+      const state = input.address?.state?.trim().toUpperCase();
+      if (state && REMOTE_STATES.includes(state)) {
+        amount += REMOTE_SURCHARGE;
+        notes.push(`Includes $${REMOTE_SURCHARGE.toFixed(2)} ${state} surcharge`);
+      }
+    }
+
+    draft.shipping = {
+      method,
+      label: rate.label,
+      amount: roundCents(amount),
+      freeShippingThreshold: rate.freeOver,
+      remainingForFree: amount > 0 && rate.freeOver !== null ? roundCents(rate.freeOver - merchandise) : 0,
+      notes,
+    };
+  },
+};
+
+/** Points credit comes off after shipping is quoted, so it never costs the customer free shipping. */
+export const redemptionModule: PricingModule = {
+  id: 'redemption',
+  apply: (draft, input) => {
+    const redemption = input.loyaltyRedemption;
+    if (!redemption) return;
+    const amount = roundCents(Math.min(redemption.credit, merchandiseTotal(draft)));
+    if (amount <= 0) return;
+    draft.discounts.push({
+      source: 'redemption',
+      id: redemption.kind === 'reward' ? redemption.rewardName : `points-${redemption.points}`,
+      label: redemption.kind === 'reward'
+        ? redemption.rewardName
+        : `${redemption.points.toLocaleString()} points redeemed`,
+      amount,
+    });
+    draft.pointsRedeemed = redemption.points;
+  },
+};
+
+export const taxModule: PricingModule = {
+  id: 'tax',
+  apply: (draft, input) => {
+    const state = input.address?.state?.trim().toUpperCase() || '';
+    const known = state in STATE_TAX_RATES;
+    const rate = known ? STATE_TAX_RATES[state] : DEFAULT_TAX_RATE;
+    draft.tax = {
+      region: known ? state : 'Estimated',
+      rate,
+      amount: roundCents(merchandiseTotal(draft) * rate),
+    };
+  },
+};
+
+/** Default pipeline order: discounts narrow the merchandise total that shipping and tax are based on. */
+export const DEFAULT_PRICING_MODULES: PricingModule[] = [
+  subscriptionModule,
+  lineDiscountModule,
+  promoModule,
+  loyaltyModule,
+  shippingModule,
+  redemptionModule,
+  taxModule,
+];
+
+// ─── Engine ───────────────────────────────────────────────────────
+
+/** Roll line adjustments up per rule so summaries show one row per discount. */
+function rollUpLineAdjustments(lines: PricedLine[]): PriceAdjustment[] {
+  const byRule = new Map<string, PriceAdjustment>();
+  for (const adj of lines.flatMap((l) => l.adjustments)) {
+    const key = `${adj.source}:${adj.id}`;
+    const existing = byRule.get(key);
+    if (existing) existing.amount = roundCents(existing.amount + adj.amount);
+    else byRule.set(key, { ...adj });
+  }
+  return [...byRule.values()];
+}
+
+export function createPricingEngine(modules: PricingModule[] = DEFAULT_PRICING_MODULES) {
+  return {
+    price(input: PricingInput): PriceBreakdown {
+      const lines: PricedLine[] = input.items.map(({ product, quantity }) => {
+        const gross = roundCents(product.price * quantity);
+        return {
+          productId: product.id,
+          name: product.name,
+          unitPrice: product.price,
+          quantity,
+          gross,
+          discount: 0,
+          net: gross,
+          adjustments: [],
+        };
+      });
+
+      const draft: PriceBreakdown = {
+        lines,
+        subtotal: roundCents(lines.reduce((sum, l) => sum + l.gross, 0)),
+        discounts: [],
+        discountTotal: 0,
+        shipping: {
+          method: input.shippingMethod || 'standard',
+          label: '',
+          amount: 0,
+          freeShippingThreshold: null,
+          remainingForFree: 0,
+          notes: [],
+        },
+        tax: { region: 'Estimated', rate: 0, amount: 0 },
+        total: 0,
+        promo: null,
+        pointsRedeemed: 0,
+      };
+
+      for (const module of modules) module.apply(draft, input);
+
+      const merchandise = merchandiseTotal(draft);
+      draft.discounts = [...rollUpLineAdjustments(draft.lines), ...draft.discounts];
+      draft.discountTotal = roundCents(draft.subtotal - merchandise);
+      draft.total = roundCents(merchandise + draft.shipping.amount + draft.tax.amount);
+      return draft;
+    },
+  };
+}
+
+const defaultEngine = createPricingEngine();
+
+/** Price an order with the default module pipeline. */
+export const priceOrder = (input: PricingInput): PriceBreakdown => defaultEngine.price(input);
@@ -0,0 +1,29 @@
+export {
+  createPricingEngine,
+  priceOrder,
+  merchandiseTotal,
+  roundCents,
+  DEFAULT_PRICING_MODULES,
+  subscriptionModule,
+  lineDiscountModule,
+  promoModule,
+  loyaltyModule,
+  shippingModule,
+  redemptionModule,
+  taxModule,
+} from './engine';
+export { findPromotion, PROMOTIONS, SHIPPING_RATES, LOYALTY_PERKS, SUBSCRIBE_AND_SAVE } from './rules';
+export type { Promotion, SubscriptionRule } from './rules';
+export type {
+  PricingInput,
+  PricingAddress,
+  PricingModule,
+  PriceBreakdown,
+  PriceAdjustment,
+  PricedLine,
+  PromoResult,
+  ShippingMethod,
+  ShippingQuote,
+  TaxQuote,
+  LoyaltyTier,
+} from './types';
@@ -0,0 +1,124 @@
+import type { ProductCategory } from '@/types/product';
+import type { LoyaltyTier, ShippingMethod } from './types';
+
+// ─── Promotions ───────────────────────────────────────────────────
+// Codes handed out by ExitIntentOverlay / SF Personalization decisions.
+
+export interface Promotion {
+  code: string;
+  label: string;
+  percentOff: number;
+  /** Minimum merchandise total (after line discounts) for the code to apply. */
+  minSubtotal?: number;
+  /** Restrict the discount to these categories; omitted means the whole order. */
+  categories?: ProductCategory[];
+}
+
+export const PROMOTIONS: Promotion[] = [
+  { code: 'BEAUTE10', label: '10% off your order', percentOff: 10 },
+  { code: 'INSTA15', label: '15% off — Instagram edit', percentOff: 15 },
+  { code: 'TIKTOK15', label: '15% off — TikTok faves', percentOff: 15 },
+  { code: 'SEARCH10', label: '10% off your order', percentOff: 10 },
+  { code: 'YOUTUBE15', label: '15% off — creator picks', percentOff: 15 },
+  { code: 'PIN10', label: '10% off your order', percentOff: 10 },
+  { code: 'STREAM15', label: '15% off — as seen on Hulu', percentOff: 15 },
+  { code: 'VIP20', label: '20% subscriber offer', percentOff: 20, minSubtotal: 40 },
+];
+
+export function findPromotion(code: string): Promotion | undefined {
+  const normalized = code.trim().toUpperCase();
+  return PROMOTIONS.find((p) => p.code === normalized);
+}
+
+// ─── Subscribe & save ─────────────────────────────────────────────
+// Consumables the customer restocks on a cycle. Makeup and fragrance last too
+// long, and too unpredictably, to deliver on a schedule.
+
+export interface SubscriptionRule {
+  label: string;
+  percentOff: number;
+  /** Delivery intervals on offer, in days. */
+  frequencies: number[];
+  categories: ProductCategory[];
+}
+
+export const SUBSCRIBE_AND_SAVE: SubscriptionRule = {
+  label: 'Subscribe & save',
+  percentOff: 10,
+  frequencies: [30, 45, 60, 90],
+  categories: [
+    'cleanser', 'toner', 'serum', 'moisturizer', 'sunscreen', 'eye-cream', 'mask', 'spot-treatment',
+    'shampoo', 'conditioner', 'hair-treatment',
+  ],
+};
+
+// ─── Automatic line discounts ─────────────────────────────────────
+
+export interface LineDiscountRule {
+  id: string;
+  label: string;
+  percentOff: number;
+  minQuantity: number;
+  categories?: ProductCategory[];
+}
+
+export const LINE_DISCOUNT_RULES: LineDiscountRule[] = [
+  { id: 'multi-unit', label: '10% off 3 or more of the same item', percentOff: 10, minQuantity: 3 },
+];
+
+// ─── Loyalty perks ────────────────────────────────────────────────
+
+export interface LoyaltyPerk {
+  percentOff: number;
+  /** Methods that ship free for this tier regardless of order size. */
+  freeShipping: ShippingMethod[];
+}
+
+export const LOYALTY_PERKS: Record<LoyaltyTier, LoyaltyPerk> = {
+  bronze: { percentOff: 0, freeShipping: [] },
+  silver: { percentOff: 0, freeShipping: ['standard'] },
+  gold: { percentOff: 5, freeShipping: ['standard'] },
+  platinum: { percentOff: 10, freeShipping: ['standard', 'express'] },
+};
+
+// ─── Shipping ─────────────────────────────────────────────────────
+
+export interface ShippingRate {
+  label: string;
+  rate: number;
+  freeOver: number | null;
+}
+
+export const SHIPPING_RATES: Record<ShippingMethod, ShippingRate> = {
+  standard: { label: 'Standard (5–7 business days)', rate: 5.99, freeOver: 50 },
+  express: { label: 'Express (2–3 business days)', rate: 12.99, freeOver: 150 },
+  overnight: { label: 'Overnight', rate: 24.99, freeOver: null },
+};
+
+/** States outside the contiguous US carry a flat surcharge on paid shipping. */
+export const REMOTE_STATES = ['AK', 'HI', 'PR'];
+export const REMOTE_SURCHARGE = 8;
+
+// ─── Tax ──────────────────────────────────────────────────────────
+// State base rates. Unknown or missing states fall back to DEFAULT_TAX_RATE.
+
+export const STATE_TAX_RATES: Record<string, number> = {
+  AK: 0,
+  CA: 0.0725,
+  CO: 0.029,
+  DE: 0,
+  FL: 0.06,
+  GA: 0.04,
+  IL: 0.0625,
+  MA: 0.0625,
+  MT: 0,
+  NH: 0,
+  NJ: 0.06625,
+  NY: 0.04,
+  OR: 0,
+  PA: 0.06,
+  TX: 0.0625,
+  WA: 0.065,
+};
+
+export const DEFAULT_TAX_RATE = 0.08;
@@ -0,0 +1,96 @@
+import type { Product } from '@/types/product';
+import type { LoyaltyData } from '@/types/customer';
+import type { LoyaltyRedemption } from '@/services/loyalty';
+import type { CartSubscription } from '@/types/subscription';
+
+export type ShippingMethod = 'standard' | 'express' | 'overnight';
+
+export type LoyaltyTier = LoyaltyData['tier'];
+
+export interface PricingAddress {
+  /** Two-letter US state code. */
+  state?: string;
+  postalCode?: string;
+  countryCode?: string;
+}
+
+export interface PricingInput {
+  /** Lines with a subscription are priced as the first delivery of a subscribe & save order. */
+  items: { product: Product; quantity: number; subscription?: CartSubscription | null }[];
+  promoCode?: string | null;
+  loyaltyTier?: LoyaltyTier | null;
+  address?: PricingAddress | null;
+  shippingMethod?: ShippingMethod;
+  /** Points credit already validated against the member's balance. */
+  loyaltyRedemption?: LoyaltyRedemption | null;
+}
+
+/** A single discount or surcharge, always expressed as a positive amount. */
+export interface PriceAdjustment {
+  source: 'subscription' | 'line' | 'promo' | 'loyalty' | 'redemption';
+  /** Stable identifier of the rule that produced it (e.g. promo code or tier). */
+  id: string;
+  label: string;
+  amount: number;
+}
+
+export interface PricedLine {
+  productId: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  /** unitPrice × quantity */
+  gross: number;
+  discount: number;
+  net: number;
+  adjustments: PriceAdjustment[];
+}
+
+export interface PromoResult {
+  code: string;
+  status: 'applied' | 'invalid' | 'not_eligible';
+  message: string;
+}
+
+export interface ShippingQuote {
+  method: ShippingMethod;
+  label: string;
+  amount: number;
+  /** Merchandise total at which this method ships free, or null if it never does. */
+  freeShippingThreshold: number | null;
+  /** How much more merchandise would make shipping free (0 when already free or not applicable). */
+  remainingForFree: number;
+  /** Why the quote differs from the base rate (free-shipping perk, remote surcharge, …). */
+  notes: string[];
+}
+
+export interface TaxQuote {
+  region: string;
+  rate: number;
+  amount: number;
+}
+
+/** Structured result shared by every surface that shows or records a price. */
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  /** Sum of line gross amounts, before any discount. */
+  subtotal: number;
+  /** Order-level discounts plus line discounts rolled up per rule. */
+  discounts: PriceAdjustment[];
+  discountTotal: number;
+  shipping: ShippingQuote;
+  tax: TaxQuote;
+  total: number;
+  promo: PromoResult | null;
+  /** Points spent on this order, when a redemption was applied. */
+  pointsRedeemed: number;
+}
+
+/**
+ * One step of the pricing pipeline. Modules run in order and mutate the draft
+ * breakdown; totals are recomputed once after the last module.
+ */
+export interface PricingModule {
+  id: string;
+  apply: (draft: PriceBreakdown, input: PricingInput) => void;
+}
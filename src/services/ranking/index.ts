@@ -0,0 +1,3 @@
+export { buildRankingSignals, hasConcern } from './signals';
+export { INFLUENCE_CAP, rankProducts, scoreProduct } from './rank';
+export type { RankedProduct, RankingReason, RankingSignal } from './types';
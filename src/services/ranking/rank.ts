@@ -0,0 +1,62 @@
+import { PROVENANCE_USAGE } from '@/types/customer';
+import type { UsagePermission } from '@/types/customer';
+import type { Product } from '@/types/product';
+import type { RankedProduct, RankingReason, RankingSignal } from './types';
+
+const USAGE_WEIGHT: Record<UsagePermission, number> = {
+  direct: 1,
+  soft: 0.5,
+  influence_only: 1,
+};
+
+/**
+ * Appended data together can add at most this much — less than the weakest
+ * first-party match (a soft 1-pointer, worth 0.5) — so it only reorders
+ * products that first-party data scores the same.
+ */
+export const INFLUENCE_CAP = 0.25;
+
+/** Raw points for a perfect fit: skin type, a concern, a favorite brand they also buy, and a repeat purchase. */
+const FULL_MATCH_POINTS = 10;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** Score one product against a customer's signals. */
+export function scoreProduct(product: Product, signals: RankingSignal[]): RankedProduct {
+  const matched = signals.filter((s) => s.matches(product));
+  const reasons: RankingReason[] = matched.map((s) => {
+    const usage = PROVENANCE_USAGE[s.provenance];
+    return { reason: s.reason, provenance: s.provenance, usage, points: s.points * USAGE_WEIGHT[usage] };
+  });
+
+  const influence = reasons.filter((r) => r.usage === 'influence_only');
+  const influenceTotal = influence.reduce((sum, r) => sum + r.points, 0);
+  if (influenceTotal > INFLUENCE_CAP) {
+    for (const r of influence) r.points *= INFLUENCE_CAP / influenceTotal;
+  }
+  for (const r of reasons) r.points = round(r.points);
+
+  const raw = reasons.reduce((sum, r) => sum + r.points, 0);
+  const score = round(Math.min(1, Math.max(0, raw / FULL_MATCH_POINTS)));
+  return {
+    product: { ...product, personalizationScore: score },
+    score,
+    reasons: reasons.sort((a, b) => Math.abs(b.points) - Math.abs(a.points)),
+  };
+}
+
+/**
+ * Rank products best fit first. Scores are clamped for display, so ordering
+ * uses the raw points — an allergen still sorts below an unscored product.
+ * Ties keep the incoming order, which is the catalog's featured order.
+ */
+export function rankProducts(products: Product[], signals: RankingSignal[]): RankedProduct[] {
+  return products
+    .map((product, index) => {
+      const ranked = scoreProduct(product, signals);
+      const raw = ranked.reasons.reduce((sum, r) => sum + r.points, 0);
+      return { ranked, raw, index };
+    })
+    .sort((a, b) => b.raw - a.raw || a.index - b.index)
+    .map(({ ranked }) => ranked);
+}
@@ -0,0 +1,234 @@
+import type { AgentCapturedProfile, CustomerProfile, DataProvenance } from '@/types/customer';
+import type { Product, ProductCategory } from '@/types/product';
+import { checkProductSafety } from '@/services/ingredients';
+import type { RankingSignal } from './types';
+
+// Price points behind "premium" and "affordable" cues in free-text preferences
+const PREMIUM_PRICE = 60;
+const BUDGET_PRICE = 30;
+
+/** Loose concern match, so "lines" finds "fine lines" and "anti-aging" finds "anti-aging, firming". */
+export const hasConcern = (product: Product, concern: string) =>
+  (product.attributes.concerns ?? []).some((c) => {
+    const tag = c.toLowerCase();
+    return tag.includes(concern) || concern.includes(tag);
+  });
+
+interface TextCue {
+  pattern: RegExp;
+  /** Completes "Fits your …" / "Popular with … shoppers". */
+  label: string;
+  matches: (product: Product) => boolean;
+}
+
+/**
+ * Cues read from free-text preferences — agent-captured answers and Merkury
+ * interests. Each phrase can trip several cues; a cue counts once per phrase.
+ */
+const TEXT_CUES: TextCue[] = [
+  {
+    pattern: /clean|natural|organic/,
+    label: 'clean beauty',
+    matches: (p) => !!(p.attributes.isParabenFree || p.attributes.isVegan),
+  },
+  {
+    pattern: /sustainab|vegan|cruelty/,
+    label: 'cruelty-free',
+    matches: (p) => !!(p.attributes.isCrueltyFree || p.attributes.isVegan),
+  },
+  {
+    pattern: /luxury|premium|spend more|quality/,
+    label: 'premium',
+    matches: (p) => p.price >= PREMIUM_PRICE,
+  },
+  {
+    pattern: /afford|drugstore|dupe|budget|basics/,
+    label: 'affordable',
+    matches: (p) => p.price < BUDGET_PRICE,
+  },
+  {
+    pattern: /anti-?aging|retinol|results/,
+    label: 'anti-aging',
+    matches: (p) => hasConcern(p, 'anti-aging') || hasConcern(p, 'fine lines'),
+  },
+  {
+    pattern: /dermatolog|clinical|proven/,
+    label: 'clinically tested',
+    matches: (p) => !!p.attributes.isDermatologistTested,
+  },
+  {
+    pattern: /\bspf\b|sun|outdoor|hiking|ski/,
+    label: 'sun protection',
+    matches: (p) => p.category === 'sunscreen' || hasConcern(p, 'sun protection'),
+  },
+  {
+    pattern: /sensitive|gentle/,
+    label: 'gentle',
+    matches: (p) => !!(p.attributes.isHypoallergenic || p.attributes.skinType?.includes('sensitive')),
+  },
+  {
+    pattern: /\bdry\b|cold|winter|\bac\b/,
+    label: 'extra hydration',
+    matches: (p) => hasConcern(p, 'hydration'),
+  },
+  {
+    pattern: /humid|\bhot\b|tropical/,
+    label: 'lightweight',
+    matches: (p) => hasConcern(p, 'oil control') || hasConcern(p, 'lightweight'),
+  },
+  {
+    pattern: /k-beauty|layering|sheet mask|glass skin|multi-step/,
+    label: 'layering',
+    matches: (p) => p.category === 'serum' || p.category === 'toner' || p.category === 'mask',
+  },
+];
+
+/** Agent-captured fields that say something about which products suit the customer. */
+const CAPTURED_FIELDS: { key: keyof AgentCapturedProfile; label: string }[] = [
+  { key: 'beautyPriority', label: 'beauty priority' },
+  { key: 'priceRange', label: 'budget' },
+  { key: 'sustainabilityPref', label: 'values' },
+  { key: 'climateContext', label: 'climate' },
+];
+
+const CATEGORY_LABELS: Partial<Record<ProductCategory, string>> = {
+  'eye-cream': 'eye care',
+  'hair-treatment': 'hair treatments',
+  'spot-treatment': 'spot treatments',
+  'travel-kit': 'travel kits',
+};
+
+const categoryLabel = (category: ProductCategory) => CATEGORY_LABELS[category] ?? `${category}s`;
+
+function cueSignals(
+  text: string,
+  provenance: DataProvenance,
+  points: number,
+  reason: (cue: TextCue) => string,
+): RankingSignal[] {
+  const lower = text.toLowerCase();
+  return TEXT_CUES
+    .filter((cue) => cue.pattern.test(lower))
+    .map((cue) => ({ reason: reason(cue), provenance, points, matches: cue.matches }));
+}
+
+/**
+ * Turn everything we know about a customer into ranking signals.
+ *
+ * `catalog` resolves order and browse history to brands and categories; it
+ * should be the full catalog, not just the products being ranked.
+ */
+export function buildRankingSignals(customer: CustomerProfile, catalog: Product[]): RankingSignal[] {
+  const signals: RankingSignal[] = [];
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  const profile = customer.beautyProfile;
+
+  // Declared — preference center
+  if (profile?.skinType) {
+    const skinType = profile.skinType;
+    signals.push({
+      reason: `Suits your ${skinType} skin`,
+      provenance: 'declared',
+      points: 3,
+      matches: (p) => !!p.attributes.skinType?.includes(skinType),
+    });
+  }
+  for (const concern of profile?.concerns ?? []) {
+    const tag = concern.toLowerCase();
+    signals.push({ reason: `Targets ${tag}`, provenance: 'declared', points: 2, matches: (p) => hasConcern(p, tag) });
+  }
+  for (const brand of profile?.preferredBrands ?? []) {
+    signals.push({
+      reason: `From ${brand}, a brand you love`,
+      provenance: 'declared',
+      points: 2,
+      matches: (p) => p.brand.toLowerCase() === brand.toLowerCase(),
+    });
+  }
+  // Allergies sink a product well below anything else can lift it; a softer
+  // fragrance preference only demotes
+  if (profile) {
+    signals.push({
+      reason: 'Contains an ingredient you avoid',
+      provenance: 'declared',
+      points: -12,
+      matches: (p) => checkProductSafety(p, profile).some((w) => w.reason === 'allergy'),
+    });
+    signals.push({
+      reason: 'Not fragrance-free',
+      provenance: 'declared',
+      points: -2,
+      matches: (p) => checkProductSafety(p, profile).some((w) => w.reason === 'preference'),
+    });
+  }
+
+  // Observed — what they bought for themselves (gifts say more about the recipient)
+  const bought = new Set<string>();
+  const boughtBrands = new Set<string>();
+  const boughtCategories = new Set<ProductCategory>();
+  for (const order of customer.orders ?? []) {
+    for (const item of order.lineItems) {
+      if (item.isGift) continue;
+      bought.add(item.productId);
+      const product = byId.get(item.productId);
+      if (product) {
+        boughtBrands.add(product.brand);
+        boughtCategories.add(product.category);
+      }
+    }
+  }
+  if (bought.size) {
+    signals.push({
+      reason: "You've bought this before",
+      provenance: 'observed',
+      points: 1,
+      matches: (p) => bought.has(p.id),
+    });
+  }
+  for (const brand of boughtBrands) {
+    signals.push({ reason: `You've bought ${brand} before`, provenance: 'observed', points: 2, matches: (p) => p.brand === brand });
+  }
+  for (const category of boughtCategories) {
+    signals.push({
+      reason: `You shop ${categoryLabel(category)}`,
+      provenance: 'observed',
+      points: 1,
+      matches: (p) => p.category === category,
+    });
+  }
+
+  // Inferred — browsing shows interest, not intent
+  const viewed = new Set((customer.browseSessions ?? []).flatMap((s) => s.productsViewed));
+  const browsed = new Set((customer.browseSessions ?? []).flatMap((s) => s.categoriesBrowsed));
+  if (viewed.size) {
+    signals.push({ reason: 'You viewed this recently', provenance: 'inferred', points: 2, matches: (p) => viewed.has(p.id) });
+  }
+  for (const category of browsed) {
+    signals.push({
+      reason: `You've been browsing ${categoryLabel(category as ProductCategory)}`,
+      provenance: 'inferred',
+      points: 1,
+      matches: (p) => p.category === category,
+    });
+  }
+
+  // Stated or agent-inferred — what the advisor picked up in conversation
+  for (const { key, label } of CAPTURED_FIELDS) {
+    const field = customer.agentCapturedProfile?.[key];
+    if (!field) continue;
+    const value = Array.isArray(field.value) ? field.value.join(', ') : field.value;
+    const provenance: DataProvenance = field.confidence === 'stated' ? 'stated' : 'agent_inferred';
+    signals.push(...cueSignals(value, provenance, 1.5, (cue) => `Fits your ${label}: ${cue.label}`));
+  }
+
+  // Appended — Merkury interests and lifestyle; these may only nudge
+  const appended = [
+    ...(customer.appendedProfile?.interests ?? []),
+    ...(customer.appendedProfile?.lifestyleSignals ?? []),
+  ];
+  for (const interest of appended) {
+    signals.push(...cueSignals(interest, 'appended', 1, () => `Popular with ${interest} shoppers`));
+  }
+
+  return signals;
+}
@@ -0,0 +1,29 @@
+import type { DataProvenance, UsagePermission } from '@/types/customer';
+import type { Product } from '@/types/product';
+
+/** One preference drawn from the customer profile that a product can match. */
+export interface RankingSignal {
+  /** Shopper-facing explanation shown when a product matches, e.g. "Suits your dry skin". */
+  reason: string;
+  provenance: DataProvenance;
+  /** Strength before usage weighting. Negative signals demote matching products. */
+  points: number;
+  matches: (product: Product) => boolean;
+}
+
+export interface RankingReason {
+  reason: string;
+  provenance: DataProvenance;
+  usage: UsagePermission;
+  /** Contribution to the raw score after usage weighting and the influence cap. */
+  points: number;
+}
+
+export interface RankedProduct {
+  /** The product with `personalizationScore` filled in. */
+  product: Product;
+  /** 0–1; 1 is a product that fits everything we confidently know about the customer. */
+  score: number;
+  /** Matched signals, strongest first. */
+  reasons: RankingReason[];
+}
@@ -0,0 +1,92 @@
+import { CassettePlayer, type CassettePlayerOptions } from './player';
+import { CassetteRecorder, type CassetteRecorderOptions } from './recorder';
+import { installRuntime } from './runtime';
+import { SeededClock, createSeededRandom, systemClock } from './seeded';
+import type { Cassette, ReplayMode } from './types';
+
+// Recordings saved by the dev server land here and are bundled, so replay needs no backend
+const BUNDLED_CASSETTES = import.meta.glob<Cassette>('./cassettes/*.json', { import: 'default' });
+
+const SAVE_DEBOUNCE_MS = 500;
+
+/** Answer every service request from `cassette`, on a virtual clock and seeded RNG. */
+export function startReplay(cassette: Cassette, options?: CassettePlayerOptions): CassettePlayer {
+  const player = new CassettePlayer(cassette, options);
+  installRuntime({
+    mode: 'replay',
+    clock: new SeededClock(cassette.recordedAt),
+    random: createSeededRandom(cassette.seed),
+    transport: (service, input, init) => player.fetch(service, input, init),
+  });
+  return player;
+}
+
+/** Hit the real services and capture every exchange. The RNG is seeded so replay makes the same choices. */
+export function startRecording(options: CassetteRecorderOptions): CassetteRecorder {
+  const recorder = new CassetteRecorder(options);
+  installRuntime({
+    mode: 'record',
+    clock: options.clock ?? systemClock,
+    random: createSeededRandom(options.seed),
+    transport: (service, input, init) => recorder.fetch(service, input, init),
+  });
+  return recorder;
+}
+
+export async function loadBundledCassette(name: string): Promise<Cassette | null> {
+  const load = BUNDLED_CASSETTES[`./cassettes/${name}.json`];
+  return load ? load() : null;
+}
+
+function saveToDevServer(name: string): (cassette: Cassette) => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return (cassette) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      fetch(`/api/demo/cassettes/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(cassette),
+      }).catch((error) => console.warn('[replay] Failed to save cassette:', error));
+    }, SAVE_DEBOUNCE_MS);
+  };
+}
+
+/**
+ * Apply `VITE_DEMO_MODE` before the app renders. `record` saves the session to
+ * the cassette named by `VITE_DEMO_CASSETTE` via the dev server; `replay` plays
+ * it back with no network, pacing streamed replies the way they were recorded.
+ */
+export async function setupDemoMode(): Promise<ReplayMode> {
+  const mode = (import.meta.env.VITE_DEMO_MODE || 'live') as ReplayMode;
+  const name = import.meta.env.VITE_DEMO_CASSETTE || 'demo';
+
+  if (mode === 'replay') {
+    const cassette = await loadBundledCassette(name);
+    if (!cassette) {
+      console.warn(`[replay] Cassette "${name}" not found in src/services/replay/cassettes — running live`);
+      return 'live';
+    }
+    startReplay(cassette, { pace: 'recorded' });
+    console.log(`[replay] Replaying "${name}" (${cassette.exchanges.length} exchanges)`);
+    return mode;
+  }
+
+  if (mode === 'record') {
+    const seed = Number(import.meta.env.VITE_DEMO_SEED) || Math.floor(Math.random() * 2 ** 31);
+    startRecording({ name, seed, onChange: saveToDevServer(name) });
+    console.log(`[replay] Recording to "${name}" with seed ${seed}`);
+    return mode;
+  }
+
+  return 'live';
+}
+
+export { CassettePlayer } from './player';
+export { CassetteRecorder } from './recorder';
+export { clock, random, serviceFetch, getReplayMode, installRuntime, resetRuntime } from './runtime';
+export { SeededClock, createSeededRandom, systemClock } from './seeded';
+export type { CassettePlayerOptions } from './player';
+export type { CassetteRecorderOptions } from './recorder';
+export type { Clock } from './seeded';
+export type { Cassette, RecordedChunk, RecordedExchange, RecordedRequest, ReplayMode, ReplayService } from './types';
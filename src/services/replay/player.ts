@@ -0,0 +1,87 @@
+import { describeRequest } from './request';
+import { systemClock } from './seeded';
+import type { Cassette, RecordedChunk, RecordedExchange, ReplayService } from './types';
+
+export interface CassettePlayerOptions {
+  /**
+   * `instant` delivers every chunk at once (tests). `recorded` re-creates the
+   * gaps between chunks in real time, so streamed replies still type out on screen.
+   */
+  pace?: 'instant' | 'recorded';
+  /** Throw instead of falling back when a request body doesn't match the recording. */
+  strict?: boolean;
+}
+
+function decodeChunk(chunk: RecordedChunk): Uint8Array {
+  if (chunk.text !== undefined) return new TextEncoder().encode(chunk.text);
+  const binary = atob(chunk.base64 ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Answers requests from a cassette without touching the network. Each recorded
+ * exchange is used once, in order, so a journey that polls the same URL several
+ * times gets the same sequence of answers it got when it was recorded.
+ */
+export class CassettePlayer {
+  private readonly used: boolean[];
+
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly options: CassettePlayerOptions = {},
+  ) {
+    this.used = cassette.exchanges.map(() => false);
+  }
+
+  async fetch(service: ReplayService, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const request = describeRequest(input, init);
+    const candidates = this.cassette.exchanges
+      .map((exchange, index) => ({ exchange, index }))
+      .filter(({ exchange, index }) =>
+        !this.used[index] &&
+        exchange.service === service &&
+        exchange.request.method === request.method &&
+        exchange.request.url === request.url);
+
+    let match = candidates.find(({ exchange }) => exchange.request.bodyHash === request.bodyHash);
+    if (!match && candidates.length > 0 && !this.options.strict) {
+      console.warn('[replay] Request body differs from the recording; using the next recorded response for', request.method, request.url);
+      match = candidates[0];
+    }
+    if (!match) {
+      throw new Error(`[replay] No recorded response for ${request.method} ${request.url} in cassette "${this.cassette.name}"`);
+    }
+
+    this.used[match.index] = true;
+    return this.toResponse(match.exchange);
+  }
+
+  /** Exchanges in the cassette that haven't been replayed yet. */
+  remaining(): RecordedExchange[] {
+    return this.cassette.exchanges.filter((_, index) => !this.used[index]);
+  }
+
+  private toResponse(exchange: RecordedExchange): Response {
+    const { status, statusText, headers, chunks } = exchange.response;
+    const paced = this.options.pace === 'recorded';
+    let index = 0;
+    let lastAt = 0;
+
+    const body = chunks.length === 0 ? null : new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index >= chunks.length) {
+          controller.close();
+          return;
+        }
+        const chunk = chunks[index++];
+        if (paced && chunk.at > lastAt) await systemClock.sleep(chunk.at - lastAt);
+        lastAt = chunk.at;
+        controller.enqueue(decodeChunk(chunk));
+      },
+    });
+
+    return new Response(body, { status, statusText, headers });
+  }
+}
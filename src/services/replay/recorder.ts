@@ -0,0 +1,127 @@
+import { describeRequest } from './request';
+import { systemClock, type Clock } from './seeded';
+import type { Cassette, RecordedChunk, RecordedExchange, ReplayService } from './types';
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// OAuth responses (Salesforce, Adobe) carry bearer tokens; cassettes get committed, so those never reach disk
+const ACCESS_TOKEN_PATTERN = /("access_token"\s*:\s*")[^"]*(")/g;
+
+/**
+ * Encode bytes as text when they round-trip exactly, so recorded JSON and SSE
+ * stay readable. Access tokens are the one thing not kept byte for byte.
+ */
+export function encodeChunk(bytes: Uint8Array, at: number): RecordedChunk {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(bytes);
+    return { at, text: text.replace(ACCESS_TOKEN_PATTERN, '$1replay-token$2') };
+  } catch {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return { at, base64: btoa(binary) };
+  }
+}
+
+export interface CassetteRecorderOptions {
+  name: string;
+  seed: number;
+  fetch?: typeof fetch;
+  /** Defaults to real time. Tests recording against fakes can pass a SeededClock. */
+  clock?: Clock;
+  /** Called whenever an exchange finishes, with the cassette so far. */
+  onChange?: (cassette: Cassette) => void;
+}
+
+/**
+ * Passes requests through to the network and captures each response byte for
+ * byte, chunk by chunk, with the time each chunk arrived. Exchanges are stored
+ * in request order even when responses finish out of order.
+ */
+export class CassetteRecorder {
+  private readonly cassette: Cassette;
+  private readonly realFetch: typeof fetch;
+  private readonly clock: Clock;
+  private readonly onChange?: (cassette: Cassette) => void;
+  private pending = 0;
+  private slots: (RecordedExchange | null)[] = [];
+
+  constructor(options: CassetteRecorderOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.realFetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.onChange = options.onChange;
+    this.cassette = {
+      version: 1,
+      name: options.name,
+      recordedAt: this.clock.now(),
+      seed: options.seed,
+      exchanges: [],
+    };
+  }
+
+  async fetch(service: ReplayService, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const request = describeRequest(input, init);
+    const slot = this.slots.push(null) - 1;
+    this.pending++;
+
+    let response: Response;
+    try {
+      response = await this.realFetch(input, init);
+    } catch (error) {
+      // Network failures aren't recorded; replay will report the request as missing
+      this.settle();
+      throw error;
+    }
+
+    const startedAt = this.clock.now();
+    const meta = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+    };
+    const complete = (chunks: RecordedChunk[]) => {
+      this.slots[slot] = { service, request, response: { ...meta, chunks } };
+      this.settle();
+    };
+
+    if (!response.body || NULL_BODY_STATUSES.has(response.status)) {
+      complete([]);
+      return response;
+    }
+
+    const [forCaller, forCassette] = response.body.tee();
+    void this.capture(forCassette, startedAt).then(complete, (error) => {
+      console.warn('[replay] Failed to record response body for', request.url, error);
+      this.settle();
+    });
+    return new Response(forCaller, meta);
+  }
+
+  /** The exchanges captured so far, in request order. */
+  getCassette(): Cassette {
+    return {
+      ...this.cassette,
+      exchanges: this.slots.filter((exchange): exchange is RecordedExchange => exchange !== null),
+    };
+  }
+
+  /** True when no request is still in flight. */
+  get idle(): boolean {
+    return this.pending === 0;
+  }
+
+  private async capture(stream: ReadableStream<Uint8Array>, startedAt: number): Promise<RecordedChunk[]> {
+    const reader = stream.getReader();
+    const chunks: RecordedChunk[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value?.length) chunks.push(encodeChunk(value, this.clock.now() - startedAt));
+    }
+    return chunks;
+  }
+
+  private settle(): void {
+    this.pending--;
+    this.onChange?.(this.getCassette());
+  }
+}
@@ -0,0 +1,31 @@
+import type { RecordedRequest } from './types';
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+/** FNV-1a, hex encoded. Stable across runtimes, which is all a fixture key needs. */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function bodyFingerprint(body: BodyInit | null | undefined): string | null {
+  if (body == null) return null;
+  if (typeof body === 'string') return fnv1a(body.replace(UUID_PATTERN, '<uuid>'));
+  if (body instanceof URLSearchParams) return fnv1a(body.toString());
+  // Uploads (images) are identified by size and type; hashing them would mean reading the blob
+  if (body instanceof Blob) return `blob:${body.type}:${body.size}`;
+  if (body instanceof ArrayBuffer) return `bytes:${body.byteLength}`;
+  if (ArrayBuffer.isView(body)) return `bytes:${body.byteLength}`;
+  return 'opaque';
+}
+
+/** Identify a request the same way at record and replay time. */
+export function describeRequest(input: RequestInfo | URL, init?: RequestInit): RecordedRequest {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  return { method, url, bodyHash: bodyFingerprint(init?.body) };
+}
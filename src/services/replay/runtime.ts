@@ -0,0 +1,58 @@
+import { systemClock, type Clock } from './seeded';
+import type { ReplayMode, ReplayService } from './types';
+
+type ServiceTransport = (service: ReplayService, input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+interface Runtime {
+  mode: ReplayMode;
+  clock: Clock;
+  random: () => number;
+  transport: ServiceTransport;
+}
+
+// Resolve fetch at call time so tests that stub globalThis.fetch still work in live mode
+const liveTransport: ServiceTransport = (_service, input, init) => globalThis.fetch(input, init);
+
+const live: Runtime = {
+  mode: 'live',
+  clock: systemClock,
+  random: () => Math.random(),
+  transport: liveTransport,
+};
+
+let active: Runtime = live;
+
+/** Swap the transport, clock and RNG the service clients use. Anything omitted stays live. */
+export function installRuntime(runtime: Partial<Runtime>): void {
+  active = { ...live, ...runtime };
+}
+
+export function resetRuntime(): void {
+  active = live;
+}
+
+export function getReplayMode(): ReplayMode {
+  return active.mode;
+}
+
+/**
+ * `fetch` for the external services (Agentforce, Imagen, Gemini, Firefly,
+ * Perfect Corp). In record/replay mode it goes through the active cassette.
+ */
+export function serviceFetch(service: ReplayService, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  return active.transport(service, input, init);
+}
+
+/**
+ * The clock the service clients poll and time out with. Real time when live,
+ * virtual during replay (sleeps return at once and just advance `now()`).
+ */
+export const clock: Clock = {
+  now: () => active.clock.now(),
+  sleep: (ms) => active.clock.sleep(ms),
+};
+
+/** `Math.random()`, seeded from the cassette in record/replay mode. */
+export function random(): number {
+  return active.random();
+}
@@ -0,0 +1,44 @@
+/** Deterministic PRNG (mulberry32): the same seed always yields the same sequence in [0, 1). */
+export function createSeededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Virtual clock for replay. Time starts at the recording's start and only moves
+ * when someone sleeps, so polling loops and timeouts finish immediately and
+ * every timestamp they produce matches run to run.
+ */
+export class SeededClock implements Clock {
+  private current: number;
+
+  constructor(start: number) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.current += Math.max(0, ms);
+    // Still yield to the event loop so UI updates between polls can render
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
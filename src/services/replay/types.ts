@@ -0,0 +1,48 @@
+/** Services whose network traffic can be recorded and replayed. */
+export type ReplayService = 'agentforce' | 'imagen' | 'gemini' | 'firefly' | 'perfectcorp';
+
+/**
+ * - `live`: talk to the real services.
+ * - `record`: talk to the real services and capture every exchange to a cassette.
+ * - `replay`: answer every request from a cassette. The network is never touched.
+ */
+export type ReplayMode = 'live' | 'record' | 'replay';
+
+/**
+ * One slice of a response body, as the network delivered it. `text` is used
+ * when the bytes are valid UTF-8 (so fixtures stay readable), `base64` otherwise.
+ */
+export interface RecordedChunk {
+  /** Milliseconds after the response headers arrived. */
+  at: number;
+  text?: string;
+  base64?: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  /** Fingerprint of the request body with volatile values (UUIDs) masked, or null when there was none. */
+  bodyHash: string | null;
+}
+
+export interface RecordedExchange {
+  service: ReplayService;
+  request: RecordedRequest;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    chunks: RecordedChunk[];
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  name: string;
+  /** Epoch ms the recording started — the replay clock starts here. */
+  recordedAt: number;
+  /** Seed for the RNG, so random choices during replay match the recording. */
+  seed: number;
+  exchanges: RecordedExchange[];
+}
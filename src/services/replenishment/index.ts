@@ -0,0 +1,9 @@
+export {
+  DUE_WITHIN_DAYS,
+  describeReplenishment,
+  estimateCycleDays,
+  parseSize,
+  predictReplenishment,
+} from './predict';
+export type { ProductSize } from './predict';
+export type { CycleBasis, ReplenishmentPrediction, ReplenishmentStatus } from './types';
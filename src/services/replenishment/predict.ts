@@ -0,0 +1,174 @@
+import type { OrderRecord } from '@/types/customer';
+import type { Product, ProductCategory } from '@/types/product';
+import type { CycleBasis, ReplenishmentPrediction } from './types';
+import { clock } from '@/services/replay/runtime';
+
+const DAY_MS = 86_400_000;
+
+/** Surface a product this many days before its estimated run-out. */
+export const DUE_WITHIN_DAYS = 14;
+
+/** A year past run-out the customer has moved on; stop reminding them. */
+const LAPSED_AFTER_DAYS = 365;
+
+// How far the customer's own pace may stretch or shrink a size-based estimate
+const MIN_PACE = 0.5;
+const MAX_PACE = 2;
+
+const ML_PER_OZ = 29.57;
+
+interface CategoryUsage {
+  /** Typical daily use in ml (grams are treated as ml). */
+  mlPerDay?: number;
+  /** Typical daily use for products sold by count — pads, sheets, patches. */
+  unitsPerDay?: number;
+  /** Cycle when the size can't be read. */
+  fallbackDays: number;
+  /** Replace by this age even if product is left (mascara hygiene). */
+  maxDays?: number;
+}
+
+const CATEGORY_USAGE: Record<ProductCategory, CategoryUsage> = {
+  moisturizer: { mlPerDay: 0.8, fallbackDays: 60 },
+  cleanser: { mlPerDay: 1.5, fallbackDays: 90 },
+  serum: { mlPerDay: 0.4, fallbackDays: 75 },
+  sunscreen: { mlPerDay: 1.2, fallbackDays: 45 },
+  mask: { mlPerDay: 0.3, unitsPerDay: 2 / 7, fallbackDays: 90 },
+  toner: { mlPerDay: 1.5, unitsPerDay: 1, fallbackDays: 90 },
+  'travel-kit': { fallbackDays: 30 },
+  'eye-cream': { mlPerDay: 0.15, fallbackDays: 90 },
+  foundation: { mlPerDay: 0.4, fallbackDays: 90 },
+  lipstick: { mlPerDay: 0.03, fallbackDays: 150, maxDays: 365 },
+  mascara: { fallbackDays: 90, maxDays: 90 },
+  blush: { mlPerDay: 0.03, fallbackDays: 180, maxDays: 365 },
+  fragrance: { mlPerDay: 0.4, fallbackDays: 180 },
+  shampoo: { mlPerDay: 6, fallbackDays: 45 },
+  conditioner: { mlPerDay: 5, fallbackDays: 45 },
+  'hair-treatment': { mlPerDay: 1.5, fallbackDays: 60 },
+  'spot-treatment': { mlPerDay: 0.1, unitsPerDay: 1, fallbackDays: 60 },
+};
+
+export interface ProductSize {
+  amount: number;
+  unit: 'ml' | 'count';
+}
+
+/** Read a catalog size like "50ml", "1.7 oz", "3 x 30ml" or "36 patches". */
+export function parseSize(size: string | undefined): ProductSize | null {
+  if (!size) return null;
+  const text = size.toLowerCase();
+  const multi = text.match(/^(\d+)\s*x\s*(.+)$/);
+  if (multi) {
+    const each = parseSize(multi[2]);
+    return each && { amount: each.amount * Number(multi[1]), unit: each.unit };
+  }
+  const volume = text.match(/^(\d+(?:\.\d+)?)\s*(ml|g|(?:fl\.?\s*)?oz)$/);
+  if (volume) {
+    const amount = Number(volume[1]);
+    return { amount: volume[2].endsWith('oz') ? amount * ML_PER_OZ : amount, unit: 'ml' };
+  }
+  const count = text.match(/^(\d+)\s*(pads?|sheets?|patches|pieces?|count)$/);
+  return count ? { amount: Number(count[1]), unit: 'count' } : null;
+}
+
+/** Days one unit of a product lasts at typical use. */
+export function estimateCycleDays(product: Product): { days: number; basis: CycleBasis } {
+  const usage = CATEGORY_USAGE[product.category];
+  const size = parseSize(product.attributes.size);
+  const rate = size?.unit === 'count' ? usage.unitsPerDay : usage.mlPerDay;
+  const days = size && rate ? Math.round(size.amount / rate) : null;
+  if (days === null) return { days: usage.fallbackDays, basis: 'category' };
+  return { days: Math.min(days, usage.maxDays ?? days), basis: 'size' };
+}
+
+const toTime = (date: string) => new Date(date.slice(0, 10)).getTime();
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+interface Purchase {
+  time: number;
+  date: string;
+  quantity: number;
+}
+
+/**
+ * Estimate when each product the customer bought for themselves runs out.
+ *
+ * Products bought more than once use the median days-per-unit between their
+ * orders. Single purchases use the size-based estimate, scaled by how fast
+ * this customer goes through their repeat purchases relative to the estimate.
+ * Gifts and returned orders are ignored. Sorted soonest run-out first.
+ */
+export function predictReplenishment(
+  orders: OrderRecord[],
+  catalog: Product[],
+  now: Date = new Date(clock.now()),
+): ReplenishmentPrediction[] {
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  const purchases = new Map<string, Purchase[]>();
+  for (const order of orders) {
+    if (order.status === 'returned') continue;
+    for (const item of order.lineItems) {
+      if (item.isGift || !byId.has(item.productId)) continue;
+      const list = purchases.get(item.productId) ?? [];
+      list.push({ time: toTime(order.orderDate), date: order.orderDate.slice(0, 10), quantity: Math.max(1, item.quantity) });
+      purchases.set(item.productId, list);
+    }
+  }
+
+  const cycles = new Map<string, { days: number; basis: CycleBasis }>();
+  const paces: number[] = [];
+  for (const [productId, list] of purchases) {
+    list.sort((a, b) => a.time - b.time);
+    const estimate = estimateCycleDays(byId.get(productId)!);
+    const intervals = list.slice(1)
+      .map((p, i) => (p.time - list[i].time) / DAY_MS / list[i].quantity)
+      .filter((days) => days > 0); // same-day orders say nothing about usage
+    if (intervals.length) {
+      const days = Math.round(median(intervals));
+      cycles.set(productId, { days, basis: 'history' });
+      paces.push(days / estimate.days);
+    } else {
+      cycles.set(productId, estimate);
+    }
+  }
+
+  const pace = paces.length ? Math.min(MAX_PACE, Math.max(MIN_PACE, median(paces))) : 1;
+  const today = toTime(now.toISOString());
+  const predictions: ReplenishmentPrediction[] = [];
+
+  for (const [productId, list] of purchases) {
+    const last = list[list.length - 1];
+    const cycle = cycles.get(productId)!;
+    const cycleDays = cycle.basis === 'history' ? cycle.days : Math.round(cycle.days * pace);
+    const runOut = last.time + cycleDays * last.quantity * DAY_MS;
+    const daysLeft = Math.round((runOut - today) / DAY_MS);
+    if (daysLeft < -LAPSED_AFTER_DAYS) continue;
+
+    predictions.push({
+      product: byId.get(productId)!,
+      lastOrderedAt: last.date,
+      quantity: last.quantity,
+      cycleDays,
+      basis: cycle.basis,
+      runOutDate: toDate(runOut),
+      daysLeft,
+      status: daysLeft <= DUE_WITHIN_DAYS ? 'due' : 'upcoming',
+    });
+  }
+
+  return predictions.sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/** One line per prediction for the agent, e.g. "Cloud Cream Cleanser (cleanser-gentle): …". */
+export function describeReplenishment(p: ReplenishmentPrediction): string {
+  const when = p.daysLeft < 0
+    ? `likely ran out around ${p.runOutDate}`
+    : `runs out around ${p.runOutDate} (${p.daysLeft} days)`;
+  const basis = p.basis === 'history' ? 'reorder history' : p.basis === 'size' ? 'product size' : 'category average';
+  return `${p.product.name} (${p.product.id}): last ordered ${p.lastOrderedAt} x${p.quantity}, ${when}; ~${p.cycleDays} days per unit from ${basis}`;
+}
@@ -0,0 +1,22 @@
+import type { CycleBasis } from '@/types/customer';
+import type { Product } from '@/types/product';
+
+export type { CycleBasis };
+
+export type ReplenishmentStatus = 'due' | 'upcoming';
+
+export interface ReplenishmentPrediction {
+  product: Product;
+  /** Order date of the most recent purchase (YYYY-MM-DD). */
+  lastOrderedAt: string;
+  /** Units bought in that order. */
+  quantity: number;
+  /** How long one unit lasts this customer, in days. */
+  cycleDays: number;
+  basis: CycleBasis;
+  /** Estimated day the last purchase runs out (YYYY-MM-DD). */
+  runOutDate: string;
+  /** Days until run-out; negative once it has likely run out. */
+  daysLeft: number;
+  status: ReplenishmentStatus;
+}
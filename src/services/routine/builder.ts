@@ -0,0 +1,155 @@
+import type { ProfilePreferences } from '@/types/customer';
+import type { Product } from '@/types/product';
+import type { RoutineConflict, RoutineSession, RoutineStep, RoutineStepKind, SkinRoutine } from '@/types/routine';
+import { ROUTINE_STEP_ORDER } from '@/types/routine';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import { checkProductSafety } from '@/services/ingredients';
+import { activesIn, findIngredientConflicts } from './conflicts';
+
+export interface RoutineInput {
+  /** Latest skin analysis. Without one the routine is built from profile concerns alone. */
+  analysis?: SkinAnalysisResult;
+  preferences?: Partial<Pick<ProfilePreferences, 'skinType' | 'concerns' | 'allergies' | 'fragrancePreference'>>;
+  catalog: Product[];
+}
+
+/** Which product-catalog concern tags address each analysis concern. */
+const CONCERN_TAGS: Record<string, string[]> = {
+  hydration: ['hydration', 'intense hydration', 'barrier repair'],
+  redness: ['redness', 'calming', 'reactive skin', 'sensitive skin'],
+  sensitivity: ['barrier repair', 'calming', 'sensitive skin', 'reactive skin', 'fragrance sensitivity'],
+  pore: ['pores', 'oil control'],
+  texture: ['texture', 'exfoliation'],
+  oiliness: ['oil control', 'lightweight'],
+  acne: ['acne', 'blemishes', 'acne-safe'],
+  wrinkle: ['anti-aging', 'fine lines', 'wrinkles'],
+  firmness: ['firming', 'anti-aging'],
+  spot: ['dark spots', 'brightening', 'even tone'],
+  uneven_tone: ['even tone', 'brightening'],
+  radiance: ['brightening', 'dullness', 'glow'],
+  uv_damage: ['sun protection', 'anti-aging'],
+};
+
+const SESSION_STEPS: Record<RoutineSession, RoutineStepKind[]> = {
+  morning: [...ROUTINE_STEP_ORDER],
+  evening: ROUTINE_STEP_ORDER.filter((step) => step !== 'sunscreen'),
+};
+
+// Concerns below this analysis score are healthy enough not to steer the routine
+const MIN_FOCUS_SCORE = 20;
+
+interface Focus {
+  label: string;
+  tags: string[];
+  weight: number;
+}
+
+function focusFrom(input: RoutineInput): Focus[] {
+  const fromAnalysis: Focus[] = (input.analysis?.concerns ?? [])
+    .filter((c) => c.score >= MIN_FOCUS_SCORE && CONCERN_TAGS[c.concern])
+    .sort((a, b) => b.score - a.score)
+    .map((c) => ({ label: c.label, tags: CONCERN_TAGS[c.concern], weight: c.score / 100 }));
+  // Profile concerns are free text — match them against catalog tags as written,
+  // skipping any the analysis already covers
+  const covered = new Set(fromAnalysis.flatMap((f) => f.tags));
+  const fromProfile: Focus[] = (input.preferences?.concerns ?? [])
+    .filter((concern) => !covered.has(concern.toLowerCase()))
+    .map((concern) => ({ label: concern, tags: [concern.toLowerCase()], weight: 0.5 }));
+  return [...fromAnalysis, ...fromProfile];
+}
+
+/** In stock and free of anything the ingredient guard would warn about. */
+function isAllowed(product: Product, input: RoutineInput): boolean {
+  return product.inStock && checkProductSafety(product, input.preferences).length === 0;
+}
+
+/** SPF belongs in the morning; retinoids break down in sunlight so belong at night. */
+function suitsSession(product: Product, step: RoutineStepKind, session: RoutineSession): boolean {
+  const hasSpf = product.category === 'sunscreen' || (product.attributes.concerns ?? []).includes('sun protection');
+  if (session === 'evening' && hasSpf) return false;
+  if (session === 'morning' && activesIn(product).has('retinoid')) return false;
+  // An SPF moisturizer would double up with the sunscreen step
+  if (session === 'morning' && step === 'moisturizer' && hasSpf) return false;
+  return true;
+}
+
+interface Candidate {
+  product: Product;
+  score: number;
+  matched: string[];
+}
+
+function rank(product: Product, input: RoutineInput, focus: Focus[], session: RoutineSession, chosen: Set<string>): Candidate {
+  const tags = (product.attributes.concerns ?? []).map((c) => c.toLowerCase());
+  const matched: string[] = [];
+  let score = product.rating / 10;
+  for (const f of focus) {
+    if (f.tags.some((tag) => tags.includes(tag))) {
+      score += f.weight * 3;
+      matched.push(f.label);
+    }
+  }
+  const skinType = input.analysis?.skinType ?? input.preferences?.skinType;
+  if (skinType && product.attributes.skinType?.includes(skinType)) score += 1;
+  const actives = activesIn(product);
+  // Exfoliating acids and vitamin C each have a better half of the day
+  if (session === 'morning' && (actives.has('aha') || actives.has('bha'))) score -= 1;
+  if (session === 'evening' && actives.has('vitamin-c')) score -= 1;
+  // Reusing a product across sessions keeps the regimen (and the bag) small
+  if (chosen.has(product.id)) score += 0.5;
+  return { product, score, matched };
+}
+
+function describeReason(candidate: Candidate, skinType?: ProfilePreferences['skinType']): string | undefined {
+  const parts: string[] = [];
+  if (candidate.matched.length) parts.push(`Targets ${candidate.matched.slice(0, 2).join(' & ').toLowerCase()}`);
+  if (skinType && candidate.product.attributes.skinType?.includes(skinType)) parts.push(`suits ${skinType} skin`);
+  return parts.length ? parts.join(' · ') : undefined;
+}
+
+/**
+ * Build an ordered morning and evening regimen from a skin analysis, the
+ * customer's preferences and the catalog.
+ *
+ * Each step takes the best-ranked allowed product that layers safely with the
+ * steps already chosen for that session. When every candidate for a step
+ * conflicts, the best one is used anyway and the conflict is reported.
+ */
+export function buildRoutine(input: RoutineInput): SkinRoutine {
+  const focus = focusFrom(input);
+  const skinType = input.analysis?.skinType ?? input.preferences?.skinType;
+  const allowed = input.catalog.filter((p) => isAllowed(p, input));
+  const chosen = new Set<string>();
+  const conflicts: RoutineConflict[] = [];
+
+  const buildSession = (session: RoutineSession): RoutineStep[] => {
+    const steps: RoutineStep[] = [];
+    for (const step of SESSION_STEPS[session]) {
+      const ranked = allowed
+        .filter((p) => p.category === step && suitsSession(p, step, session))
+        .map((p) => rank(p, input, focus, session, chosen))
+        .sort((a, b) => b.score - a.score);
+      if (!ranked.length) continue;
+
+      const clashesWith = (c: Candidate) => steps.flatMap((s) => findIngredientConflicts(s.product, c.product, session));
+      const pick = ranked.find((c) => clashesWith(c).length === 0) ?? ranked[0];
+      conflicts.push(...clashesWith(pick));
+      chosen.add(pick.product.id);
+      steps.push({ step, product: pick.product, reason: describeReason(pick, skinType) });
+    }
+    return steps;
+  };
+
+  const morning = buildSession('morning');
+  const evening = buildSession('evening');
+  return { morning, evening, conflicts, focus: [...new Set(focus.map((f) => f.label))].slice(0, 3) };
+}
+
+/** Each product once, in the order it first appears — what "add the routine to my bag" adds. */
+export function routineProducts(routine: Pick<SkinRoutine, 'morning' | 'evening'>): Product[] {
+  const seen = new Map<string, Product>();
+  for (const { product } of [...routine.morning, ...routine.evening]) {
+    if (!seen.has(product.id)) seen.set(product.id, product);
+  }
+  return [...seen.values()];
+}
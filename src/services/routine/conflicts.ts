@@ -0,0 +1,78 @@
+import type { Product } from '@/types/product';
+import type { RoutineConflict, RoutineSession, RoutineStep } from '@/types/routine';
+
+/** Active ingredient families that matter for layering. */
+export type ActiveFamily = 'retinoid' | 'aha' | 'bha' | 'vitamin-c' | 'benzoyl-peroxide';
+
+const ACTIVE_PATTERNS: [ActiveFamily, RegExp][] = [
+  // Bakuchiol is a retinol alternative precisely because it doesn't behave like one
+  ['retinoid', /\bretin(ol|oid|al|yl)|tretinoin|adapalene/i],
+  ['aha', /glycolic|lactic acid|mandelic|\baha\b/i],
+  ['bha', /salicylic|\bbha\b/i],
+  ['vitamin-c', /ascorb|vitamin c\b/i],
+  ['benzoyl-peroxide', /benzoyl peroxide/i],
+];
+
+interface ConflictRule {
+  families: [ActiveFamily, ActiveFamily];
+  message: string;
+}
+
+const CONFLICT_RULES: ConflictRule[] = [
+  { families: ['retinoid', 'aha'], message: 'Retinol and AHAs together over-exfoliate and irritate — alternate nights instead.' },
+  { families: ['retinoid', 'bha'], message: 'Retinol and salicylic acid together dry out and irritate the skin — alternate nights instead.' },
+  { families: ['retinoid', 'benzoyl-peroxide'], message: 'Benzoyl peroxide can deactivate retinol — use one in the morning and the other at night.' },
+  { families: ['retinoid', 'vitamin-c'], message: 'Vitamin C and retinol work best apart — vitamin C in the morning, retinol at night.' },
+  { families: ['vitamin-c', 'benzoyl-peroxide'], message: 'Benzoyl peroxide oxidises vitamin C — keep them in different sessions.' },
+];
+
+/** Key ingredients where the catalog lists them, otherwise the full ingredient list. */
+function ingredientsOf(product: Product): string[] {
+  return product.attributes.keyIngredients?.length
+    ? product.attributes.keyIngredients
+    : product.attributes.ingredients ?? [];
+}
+
+/** Each active family in the product, with the ingredient that put it there. */
+export function activesIn(product: Product): Map<ActiveFamily, string> {
+  const actives = new Map<ActiveFamily, string>();
+  for (const ingredient of ingredientsOf(product)) {
+    for (const [family, pattern] of ACTIVE_PATTERNS) {
+      if (!actives.has(family) && pattern.test(ingredient)) actives.set(family, ingredient);
+    }
+  }
+  return actives;
+}
+
+/** Conflicts between two products used in the same session. */
+export function findIngredientConflicts(a: Product, b: Product, session: RoutineSession): RoutineConflict[] {
+  if (a.id === b.id) return [];
+  const activesA = activesIn(a);
+  const activesB = activesIn(b);
+  const conflicts: RoutineConflict[] = [];
+  for (const { families: [x, y], message } of CONFLICT_RULES) {
+    for (const [first, second] of [[x, y], [y, x]] as const) {
+      const ingredientA = activesA.get(first);
+      const ingredientB = activesB.get(second);
+      if (ingredientA && ingredientB) {
+        conflicts.push({ session, productIds: [a.id, b.id], ingredients: [ingredientA, ingredientB], message });
+        break;
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Every conflicting pair within each session of a routine. */
+export function checkRoutineConflicts(routine: { morning: RoutineStep[]; evening: RoutineStep[] }): RoutineConflict[] {
+  const conflicts: RoutineConflict[] = [];
+  for (const session of ['morning', 'evening'] as const) {
+    const steps = routine[session];
+    steps.forEach((step, i) => {
+      for (const later of steps.slice(i + 1)) {
+        conflicts.push(...findIngredientConflicts(step.product, later.product, session));
+      }
+    });
+  }
+  return conflicts;
+}
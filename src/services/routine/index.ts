@@ -0,0 +1,4 @@
+export { buildRoutine, routineProducts } from './builder';
+export { activesIn, checkRoutineConflicts, findIngredientConflicts } from './conflicts';
+export type { RoutineInput } from './builder';
+export type { ActiveFamily } from './conflicts';
@@ -0,0 +1,25 @@
+export {
+  DEFAULT_LIST_NAMES,
+  addToList,
+  createList,
+  decodeSharedList,
+  describeListAlert,
+  describeSavedList,
+  encodeSharedList,
+  findListAlerts,
+  isListKind,
+  markListsSeen,
+  removeFromList,
+} from './lists';
+export {
+  GUEST_LISTS_OWNER,
+  deserializeSavedLists,
+  loadSavedLists,
+  mergeSavedLists,
+  removeSavedLists,
+  saveSavedLists,
+  savedListsOwnerFor,
+  savedListsStorageKey,
+  serializeSavedLists,
+} from './storage';
+export type { SavedList, SavedListAlert, SavedListAlertKind, SavedListItem, SavedListKind, SharedList } from './types';
@@ -0,0 +1,152 @@
+import type { Product } from '@/types/product';
+import type { SavedList, SavedListAlert, SavedListKind, SharedList } from './types';
+
+/** Name a list gets when it's created on demand, e.g. by the first heart tap. */
+export const DEFAULT_LIST_NAMES: Record<SavedListKind, string> = {
+  wishlist: 'Wishlist',
+  gift: 'Gift ideas',
+  saved_for_later: 'Saved for later',
+};
+
+export function isListKind(value: unknown): value is SavedListKind {
+  return typeof value === 'string' && Object.keys(DEFAULT_LIST_NAMES).includes(value);
+}
+
+export function createList(
+  name: string,
+  kind: SavedListKind,
+  details: { recipient?: string; occasion?: string } = {},
+  now: Date = new Date(),
+): SavedList {
+  return {
+    id: `list-${crypto.randomUUID()}`,
+    name: name.trim() || DEFAULT_LIST_NAMES[kind],
+    kind,
+    ...(details.recipient?.trim() && { recipient: details.recipient.trim() }),
+    ...(details.occasion?.trim() && { occasion: details.occasion.trim() }),
+    createdAt: now.toISOString(),
+    items: [],
+  };
+}
+
+/** Add a product to the top of a list. Already-saved products are left where they are. */
+export function addToList(list: SavedList, product: Product, now: Date = new Date()): SavedList {
+  if (list.items.some((i) => i.productId === product.id)) return list;
+  return {
+    ...list,
+    items: [
+      { productId: product.id, addedAt: now.toISOString(), lastSeenPrice: product.price, lastSeenInStock: product.inStock },
+      ...list.items,
+    ],
+  };
+}
+
+export function removeFromList(list: SavedList, productId: string): SavedList {
+  return list.items.some((i) => i.productId === productId)
+    ? { ...list, items: list.items.filter((i) => i.productId !== productId) }
+    : list;
+}
+
+/**
+ * Saved products that are cheaper, or back in stock, compared with when the
+ * customer last saw them. A product saved to several lists alerts once.
+ */
+export function findListAlerts(lists: SavedList[], catalog: Product[]): SavedListAlert[] {
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  const alerts = new Map<string, SavedListAlert>();
+  for (const list of lists) {
+    for (const item of list.items) {
+      const product = byId.get(item.productId);
+      if (!product || alerts.has(product.id)) continue;
+      if (product.inStock && !item.lastSeenInStock) {
+        alerts.set(product.id, { kind: 'back_in_stock', product, listId: list.id, listName: list.name });
+      } else if (product.inStock && product.price < item.lastSeenPrice) {
+        alerts.set(product.id, {
+          kind: 'price_drop', product, listId: list.id, listName: list.name, previousPrice: item.lastSeenPrice,
+        });
+      }
+    }
+  }
+  return [...alerts.values()];
+}
+
+/** Move every item's baseline to the current catalog. Returns the same array when nothing changed. */
+export function markListsSeen(lists: SavedList[], catalog: Product[]): SavedList[] {
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  let changed = false;
+  const next = lists.map((list) => {
+    let listChanged = false;
+    const items = list.items.map((item) => {
+      const product = byId.get(item.productId);
+      if (!product || (product.price === item.lastSeenPrice && product.inStock === item.lastSeenInStock)) return item;
+      listChanged = true;
+      return { ...item, lastSeenPrice: product.price, lastSeenInStock: product.inStock };
+    });
+    if (!listChanged) return list;
+    changed = true;
+    return { ...list, items };
+  });
+  return changed ? next : lists;
+}
+
+export function describeListAlert(alert: SavedListAlert): string {
+  return alert.kind === 'back_in_stock'
+    ? `${alert.product.name} is back in stock`
+    : `${alert.product.name} dropped to $${alert.product.price.toFixed(2)} (was $${alert.previousPrice!.toFixed(2)})`;
+}
+
+/** One line per list for the agent, e.g. "Gift ideas (gift for Maria, anniversary): …". */
+export function describeSavedList(list: SavedList, catalog: Product[]): string {
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  const purpose = list.kind === 'gift'
+    ? ['gift', list.recipient && `for ${list.recipient}`, list.occasion].filter(Boolean).join(' ')
+    : list.kind === 'saved_for_later' ? 'moved out of the bag' : 'wishlist';
+  const items = list.items.map((item) => {
+    const product = byId.get(item.productId);
+    if (!product) return item.productId;
+    const notes = [
+      !product.inStock && 'out of stock',
+      product.price < item.lastSeenPrice && `price dropped from $${item.lastSeenPrice.toFixed(2)}`,
+    ].filter(Boolean);
+    return `${product.name} (${product.id}, $${product.price.toFixed(2)}${notes.length ? `, ${notes.join(', ')}` : ''})`;
+  });
+  return `${list.name} (${purpose}): ${items.join('; ') || 'empty'}`;
+}
+
+// ─── Sharing ──────────────────────────────────────────────────────
+// Lists live on the customer's device, so a share link carries the list itself.
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (token: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(token.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0)));
+
+export function encodeSharedList(list: SavedList): string {
+  const shared: SharedList = {
+    name: list.name,
+    kind: list.kind,
+    ...(list.recipient && { recipient: list.recipient }),
+    ...(list.occasion && { occasion: list.occasion }),
+    productIds: list.items.map((i) => i.productId),
+  };
+  return toBase64Url(JSON.stringify(shared));
+}
+
+/** Read a share token, or null if it's truncated or tampered with. */
+export function decodeSharedList(token: string): SharedList | null {
+  try {
+    const data = JSON.parse(fromBase64Url(token));
+    if (typeof data?.name !== 'string' || !Array.isArray(data.productIds)) return null;
+    if (!isListKind(data.kind)) return null;
+    return {
+      name: data.name,
+      kind: data.kind,
+      ...(typeof data.recipient === 'string' && { recipient: data.recipient }),
+      ...(typeof data.occasion === 'string' && { occasion: data.occasion }),
+      productIds: data.productIds.filter((id: unknown): id is string => typeof id === 'string'),
+    };
+  } catch {
+    return null;
+  }
+}
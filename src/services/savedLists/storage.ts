@@ -0,0 +1,98 @@
+import type { CustomerProfile } from '@/types/customer';
+import type { SavedList, SavedListItem } from './types';
+import { isListKind } from './lists';
+
+/** Key used for visitors we can't tie to a known customer (anonymous and appended tiers). */
+export const GUEST_LISTS_OWNER = 'guest';
+
+const STORAGE_PREFIX = 'beaute-lists:';
+const STORAGE_VERSION = 1;
+
+/** Known customers keep their own lists; everyone else shares the guest lists, as with the bag. */
+export function savedListsOwnerFor(customer: CustomerProfile | null): string {
+  if (!customer || customer.merkuryIdentity?.identityTier === 'appended') return GUEST_LISTS_OWNER;
+  return customer.id;
+}
+
+export function savedListsStorageKey(owner: string): string {
+  return `${STORAGE_PREFIX}${owner}`;
+}
+
+function isStoredItem(value: unknown): value is SavedListItem {
+  const item = value as SavedListItem | null;
+  return !!item &&
+    typeof item.productId === 'string' &&
+    typeof item.addedAt === 'string' &&
+    typeof item.lastSeenPrice === 'number' &&
+    typeof item.lastSeenInStock === 'boolean';
+}
+
+function isStoredList(value: unknown): value is SavedList {
+  const list = value as SavedList | null;
+  return !!list &&
+    typeof list.id === 'string' &&
+    typeof list.name === 'string' &&
+    isListKind(list.kind) &&
+    Array.isArray(list.items);
+}
+
+/** Parse serialized lists, dropping malformed lists and items rather than losing everything. */
+export function deserializeSavedLists(raw: string | null): SavedList[] {
+  if (!raw) return [];
+  try {
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || !Array.isArray(data.lists)) return [];
+    return data.lists.filter(isStoredList).map((list: SavedList) => ({ ...list, items: list.items.filter(isStoredItem) }));
+  } catch {
+    return [];
+  }
+}
+
+export function serializeSavedLists(lists: SavedList[]): string {
+  return JSON.stringify({ version: STORAGE_VERSION, lists });
+}
+
+export function loadSavedLists(owner: string): SavedList[] {
+  try {
+    return deserializeSavedLists(localStorage.getItem(savedListsStorageKey(owner)));
+  } catch {
+    return [];
+  }
+}
+
+export function saveSavedLists(owner: string, lists: SavedList[]): void {
+  try {
+    const key = savedListsStorageKey(owner);
+    if (!lists.length) localStorage.removeItem(key);
+    else localStorage.setItem(key, serializeSavedLists(lists));
+  } catch (err) {
+    console.warn('[saved-lists] Failed to persist lists:', err);
+  }
+}
+
+export function removeSavedLists(owner: string): void {
+  try {
+    localStorage.removeItem(savedListsStorageKey(owner));
+  } catch {
+    // Storage unavailable (private mode) — nothing to remove
+  }
+}
+
+/**
+ * Fold a guest's lists into a known customer's when they identify mid-session.
+ * Lists with the same kind and name are combined; the rest are added after
+ * the customer's own.
+ */
+export function mergeSavedLists(known: SavedList[], guest: SavedList[]): SavedList[] {
+  const merged = known.map((list) => ({ ...list, items: [...list.items] }));
+  for (const guestList of guest) {
+    const match = merged.find((l) => l.kind === guestList.kind && l.name.toLowerCase() === guestList.name.toLowerCase());
+    if (!match) {
+      merged.push(guestList);
+      continue;
+    }
+    const ids = new Set(match.items.map((i) => i.productId));
+    match.items.push(...guestList.items.filter((i) => !ids.has(i.productId)));
+  }
+  return merged;
+}
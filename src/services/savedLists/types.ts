@@ -0,0 +1,45 @@
+import type { Product } from '@/types/product';
+
+export type SavedListKind = 'wishlist' | 'gift' | 'saved_for_later';
+
+export interface SavedListItem {
+  productId: string;
+  addedAt: string;
+  /** Catalog price when the item was last looked at — the baseline for price-drop alerts. */
+  lastSeenPrice: number;
+  lastSeenInStock: boolean;
+}
+
+export interface SavedList {
+  id: string;
+  name: string;
+  kind: SavedListKind;
+  /** Gift lists: who it's for, e.g. "Maria". */
+  recipient?: string;
+  /** Gift lists: what it's for, e.g. "anniversary". */
+  occasion?: string;
+  createdAt: string;
+  /** Newest first. */
+  items: SavedListItem[];
+}
+
+export type SavedListAlertKind = 'price_drop' | 'back_in_stock';
+
+/** A saved product that got cheaper or came back since the customer last saw it. */
+export interface SavedListAlert {
+  kind: SavedListAlertKind;
+  product: Product;
+  listId: string;
+  listName: string;
+  /** Price the customer last saw, for price drops. */
+  previousPrice?: number;
+}
+
+/** What a share link carries — enough to rebuild the list from the catalog, nothing personal beyond the names. */
+export interface SharedList {
+  name: string;
+  kind: SavedListKind;
+  recipient?: string;
+  occasion?: string;
+  productIds: string[];
+}
@@ -3,6 +3,9 @@
  * Queries, creates, and updates scene asset records via the SOQL/sObject proxy.
  */
 
+import { and, eq, gte, soql } from '@/services/soql';
+import type { FieldOf, SelectedRow } from '@/services/soql';
+
 export interface SceneAsset {
   id: string;
   setting: string;
@@ -14,6 +17,23 @@ export interface SceneAsset {
   sceneType: string;
 }
 
+const SCENE_FIELDS = [
+  'Id', 'Setting__c', 'Mood__c', 'Image_URL__c', 'Content_Version_Id__c', 'Quality_Score__c', 'Usage_Count__c', 'Scene_Type__c',
+] as const satisfies readonly FieldOf<'Scene_Asset__c'>[];
+
+function toSceneAsset(rec: SelectedRow<'Scene_Asset__c', typeof SCENE_FIELDS[number]>): SceneAsset {
+  return {
+    id: rec.Id,
+    setting: rec.Setting__c,
+    mood: rec.Mood__c ?? undefined,
+    imageUrl: rec.Image_URL__c,
+    contentVersionId: rec.Content_Version_Id__c ?? undefined,
+    qualityScore: rec.Quality_Score__c || 3,
+    usageCount: rec.Usage_Count__c || 0,
+    sceneType: rec.Scene_Type__c,
+  };
+}
+
 /**
  * Find the best scene asset matching a setting and optional mood.
  */
@@ -24,38 +44,31 @@ export async function findSceneAsset(
   if (!token) return null;
 
   try {
-    const sceneType = params.sceneType || 'product';
-    let soql = `SELECT Id, Setting__c, Mood__c, Image_URL__c, Content_Version_Id__c, Quality_Score__c, Usage_Count__c, Scene_Type__c FROM Scene_Asset__c WHERE Setting__c = '${params.setting}' AND Scene_Type__c = '${sceneType}' AND Quality_Score__c >= 2.0`;
+    const query = soql('Scene_Asset__c')
+      .select(...SCENE_FIELDS)
+      .where(and(
+        eq('Setting__c', params.setting),
+        eq('Scene_Type__c', params.sceneType || 'product'),
+        gte('Quality_Score__c', 2),
+      ))
+      .orderBy('Quality_Score__c', 'DESC')
+      .orderBy('Last_Used__c', 'DESC', 'LAST')
+      .limit(1);
 
     if (params.mood) {
-      soql += ` AND Mood__c = '${params.mood}'`;
+      query.where(eq('Mood__c', params.mood));
     }
 
-    soql += ' ORDER BY Quality_Score__c DESC, Last_Used__c DESC NULLS LAST LIMIT 1';
-
     const response = await fetch('/api/sf-query', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ soql, token }),
+      body: JSON.stringify({ soql: query.toString(), token }),
     });
 
     if (!response.ok) return null;
 
-    const data = await response.json();
-    const records = data.records || [];
-    if (records.length === 0) return null;
-
-    const rec = records[0];
-    return {
-      id: rec.Id,
-      setting: rec.Setting__c,
-      mood: rec.Mood__c,
-      imageUrl: rec.Image_URL__c,
-      contentVersionId: rec.Content_Version_Id__c,
-      qualityScore: rec.Quality_Score__c || 3,
-      usageCount: rec.Usage_Count__c || 0,
-      sceneType: rec.Scene_Type__c,
-    };
+    const [rec] = query.rows(await response.json());
+    return rec ? toSceneAsset(rec) : null;
   } catch {
     return null;
   }
@@ -0,0 +1,129 @@
+import type { Product } from '@/types/product';
+import type {
+  FacetValue,
+  PriceBucket,
+  PriceRange,
+  ProductFlag,
+  SearchFacets,
+  SearchFilters,
+  SearchSort,
+  SkinTypeFacet,
+} from './types';
+
+export const FLAG_LABELS: Record<ProductFlag, string> = {
+  isVegan: 'Vegan',
+  isCrueltyFree: 'Cruelty-free',
+  isFragranceFree: 'Fragrance-free',
+  isParabenFree: 'Paraben-free',
+  isHypoallergenic: 'Hypoallergenic',
+  isDermatologistTested: 'Dermatologist tested',
+  isTravel: 'Travel size',
+};
+
+export const SKIN_TYPES: SkinTypeFacet[] = ['dry', 'oily', 'combination', 'sensitive', 'normal'];
+
+export const PRICE_BUCKETS: (PriceRange & { label: string })[] = [
+  { max: 25, label: 'Under $25' },
+  { min: 25, max: 50, label: '$25 – $50' },
+  { min: 50, max: 100, label: '$50 – $100' },
+  { min: 100, label: '$100 & up' },
+];
+
+export const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Most relevant',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  rating: 'Top rated',
+  reviews: 'Most reviewed',
+};
+
+type FacetKey = 'brands' | 'price' | 'skinTypes' | 'concerns' | 'flags';
+
+const titleCase = (text: string) => text.replace(/\b\w/g, (c) => c.toUpperCase());
+
+/** Min inclusive, max exclusive — so adjacent buckets never both claim a $50 product. */
+export function inPriceRange(price: number, range: PriceRange): boolean {
+  return (range.min === undefined || price >= range.min) && (range.max === undefined || price < range.max);
+}
+
+/**
+ * Whether a product passes the facet filters. Values within one facet are
+ * OR'd (brand A or brand B); facets are AND'd, and so are flags. `ignore`
+ * skips one facet, which is how its counts stay useful while it is selected.
+ */
+export function matchesFilters(product: Product, filters: SearchFilters, ignore?: FacetKey): boolean {
+  const attributes = product.attributes ?? {};
+  if (filters.category && product.category !== filters.category) return false;
+  if (ignore !== 'brands' && filters.brands?.length && !filters.brands.includes(product.brand)) return false;
+  if (ignore !== 'price' && filters.price && !inPriceRange(product.price, filters.price)) return false;
+  if (ignore !== 'skinTypes' && filters.skinTypes?.length
+    && !filters.skinTypes.some((t) => attributes.skinType?.includes(t))) return false;
+  if (ignore !== 'concerns' && filters.concerns?.length
+    && !filters.concerns.some((c) => attributes.concerns?.some((pc) => pc.toLowerCase() === c))) return false;
+  if (ignore !== 'flags' && filters.flags?.some((flag) => !attributes[flag])) return false;
+  return true;
+}
+
+function countValues<T extends string>(
+  products: Product[],
+  valuesOf: (product: Product) => T[],
+  selected: T[] = [],
+  label: (value: T) => string = (value) => value,
+): FacetValue<T>[] {
+  const counts = new Map<T, number>();
+  for (const product of products) {
+    for (const value of new Set(valuesOf(product))) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  // A selected value stays visible (at zero) so it can be cleared
+  for (const value of selected) if (!counts.has(value)) counts.set(value, 0);
+  return [...counts].map(([value, count]) => ({ value, label: label(value), count }));
+}
+
+/** Facet counts for products that already match the query and category. */
+export function computeFacets(products: Product[], filters: SearchFilters): SearchFacets {
+  const except = (facet: FacetKey) => products.filter((p) => matchesFilters(p, filters, facet));
+
+  const brands = countValues(except('brands'), (p) => [p.brand], filters.brands)
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const skinTypes = countValues(except('skinTypes'), (p) => p.attributes?.skinType ?? [], filters.skinTypes)
+    .sort((a, b) => SKIN_TYPES.indexOf(a.value) - SKIN_TYPES.indexOf(b.value))
+    .map((f) => ({ ...f, label: titleCase(f.label) }));
+  const concerns = countValues(
+    except('concerns'),
+    (p) => (p.attributes?.concerns ?? []).map((c) => c.toLowerCase()),
+    filters.concerns,
+    titleCase,
+  ).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  // Flags narrow each other (Vegan and Fragrance-free), so count within the fully filtered set
+  const filtered = products.filter((p) => matchesFilters(p, filters));
+  const flags = (Object.keys(FLAG_LABELS) as ProductFlag[])
+    .map((flag) => ({ value: flag, label: FLAG_LABELS[flag], count: filtered.filter((p) => p.attributes?.[flag]).length }))
+    .filter((f) => f.count > 0 || filters.flags?.includes(f.value));
+
+  const forPrices = except('price');
+  const prices: PriceBucket[] = PRICE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: forPrices.filter((p) => inPriceRange(p.price, bucket)).length,
+  }));
+
+  return { brands, skinTypes, concerns, flags, prices };
+}
+
+/** Reorder for a sort; `relevance` keeps the incoming (ranked) order. */
+export function sortProducts(products: Product[], sort: SearchSort): Product[] {
+  const sorted = [...products];
+  switch (sort) {
+    case 'price-asc':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return sorted.sort((a, b) => b.price - a.price);
+    case 'rating':
+      return sorted.sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount);
+    case 'reviews':
+      return sorted.sort((a, b) => b.reviewCount - a.reviewCount);
+    case 'relevance':
+    default:
+      return sorted;
+  }
+}
@@ -0,0 +1,25 @@
+export { isCommerceSearchEnabled, searchCatalog, searchProducts } from './search';
+export { ProductSearchIndex, editDistance, tokenize } from './searchIndex';
+export {
+  FLAG_LABELS,
+  PRICE_BUCKETS,
+  SKIN_TYPES,
+  SORT_LABELS,
+  computeFacets,
+  inPriceRange,
+  matchesFilters,
+  sortProducts,
+} from './facets';
+export { hasActiveFilters, parseSearchParams, toSearchParams } from './url';
+export type { ScoredProduct } from './searchIndex';
+export type {
+  FacetValue,
+  PriceBucket,
+  PriceRange,
+  ProductFlag,
+  SearchFacets,
+  SearchFilters,
+  SearchResult,
+  SearchSort,
+  SkinTypeFacet,
+} from './types';
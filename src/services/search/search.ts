@@ -0,0 +1,58 @@
+import type { Product } from '@/types/product';
+import { getCommerceClient } from '@/services/commerce';
+import { computeFacets, matchesFilters, sortProducts } from './facets';
+import { ProductSearchIndex } from './searchIndex';
+import type { SearchFilters, SearchResult, SearchSort } from './types';
+
+const useMockData = import.meta.env.VITE_USE_MOCK_DATA !== 'false';
+
+/** Commerce product search is used when the storefront is wired to a live webstore. */
+export function isCommerceSearchEnabled(): boolean {
+  return !useMockData && !!import.meta.env.VITE_COMMERCE_SITE_ID;
+}
+
+const indexes = new WeakMap<Product[], ProductSearchIndex>();
+
+/** One index per catalog array — building it tokenizes every description. */
+function indexFor(catalog: Product[]): ProductSearchIndex {
+  let index = indexes.get(catalog);
+  if (!index) {
+    index = new ProductSearchIndex(catalog);
+    indexes.set(catalog, index);
+  }
+  return index;
+}
+
+/** Narrow query matches by facets, count facets, and sort. */
+function refine(matches: Product[], filters: SearchFilters, sort: SearchSort, source: SearchResult['source']): SearchResult {
+  const inCategory = filters.category ? matches.filter((p) => p.category === filters.category) : matches;
+  const products = sortProducts(inCategory.filter((p) => matchesFilters(p, filters)), sort);
+  return { products, facets: computeFacets(inCategory, filters), total: products.length, source };
+}
+
+/** Search and facet the local catalog synchronously. */
+export function searchCatalog(catalog: Product[], filters: SearchFilters, sort: SearchSort = 'relevance'): SearchResult {
+  const matches = indexFor(catalog).search(filters.query ?? '').map(({ product }) => product);
+  return refine(matches, filters, sort, 'local');
+}
+
+/**
+ * Search through Commerce when it is configured, otherwise the local catalog.
+ * Commerce only narrows by query and category: every other facet is applied
+ * here, because its counts have to include the values the shopper hasn't
+ * picked. A failed Commerce call falls back to the local index.
+ */
+export async function searchProducts(catalog: Product[], filters: SearchFilters, sort: SearchSort = 'relevance'): Promise<SearchResult> {
+  if (!isCommerceSearchEnabled()) return searchCatalog(catalog, filters, sort);
+  try {
+    const matches = await getCommerceClient().searchProducts({
+      query: filters.query,
+      category: filters.category,
+      limit: 100,
+    });
+    return refine(matches, filters, sort, 'commerce');
+  } catch (err) {
+    console.warn('[search] Commerce product search failed, using the local catalog:', err);
+    return searchCatalog(catalog, filters, sort);
+  }
+}
@@ -0,0 +1,165 @@
+import type { Product } from '@/types/product';
+
+/** How much a query term counts when it matches each field. */
+const FIELD_WEIGHTS = {
+  name: 5,
+  brand: 4,
+  category: 3,
+  concerns: 2.5,
+  ingredients: 1.5,
+  shortDescription: 1,
+  description: 0.5,
+} as const;
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'for', 'with', 'of', 'in', 'to', 'my', 'me', 'i']);
+
+/** Shopper vocabulary that the catalog spells differently. */
+const QUERY_SYNONYMS: Record<string, string[]> = {
+  spf: ['sunscreen'],
+  sunblock: ['sunscreen'],
+  suncream: ['sunscreen'],
+  perfume: ['fragrance'],
+  cologne: ['fragrance'],
+  scent: ['fragrance'],
+  moisturiser: ['moisturizer'],
+  lotion: ['moisturizer'],
+  wrinkle: ['anti-aging'],
+  pimple: ['acne', 'blemish'],
+  zit: ['acne', 'blemish'],
+  hydrating: ['hydration'],
+};
+
+// Relative credit for how a query term reached an indexed token
+const EXACT = 1;
+const SYNONYM = 0.9;
+const PREFIX = 0.75;
+const ONE_TYPO = 0.5;
+const TWO_TYPOS = 0.35;
+
+/** Lower-case, accent-free word tokens with trailing plurals folded ("Serums" → "serum"). */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .flatMap((word) => [word, ...(word.includes('-') ? word.split('-') : [])])
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/** Edit distance with adjacent transpositions, giving up once it exceeds `max`. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, rows[i - 2][j - 2] + 1);
+      rows[i][j] = d;
+      rowMin = Math.min(rowMin, d);
+    }
+    if (i > 0 && rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+}
+
+/** Typos tolerated for a term of this length — none for short words, where one typo is another word. */
+function typoBudget(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+export interface ScoredProduct {
+  product: Product;
+  score: number;
+}
+
+/**
+ * In-memory full-text index over a product catalog. Every query term has to
+ * match some field (exactly, by prefix, by synonym, or within a typo budget);
+ * products are ranked by the weighted quality of those matches.
+ */
+export class ProductSearchIndex {
+  private docs: { product: Product; weights: Map<string, number>; name: string }[];
+  private vocabulary = new Set<string>();
+
+  constructor(products: Product[]) {
+    this.docs = products.map((product) => {
+      const weights = new Map<string, number>();
+      const add = (text: string | undefined, weight: number) => {
+        for (const token of tokenize(text ?? '')) {
+          weights.set(token, Math.max(weights.get(token) ?? 0, weight));
+          this.vocabulary.add(token);
+        }
+      };
+      const { attributes } = product;
+      add(product.name, FIELD_WEIGHTS.name);
+      add(product.brand, FIELD_WEIGHTS.brand);
+      add(product.category, FIELD_WEIGHTS.category);
+      add(attributes?.concerns?.join(' '), FIELD_WEIGHTS.concerns);
+      add([...(attributes?.keyIngredients ?? []), ...(attributes?.ingredients ?? [])].join(' '), FIELD_WEIGHTS.ingredients);
+      add(product.shortDescription, FIELD_WEIGHTS.shortDescription);
+      add(product.description, FIELD_WEIGHTS.description);
+      return { product, weights, name: tokenize(product.name).join(' ') };
+    });
+  }
+
+  /** Indexed tokens a query term can stand for, with the credit each earns. */
+  private expand(term: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    const credit = (token: string, quality: number) => {
+      if (quality > (matches.get(token) ?? 0)) matches.set(token, quality);
+    };
+    for (const synonym of QUERY_SYNONYMS[term] ?? []) credit(synonym, SYNONYM);
+    const budget = typoBudget(term);
+    for (const token of this.vocabulary) {
+      if (token === term) credit(token, EXACT);
+      else if (term.length >= 2 && token.startsWith(term)) credit(token, PREFIX);
+      else if (budget > 0) {
+        const distance = editDistance(term, token, budget);
+        if (distance > budget) continue;
+        credit(token, distance === 1 ? ONE_TYPO : TWO_TYPOS);
+      }
+    }
+    return matches;
+  }
+
+  /** Products matching every term of `query`, best first. An empty query matches everything in catalog order. */
+  search(query: string): ScoredProduct[] {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length) return this.docs.map(({ product }) => ({ product, score: 0 }));
+
+    const expansions = terms.map((term) => this.expand(term));
+    const phrase = terms.join(' ');
+    const results: ScoredProduct[] = [];
+    for (const doc of this.docs) {
+      let score = 0;
+      let matchedAll = true;
+      for (const expansion of expansions) {
+        let best = 0;
+        for (const [token, quality] of expansion) {
+          const weight = doc.weights.get(token);
+          if (weight) best = Math.max(best, quality * weight);
+        }
+        if (!best) {
+          matchedAll = false;
+          break;
+        }
+        score += best;
+      }
+      if (!matchedAll) continue;
+      if (terms.length > 1 && doc.name.includes(phrase)) score += FIELD_WEIGHTS.name;
+      results.push({ product: doc.product, score });
+    }
+    return results.sort((a, b) => b.score - a.score || b.product.rating - a.product.rating);
+  }
+}
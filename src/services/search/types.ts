@@ -0,0 +1,54 @@
+import type { Product, ProductAttributes, ProductCategory } from '@/types/product';
+
+export type SkinTypeFacet = NonNullable<ProductAttributes['skinType']>[number];
+
+/** Boolean product attributes that can be filtered on. */
+export type ProductFlag = keyof Pick<
+  ProductAttributes,
+  'isVegan' | 'isCrueltyFree' | 'isFragranceFree' | 'isParabenFree' | 'isHypoallergenic' | 'isDermatologistTested' | 'isTravel'
+>;
+
+export type SearchSort = 'relevance' | 'price-asc' | 'price-desc' | 'rating' | 'reviews';
+
+export interface PriceRange {
+  min?: number;
+  max?: number;
+}
+
+export interface SearchFilters {
+  query?: string;
+  category?: ProductCategory;
+  brands?: string[];
+  price?: PriceRange;
+  skinTypes?: SkinTypeFacet[];
+  concerns?: string[];
+  flags?: ProductFlag[];
+}
+
+export interface FacetValue<T extends string = string> {
+  value: T;
+  label: string;
+  /** Products matching this value given every other active filter. */
+  count: number;
+}
+
+export interface PriceBucket extends PriceRange {
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  brands: FacetValue[];
+  skinTypes: FacetValue<SkinTypeFacet>[];
+  concerns: FacetValue[];
+  flags: FacetValue<ProductFlag>[];
+  prices: PriceBucket[];
+}
+
+export interface SearchResult {
+  products: Product[];
+  facets: SearchFacets;
+  total: number;
+  /** Where the matches came from — the local index, or Commerce product search. */
+  source: 'local' | 'commerce';
+}
@@ -0,0 +1,72 @@
+import { SKIN_TYPES, SORT_LABELS } from './facets';
+import type { ProductFlag, SearchFilters, SearchSort, SkinTypeFacet } from './types';
+
+/** Short, readable URL values for each flag (`?flag=vegan&flag=fragrance-free`). */
+const FLAG_SLUGS: Record<ProductFlag, string> = {
+  isVegan: 'vegan',
+  isCrueltyFree: 'cruelty-free',
+  isFragranceFree: 'fragrance-free',
+  isParabenFree: 'paraben-free',
+  isHypoallergenic: 'hypoallergenic',
+  isDermatologistTested: 'derm-tested',
+  isTravel: 'travel',
+};
+
+const FLAG_BY_SLUG = new Map(Object.entries(FLAG_SLUGS).map(([flag, slug]) => [slug, flag as ProductFlag]));
+
+function parsePrice(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Read filter and sort state from a query string. Unknown values are dropped
+ * rather than rejected, so a stale or hand-edited link still opens a page.
+ * The category lives in the path, not here.
+ */
+export function parseSearchParams(params: URLSearchParams): { filters: SearchFilters; sort: SearchSort } {
+  const filters: SearchFilters = {};
+  const query = params.get('q')?.trim();
+  if (query) filters.query = query;
+
+  const brands = params.getAll('brand').filter(Boolean);
+  if (brands.length) filters.brands = brands;
+
+  const skinTypes = params.getAll('skin').filter((t): t is SkinTypeFacet => SKIN_TYPES.includes(t as SkinTypeFacet));
+  if (skinTypes.length) filters.skinTypes = skinTypes;
+
+  const concerns = params.getAll('concern').map((c) => c.toLowerCase()).filter(Boolean);
+  if (concerns.length) filters.concerns = concerns;
+
+  const flags = params.getAll('flag').flatMap((slug) => FLAG_BY_SLUG.get(slug) ?? []);
+  if (flags.length) filters.flags = flags;
+
+  const min = parsePrice(params.get('min'));
+  const max = parsePrice(params.get('max'));
+  if (min !== undefined || max !== undefined) filters.price = { min, max };
+
+  const sortParam = params.get('sort') as SearchSort | null;
+  const sort = sortParam && (Object.keys(SORT_LABELS) as SearchSort[]).includes(sortParam) ? sortParam : 'relevance';
+  return { filters, sort };
+}
+
+/** The query string for a filter state — the inverse of `parseSearchParams`. */
+export function toSearchParams(filters: SearchFilters, sort: SearchSort = 'relevance'): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  filters.brands?.forEach((brand) => params.append('brand', brand));
+  filters.skinTypes?.forEach((type) => params.append('skin', type));
+  filters.concerns?.forEach((concern) => params.append('concern', concern));
+  filters.flags?.forEach((flag) => params.append('flag', FLAG_SLUGS[flag]));
+  if (filters.price?.min !== undefined) params.set('min', String(filters.price.min));
+  if (filters.price?.max !== undefined) params.set('max', String(filters.price.max));
+  if (sort !== 'relevance') params.set('sort', sort);
+  return params;
+}
+
+/** Whether any facet (not the query or category) is narrowing the results. */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return !!(filters.brands?.length || filters.skinTypes?.length || filters.concerns?.length
+    || filters.flags?.length || filters.price);
+}
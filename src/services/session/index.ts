@@ -0,0 +1,14 @@
+export {
+  SESSION_TTL_MS,
+  LIVE_SESSION_IDLE_MS,
+  sessionStorageKey,
+  directiveHistoryFrom,
+  deserializeSession,
+  serializeSession,
+  loadSession,
+  saveSession,
+  removeSession,
+  canResumeLiveSession,
+} from './storage';
+export { summarizeTranscript } from './summary';
+export type { PersistedSession, DirectiveHistoryEntry } from './storage';
@@ -0,0 +1,132 @@
+import type { AgentMessage, UIAction } from '@/types/agent';
+import type { SceneSnapshot } from '@/contexts/SceneContext';
+import type { AgentBackendSnapshot } from '@/services/agent/types';
+
+const STORAGE_PREFIX = 'beaute-session:';
+const STORAGE_VERSION = 2;
+
+/** How long a saved conversation is offered back to a returning customer. */
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Agentforce closes sessions after a period of inactivity. Past this window we
+ * don't try to reuse the old session ID and start a new one instead.
+ */
+export const LIVE_SESSION_IDLE_MS = 15 * 60 * 1000;
+
+const DEFAULT_BACKGROUND = { type: 'image' as const, value: '/assets/backgrounds/default.png' };
+
+/** One directive the agent issued, kept so a fresh session can be told what was already shown. */
+export interface DirectiveHistoryEntry {
+  action: UIAction;
+  productIds: string[];
+  at: string;
+}
+
+export interface PersistedSession {
+  savedAt: number;
+  messages: AgentMessage[];
+  suggestedActions: string[];
+  directiveHistory: DirectiveHistoryEntry[];
+  sceneSnapshot: SceneSnapshot;
+  /** The agent backend's getSessionSnapshot(), plus when it last saw a message. */
+  agentSession: (AgentBackendSnapshot & { sessionId: string; lastActiveAt: number }) | null;
+}
+
+/** Storage key for one customer's conversation with one agent. */
+export function sessionStorageKey(scope: string, customerId: string): string {
+  return `${STORAGE_PREFIX}${scope}:${customerId}`;
+}
+
+/** Flatten every directive in a transcript into history entries, oldest first. */
+export function directiveHistoryFrom(messages: AgentMessage[]): DirectiveHistoryEntry[] {
+  return messages.flatMap((m) => {
+    const directives = m.uiDirectives?.length ? m.uiDirectives : m.uiDirective ? [m.uiDirective] : [];
+    return directives.map((d) => ({
+      action: d.action,
+      productIds: (d.payload?.products || []).map((p) => p.id).filter(Boolean),
+      at: new Date(m.timestamp).toISOString(),
+    }));
+  });
+}
+
+function reviveMessage(value: unknown): AgentMessage | null {
+  const msg = value as AgentMessage | null;
+  if (!msg || typeof msg.id !== 'string' || typeof msg.content !== 'string') return null;
+  if (msg.role !== 'user' && msg.role !== 'agent') return null;
+  const { isStreaming: _streaming, ...rest } = msg;
+  return { ...rest, timestamp: new Date(msg.timestamp) };
+}
+
+/**
+ * Generated backgrounds are blob: URLs that die with the page, so a restored
+ * scene falls back to the default image rather than pointing at nothing.
+ */
+function reviveScene(scene: SceneSnapshot): SceneSnapshot {
+  const bg = scene.background;
+  const transient = !bg?.value || bg.isLoading || /^(blob|data):/.test(bg.value);
+  return transient ? { ...scene, background: DEFAULT_BACKGROUND } : scene;
+}
+
+/** Parse a saved session, returning null when it's malformed, from another version, or past its TTL. */
+export function deserializeSession(raw: string | null, now = Date.now()): PersistedSession | null {
+  if (!raw) return null;
+  try {
+    const data = JSON.parse(raw);
+    if (data?.version !== STORAGE_VERSION || typeof data.savedAt !== 'number') return null;
+    if (now - data.savedAt > SESSION_TTL_MS) return null;
+    if (!data.sceneSnapshot?.layout) return null;
+    const messages = (Array.isArray(data.messages) ? data.messages : [])
+      .map(reviveMessage)
+      .filter((m: AgentMessage | null): m is AgentMessage => m !== null);
+    if (!messages.length) return null;
+    return {
+      savedAt: data.savedAt,
+      messages,
+      suggestedActions: Array.isArray(data.suggestedActions) ? data.suggestedActions : [],
+      directiveHistory: Array.isArray(data.directiveHistory) ? data.directiveHistory : [],
+      sceneSnapshot: reviveScene(data.sceneSnapshot),
+      agentSession: typeof data.agentSession?.sessionId === 'string' && typeof data.agentSession.lastActiveAt === 'number'
+        ? data.agentSession
+        : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function serializeSession(session: PersistedSession): string {
+  return JSON.stringify({ version: STORAGE_VERSION, ...session });
+}
+
+export function loadSession(scope: string, customerId: string, now = Date.now()): PersistedSession | null {
+  try {
+    const key = sessionStorageKey(scope, customerId);
+    const session = deserializeSession(localStorage.getItem(key), now);
+    if (!session) localStorage.removeItem(key);
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(scope: string, customerId: string, session: PersistedSession): void {
+  try {
+    localStorage.setItem(sessionStorageKey(scope, customerId), serializeSession(session));
+  } catch (err) {
+    console.warn('[session] Failed to persist conversation:', err);
+  }
+}
+
+export function removeSession(scope: string, customerId: string): void {
+  try {
+    localStorage.removeItem(sessionStorageKey(scope, customerId));
+  } catch {
+    // Storage unavailable (private mode) — nothing to remove
+  }
+}
+
+/** Whether a saved remote (Agentforce) session is recent enough that the server should still have it open. */
+export function canResumeLiveSession(session: PersistedSession, now = Date.now()): boolean {
+  return !!session.agentSession && now - session.agentSession.lastActiveAt <= LIVE_SESSION_IDLE_MS;
+}
@@ -0,0 +1,29 @@
+import type { AgentMessage } from '@/types/agent';
+import type { DirectiveHistoryEntry } from './storage';
+
+const MAX_SUMMARY_MESSAGES = 8;
+const MAX_MESSAGE_CHARS = 240;
+
+function clip(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_MESSAGE_CHARS ? `${flat.slice(0, MAX_MESSAGE_CHARS - 1)}…` : flat;
+}
+
+/**
+ * Context block for a new Agentforce session that replaces one we could not
+ * resume: the tail of the transcript and the products already on screen, so
+ * the agent picks up the thread instead of greeting the customer again.
+ */
+export function summarizeTranscript(messages: AgentMessage[], history: DirectiveHistoryEntry[]): string | undefined {
+  const recent = messages.filter((m) => m.content.trim()).slice(-MAX_SUMMARY_MESSAGES);
+  if (!recent.length) return undefined;
+
+  const lines = [`[PRIOR SESSION SUMMARY] This customer is continuing an earlier conversation (${messages.length} messages). Most recent exchange:`];
+  for (const m of recent) lines.push(`  ${m.role === 'user' ? 'Customer' : 'You'}: ${clip(m.content)}`);
+
+  const shown = [...new Set(history.flatMap((h) => h.productIds))];
+  if (shown.length) lines.push(`  Products already shown: ${shown.join(', ')}`);
+
+  lines.push('[INSTRUCTION] Continue from where the conversation left off. Do not greet the customer again or send a WELCOME_SCENE.');
+  return lines.join('\n');
+}
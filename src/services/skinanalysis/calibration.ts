@@ -0,0 +1,128 @@
+import type { SkinAnalysisProviderId, SkinAnalysisResult, SkinConcernScore } from '@/types/skinanalysis';
+import type { SkinReading } from './types';
+
+/**
+ * Stamped on every result. Bump it whenever a curve below changes so scans
+ * scored under different calibrations can be told apart in the history.
+ */
+export const CALIBRATION_VERSION = '2026.10-1';
+
+/** Shared concern keys and their display labels. */
+export const SKIN_CONCERN_LABELS: Record<string, string> = {
+  hydration: 'Dehydration',
+  redness: 'Redness',
+  pore: 'Enlarged Pores',
+  texture: 'Uneven Texture',
+  oiliness: 'Oiliness',
+  acne: 'Acne',
+  wrinkle: 'Wrinkles',
+  dark_circle: 'Dark Circles',
+  spot: 'Dark Spots',
+  radiance: 'Dullness',
+  sensitivity: 'Sensitivity',
+  uv_damage: 'UV Damage',
+  firmness: 'Loss of Firmness',
+  uneven_tone: 'Uneven Tone',
+  eye_bag: 'Eye Bags',
+};
+
+/** Linear map onto the shared scale: `score * scale + offset`, clamped to 0–100. */
+interface Curve {
+  scale: number;
+  offset: number;
+}
+
+interface ConcernCurve extends Partial<Curve> {
+  key: string;
+  /** High native score = healthy, so the concern is 100 - score */
+  inverted?: boolean;
+}
+
+interface CalibrationProfile {
+  /** Native concern key → shared concern. Native keys not listed here are dropped. */
+  concerns: Record<string, ConcernCurve>;
+  overall: Curve;
+}
+
+const IDENTITY: Curve = { scale: 1, offset: 0 };
+
+function sharedKeys(curve: Partial<Curve> = {}): Record<string, ConcernCurve> {
+  return Object.fromEntries(Object.keys(SKIN_CONCERN_LABELS).map((key) => [key, { key, ...curve }]));
+}
+
+const PROFILES: Record<SkinAnalysisProviderId, CalibrationProfile> = {
+  // The reference scale: Perfect Corp's HD models, with "positive" metrics inverted
+  perfectcorp: {
+    concerns: {
+      hd_acne:        { key: 'acne' },
+      hd_wrinkle:     { key: 'wrinkle' },
+      hd_dark_circle: { key: 'dark_circle' },
+      hd_eye_bag:     { key: 'eye_bag' },
+      hd_pore:        { key: 'pore' },
+      hd_age_spot:    { key: 'spot' },
+      hd_redness:     { key: 'redness' },
+      hd_texture:     { key: 'texture' },
+      hd_oiliness:    { key: 'oiliness' },
+      hd_moisture:    { key: 'hydration', inverted: true },
+      hd_firmness:    { key: 'firmness',  inverted: true },
+      hd_radiance:    { key: 'radiance',  inverted: true },
+    },
+    overall: IDENTITY,
+  },
+  // Gemini already answers in shared keys, but spreads concern scores wider
+  // than Perfect Corp and rates overall health lower — pull both toward the reference
+  gemini: {
+    concerns: sharedKeys({ scale: 0.85, offset: 3 }),
+    overall: { scale: 0.9, offset: 8 },
+  },
+  mock: {
+    concerns: sharedKeys(),
+    overall: IDENTITY,
+  },
+};
+
+function applyCurve(score: number, curve: Partial<Curve>): number {
+  const mapped = score * (curve.scale ?? 1) + (curve.offset ?? 0);
+  return Math.min(100, Math.max(0, Math.round(mapped)));
+}
+
+export function scoreToSeverity(score: number): SkinConcernScore['severity'] {
+  if (score < 20) return 'none';
+  if (score < 40) return 'mild';
+  if (score < 65) return 'moderate';
+  return 'severe';
+}
+
+/** Map a provider's native reading onto the shared scale, stamping provider and calibration version. */
+export function calibrateSkinReading(reading: SkinReading): SkinAnalysisResult {
+  const profile = PROFILES[reading.provider];
+
+  const concerns: SkinConcernScore[] = reading.concerns.flatMap(({ key, score: native }) => {
+    const curve = profile.concerns[key];
+    if (!curve) return [];
+    const score = applyCurve(curve.inverted ? 100 - native : native, curve);
+    return [{ concern: curve.key, label: SKIN_CONCERN_LABELS[curve.key], score, severity: scoreToSeverity(score) }];
+  });
+
+  const topConcern = concerns
+    .filter((c) => c.severity !== 'none')
+    .sort((a, b) => b.score - a.score)[0];
+
+  // Prefer the provider's aggregate; otherwise derive one from the calibrated concerns
+  const avgConcernScore = concerns.length ? concerns.reduce((s, c) => s + c.score, 0) / concerns.length : 0;
+  const overallScore = reading.overallScore !== undefined
+    ? applyCurve(reading.overallScore, profile.overall)
+    : Math.max(0, Math.round(100 - avgConcernScore));
+
+  return {
+    skinType: reading.skinType,
+    skinAge: reading.skinAge,
+    overallScore,
+    concerns,
+    primaryConcern: topConcern?.label ?? 'None detected',
+    analyzedAt: reading.capturedAt,
+    provider: reading.provider,
+    calibrationVersion: CALIBRATION_VERSION,
+    ...(reading.rawResult && { rawResult: reading.rawResult }),
+  };
+}
@@ -0,0 +1,18 @@
+import { geminiProvider, mockProvider, perfectCorpProvider } from './providers';
+import { SkinAnalysisRegistry } from './registry';
+
+let registry: SkinAnalysisRegistry | null = null;
+
+/** Perfect Corp, then Gemini Vision, then mock data — each skipped when its key isn't configured. */
+export function getSkinAnalysisRegistry(): SkinAnalysisRegistry {
+  if (!registry) {
+    registry = new SkinAnalysisRegistry([perfectCorpProvider, geminiProvider, mockProvider]);
+  }
+  return registry;
+}
+
+export { SkinAnalysisRegistry } from './registry';
+export { CALIBRATION_VERSION, SKIN_CONCERN_LABELS, calibrateSkinReading, scoreToSeverity } from './calibration';
+export { geminiProvider, mockProvider, perfectCorpProvider } from './providers';
+export type { SkinAnalyzeOptions } from './registry';
+export type { RawConcernScore, SkinAnalysisProvider, SkinReading } from './types';
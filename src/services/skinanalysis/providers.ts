@@ -0,0 +1,53 @@
+import { getGeminiClient } from '@/services/gemini/client';
+import { getPerfectCorpClient } from '@/services/perfectcorp/client';
+import { clock } from '@/services/replay/runtime';
+import type { SkinAnalysisProvider, SkinReading } from './types';
+
+/** Perfect Corp YouCam — when VITE_PERFECT_CORP_API_KEY is set. */
+export const perfectCorpProvider: SkinAnalysisProvider = {
+  id: 'perfectcorp',
+  isAvailable: () => getPerfectCorpClient().isConfigured,
+  read: (imageFile) => getPerfectCorpClient().readSkin(imageFile),
+};
+
+/** Gemini 2.0 Flash Vision — when VITE_IMAGEN_API_KEY is set, even without a Perfect Corp key. */
+export const geminiProvider: SkinAnalysisProvider = {
+  id: 'gemini',
+  isAvailable: () => Boolean(import.meta.env.VITE_IMAGEN_API_KEY),
+  read: (imageFile) => getGeminiClient().readSkin(imageFile),
+};
+
+/** Canned reading for local dev with no API keys. */
+export const mockProvider: SkinAnalysisProvider = {
+  id: 'mock',
+  isAvailable: () => true,
+  read: async (): Promise<SkinReading> => {
+    // Simulate API latency
+    await clock.sleep(2200);
+
+    return {
+      provider: 'mock',
+      skinType: 'combination',
+      skinAge: 28,
+      overallScore: 71,
+      concerns: [
+        { key: 'hydration',   score: 62 },
+        { key: 'redness',     score: 45 },
+        { key: 'pore',        score: 38 },
+        { key: 'texture',     score: 30 },
+        { key: 'oiliness',    score: 25 },
+        { key: 'uv_damage',   score: 22 },
+        { key: 'spot',        score: 18 },
+        { key: 'wrinkle',     score: 15 },
+        { key: 'dark_circle', score: 35 },
+        { key: 'eye_bag',     score: 20 },
+        { key: 'firmness',    score: 12 },
+        { key: 'radiance',    score: 40 },
+        { key: 'sensitivity', score: 55 },
+        { key: 'acne',        score: 10 },
+        { key: 'uneven_tone', score: 28 },
+      ],
+      capturedAt: new Date(clock.now()).toISOString(),
+    };
+  },
+};
@@ -0,0 +1,57 @@
+import type { SkinAnalysisProviderId, SkinAnalysisResult } from '@/types/skinanalysis';
+import { calibrateSkinReading } from './calibration';
+import type { SkinAnalysisProvider } from './types';
+
+export interface SkinAnalyzeOptions {
+  /** Try this provider first, ahead of the registry's order */
+  prefer?: SkinAnalysisProviderId;
+}
+
+/**
+ * Providers in priority order. `analyze` tries each available one in turn and
+ * calibrates the first reading that succeeds, so callers never see a provider's
+ * native scale.
+ */
+export class SkinAnalysisRegistry {
+  private providers: SkinAnalysisProvider[];
+
+  constructor(providers: SkinAnalysisProvider[] = []) {
+    this.providers = [...providers];
+  }
+
+  /** Add a provider at the end of the order, replacing any with the same id in place. */
+  register(provider: SkinAnalysisProvider): void {
+    const index = this.providers.findIndex((p) => p.id === provider.id);
+    if (index >= 0) this.providers[index] = provider;
+    else this.providers.push(provider);
+  }
+
+  /** Ids of the providers `analyze` would try, in order. */
+  available(options: SkinAnalyzeOptions = {}): SkinAnalysisProviderId[] {
+    return this.ordered(options).map((p) => p.id);
+  }
+
+  async analyze(imageFile: File, options: SkinAnalyzeOptions = {}): Promise<SkinAnalysisResult> {
+    const candidates = this.ordered(options);
+    let lastError: unknown = new Error('No skin analysis provider is available');
+
+    for (const [i, provider] of candidates.entries()) {
+      try {
+        const result = calibrateSkinReading(await provider.read(imageFile));
+        console.log(`[skin-analysis] Analysed with ${provider.id} (calibration ${result.calibrationVersion})`);
+        return result;
+      } catch (err) {
+        lastError = err;
+        const next = candidates[i + 1];
+        console.warn(`[skin-analysis] ${provider.id} failed${next ? `, trying ${next.id}` : ''}:`, err);
+      }
+    }
+    throw lastError;
+  }
+
+  private ordered({ prefer }: SkinAnalyzeOptions): SkinAnalysisProvider[] {
+    const available = this.providers.filter((p) => p.isAvailable());
+    const preferred = available.find((p) => p.id === prefer);
+    return preferred ? [preferred, ...available.filter((p) => p !== preferred)] : available;
+  }
+}
@@ -0,0 +1,30 @@
+import type { SkinAnalysisProviderId, SkinAnalysisResult } from '@/types/skinanalysis';
+
+/** One native concern score, on the provider's own key and scale. */
+export interface RawConcernScore {
+  key: string;
+  score: number;
+}
+
+/**
+ * A provider's output before calibration. Concern keys, score direction and
+ * spread are whatever the provider returns — calibration maps them onto the
+ * shared 0–100 (higher = worse) scale.
+ */
+export interface SkinReading {
+  provider: SkinAnalysisProviderId;
+  skinType: SkinAnalysisResult['skinType'];
+  skinAge: number;
+  /** The provider's own aggregate score, when it reports one (higher = healthier) */
+  overallScore?: number;
+  concerns: RawConcernScore[];
+  capturedAt: string;
+  rawResult?: Record<string, unknown>;
+}
+
+export interface SkinAnalysisProvider {
+  readonly id: SkinAnalysisProviderId;
+  /** False when the provider can't be called here, e.g. its API key isn't configured. */
+  isAvailable(): boolean;
+  read(imageFile: File): Promise<SkinReading>;
+}
@@ -0,0 +1,132 @@
+import type { SObjectName } from './schema';
+import type { Condition, FieldOf, SelectedRow, SoqlValue } from './types';
+
+const ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '"': '\\"',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\b': '\\b',
+  '\f': '\\f',
+  '%': '\\%',
+  '_': '\\_',
+};
+
+const escape = (text: string, pattern: RegExp) => text.replace(pattern, (c) => ESCAPES[c]);
+
+/** Render a value as a SOQL literal. Strings are quoted with every special character escaped. */
+export function soqlLiteral(value: SoqlValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot bind ${value} in SOQL`);
+    return String(value);
+  }
+  return `'${escape(value, /[\\'"\n\r\t\b\f]/g)}'`;
+}
+
+const IDENTIFIER = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)?$/;
+
+/** Field and object names come from the typed schema; this guards against casts around it. */
+function identifier(name: string): string {
+  if (!IDENTIFIER.test(name)) throw new Error(`Invalid SOQL identifier: ${name}`);
+  return name;
+}
+
+function compare<F extends string>(field: F, op: string, value: SoqlValue): Condition<F> {
+  return { fields: [field], text: `${identifier(field)} ${op} ${soqlLiteral(value)}` };
+}
+
+export const eq = <F extends string>(field: F, value: SoqlValue) => compare(field, '=', value);
+export const ne = <F extends string>(field: F, value: SoqlValue) => compare(field, '!=', value);
+export const gt = <F extends string>(field: F, value: number) => compare(field, '>', value);
+export const gte = <F extends string>(field: F, value: number) => compare(field, '>=', value);
+export const lt = <F extends string>(field: F, value: number) => compare(field, '<', value);
+export const lte = <F extends string>(field: F, value: number) => compare(field, '<=', value);
+
+/** Substring match. `%` and `_` in `text` match literally, not as wildcards. */
+export function contains<F extends string>(field: F, text: string): Condition<F> {
+  return { fields: [field], text: `${identifier(field)} LIKE '%${escape(text, /[\\'"\n\r\t\b\f%_]/g)}%'` };
+}
+
+/** `field IN (...)`. SOQL has no empty list, so callers skip the query instead. */
+export function inList<F extends string>(field: F, values: SoqlValue[]): Condition<F> {
+  if (values.length === 0) throw new Error(`SOQL IN on ${field} needs at least one value`);
+  return { fields: [field], text: `${identifier(field)} IN (${values.map(soqlLiteral).join(', ')})` };
+}
+
+/** `field IN (SELECT ...)` — a semi-join on another query's single selected field. */
+export function inQuery<F extends string, S extends SObjectName, G extends string>(field: F, subquery: SoqlQuery<S, G>): Condition<F> {
+  return { fields: [field], text: `${identifier(field)} IN (${subquery.toString()})` };
+}
+
+function combine<F extends string>(op: 'AND' | 'OR', conditions: Condition<F>[]): Condition<F> {
+  return {
+    fields: conditions.flatMap((c) => c.fields),
+    text: conditions.map((c) => (conditions.length > 1 ? `(${c.text})` : c.text)).join(` ${op} `),
+  };
+}
+
+export const and = <F extends string>(...conditions: Condition<F>[]) => combine('AND', conditions);
+export const or = <F extends string>(...conditions: Condition<F>[]) => combine('OR', conditions);
+
+/**
+ * A SOQL SELECT over one sObject. Field names are checked against the
+ * schema in `./schema`; every value goes through {@link soqlLiteral}.
+ */
+export class SoqlQuery<O extends SObjectName, F extends string = never> {
+  private fields: string[] = [];
+  private conditions: Condition[] = [];
+  private ordering: string[] = [];
+  private max: number | null = null;
+
+  constructor(private readonly sobject: O) {}
+
+  select<S extends FieldOf<O>>(...fields: S[]): SoqlQuery<O, F | S> {
+    this.fields.push(...fields.map(identifier));
+    return this as unknown as SoqlQuery<O, F | S>;
+  }
+
+  /** Conditions from repeated calls are ANDed together. */
+  where(condition: Condition<FieldOf<O>>): this {
+    this.conditions.push(condition);
+    return this;
+  }
+
+  orderBy(field: FieldOf<O>, direction: 'ASC' | 'DESC' = 'ASC', nulls?: 'FIRST' | 'LAST'): this {
+    this.ordering.push([identifier(field), direction, nulls && `NULLS ${nulls}`].filter(Boolean).join(' '));
+    return this;
+  }
+
+  limit(count: number): this {
+    if (!Number.isInteger(count) || count < 1) throw new Error(`Invalid SOQL limit: ${count}`);
+    this.max = count;
+    return this;
+  }
+
+  toString(): string {
+    if (this.fields.length === 0) throw new Error(`SOQL query on ${this.sobject} selects no fields`);
+    return [
+      `SELECT ${this.fields.join(', ')} FROM ${identifier(this.sobject)}`,
+      this.conditions.length > 0 && `WHERE ${combine('AND', this.conditions).text}`,
+      this.ordering.length > 0 && `ORDER BY ${this.ordering.join(', ')}`,
+      this.max !== null && `LIMIT ${this.max}`,
+    ].filter(Boolean).join(' ');
+  }
+
+  /** REST path for the query endpoint, with the statement URL-encoded. */
+  toPath(): string {
+    return `/services/data/v60.0/query/?q=${encodeURIComponent(this.toString())}`;
+  }
+
+  /** Records from a query response, typed to the selected fields. */
+  rows(response: { records?: unknown }): SelectedRow<O, F>[] {
+    return Array.isArray(response.records) ? response.records as SelectedRow<O, F>[] : [];
+  }
+}
+
+export function soql<O extends SObjectName>(sobject: O): SoqlQuery<O> {
+  return new SoqlQuery(sobject);
+}
@@ -0,0 +1,3 @@
+export { SoqlQuery, soql, soqlLiteral, eq, ne, gt, gte, lt, lte, contains, inList, inQuery, and, or } from './builder';
+export type { SObjectName, SObjectRecords } from './schema';
+export type { Condition, FieldOf, SelectedRow, SoqlValue } from './types';
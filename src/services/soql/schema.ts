@@ -0,0 +1,155 @@
+/**
+ * Record shapes for the sObjects the storefront queries, as the REST query
+ * endpoint returns them. Lookup relationships appear as nested objects
+ * (`Product2: { Name }`). Add a field here before selecting it.
+ */
+
+type Text = string | null;
+type Num = number | null;
+
+export interface SObjectRecords {
+  Contact: {
+    Id: string;
+    AccountId: Text;
+    FirstName: Text;
+    LastName: Text;
+    Email: Text;
+    Merkury_Id__c: Text;
+    Skin_Type__c: Text;
+    Skin_Concerns__c: Text;
+    Allergies__c: Text;
+    Preferred_Brands__c: Text;
+    MailingStreet: Text;
+    MailingCity: Text;
+    MailingState: Text;
+    MailingPostalCode: Text;
+    MailingCountry: Text;
+  };
+  Order: {
+    Id: string;
+    AccountId: Text;
+    OrderNumber: Text;
+    EffectiveDate: Text;
+    Status: Text;
+    TotalAmount: Num;
+    Channel__c: Text;
+    Tracking_Number__c: Text;
+    Carrier__c: Text;
+    Shipping_Status__c: Text;
+    Estimated_Delivery__c: Text;
+    Shipped_Date__c: Text;
+    Delivered_Date__c: Text;
+    Payment_Method__c: Text;
+  };
+  OrderItem: {
+    OrderId: string;
+    Product2Id: string;
+    Product2: { Name: Text } | null;
+    Quantity: number;
+    UnitPrice: number;
+  };
+  Chat_Summary__c: {
+    Id: string;
+    Customer_Id__c: Text;
+    Contact__c: Text;
+    Session_Date__c: Text;
+    Summary_Text__c: Text;
+    Sentiment__c: Text;
+    Sentiment_Score__c: Num;
+    Topics_Discussed__c: Text;
+    Products_Mentioned__c: Text;
+    Objections__c: Text;
+    Next_Best_Action__c: Text;
+  };
+  Meaningful_Event__c: {
+    Id: string;
+    Customer_Id__c: Text;
+    Contact__c: Text;
+    Event_Type__c: Text;
+    Description__c: Text;
+    Captured_At__c: Text;
+    Agent_Note__c: Text;
+    Metadata_JSON__c: Text;
+  };
+  Browse_Session__c: {
+    Customer_Id__c: Text;
+    Session_Date__c: Text;
+    Categories_Browsed__c: Text;
+    Products_Viewed__c: Text;
+    Duration_Minutes__c: Num;
+    Device__c: Text;
+  };
+  Skin_Analysis__c: {
+    Customer_Id__c: Text;
+    Analyzed_At__c: Text;
+    Skin_Type__c: Text;
+    Skin_Age__c: Num;
+    Overall_Score__c: Num;
+    Primary_Concern__c: Text;
+    Concern_Scores_JSON__c: Text;
+    Provider__c: Text;
+    Calibration_Version__c: Text;
+  };
+  Subscription__c: {
+    Customer_Id__c: Text;
+    Subscription_Key__c: string;
+    Product_Id__c: string;
+    Product_Name__c: Text;
+    Quantity__c: Num;
+    Frequency_Days__c: Num;
+    Discount_Percent__c: Num;
+    Status__c: Text;
+    Next_Order_Date__c: string;
+    Started_At__c: string;
+    Source_Order_Id__c: Text;
+  };
+  LoyaltyProgramMember: {
+    Id: string;
+    ContactId: Text;
+    MembershipNumber: Text;
+    EnrollmentDate: string;
+    MemberStatus: Text;
+  };
+  LoyaltyMemberTier: {
+    LoyaltyMemberId: string;
+    LoyaltyTierId: Text;
+    LoyaltyTier: { Name: Text } | null;
+  };
+  LoyaltyMemberCurrency: {
+    LoyaltyMemberId: string;
+    PointsBalance: Num;
+    TotalPointsAccrued: Num;
+  };
+  Agent_Captured_Profile__c: {
+    Customer_Id__c: Text;
+    Field_Name__c: string;
+    Field_Value__c: string;
+    Captured_At__c: string;
+    Captured_From__c: Text;
+    Confidence__c: Text;
+    Data_Type__c: Text;
+  };
+  Journey_Approval__c: {
+    Id: string;
+    Meaningful_Event__c: Text;
+  };
+  Scene_Asset__c: {
+    Id: string;
+    Setting__c: string;
+    Mood__c: Text;
+    Image_URL__c: string;
+    Content_Version_Id__c: Text;
+    Quality_Score__c: Num;
+    Usage_Count__c: Num;
+    Scene_Type__c: string;
+    Last_Used__c: Text;
+  };
+  ContentVersion: {
+    Id: string;
+    Description: Text;
+    IsLatest: boolean;
+    CreatedDate: string;
+  };
+}
+
+export type SObjectName = keyof SObjectRecords;
@@ -0,0 +1,30 @@
+import type { SObjectName, SObjectRecords } from './schema';
+
+/** Values that can be bound into a query; each becomes an escaped SOQL literal. */
+export type SoqlValue = string | number | boolean | null;
+
+type Scalar = string | number | boolean | null;
+
+/** Field names of a record, plus one level of lookup fields such as `Product2.Name`. */
+export type FieldPath<R> = {
+  [K in keyof R & string]: NonNullable<R[K]> extends Scalar
+    ? K
+    : `${K}.${keyof NonNullable<R[K]> & string}`;
+}[keyof R & string];
+
+export type FieldOf<O extends SObjectName> = FieldPath<SObjectRecords[O]>;
+
+type RootField<F extends string> = F extends `${infer R}.${string}` ? R : F;
+
+/** A result row holding just the selected fields (lookups keep their nested object). */
+export type SelectedRow<O extends SObjectName, F extends string> =
+  Pick<SObjectRecords[O], RootField<F> & keyof SObjectRecords[O]>;
+
+/**
+ * A rendered WHERE clause fragment. `fields` records which fields it touches,
+ * so a condition on a field the queried sObject doesn't have fails to compile.
+ */
+export interface Condition<F extends string = string> {
+  readonly fields: readonly F[];
+  readonly text: string;
+}
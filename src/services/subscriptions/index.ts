@@ -0,0 +1,13 @@
+export {
+  cancelSubscription,
+  changeFrequency,
+  createSubscription,
+  describeSubscription,
+  isSubscribable,
+  nearestFrequency,
+  pauseSubscription,
+  resumeSubscription,
+  skipNextDelivery,
+  suggestFrequency,
+} from './lifecycle';
+export type { NewSubscription } from './lifecycle';
@@ -0,0 +1,94 @@
+import type { Product } from '@/types/product';
+import type { Subscription } from '@/types/subscription';
+import { SUBSCRIBE_AND_SAVE } from '@/services/pricing';
+import { estimateCycleDays } from '@/services/replenishment';
+import { clock } from '@/services/replay/runtime';
+
+const DAY_MS = 86_400_000;
+
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+const addDays = (date: string, days: number) => toDate(new Date(date.slice(0, 10)).getTime() + days * DAY_MS);
+const today = (now: Date) => now.toISOString().slice(0, 10);
+
+export function isSubscribable(product: Product): boolean {
+  return SUBSCRIBE_AND_SAVE.categories.includes(product.category);
+}
+
+/** Closest delivery interval on offer to `days`. */
+export function nearestFrequency(days: number): number {
+  return SUBSCRIBE_AND_SAVE.frequencies.reduce((best, f) => (Math.abs(f - days) < Math.abs(best - days) ? f : best));
+}
+
+/** Default interval for a product: the offered one closest to how long a unit lasts. */
+export function suggestFrequency(product: Product, cycleDays: number = estimateCycleDays(product).days): number {
+  return nearestFrequency(cycleDays);
+}
+
+export interface NewSubscription {
+  product: Product;
+  quantity: number;
+  frequencyDays: number;
+  sourceOrderId?: string;
+}
+
+/** Start a subscription. The order that creates it is the first delivery. */
+export function createSubscription(
+  { product, quantity, frequencyDays, sourceOrderId }: NewSubscription,
+  now: Date = new Date(clock.now()),
+): Subscription {
+  const frequency = nearestFrequency(frequencyDays);
+  return {
+    id: `sub-${crypto.randomUUID()}`,
+    productId: product.id,
+    productName: product.name,
+    quantity,
+    frequencyDays: frequency,
+    discountPercent: SUBSCRIBE_AND_SAVE.percentOff,
+    status: 'active',
+    nextOrderDate: addDays(today(now), frequency),
+    createdAt: now.toISOString(),
+    ...(sourceOrderId && { sourceOrderId }),
+  };
+}
+
+// Transitions leave cancelled subscriptions untouched — cancelling is final.
+
+/** Push the next delivery back one full interval. */
+export function skipNextDelivery(sub: Subscription): Subscription {
+  if (sub.status !== 'active') return sub;
+  return { ...sub, nextOrderDate: addDays(sub.nextOrderDate, sub.frequencyDays) };
+}
+
+export function pauseSubscription(sub: Subscription): Subscription {
+  return sub.status === 'active' ? { ...sub, status: 'paused' } : sub;
+}
+
+/** Resume on the original schedule, or one interval from today if that date has passed. */
+export function resumeSubscription(sub: Subscription, now: Date = new Date(clock.now())): Subscription {
+  if (sub.status !== 'paused') return sub;
+  const nextOrderDate = sub.nextOrderDate > today(now) ? sub.nextOrderDate : addDays(today(now), sub.frequencyDays);
+  return { ...sub, status: 'active', nextOrderDate };
+}
+
+/**
+ * Change the interval, re-timing the next delivery from the last one so a
+ * shorter interval never schedules a delivery in the past.
+ */
+export function changeFrequency(sub: Subscription, frequencyDays: number, now: Date = new Date(clock.now())): Subscription {
+  if (sub.status === 'cancelled') return sub;
+  const frequency = nearestFrequency(frequencyDays);
+  const lastDelivery = addDays(sub.nextOrderDate, -sub.frequencyDays);
+  const rescheduled = addDays(lastDelivery, frequency);
+  const tomorrow = addDays(today(now), 1);
+  return { ...sub, frequencyDays: frequency, nextOrderDate: rescheduled > tomorrow ? rescheduled : tomorrow };
+}
+
+export function cancelSubscription(sub: Subscription): Subscription {
+  return sub.status === 'cancelled' ? sub : { ...sub, status: 'cancelled' };
+}
+
+/** One line per subscription for the agent. */
+export function describeSubscription(sub: Subscription): string {
+  const schedule = sub.status === 'active' ? `next delivery ${sub.nextOrderDate}` : sub.status;
+  return `${sub.productName} (${sub.productId}): x${sub.quantity} every ${sub.frequencyDays} days, ${sub.discountPercent}% off, ${schedule}`;
+}
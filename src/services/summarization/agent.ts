@@ -0,0 +1,74 @@
+import type { AgentBackend } from '@/services/agent';
+import type { AgentMessage } from '@/types/agent';
+import type { Product } from '@/types/product';
+import { resolveProductIds, sentimentLabel } from './heuristic';
+import type { ConversationSummary, Summarizer } from './types';
+
+// Keep the prompt well inside the agent's input limit on long conversations
+const MAX_TRANSCRIPT_MESSAGES = 40;
+const MAX_MESSAGE_CHARS = 500;
+
+const clip = (text: string) =>
+  text.length > MAX_MESSAGE_CHARS ? `${text.slice(0, MAX_MESSAGE_CHARS - 1)}…` : text;
+
+export function buildSummaryPrompt(messages: AgentMessage[]): string {
+  const lines = [
+    '[SUMMARIZE] The conversation below has ended. Reply with ONLY a JSON object — no directives, no other text:',
+    '{"summary": "2-3 sentences on what the customer wanted and how it ended", "sentimentScore": <number from -1 to 1>, ' +
+      '"topics": ["..."], "productsMentioned": ["product name or ID"], "objections": ["..."], ' +
+      '"nextBestAction": "one concrete step for the next session"}',
+    'Transcript:',
+  ];
+  for (const m of messages.filter((m) => m.content.trim()).slice(-MAX_TRANSCRIPT_MESSAGES)) {
+    lines.push(`  ${m.role === 'user' ? 'Customer' : 'You'}: ${clip(m.content)}`);
+  }
+  return lines.join('\n');
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim()) : [];
+
+/** Read the agent's JSON reply. Throws when the reply has no usable summary. */
+export function parseAgentSummary(text: string, catalog: Product[]): ConversationSummary {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) throw new Error('Agent summary reply contained no JSON object');
+
+  const raw = JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+  if (typeof raw.summary !== 'string' || !raw.summary.trim()) throw new Error('Agent summary reply had no summary text');
+  if (typeof raw.sentimentScore !== 'number' || !Number.isFinite(raw.sentimentScore)) {
+    throw new Error('Agent summary reply had no sentiment score');
+  }
+
+  const sentimentScore = Math.max(-1, Math.min(1, raw.sentimentScore));
+  const topics = stringList(raw.topics);
+  return {
+    summary: raw.summary.trim(),
+    sentiment: sentimentLabel(sentimentScore),
+    sentimentScore,
+    topicsDiscussed: topics.length ? topics : ['general inquiry'],
+    productsMentioned: resolveProductIds(stringList(raw.productsMentioned), catalog),
+    objections: stringList(raw.objections),
+    nextBestAction: typeof raw.nextBestAction === 'string' && raw.nextBestAction.trim() ? raw.nextBestAction.trim() : undefined,
+  };
+}
+
+/**
+ * Summarizer that asks the agent to write the summary. Each call opens its own
+ * anonymous session on a fresh backend so the customer's conversation is untouched.
+ */
+export function createAgentSummarizer(createBackend: () => AgentBackend): Summarizer {
+  return {
+    name: 'agent',
+    async summarize({ messages, catalog }) {
+      const backend = createBackend();
+      await backend.initSession();
+      try {
+        const response = await backend.sendMessage(buildSummaryPrompt(messages));
+        return parseAgentSummary(response.message, catalog);
+      } finally {
+        backend.endSession().catch(() => { /* session expires on its own */ });
+      }
+    },
+  };
+}
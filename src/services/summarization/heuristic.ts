@@ -0,0 +1,193 @@
+import type { AgentMessage, UIDirective } from '@/types/agent';
+import type { ChatSummary } from '@/types/customer';
+import type { Product } from '@/types/product';
+import type { ConversationSummary, Summarizer, SummaryInput } from './types';
+
+/** Scores at or beyond ±this read as positive/negative rather than neutral. */
+const SENTIMENT_THRESHOLD = 0.2;
+
+const POSITIVE_WORDS = new Set([
+  'love', 'loved', 'loving', 'great', 'perfect', 'amazing', 'awesome', 'thanks', 'thank', 'excellent', 'helpful',
+  'nice', 'happy', 'glad', 'wonderful', 'fantastic', 'gorgeous', 'beautiful', 'obsessed',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'hate', 'hated', 'bad', 'terrible', 'awful', 'disappointed', 'disappointing', 'annoying', 'annoyed', 'frustrated',
+  'frustrating', 'irritated', 'irritation', 'rash', 'worse', 'worst', 'useless', 'confusing', 'greasy', 'sticky',
+  'unhappy', 'wrong', 'problem', 'expensive', 'overpriced',
+]);
+
+// A negator flips the polarity of a sentiment word up to this many tokens after it
+const NEGATORS = new Set(['not', 'no', 'never', "don't", 'dont', "doesn't", "isn't", "wasn't", "didn't", "can't", 'cannot']);
+const NEGATION_WINDOW = 2;
+
+const TOPIC_KEYWORDS: [topic: string, keywords: string[]][] = [
+  ['moisturizer', ['moisturizer', 'hydrat']],
+  ['serum', ['serum', 'retinol']],
+  ['cleanser', ['cleanser']],
+  ['sun protection', ['sunscreen', 'spf']],
+  ['fragrance', ['fragrance', 'perfume']],
+  ['makeup', ['lipstick', 'mascara', 'foundation', 'blush']],
+  ['hair care', ['shampoo', 'conditioner', 'hair']],
+  ['travel', ['travel']],
+  ['gifting', ['gift', 'anniversary']],
+  ['skincare routine', ['routine']],
+  ['subscriptions', ['subscribe', 'subscription']],
+];
+
+/** Objections the customer can raise, as noun phrases that read after "pushed back on". */
+const OBJECTION_PATTERNS: [objection: string, pattern: RegExp][] = [
+  ['price', /\b(too (expensive|pricey|much)|over (my )?budget|cheaper|can'?t afford|overpriced)\b/],
+  ['ingredient sensitivity', /\b(allergic|irritat\w*|breaks? me out|sensitive to|reaction to)\b/],
+  ['owning a similar product', /\balready (have|own|use|bought)\b/],
+  ['needing time to decide', /\b(not sure|think about it|maybe later|need to think|not ready)\b/],
+  ['delivery timing', /\b(shipping (cost|takes)|arrive in time|delivery (time|takes)|too slow)\b/],
+  ['the scent', /\b((don'?t|do not) like (the )?(scent|smell)|(scent|smell) is too strong)\b/],
+];
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^a-z']+/).filter(Boolean);
+
+const directivesOf = (message: AgentMessage): UIDirective[] =>
+  message.uiDirectives ?? (message.uiDirective ? [message.uiDirective] : []);
+
+const hasDirective = (messages: AgentMessage[], action: UIDirective['action']) =>
+  messages.some((m) => directivesOf(m).some((d) => d.action === action));
+
+/** "a", "a and b", "a, b and c". */
+function listPhrase(items: string[]): string {
+  return items.length < 2 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+export function sentimentLabel(score: number): ChatSummary['sentiment'] {
+  if (score >= SENTIMENT_THRESHOLD) return 'positive';
+  if (score <= -SENTIMENT_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Lexicon sentiment over the customer's own messages, -1 to 1. Damped by
+ * one so a single "thanks" lands at 0.5 rather than full enthusiasm.
+ */
+export function scoreSentiment(messages: AgentMessage[]): number {
+  let positive = 0;
+  let negative = 0;
+  for (const message of messages) {
+    if (message.role !== 'user') continue;
+    let negatedFor = 0;
+    for (const token of tokenize(message.content)) {
+      if (NEGATORS.has(token)) {
+        negatedFor = NEGATION_WINDOW;
+        continue;
+      }
+      const polarity = POSITIVE_WORDS.has(token) ? 1 : NEGATIVE_WORDS.has(token) ? -1 : 0;
+      const signed = negatedFor > 0 ? -polarity : polarity;
+      if (signed > 0) positive++;
+      if (signed < 0) negative++;
+      if (negatedFor > 0) negatedFor--;
+    }
+  }
+  return Math.round(((positive - negative) / (positive + negative + 1)) * 100) / 100;
+}
+
+/** Products the agent showed or either side named, resolved to catalog entries in first-mention order. */
+export function findMentionedProducts(messages: AgentMessage[], catalog: Product[]): Product[] {
+  const byId = new Map(catalog.map((p) => [p.id, p]));
+  const found = new Map<string, Product>();
+  for (const message of messages) {
+    for (const directive of directivesOf(message)) {
+      const shown = [...(directive.payload.products ?? []), ...(directive.payload.checkoutData?.products ?? [])];
+      for (const product of shown) {
+        const known = byId.get(product.id);
+        if (known) found.set(known.id, known);
+      }
+    }
+    const text = message.content.toLowerCase();
+    for (const product of catalog) {
+      if (text.includes(product.name.toLowerCase())) found.set(product.id, product);
+    }
+  }
+  return [...found.values()];
+}
+
+/** Resolve free-form product references (IDs or names) to catalog IDs, dropping unknowns. */
+export function resolveProductIds(references: string[], catalog: Product[]): string[] {
+  const ids = new Set<string>();
+  for (const reference of references) {
+    const needle = reference.trim().toLowerCase();
+    const product = catalog.find((p) => p.id.toLowerCase() === needle || p.name.toLowerCase() === needle);
+    if (product) ids.add(product.id);
+  }
+  return [...ids];
+}
+
+export function findObjections(messages: AgentMessage[]): string[] {
+  const text = messages.filter((m) => m.role === 'user').map((m) => m.content.toLowerCase()).join('\n');
+  return OBJECTION_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([objection]) => objection);
+}
+
+function findTopics(messages: AgentMessage[], products: Product[]): string[] {
+  const text = messages.map((m) => m.content.toLowerCase()).join(' ');
+  const topics = TOPIC_KEYWORDS
+    .filter(([, keywords]) => keywords.some((k) => text.includes(k)))
+    .map(([topic]) => topic);
+  if (hasDirective(messages, 'INITIATE_CHECKOUT') || /\b(checkout|buy)\b/.test(text)) topics.push('purchase intent');
+  // Categories of products the agent showed count even when the customer never named them
+  for (const product of products) {
+    const category = product.category.replace(/-/g, ' ');
+    if (!topics.includes(category)) topics.push(category);
+  }
+  return topics.length ? topics : ['general inquiry'];
+}
+
+function nextBestAction(messages: AgentMessage[], products: Product[], objections: string[]): string {
+  const lead = products[0]?.name;
+  if (hasDirective(messages, 'CONFIRM_ORDER')) {
+    return lead ? `Check in after delivery on how ${lead} is working` : 'Check in after delivery on their order';
+  }
+  if (objections.includes('price')) {
+    return lead ? `Offer a travel size, bundle or loyalty redemption on ${lead}` : 'Lead with value picks and loyalty redemptions';
+  }
+  if (objections.includes('ingredient sensitivity')) return 'Recommend fragrance-free, hypoallergenic alternatives';
+  if (hasDirective(messages, 'INITIATE_CHECKOUT')) {
+    return `Remind them about the checkout they started${lead ? ` for ${lead}` : ''}`;
+  }
+  if (lead) return `Follow up on ${lead}`;
+  return 'Ask about their skincare goals to narrow recommendations';
+}
+
+/** Summarize locally from keywords, directives and a sentiment lexicon — no network call. */
+export function summarizeHeuristically({ messages, catalog }: SummaryInput): ConversationSummary {
+  const products = findMentionedProducts(messages, catalog);
+  const objections = findObjections(messages);
+  const topics = findTopics(messages, products);
+  const sentimentScore = scoreSentiment(messages);
+  const sentiment = sentimentLabel(sentimentScore);
+
+  const sentences = [
+    topics[0] === 'general inquiry' ? 'Customer had a general inquiry.' : `Customer asked about ${listPhrase(topics)}.`,
+  ];
+  if (products.length) {
+    const named = products.slice(0, 3).map((p) => p.name);
+    const more = products.length - named.length;
+    sentences.push(`Agent showed ${listPhrase(more > 0 ? [...named, `${more} more`] : named)}.`);
+  }
+  if (objections.length) sentences.push(`Customer pushed back on ${listPhrase(objections)}.`);
+  if (hasDirective(messages, 'CONFIRM_ORDER')) sentences.push('They completed a purchase.');
+  else if (hasDirective(messages, 'INITIATE_CHECKOUT')) sentences.push('They started checkout but did not finish.');
+  sentences.push(`Overall tone was ${sentiment}.`);
+
+  return {
+    summary: sentences.join(' '),
+    sentiment,
+    sentimentScore,
+    topicsDiscussed: topics,
+    productsMentioned: products.map((p) => p.id),
+    objections,
+    nextBestAction: nextBestAction(messages, products, objections),
+  };
+}
+
+export const heuristicSummarizer: Summarizer = {
+  name: 'heuristic',
+  summarize: async (input) => summarizeHeuristically(input),
+};
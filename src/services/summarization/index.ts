@@ -0,0 +1,12 @@
+export { createSummarizer, describeChatSummary, summarizeConversation } from './summarize';
+export {
+  findMentionedProducts,
+  findObjections,
+  heuristicSummarizer,
+  resolveProductIds,
+  scoreSentiment,
+  sentimentLabel,
+  summarizeHeuristically,
+} from './heuristic';
+export { buildSummaryPrompt, createAgentSummarizer, parseAgentSummary } from './agent';
+export type { ConversationSummary, Summarizer, SummaryInput } from './types';
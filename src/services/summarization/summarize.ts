@@ -0,0 +1,37 @@
+import { createAgentBackend } from '@/services/agent';
+import type { AgentBackendConfig } from '@/services/agent';
+import type { ChatSummary } from '@/types/customer';
+import { createAgentSummarizer } from './agent';
+import { heuristicSummarizer, summarizeHeuristically } from './heuristic';
+import type { ConversationSummary, Summarizer, SummaryInput } from './types';
+
+/**
+ * The summarizer for a conversation on this backend: Agentforce writes its own
+ * summaries; the rules engine can't, so it gets the heuristic one.
+ */
+export function createSummarizer(config: AgentBackendConfig): Summarizer {
+  if (config.kind === 'rules') return heuristicSummarizer;
+  // Always a fresh client — the shared one may still hold the customer's live session
+  const agentId = config.agentId || import.meta.env.VITE_AGENTFORCE_AGENT_ID || '';
+  return createAgentSummarizer(() => createAgentBackend({ kind: 'agentforce', agentId }));
+}
+
+/** Summarize with `summarizer`, falling back to the heuristic summary if it fails. */
+export async function summarizeConversation(input: SummaryInput, summarizer: Summarizer): Promise<ConversationSummary> {
+  if (summarizer === heuristicSummarizer) return summarizeHeuristically(input);
+  try {
+    return await summarizer.summarize(input);
+  } catch (err) {
+    console.warn(`[summary] ${summarizer.name} summarizer failed, using heuristic:`, err);
+    return summarizeHeuristically(input);
+  }
+}
+
+/** One line for the agent's session context: the summary plus what to do about it. */
+export function describeChatSummary(chat: ChatSummary): string {
+  const details = [`sentiment: ${chat.sentiment}`];
+  if (chat.objections?.length) details.push(`objections: ${chat.objections.join(', ')}`);
+  if (chat.productsMentioned?.length) details.push(`products: ${chat.productsMentioned.join(', ')}`);
+  if (chat.nextBestAction) details.push(`next best action: ${chat.nextBestAction}`);
+  return `[${chat.sessionDate}] ${chat.summary} (${details.join('; ')})`;
+}
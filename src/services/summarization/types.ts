@@ -0,0 +1,22 @@
+import type { AgentMessage } from '@/types/agent';
+import type { ChatSummary } from '@/types/customer';
+import type { Product } from '@/types/product';
+
+export interface SummaryInput {
+  messages: AgentMessage[];
+  /** Catalog that product mentions are resolved against. */
+  catalog: Product[];
+}
+
+/** A finished conversation, ready to be stored as a Chat_Summary__c record. */
+export type ConversationSummary = Required<Omit<ChatSummary, 'id' | 'sessionDate' | 'nextBestAction'>> &
+  Pick<ChatSummary, 'nextBestAction'>;
+
+/**
+ * Turns a transcript into a {@link ConversationSummary}. Implemented by the
+ * local heuristic summarizer and by one that asks the agent itself.
+ */
+export interface Summarizer {
+  readonly name: string;
+  summarize(input: SummaryInput): Promise<ConversationSummary>;
+}
@@ -0,0 +1,132 @@
+import React from 'react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, fireEvent, renderHook, screen } from '@testing-library/react';
+import { CustomerProvider } from '@/contexts/CustomerContext';
+import { CartProvider, useCart } from '@/contexts/CartContext';
+import { SceneProvider } from '@/contexts/SceneContext';
+import { ActivityToastProvider } from '@/components/ActivityToast';
+import { useCartDirectives } from '@/hooks/useCartDirectives';
+import type { CartDirectiveItem, UIDirective } from '@/types/agent';
+import type { Product } from '@/types/product';
+import { byId } from './fixtures/products';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <CustomerProvider>
+    <CartProvider>
+      <SceneProvider>
+        <ActivityToastProvider>{children}</ActivityToastProvider>
+      </SceneProvider>
+    </CartProvider>
+  </CustomerProvider>
+);
+
+function renderCartDirectives() {
+  return renderHook(() => ({ directives: useCartDirectives(), cart: useCart() }), { wrapper });
+}
+
+const cartDirective = (
+  action: 'ADD_TO_CART' | 'REMOVE_FROM_CART',
+  cartItems: CartDirectiveItem[],
+  products?: Product[],
+): UIDirective => ({ action, payload: { cartItems, products } });
+
+const bag = (items: { product: Product; quantity: number }[]) =>
+  items.map((i) => [i.product.id, i.quantity]);
+
+describe('useCartDirectives', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('adds catalog products by ID, Salesforce ID or name', async () => {
+    const { result } = renderCartDirectives();
+    await act(async () => {
+      await result.current.directives.handlers.ADD_TO_CART!(cartDirective('ADD_TO_CART', [
+        { productId: 'serum-vitamin-c', quantity: 2 },
+        { productId: byId('moisturizer-sensitive').salesforceId! },
+        { productId: byId('cleanser-gentle').name.toUpperCase() },
+      ]));
+    });
+
+    expect(bag(result.current.cart.items)).toEqual([['serum-vitamin-c', 2], ['moisturizer-sensitive', 1], ['cleanser-gentle', 1]]);
+    expect(result.current.directives.drainResults()).toEqual([{
+      action: 'ADD_TO_CART',
+      status: 'applied',
+      summary: expect.stringContaining('2 × '),
+    }]);
+  });
+
+  it('reports what it could not add as a partial result, and drains once', async () => {
+    const soldOut = { ...byId('eye-cream'), inStock: false };
+    const { result } = renderCartDirectives();
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.directives.handlers.ADD_TO_CART!(cartDirective('ADD_TO_CART', [
+        { productId: 'serum-retinol' },
+        { productId: 'eye-cream' },
+        { productId: 'no-such-product' },
+      ], [soldOut]));
+    });
+
+    expect(outcome).toEqual({ status: 'ok' });
+    expect(bag(result.current.cart.items)).toEqual([['serum-retinol', 1]]);
+    const [report] = result.current.directives.drainResults();
+    expect(report.status).toBe('partial');
+    expect(report.summary).toContain('(out of stock)');
+    expect(report.summary).toContain('"no-such-product" (not in catalog)');
+    expect(result.current.directives.drainResults()).toEqual([]);
+  });
+
+  it('fails the directive when nothing could be removed', async () => {
+    const { result } = renderCartDirectives();
+    let outcome;
+    await act(async () => {
+      outcome = await result.current.directives.handlers.REMOVE_FROM_CART!(
+        cartDirective('REMOVE_FROM_CART', [{ productId: 'serum-retinol' }]),
+      );
+    });
+
+    expect(outcome).toEqual({ status: 'failed', error: expect.stringContaining('(not in bag)') });
+    expect(result.current.directives.drainResults()[0].status).toBe('rejected');
+  });
+
+  it('removes part of a line, or all of it when no quantity is given', async () => {
+    const { result } = renderCartDirectives();
+    act(() => {
+      result.current.cart.addItem(byId('serum-retinol'), 3);
+      result.current.cart.addItem(byId('toner-aha'), 2);
+    });
+    await act(async () => {
+      await result.current.directives.handlers.REMOVE_FROM_CART!(cartDirective('REMOVE_FROM_CART', [
+        { productId: 'serum-retinol', quantity: 1 },
+        { productId: 'toner-aha' },
+      ]));
+    });
+
+    expect(bag(result.current.cart.items)).toEqual([['serum-retinol', 2]]);
+  });
+
+  it('lets a remove see an add from earlier in the same turn', async () => {
+    const { result } = renderCartDirectives();
+    const { handlers } = result.current.directives;
+    await act(async () => {
+      await handlers.ADD_TO_CART!(cartDirective('ADD_TO_CART', [{ productId: 'serum-niacinamide', quantity: 2 }]));
+      await handlers.REMOVE_FROM_CART!(cartDirective('REMOVE_FROM_CART', [{ productId: 'serum-niacinamide', quantity: 1 }]));
+    });
+
+    expect(bag(result.current.cart.items)).toEqual([['serum-niacinamide', 1]]);
+    expect(result.current.directives.drainResults().map((r) => r.status)).toEqual(['applied', 'applied']);
+  });
+
+  it('undoes exactly what the directive added', async () => {
+    const { result } = renderCartDirectives();
+    act(() => result.current.cart.addItem(byId('mask-hydrating'), 1));
+    await act(async () => {
+      await result.current.directives.handlers.ADD_TO_CART!(
+        cartDirective('ADD_TO_CART', [{ productId: 'mask-hydrating', quantity: 2 }]),
+      );
+    });
+    expect(bag(result.current.cart.items)).toEqual([['mask-hydrating', 3]]);
+
+    act(() => fireEvent.click(screen.getByRole('button', { name: 'Undo' })));
+    expect(bag(result.current.cart.items)).toEqual([['mask-hydrating', 1]]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EMPTY_CART,
+  cartStorageKey,
+  deserializeCart,
+  loadCart,
+  mergeCarts,
+  ownerFromStorageKey,
+  saveCart,
+  serializeCart,
+} from '@/services/cart';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+
+const [first, second] = MOCK_PRODUCTS;
+
+describe('cart storage', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips a cart per owner', () => {
+    const cart = { items: [{ product: first, quantity: 2 }], promoCode: 'BEAUTE10', commerce: null };
+    saveCart('customer-1', cart);
+    expect(loadCart('customer-1')).toEqual(cart);
+    expect(loadCart('customer-2')).toEqual(EMPTY_CART);
+  });
+
+  it('removes the entry when the cart is emptied', () => {
+    saveCart('customer-1', { items: [{ product: first, quantity: 1 }], promoCode: null, commerce: null });
+    saveCart('customer-1', EMPTY_CART);
+    expect(localStorage.getItem(cartStorageKey('customer-1'))).toBeNull();
+  });
+
+  it('drops malformed items and ignores unknown versions', () => {
+    const raw = JSON.stringify({
+      version: 1,
+      items: [{ product: first, quantity: 1 }, { product: { id: 'x' }, quantity: 1 }, { product: second, quantity: 0 }],
+      promoCode: 42,
+    });
+    expect(deserializeCart(raw)).toEqual({ items: [{ product: first, quantity: 1 }], promoCode: null, commerce: null });
+    expect(deserializeCart(JSON.stringify({ version: 99, items: [] }))).toEqual(EMPTY_CART);
+    expect(deserializeCart('{not json')).toEqual(EMPTY_CART);
+  });
+
+  it('maps storage keys back to owners', () => {
+    expect(ownerFromStorageKey(cartStorageKey('guest'))).toBe('guest');
+    expect(ownerFromStorageKey('beaute-exit-intent-shown')).toBeNull();
+    expect(ownerFromStorageKey(null)).toBeNull();
+  });
+
+  it('serializes deterministically so unchanged carts are not rewritten', () => {
+    const cart = { items: [{ product: first, quantity: 1 }], promoCode: null, commerce: null };
+    expect(serializeCart(cart)).toBe(serializeCart(deserializeCart(serializeCart(cart))));
+  });
+});
+
+describe('mergeCarts', () => {
+  it('sums quantities and appends guest-only lines', () => {
+    const known = { items: [{ product: first, quantity: 1 }], promoCode: null, commerce: null };
+    const guest = {
+      items: [{ product: first, quantity: 2 }, { product: second, quantity: 1 }],
+      promoCode: 'INSTA15',
+      commerce: null,
+    };
+    const merged = mergeCarts(known, guest);
+    expect(merged.items.map((i) => [i.product.id, i.quantity])).toEqual([[first.id, 3], [second.id, 1]]);
+    expect(merged.promoCode).toBe('INSTA15');
+    expect(known.items[0].quantity).toBe(1);
+  });
+
+  it("keeps the known customer's promo and Commerce cart", () => {
+    const known = { items: [], promoCode: 'VIP20', commerce: { cartId: 'known', lines: {} } };
+    const guest = { items: [], promoCode: 'INSTA15', commerce: { cartId: 'guest', lines: {} } };
+    const merged = mergeCarts(known, guest);
+    expect(merged.promoCode).toBe('VIP20');
+    expect(merged.commerce?.cartId).toBe('known');
+  });
+});
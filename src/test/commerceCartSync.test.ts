@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { syncCommerceCart } from '@/services/cart';
+import type { CommerceCartRef } from '@/services/cart';
+import type { CommerceClient } from '@/services/commerce';
+import { byId } from './fixtures/products';
+
+/** Just the cart calls syncCommerceCart makes; new cart items get sequential IDs. */
+function mockClient() {
+  let nextItem = 0;
+  const client = {
+    createCart: vi.fn(async () => 'cart-1'),
+    addCartItem: vi.fn(async (_cartId: string, _productId: string, _quantity: number) => `item-${++nextItem}`),
+    updateCartItem: vi.fn(async (_cartId: string, _cartItemId: string, _quantity: number) => {}),
+    deleteCartItem: vi.fn(async (_cartId: string, _cartItemId: string) => {}),
+  };
+  return { client, commerce: client as unknown as CommerceClient };
+}
+
+const serum = byId('serum-vitamin-c');
+const toner = byId('toner-aha');
+const mask = byId('mask-hydrating');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('syncCommerceCart', () => {
+  it('does nothing for an empty bag with no Commerce cart yet', async () => {
+    const { client, commerce } = mockClient();
+    expect(await syncCommerceCart(commerce, null, [])).toBeNull();
+    expect(client.createCart).not.toHaveBeenCalled();
+  });
+
+  it('creates a cart and adds every line by Salesforce ID when there is one', async () => {
+    const { client, commerce } = mockClient();
+    const ref = await syncCommerceCart(commerce, null, [
+      { product: serum, quantity: 2 },
+      { product: { ...toner, salesforceId: undefined }, quantity: 1 },
+    ]);
+
+    expect(client.addCartItem.mock.calls).toEqual([
+      ['cart-1', serum.salesforceId, 2],
+      ['cart-1', toner.id, 1],
+    ]);
+    expect(ref).toEqual({
+      cartId: 'cart-1',
+      lines: { [serum.id]: { cartItemId: 'item-1', quantity: 2 }, [toner.id]: { cartItemId: 'item-2', quantity: 1 } },
+    });
+  });
+
+  it('sends only the difference against the existing cart', async () => {
+    const { client, commerce } = mockClient();
+    const ref: CommerceCartRef = {
+      cartId: 'cart-9',
+      lines: {
+        [serum.id]: { cartItemId: 'line-serum', quantity: 1 },
+        [toner.id]: { cartItemId: 'line-toner', quantity: 1 },
+        [mask.id]: { cartItemId: 'line-mask', quantity: 2 },
+      },
+    };
+
+    const next = await syncCommerceCart(commerce, ref, [
+      { product: serum, quantity: 3 },
+      { product: mask, quantity: 2 },
+      { product: byId('eye-cream'), quantity: 1 },
+    ]);
+
+    expect(client.createCart).not.toHaveBeenCalled();
+    expect(client.deleteCartItem.mock.calls).toEqual([['cart-9', 'line-toner']]);
+    expect(client.updateCartItem.mock.calls).toEqual([['cart-9', 'line-serum', 3]]);
+    expect(client.addCartItem).toHaveBeenCalledTimes(1);
+    expect(next?.lines).toEqual({
+      [serum.id]: { cartItemId: 'line-serum', quantity: 3 },
+      [mask.id]: { cartItemId: 'line-mask', quantity: 2 },
+      'eye-cream': { cartItemId: 'item-1', quantity: 1 },
+    });
+    expect(ref.lines[toner.id]).toBeDefined();
+  });
+
+  it('keeps the previous mapping when the cart cannot be created', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, commerce } = mockClient();
+    client.createCart.mockRejectedValueOnce(new Error('Commerce request failed (503)'));
+
+    expect(await syncCommerceCart(commerce, null, [{ product: serum, quantity: 1 }])).toBeNull();
+    expect(client.addCartItem).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[cart] Commerce cart creation failed:', expect.any(Error));
+  });
+
+  it('records the calls that succeeded before a failure so the next sync retries only the rest', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, commerce } = mockClient();
+    client.addCartItem.mockImplementationOnce(async () => 'item-serum');
+    client.addCartItem.mockRejectedValueOnce(new Error('Commerce request failed (400)'));
+    const items = [{ product: serum, quantity: 1 }, { product: toner, quantity: 1 }];
+
+    const partial = await syncCommerceCart(commerce, null, items);
+    expect(partial?.lines).toEqual({ [serum.id]: { cartItemId: 'item-serum', quantity: 1 } });
+    expect(warn).toHaveBeenCalledWith('[cart] Commerce cart sync incomplete:', expect.any(Error));
+
+    client.addCartItem.mockClear();
+    const retried = await syncCommerceCart(commerce, partial, items);
+    expect(client.addCartItem.mock.calls).toEqual([['cart-1', toner.salesforceId || toner.id, 1]]);
+    expect(Object.keys(retried!.lines)).toEqual([serum.id, toner.id]);
+  });
+});
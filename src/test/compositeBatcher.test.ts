@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestBatcher } from '@/services/datacloud/batcher';
+import type { BatchOutcome } from '@/services/datacloud/batcher';
+import {
+  KEEPALIVE_MAX_BYTES,
+  collectionOutcomes,
+  compositeOutcomes,
+  fitsComposite,
+  fitsKeepaliveCollection,
+} from '@/services/datacloud/composite';
+import { DataCloudCustomerService } from '@/services/datacloud';
+import type { DataCloudWriteService } from '@/services/datacloud';
+import type { CollectionResult, CompositeSubrequest } from '@/services/datacloud/types';
+import type { ChatSummary } from '@/types/customer';
+
+const query = (soql: string): CompositeSubrequest => ({ method: 'GET', url: `/services/data/v60.0/query/?q=${soql}` });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('RequestBatcher', () => {
+  it('coalesces requests in the window and settles each with its own outcome', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const send = vi.fn(async (reqs: number[]): Promise<BatchOutcome<number>[]> =>
+      reqs.map((n) => (n < 0 ? { ok: false, error: `bad ${n}` } : { ok: true, value: n * 10 })));
+    const batcher = new RequestBatcher<number, number>({ label: 'test', send, fits: (batch) => batch.length < 3, windowMs: 5 });
+
+    const results = await Promise.allSettled([1, 2, -3, 4].map((n) => batcher.add(n)));
+
+    expect(send.mock.calls.map(([reqs]) => reqs)).toEqual([[1, 2, -3], [4]]);
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : (r.reason as Error).message))).toEqual([10, 20, 'bad -3', 40]);
+    expect(warn).toHaveBeenCalledWith('[test] 1 of 3 sub-requests failed:', ['bad -3']);
+  });
+
+  it('keeps groups apart and rejects a whole batch when the call itself fails', async () => {
+    const send = vi.fn(async (reqs: string[]) => {
+      if (reqs[0].startsWith('b')) throw new Error('Data Cloud collection PATCH failed (503): unavailable');
+      return reqs.map(() => ({ ok: true as const, value: undefined }));
+    });
+    const batcher = new RequestBatcher<string, void>({ label: 'test', send, fits: () => true, groupBy: (r) => r[0] });
+
+    const adds = ['a1', 'b1', 'a2', 'b2'].map((r) => batcher.add(r));
+    await batcher.flush();
+    const results = await Promise.allSettled(adds);
+
+    expect(send.mock.calls.map(([reqs]) => reqs)).toEqual([['a1', 'a2'], ['b1', 'b2']]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'rejected']);
+  });
+});
+
+describe('Salesforce batch limits and results', () => {
+  it('allows at most five queries and 25 sub-requests per Composite call', () => {
+    const fourQueries = Array.from({ length: 4 }, (_, i) => query(`q${i}`));
+    expect(fitsComposite(fourQueries, query('q5'))).toBe(true);
+    expect(fitsComposite([...fourQueries, query('q5')], query('q6'))).toBe(false);
+
+    const patch: CompositeSubrequest = { method: 'PATCH', url: '/services/data/v60.0/sobjects/Contact/003', body: {} };
+    expect(fitsComposite([...fourQueries, query('q5')], patch)).toBe(true);
+    expect(fitsComposite(Array(25).fill(patch), patch)).toBe(false);
+  });
+
+  it('caps keepalive collections by serialized size as well as record count', () => {
+    const record = (bytes: number) => ({ bytes });
+    expect(fitsKeepaliveCollection([record(30_000)], record(30_000))).toBe(true);
+    expect(fitsKeepaliveCollection([record(30_000), record(30_000)], record(10_000))).toBe(false);
+    expect(fitsKeepaliveCollection(Array(199).fill(record(10)), record(10))).toBe(true);
+    expect(fitsKeepaliveCollection(Array(200).fill(record(10)), record(10))).toBe(false);
+    expect(KEEPALIVE_MAX_BYTES).toBe(65_536);
+  });
+
+  it('maps sub-responses and collection results back to their requests', () => {
+    const requests = [query('a'), query('b')];
+    expect(compositeOutcomes(requests, [
+      { referenceId: 'r1', httpStatusCode: 400, body: [{ errorCode: 'INVALID_FIELD', message: 'No such column' }] },
+      { referenceId: 'r0', httpStatusCode: 200, body: { records: [] } },
+    ])).toEqual([
+      { ok: true, value: { records: [] } },
+      { ok: false, error: 'Data Cloud request failed (400): INVALID_FIELD: No such column' },
+    ]);
+
+    expect(collectionOutcomes([
+      { id: 'a01', success: true, errors: [] },
+      { success: false, errors: [{ statusCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing' }] },
+    ], 3)).toEqual([
+      { ok: true, value: 'a01' },
+      { ok: false, error: 'Data Cloud write failed: REQUIRED_FIELD_MISSING: Required fields are missing' },
+      { ok: false, error: 'Data Cloud write failed: missing collection result' },
+    ]);
+  });
+});
+
+describe('DataCloudCustomerService profile load', () => {
+  it('loads a full profile in four Composite calls and tolerates a failed sub-query', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const respond = (path: string): [number, unknown] => {
+      const url = decodeURIComponent(path);
+      // Orders select through a Contact subquery, so match them first
+      if (url.includes('FROM Order ')) return [200, { records: [{ Id: '801A', OrderNumber: '1001' }, { Id: '801B', OrderNumber: '1002' }] }];
+      if (url.includes('FROM Contact WHERE Id')) return [200, { records: [{ Id: '003A', FirstName: 'Sarah', Email: 'sarah@example.com' }] }];
+      if (url.includes('FROM OrderItem')) return [200, { records: [{ Product2Id: 'p1', Product2: { Name: 'Serum' }, Quantity: 1, UnitPrice: 40 }] }];
+      if (url.includes('FROM LoyaltyProgramMember')) return [200, { records: [{ Id: '0lmA', EnrollmentDate: '2024-01-01' }] }];
+      if (url.includes('FROM LoyaltyMemberTier')) return [200, { records: [{ LoyaltyTier: { Name: 'Gold Tier' } }] }];
+      if (url.includes('FROM LoyaltyMemberCurrency')) return [200, { records: [{ PointsBalance: 500, TotalPointsAccrued: 900 }] }];
+      if (url.includes('FROM Skin_Analysis__c')) return [400, [{ errorCode: 'INVALID_TYPE', message: 'sObject type not supported' }]];
+      return [200, { records: [] }];
+    };
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { compositeRequest } = JSON.parse(init.body as string) as { compositeRequest: (CompositeSubrequest & { referenceId: string })[] };
+      const compositeResponse = compositeRequest.map((r) => {
+        const [httpStatusCode, body] = respond(r.url);
+        return { referenceId: r.referenceId, httpStatusCode, body };
+      });
+      return new Response(JSON.stringify({ compositeResponse }), { status: 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const service = new DataCloudCustomerService({ baseUrl: '', accessToken: 'token' });
+    const profile = await service.getCustomerProfileById('003A');
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(fetchMock.mock.calls.every(([url]) => url === '/api/datacloud/composite')).toBe(true);
+    expect(profile.orders?.map((o) => o.lineItems.length)).toEqual([1, 1]);
+    expect(profile.loyalty).toMatchObject({ tier: 'gold', pointsBalance: 500, lifetimePoints: 900 });
+    expect(profile.skinAnalyses).toEqual([]);
+  });
+
+  it('keeps skin analyses whose concern scores cannot be parsed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rows = [
+      { Analyzed_At__c: '2025-03-01', Skin_Type__c: 'Oily', Concern_Scores_JSON__c: '[{"concern":"acne","score":62}' },
+      { Analyzed_At__c: '2025-01-01', Skin_Type__c: 'Oily', Concern_Scores_JSON__c: '[{"concern":"acne","score":70}]' },
+    ];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const { compositeRequest } = JSON.parse(init.body as string) as { compositeRequest: { referenceId: string }[] };
+      const compositeResponse = compositeRequest.map((r) => ({ referenceId: r.referenceId, httpStatusCode: 200, body: { records: rows } }));
+      return new Response(JSON.stringify({ compositeResponse }), { status: 200 });
+    }));
+
+    const service = new DataCloudCustomerService({ baseUrl: '', accessToken: 'token' });
+    const analyses = await service.getCustomerSkinAnalyses('003A');
+
+    expect(analyses.map((a) => a.concerns)).toEqual([[], [{ concern: 'acne', score: 70 }]]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[datacloud]'), '2025-03-01', expect.any(SyntaxError));
+  });
+});
+
+describe('DataCloudWriteService collections', () => {
+  // The service reads VITE_USE_MOCK_DATA at import, so load a fresh copy with live writes on
+  const liveWriteService = async () => {
+    vi.stubEnv('VITE_USE_MOCK_DATA', 'false');
+    vi.resetModules();
+    const { DataCloudWriteService: LiveWriteService } = await import('@/services/datacloud/writeProfile');
+    return new LiveWriteService({ baseUrl: '', accessToken: 'token' });
+  };
+
+  const chat = (summary: string): ChatSummary =>
+    ({ sessionDate: '2026-10-01', summary, sentiment: 'positive', topicsDiscussed: ['serum'] });
+
+  /**
+   * Collections endpoint that is down until `online` is set, then answers
+   * with `result(i)` for each record.
+   */
+  const collectionsEndpoint = (result: (i: number) => CollectionResult = () => ({ success: true, errors: [] })) => {
+    const endpoint = {
+      online: false,
+      fetch: vi.fn(async (_url: string, init: RequestInit) => {
+        if (!endpoint.online) return new Response('unavailable', { status: 503 });
+        const { records } = JSON.parse(init.body as string) as { records: unknown[] };
+        return new Response(JSON.stringify(records.map((_, i) => result(i))), { status: 200 });
+      }),
+    };
+    vi.stubGlobal('fetch', endpoint.fetch);
+    return endpoint;
+  };
+
+  /** Queue two summaries while the endpoint is down, so they wait in backoff together. */
+  const queueWhileDown = async (service: DataCloudWriteService, endpoint: { fetch: { mock: { calls: unknown[] } } }, texts: string[]) => {
+    for (const [i, text] of texts.entries()) await service.writeChatSummary('003A', `s${i + 1}`, chat(text));
+    await vi.waitFor(() => expect(service.writeQueue.list().every((w) => w.attempts === 1)).toBe(true));
+    return endpoint.fetch.mock.calls.length;
+  };
+
+  it('upserts queued writes in one collection call and settles each record on its own', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const endpoint = collectionsEndpoint((i) => (i === 1
+      ? { success: false, errors: [{ statusCode: 'STRING_TOO_LONG', message: 'Summary too long' }] }
+      : { id: `a0${i}`, success: true, errors: [] }));
+    const service = await liveWriteService();
+    const before = await queueWhileDown(service, endpoint, ['Asked about serums', 'Too long']);
+
+    endpoint.online = true;
+    await service.writeQueue.flush({ includeWaiting: true });
+
+    expect(endpoint.fetch).toHaveBeenCalledTimes(before + 1);
+    const [url, init] = endpoint.fetch.mock.calls[before];
+    expect(url).toBe('/api/datacloud/composite/sobjects/Chat_Summary__c/Idempotency_Key__c');
+    expect(init).toMatchObject({ method: 'PATCH', keepalive: false });
+    const body = JSON.parse(init.body as string);
+    expect(body.allOrNone).toBe(false);
+    expect(body.records).toHaveLength(2);
+    expect(body.records[0]).toMatchObject({
+      attributes: { type: 'Chat_Summary__c' },
+      Customer_Id__c: '003A',
+      Session_Id__c: 's1',
+      Summary_Text__c: 'Asked about serums',
+    });
+    expect(body.records[0].Idempotency_Key__c).toEqual(expect.any(String));
+
+    const left = service.writeQueue.list();
+    expect(left).toHaveLength(1);
+    expect(left[0]).toMatchObject({ attempts: 2, lastError: 'Data Cloud write failed: STRING_TOO_LONG: Summary too long' });
+    expect(left[0].body.Session_Id__c).toBe('s2');
+  });
+
+  it('uses keepalive only on page exit and keeps keepalive bodies inside the quota', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const endpoint = collectionsEndpoint();
+    const service = await liveWriteService();
+    // Two ~40 KB records: together they overrun the 64 KB keepalive quota
+    const before = await queueWhileDown(service, endpoint, ['a'.repeat(40_000), 'b'.repeat(40_000)]);
+    expect(endpoint.fetch.mock.calls.every(([, init]) => init.keepalive === false)).toBe(true);
+
+    endpoint.online = true;
+    window.dispatchEvent(new Event('pagehide'));
+    await vi.waitFor(() => expect(service.writeQueue.list()).toEqual([]));
+
+    // Services from earlier tests listen for pagehide too; keep to this one's records
+    const exitCalls = endpoint.fetch.mock.calls.slice(before).map(([, init]) => init)
+      .filter((init) => (init.body as string).length > 40_000);
+    expect(exitCalls.map((init) => JSON.parse(init.body as string).records.length)).toEqual([1, 1]);
+    // The second batch would overrun the quota the first is still holding, so it goes without keepalive
+    expect(exitCalls.map((init) => init.keepalive)).toEqual([true, false]);
+  });
+
+  it('deletes by id in one collection call and reports each record', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify([
+      { id: 'a01', success: true, errors: [] },
+      { id: 'a02', success: false, errors: [{ statusCode: 'ENTITY_IS_DELETED', message: 'entity is deleted' }] },
+    ]), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = await liveWriteService();
+
+    const result = await service.deleteRecords('Meaningful_Event__c', ['a01', 'a02']);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/datacloud/composite/sobjects?ids=a01,a02&allOrNone=false',
+      expect.objectContaining({ method: 'DELETE', keepalive: false }),
+    );
+    expect(result).toEqual({ deleted: ['a01'], failed: ['a02'] });
+    expect(error).toHaveBeenCalledWith('[datacloud] Failed to delete Meaningful_Event__c/a02: Data Cloud write failed: ENTITY_IS_DELETED: entity is deleted');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createAgentSummarizer,
+  describeChatSummary,
+  heuristicSummarizer,
+  parseAgentSummary,
+  scoreSentiment,
+  summarizeConversation,
+  summarizeHeuristically,
+} from '@/services/summarization';
+import type { AgentBackend } from '@/services/agent';
+import type { AgentMessage, UIDirective } from '@/types/agent';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { byId } from './fixtures/products';
+
+let seq = 0;
+const msg = (role: AgentMessage['role'], content: string, uiDirectives?: UIDirective[]): AgentMessage =>
+  ({ id: `m${seq++}`, role, content, timestamp: new Date(), uiDirectives });
+
+const moisturizer = byId('moisturizer-sensitive');
+const sunscreen = byId('sunscreen-lightweight');
+
+const transcript = [
+  msg('user', 'I need a moisturizer for sensitive skin'),
+  msg('agent', 'Here are a few gentle picks.', [{ action: 'SHOW_PRODUCTS', payload: { products: [moisturizer] } }]),
+  msg('user', `That looks good but it is too expensive. Does ${sunscreen.name} work under it?`),
+  msg('agent', 'Yes, it layers well.'),
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('heuristic summarizer', () => {
+  it('summarizes topics, products, objections and a next best action', () => {
+    const result = summarizeHeuristically({ messages: transcript, catalog: MOCK_PRODUCTS });
+
+    expect(result.productsMentioned).toEqual(['moisturizer-sensitive', 'sunscreen-lightweight']);
+    expect(result.objections).toEqual(['price']);
+    expect(result.topicsDiscussed).toEqual(expect.arrayContaining(['moisturizer', 'sun protection']));
+    expect(result.summary).toContain(`Agent showed ${moisturizer.name} and ${sunscreen.name}.`);
+    expect(result.summary).toContain('Customer pushed back on price.');
+    expect(result.nextBestAction).toBe(`Offer a travel size, bundle or loyalty redemption on ${moisturizer.name}`);
+  });
+
+  it('scores sentiment from customer messages and handles negation', () => {
+    expect(scoreSentiment([msg('user', 'I love it, thank you!')])).toBeGreaterThan(0.5);
+    expect(scoreSentiment([msg('user', 'This is not helpful, I am disappointed')])).toBeLessThan(-0.5);
+    // Everyday verbs and requests carry no sentiment of their own
+    expect(scoreSentiment([msg('user', "I'd like a moisturizer that works with retinol")])).toBe(0);
+    expect(scoreSentiment([msg('user', 'Is this good for oily skin?')])).toBe(0);
+    expect(scoreSentiment([msg('agent', 'Great choice!'), msg('user', 'Show me serums')])).toBe(0);
+
+    const completed = summarizeHeuristically({
+      messages: [msg('user', 'Perfect, I love it'), msg('agent', 'Done!', [{ action: 'CONFIRM_ORDER', payload: {} }])],
+      catalog: MOCK_PRODUCTS,
+    });
+    expect(completed.sentiment).toBe('positive');
+    expect(completed.summary).toContain('They completed a purchase.');
+  });
+});
+
+describe('agent summarizer', () => {
+  const backendReplying = (message: string) => ({
+    initSession: vi.fn().mockResolvedValue('session-1'),
+    sendMessage: vi.fn().mockResolvedValue({ sessionId: 'session-1', message, confidence: 1 }),
+    endSession: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('parses the JSON reply and resolves product names to catalog IDs', async () => {
+    const backend = backendReplying(`Sure! {"summary": "Wanted a calm moisturizer; hesitated on price.", "sentimentScore": 0.1,
+      "topics": ["moisturizer"], "productsMentioned": ["${moisturizer.name}", "Unknown Cream"],
+      "objections": ["price"], "nextBestAction": "Offer the travel size"}`);
+    const summarizer = createAgentSummarizer(() => backend as unknown as AgentBackend);
+
+    const result = await summarizeConversation({ messages: transcript, catalog: MOCK_PRODUCTS }, summarizer);
+
+    expect(backend.sendMessage.mock.calls[0][0]).toContain('Customer: I need a moisturizer for sensitive skin');
+    expect(backend.endSession).toHaveBeenCalled();
+    expect(result).toEqual({
+      summary: 'Wanted a calm moisturizer; hesitated on price.',
+      sentiment: 'neutral',
+      sentimentScore: 0.1,
+      topicsDiscussed: ['moisturizer'],
+      productsMentioned: ['moisturizer-sensitive'],
+      objections: ['price'],
+      nextBestAction: 'Offer the travel size',
+    });
+  });
+
+  it('falls back to the heuristic summary when the reply is unusable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const summarizer = createAgentSummarizer(() => backendReplying('Happy to help with that!') as unknown as AgentBackend);
+    const input = { messages: transcript, catalog: MOCK_PRODUCTS };
+
+    expect(await summarizeConversation(input, summarizer)).toEqual(await heuristicSummarizer.summarize(input));
+    expect(warn).toHaveBeenCalledWith('[summary] agent summarizer failed, using heuristic:', expect.any(Error));
+    expect(() => parseAgentSummary('{"summary": "x"}', MOCK_PRODUCTS)).toThrow('no sentiment score');
+  });
+});
+
+describe('describeChatSummary', () => {
+  it('carries objections and the next best action into session context', () => {
+    expect(describeChatSummary({
+      sessionDate: '2026-10-01',
+      summary: 'Asked about SPF.',
+      sentiment: 'negative',
+      topicsDiscussed: ['sun protection'],
+      objections: ['price'],
+      nextBestAction: 'Lead with value picks',
+    })).toBe('[2026-10-01] Asked about SPF. (sentiment: negative; objections: price; next best action: Lead with value picks)');
+  });
+});
@@ -0,0 +1,9 @@
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import type { Product } from '@/types/product';
+
+/** A mock catalog product by ID. Throws on a typo rather than handing a test `undefined`. */
+export function byId(id: string): Product {
+  const product = MOCK_PRODUCTS.find((p) => p.id === id);
+  if (!product) throw new Error(`No mock product "${id}"`);
+  return product;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { checkProductSafety, findAllergyConflicts, ingredientNames } from '@/services/ingredients';
+import { normalizeProducts } from '@/services/agentforce/parseDirectives';
+import { useAllergyConfirmation } from '@/hooks/useIngredientGuard';
+import type { Product } from '@/types/product';
+import { byId } from './fixtures/products';
+
+const withIngredients = (ingredients: string[], extra: Partial<Product['attributes']> = {}): Product => ({
+  ...byId('cleanser-gentle'),
+  id: 'test-product',
+  attributes: { ingredients, ...extra },
+});
+
+describe('ingredient guard', () => {
+  it('normalizes strengths and resolves INCI and common names to each other', () => {
+    expect(ingredientNames('Glycolic Acid 5%')).toEqual(['glycolic acid']);
+    expect(ingredientNames('Melaleuca Alternifolia Leaf Oil')).toContain('tea tree oil');
+    expect(ingredientNames('Aqua (Water)')).toEqual(expect.arrayContaining(['aqua', 'water', 'eau']));
+  });
+
+  it('matches allergen families across label spellings', () => {
+    const almond = withIngredients(['Prunus Amygdalus Dulcis Oil', 'Glycerin']);
+    expect(checkProductSafety(almond, { allergies: ['Tree nuts'] })).toEqual([{
+      reason: 'allergy',
+      allergen: 'Tree nuts',
+      ingredient: 'Prunus Amygdalus Dulcis Oil',
+      message: expect.stringContaining('Tree nuts'),
+    }]);
+    expect(checkProductSafety(withIngredients(['Methylparaben']), { allergies: ['parabens'] })).toHaveLength(1);
+    expect(checkProductSafety(withIngredients(['Cetearyl Alcohol']), { allergies: ['alcohol'] })).toEqual([]);
+    expect(checkProductSafety(withIngredients(['Alcohol Denat.']), { allergies: ['alcohol'] })).toHaveLength(1);
+  });
+
+  it('matches free-text allergies by whole words and alias', () => {
+    const serum = byId('serum-retinol');
+    expect(checkProductSafety(serum, { allergies: ['vitamin b3'] })[0].ingredient).toBe('Niacinamide');
+    expect(checkProductSafety(withIngredients(['Stearic Acid']), { allergies: ['tea'] })).toEqual([]);
+  });
+
+  it('lets the ingredient list beat a fragrance-free flag and always treats perfume as fragrance', () => {
+    const flagged = withIngredients(['Parfum'], { isFragranceFree: true });
+    expect(checkProductSafety(flagged, { allergies: ['fragrance'] })).toEqual([
+      expect.objectContaining({ reason: 'allergy', ingredient: 'Parfum' }),
+    ]);
+    // Without a full list the flag is all there is to go on
+    const keyOnly: Product = { ...flagged, attributes: { keyIngredients: ['Linalool'], isFragranceFree: true } };
+    expect(checkProductSafety(keyOnly, { allergies: ['fragrance'] })).toEqual([]);
+
+    const perfume = MOCK_PRODUCTS.find((p) => p.category === 'fragrance')!;
+    expect(checkProductSafety(perfume, { allergies: ['fragrance'] })[0].ingredient).toBe('Fragrance');
+    expect(checkProductSafety(perfume, { allergies: [], fragrancePreference: 'fragrance-free' })).toEqual([
+      expect.objectContaining({ reason: 'preference', allergen: 'fragrance-free' }),
+    ]);
+  });
+
+  it('only asks checkout to confirm allergy conflicts', () => {
+    const perfume = MOCK_PRODUCTS.find((p) => p.category === 'fragrance')!;
+    const serum = byId('serum-retinol');
+    const conflicts = findAllergyConflicts([perfume, serum], { allergies: ['retinol'], fragrancePreference: 'sensitive' });
+    expect(conflicts.map((c) => c.product.id)).toEqual(['serum-retinol']);
+  });
+
+  it('backfills catalog ingredients onto agent products so they can be checked', () => {
+    const [product] = normalizeProducts([{ id: '01tKa0000098TyUIAU', name: 'Midnight Renewal Retinol Serum' }]);
+    expect(product.attributes.ingredients).toContain('Encapsulated Retinol 0.5%');
+    expect(checkProductSafety(product, { allergies: ['retinoids'] })).toHaveLength(1);
+  });
+});
+
+describe('allergy confirmation', () => {
+  it('asks again when a new conflicting product joins the bag', () => {
+    const retinol = { allergies: ['retinoids'] };
+    const serum = byId('serum-retinol');
+    const second = { ...serum, id: 'serum-retinol-travel' };
+    const { result, rerender } = renderHook(
+      ({ products }) => useAllergyConfirmation(findAllergyConflicts(products, retinol)),
+      { initialProps: { products: [serum] } },
+    );
+
+    act(() => result.current[1](true));
+    expect(result.current[0]).toBe(true);
+
+    rerender({ products: [serum, byId('cleanser-gentle')] });
+    expect(result.current[0]).toBe(true);
+
+    rerender({ products: [serum, second] });
+    expect(result.current[0]).toBe(false);
+  });
+});
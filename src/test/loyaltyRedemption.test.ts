@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bestRedemption,
+  maxRedeemablePoints,
+  redemptionForPoints,
+  redemptionForReward,
+  rewardCredit,
+  validateRedemption,
+} from '@/services/loyalty';
+import { priceOrder } from '@/services/pricing';
+import type { LoyaltyData } from '@/types/customer';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+
+const loyalty: LoyaltyData = {
+  tier: 'silver',
+  pointsBalance: 1250,
+  lifetimePoints: 4000,
+  memberSince: '2024-01-01',
+  rewardsAvailable: [
+    { name: '$10 off next purchase', pointsCost: 1000 },
+    { name: '$25 off next purchase', pointsCost: 2000 },
+  ],
+};
+
+describe('loyalty redemption', () => {
+  it('reads reward credit from the reward name', () => {
+    expect(rewardCredit('$10 off next purchase')).toBe(10);
+    expect(rewardCredit('Free travel mini')).toBeNull();
+  });
+
+  it('rounds points conversions down to the step and enforces the minimum', () => {
+    expect(maxRedeemablePoints(1250)).toBe(1200);
+    expect(maxRedeemablePoints(450)).toBe(0);
+  });
+
+  it('validates against balance, reward catalog, step size and order value', () => {
+    const affordable = redemptionForReward(loyalty.rewardsAvailable[0])!;
+    const tooExpensive = redemptionForReward(loyalty.rewardsAvailable[1])!;
+    expect(validateRedemption(loyalty, affordable, 50)).toBeNull();
+    expect(validateRedemption(loyalty, tooExpensive, 50)).toMatch(/needs 2,000 points/);
+    expect(validateRedemption(loyalty, redemptionForPoints(550), 50)).toMatch(/steps of 100/);
+    expect(validateRedemption(loyalty, redemptionForPoints(400), 50)).toMatch(/at least 500/);
+    expect(validateRedemption(loyalty, affordable, 8)).toMatch(/smaller credit/);
+    expect(validateRedemption(null, affordable, 50)).toMatch(/Join/);
+    expect(validateRedemption(loyalty, { kind: 'reward', rewardName: '$50 gift', points: 500, credit: 50 }, 60)).toMatch(/isn't available/);
+  });
+
+  it('suggests the most valuable affordable option', () => {
+    expect(bestRedemption(loyalty)).toMatchObject({ kind: 'reward', credit: 10 });
+    expect(bestRedemption({ ...loyalty, rewardsAvailable: [] })).toEqual(redemptionForPoints(1200));
+    expect(bestRedemption({ ...loyalty, pointsBalance: 300 })).toBeNull();
+  });
+
+  it('comes off the order after shipping is quoted and before tax', () => {
+    const product = { ...MOCK_PRODUCTS[0], price: 55 };
+    const pricing = priceOrder({
+      items: [{ product, quantity: 1 }],
+      address: { state: 'OR' },
+      loyaltyRedemption: redemptionForPoints(1000),
+    });
+    expect(pricing.shipping.amount).toBe(0);
+    expect(pricing.discounts).toEqual([
+      { source: 'redemption', id: 'points-1000', label: '1,000 points redeemed', amount: 10 },
+    ]);
+    expect(pricing.pointsRedeemed).toBe(1000);
+    expect(pricing.total).toBe(45);
+  });
+});
@@ -22,6 +22,25 @@ describe('generateMockResponse', () => {
     expect(response.uiDirective?.action).toBe('INITIATE_CHECKOUT');
   });
 
+  it('adds the product under discussion to the bag', async () => {
+    await generateMockResponse('I need a face wash');
+    const response = await generateMockResponse('add it to my bag');
+    expect(response.uiDirective?.action).toBe('ADD_TO_CART');
+    expect(response.uiDirective?.payload.cartItems).toEqual([{ productId: 'cleanser-gentle', quantity: 1 }]);
+  });
+
+  it('removes from bag before matching the product category', async () => {
+    await generateMockResponse('I need a face wash');
+    const response = await generateMockResponse('remove the cleanser from my bag');
+    expect(response.uiDirective?.action).toBe('REMOVE_FROM_CART');
+  });
+
+  it('applies a promo code', async () => {
+    const response = await generateMockResponse('use promo code beaute10');
+    expect(response.uiDirective?.action).toBe('APPLY_PROMO');
+    expect(response.uiDirective?.payload.promoCode).toBe('BEAUTE10');
+  });
+
   it('returns cleanser for cleanser query', async () => {
     const response = await generateMockResponse('I need a face wash');
     expect(response.uiDirective?.action).toBe('SHOW_PRODUCT');
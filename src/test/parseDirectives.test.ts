@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseUIDirective } from '@/services/agentforce/parseDirectives';
+import { parseUIDirective, parseUIDirectiveDetailed, parseUIDirectives } from '@/services/agentforce/parseDirectives';
+import { validateUIDirective } from '@/services/agentforce/directiveSchema';
 
 describe('parseUIDirective', () => {
   it('parses directive from metadata', () => {
@@ -54,3 +55,128 @@ describe('parseUIDirective', () => {
     expect(result!.action).toBe('INITIATE_CHECKOUT');
   });
 });
+
+describe('versioned directives', () => {
+  it('accepts a valid v1 directive without diagnostics', () => {
+    const result = parseUIDirectiveDetailed({
+      message: JSON.stringify({
+        uiDirective: {
+          version: 1,
+          action: 'CHANGE_SCENE',
+          payload: { sceneContext: { setting: 'travel', generateBackground: true } },
+        },
+      }),
+    }, { mode: 'strict' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.directive?.version).toBe(1);
+    expect(result.directive?.payload.sceneContext?.setting).toBe('travel');
+  });
+
+  it('reports field-level errors for an invalid v1 directive', () => {
+    const errors = validateUIDirective({
+      version: 1,
+      action: 'SHOW_PRODUCTS',
+      payload: { products: [{ id: 'a', name: 'A' }, { name: 42 }] },
+    });
+
+    expect(errors).toContainEqual(expect.objectContaining({ path: 'payload.products[1].id', code: 'required' }));
+    expect(errors).toContainEqual(expect.objectContaining({ path: 'payload.products[1].name', code: 'invalid_type' }));
+  });
+
+  it('rejects unknown actions and unsupported versions', () => {
+    const errors = validateUIDirective({ version: 7, action: 'DANCE', payload: {} });
+    expect(errors.map((e) => e.code)).toEqual(['unsupported_version', 'invalid_value']);
+  });
+});
+
+describe('strict mode', () => {
+  it('rejects unversioned directives instead of coercing them', () => {
+    const result = parseUIDirectiveDetailed({
+      message: '{"uiDirective": {"products": [{"id": "p1", "name": "P1"}]}}',
+    }, { mode: 'strict' });
+
+    expect(result.directive).toBeUndefined();
+    expect(result.errors).toContainEqual(expect.objectContaining({ path: 'version', code: 'required' }));
+    expect(result.errors).toContainEqual(expect.objectContaining({ path: 'products', code: 'unknown_field' }));
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('does not repair truncated JSON', () => {
+    const result = parseUIDirectiveDetailed({
+      message: '{"uiDirective": {"version": 1, "action": "SHOW_PRODUCTS", "payload": {"products": [',
+    }, { mode: 'strict' });
+
+    expect(result.directive).toBeUndefined();
+    expect(result.diagnostics).toEqual([]);
+  });
+});
+
+describe('v0 compatibility layer', () => {
+  it('reports each coercion as a diagnostic', () => {
+    const result = parseUIDirectiveDetailed({
+      message: '{"uiDirective": {"items": ["Mystery Cream"], "scene": {"setting": "bathroom"}}}',
+    });
+
+    expect(result.directive?.action).toBe('SHOW_PRODUCTS');
+    expect(result.directive?.version).toBe(0);
+    expect(result.errors).toEqual([]);
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'action_inferred',
+      'field_renamed',
+      'field_renamed',
+      'product_from_string',
+    ]);
+  });
+
+  it('falls back to coercion when a versioned directive is invalid', () => {
+    const result = parseUIDirectiveDetailed({
+      message: '{"uiDirective": {"version": 1, "action": "SHOW_PRODUCTS", "products": [{"id": "p1", "name": "P1"}]}}',
+    });
+
+    expect(result.directive?.payload.products).toHaveLength(1);
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(result.diagnostics[0].code).toBe('version_fallback');
+  });
+
+  it('records JSON repair', () => {
+    const result = parseUIDirectiveDetailed({
+      message: '{"uiDirective": {"action": "CHANGE_SCENE", "payload": {"sceneContext": {"setting": "travel"',
+    });
+
+    expect(result.directive?.action).toBe('CHANGE_SCENE');
+    expect(result.diagnostics[0].code).toBe('json_repaired');
+  });
+});
+
+describe('multi-directive responses', () => {
+  it('parses an ordered uiDirectives array', () => {
+    const directives = parseUIDirectives({
+      message: JSON.stringify({
+        uiDirectives: [
+          { version: 1, action: 'CHANGE_SCENE', payload: { sceneContext: { setting: 'travel' } } },
+          { version: 1, action: 'SHOW_PRODUCTS', payload: { products: [{ id: 'p1', name: 'P1' }] } },
+          { version: 1, action: 'RETAILER_HANDOFF', payload: {} },
+        ],
+      }),
+    });
+
+    expect(directives.map((d) => d.action)).toEqual(['CHANGE_SCENE', 'SHOW_PRODUCTS', 'RETAILER_HANDOFF']);
+  });
+
+  it('indexes errors by position and keeps valid entries in strict mode', () => {
+    const result = parseUIDirectiveDetailed({
+      message: JSON.stringify({
+        uiDirectives: [
+          { version: 1, action: 'SHOW_PRODUCTS', payload: {} },
+          { version: 1, action: 'INITIATE_CHECKOUT', payload: {} },
+        ],
+      }),
+    }, { mode: 'strict' });
+
+    expect(result.directives.map((d) => d.action)).toEqual(['INITIATE_CHECKOUT']);
+    expect(result.directive?.action).toBe('INITIATE_CHECKOUT');
+    expect(result.errors).toContainEqual(expect.objectContaining({ path: 'uiDirectives[0].payload.products', code: 'required' }));
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { PERSONAS } from '@/mocks/customerPersonas';
+import { INFLUENCE_CAP, buildRankingSignals, rankProducts, scoreProduct } from '@/services/ranking';
+import type { CustomerProfile } from '@/types/customer';
+import { byId } from './fixtures/products';
+
+const customer = (overrides: Partial<CustomerProfile>): CustomerProfile => ({
+  id: 'test',
+  name: 'Test',
+  email: 'test@example.com',
+  beautyProfile: { skinType: 'normal', concerns: [], allergies: [], preferredBrands: [] },
+  orders: [],
+  purchaseHistory: [],
+  chatSummaries: [],
+  meaningfulEvents: [],
+  browseSessions: [],
+  loyalty: null,
+  savedPaymentMethods: [],
+  shippingAddresses: [],
+  ...overrides,
+});
+
+const rank = (c: CustomerProfile, products = MOCK_PRODUCTS) =>
+  rankProducts(products, buildRankingSignals(c, MOCK_PRODUCTS));
+
+describe('personalized ranking', () => {
+  it('lifts declared skin type and concern matches and explains them as direct', () => {
+    const c = customer({ beautyProfile: { skinType: 'dry', concerns: ['hydration'], allergies: [], preferredBrands: [] } });
+    const [top] = rank(c);
+
+    expect(top.product.attributes.skinType).toContain('dry');
+    expect(top.product.personalizationScore).toBe(top.score);
+    expect(top.reasons.map((r) => r.reason)).toEqual(expect.arrayContaining(['Suits your dry skin', 'Targets hydration']));
+    expect(top.reasons.every((r) => r.provenance === 'declared' && r.usage === 'direct')).toBe(true);
+  });
+
+  it('sinks products containing a declared allergen below unscored ones', () => {
+    const sarah = PERSONAS.find((p) => p.id === 'sarah')!.profile;
+    const ranked = rank(sarah);
+    const fragrance = ranked.findIndex((r) => r.product.category === 'fragrance');
+    const unscored = ranked.findIndex((r) => r.reasons.length === 0);
+
+    expect(ranked[0].product.attributes.skinType).toContain('sensitive');
+    expect(ranked[0].score).toBe(1);
+    expect(fragrance).toBeGreaterThan(unscored);
+    expect(ranked[fragrance].score).toBe(0);
+    expect(ranked[fragrance].reasons[0].reason).toBe('Contains an ingredient you avoid');
+  });
+
+  it('lets appended interests only nudge, never outrank first-party data', () => {
+    const c = customer({
+      appendedProfile: { interests: ['luxury beauty', 'clean beauty', 'anti-aging', 'premium skincare', 'SPF'] },
+      browseSessions: [{ sessionDate: '2026-09-01', categoriesBrowsed: [], productsViewed: ['cleanser-gentle'], durationMinutes: 4, device: 'mobile' }],
+    });
+    const ranked = rank(c);
+    const appendedOnly = ranked.filter((r) => r.reasons.length && r.reasons.every((x) => x.usage === 'influence_only'));
+
+    expect(ranked[0].product.id).toBe('cleanser-gentle');
+    expect(appendedOnly.length).toBeGreaterThan(0);
+    for (const r of appendedOnly) {
+      expect(r.reasons.reduce((sum, x) => sum + x.points, 0)).toBeLessThanOrEqual(INFLUENCE_CAP + 0.01);
+    }
+  });
+
+  it('learns brand and category from purchases but not from gifts', () => {
+    const serum = byId('serum-vitamin-c');
+    const c = customer({
+      orders: [{
+        orderId: 'o1',
+        orderDate: '2026-08-01',
+        channel: 'online',
+        status: 'completed',
+        totalAmount: 120,
+        lineItems: [
+          { productId: 'serum-vitamin-c', productName: serum.name, quantity: 1, unitPrice: serum.price },
+          { productId: 'fragrance-floral', productName: 'Gift', quantity: 1, unitPrice: 90, isGift: true },
+        ],
+      }],
+    });
+    const signals = buildRankingSignals(c, MOCK_PRODUCTS);
+    const reasons = scoreProduct(serum, signals).reasons.map((r) => r.reason);
+
+    expect(reasons).toEqual(expect.arrayContaining(["You've bought this before", `You've bought ${serum.brand} before`, 'You shop serums']));
+    expect(scoreProduct(byId('fragrance-floral'), signals).reasons.some((r) => r.provenance === 'observed')).toBe(false);
+  });
+
+  it('keeps the incoming order for ties and weights inferred signals as soft', () => {
+    const c = customer({
+      agentCapturedProfile: {
+        sustainabilityPref: { value: 'I only buy cruelty-free', capturedAt: '2026-09-01', capturedFrom: 'chat', confidence: 'inferred' },
+      },
+    });
+    const ranked = rank(c);
+    const inferred = ranked.flatMap((r) => r.reasons).find((r) => r.provenance === 'agent_inferred');
+    const rest = ranked.filter((r) => !r.reasons.length).map((r) => r.product.id);
+
+    expect(inferred).toMatchObject({ reason: 'Fits your values: cruelty-free', usage: 'soft', points: 0.75 });
+    expect(rest).toEqual(MOCK_PRODUCTS.filter((p) => rest.includes(p.id)).map((p) => p.id));
+  });
+});
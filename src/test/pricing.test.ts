@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { createPricingEngine, priceOrder, shippingModule, taxModule } from '@/services/pricing';
+import type { Product } from '@/types/product';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+
+const product = (id: string, price: number, overrides: Partial<Product> = {}): Product => ({
+  ...MOCK_PRODUCTS[0],
+  id,
+  name: id,
+  price,
+  ...overrides,
+});
+
+describe('priceOrder', () => {
+  it('charges standard shipping and default tax below the free-shipping threshold', () => {
+    const pricing = priceOrder({ items: [{ product: product('a', 40), quantity: 1 }] });
+    expect(pricing.subtotal).toBe(40);
+    expect(pricing.shipping.amount).toBe(5.99);
+    expect(pricing.shipping.remainingForFree).toBe(10);
+    expect(pricing.tax).toEqual({ region: 'Estimated', rate: 0.08, amount: 3.2 });
+    expect(pricing.total).toBe(49.19);
+  });
+
+  it('uses the state tax rate and ships free over the threshold', () => {
+    const pricing = priceOrder({
+      items: [{ product: product('a', 60), quantity: 1 }],
+      address: { state: 'ca' },
+    });
+    expect(pricing.shipping.amount).toBe(0);
+    expect(pricing.tax).toEqual({ region: 'CA', rate: 0.0725, amount: 4.35 });
+    expect(pricing.total).toBe(64.35);
+  });
+
+  it('applies a valid promo code per line and rolls it up', () => {
+    const pricing = priceOrder({
+      items: [{ product: product('a', 30), quantity: 1 }, { product: product('b', 20), quantity: 1 }],
+      promoCode: 'insta15',
+      address: { state: 'OR' },
+    });
+    expect(pricing.promo?.status).toBe('applied');
+    expect(pricing.lines.map((l) => l.discount)).toEqual([4.5, 3]);
+    expect(pricing.discounts).toHaveLength(1);
+    expect(pricing.discounts[0]).toMatchObject({ source: 'promo', id: 'INSTA15', amount: 7.5 });
+    // Discounted merchandise falls under $50, so standard shipping is charged again
+    expect(pricing.shipping.amount).toBe(5.99);
+    expect(pricing.total).toBe(48.49);
+  });
+
+  it('reports unknown and ineligible codes without discounting', () => {
+    const unknown = priceOrder({ items: [{ product: product('a', 30), quantity: 1 }], promoCode: 'NOPE' });
+    expect(unknown.promo?.status).toBe('invalid');
+    expect(unknown.discountTotal).toBe(0);
+
+    const belowMinimum = priceOrder({ items: [{ product: product('a', 30), quantity: 1 }], promoCode: 'VIP20' });
+    expect(belowMinimum.promo?.status).toBe('not_eligible');
+    expect(belowMinimum.discountTotal).toBe(0);
+  });
+
+  it('applies multi-unit line discounts before promos', () => {
+    const pricing = priceOrder({
+      items: [{ product: product('a', 10), quantity: 3 }],
+      promoCode: 'BEAUTE10',
+    });
+    expect(pricing.lines[0].adjustments.map((a) => [a.id, a.amount])).toEqual([['multi-unit', 3], ['BEAUTE10', 2.7]]);
+    expect(pricing.lines[0].net).toBe(24.3);
+  });
+
+  it('gives loyalty tiers their percentage and shipping perks', () => {
+    const pricing = priceOrder({
+      items: [{ product: product('a', 20), quantity: 1 }],
+      loyaltyTier: 'platinum',
+      shippingMethod: 'express',
+      address: { state: 'OR' },
+    });
+    expect(pricing.discounts).toEqual([
+      { source: 'loyalty', id: 'platinum', label: 'Platinum member 10% off', amount: 2 },
+    ]);
+    expect(pricing.shipping.amount).toBe(0);
+    expect(pricing.shipping.notes).toContain('Free with your loyalty tier');
+    expect(pricing.total).toBe(18);
+  });
+
+  it('adds a surcharge for remote states on paid shipping', () => {
+    const pricing = priceOrder({
+      items: [{ product: product('a', 20), quantity: 1 }],
+      address: { state: 'HI' },
+    });
+    expect(pricing.shipping.amount).toBe(13.99);
+  });
+
+  it('charges nothing for an empty bag', () => {
+    const pricing = priceOrder({ items: [] });
+    expect(pricing.total).toBe(0);
+  });
+});
+
+describe('createPricingEngine', () => {
+  it('runs only the modules it is given', () => {
+    const engine = createPricingEngine([shippingModule, taxModule]);
+    const pricing = engine.price({
+      items: [{ product: product('a', 10), quantity: 3 }],
+      promoCode: 'BEAUTE10',
+    });
+    expect(pricing.discountTotal).toBe(0);
+    expect(pricing.promo).toBeNull();
+  });
+});
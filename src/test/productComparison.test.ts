@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { compareProducts, describeComparison } from '@/services/comparison';
+import { validateUIDirective } from '@/services/agentforce/directiveSchema';
+import { RulesAgentBackend } from '@/services/mock/rulesEngine';
+import type { Product, ProductAttributes } from '@/types/product';
+
+function product(id: string, price: number, attributes: ProductAttributes, rating = 4.5): Product {
+  return {
+    id,
+    name: id,
+    brand: 'Test',
+    category: 'moisturizer',
+    price,
+    currency: 'USD',
+    description: '',
+    shortDescription: '',
+    imageUrl: '',
+    images: [],
+    attributes,
+    rating,
+    reviewCount: 100,
+    inStock: true,
+  };
+}
+
+const calm = product('calm', 60, {
+  size: '50ml',
+  skinType: ['dry', 'sensitive'],
+  concerns: ['hydration', 'redness'],
+  keyIngredients: ['Ceramides', 'Centella'],
+  ingredients: ['Water', 'Ceramides', 'Centella'],
+  isFragranceFree: true,
+  isVegan: true,
+}, 4.8);
+const glow = product('glow', 40, {
+  size: '1.7 oz',
+  skinType: ['normal', 'oily'],
+  concerns: ['brightening', 'hydration'],
+  keyIngredients: ['Vitamin C', 'ceramides'],
+  ingredients: ['Water', 'Ascorbic Acid', 'Almond Oil'],
+}, 4.8);
+const patches = product('patches', 18, { size: '36 patches', concerns: ['blemishes'] }, 4.2);
+
+const profile = { skinType: 'dry' as const, concerns: ['Redness', 'hydration'], allergies: ['nuts'] };
+
+describe('compareProducts', () => {
+  it('builds each column from catalog attributes and the customer profile', () => {
+    const { columns, sharedIngredients, concerns } = compareProducts([calm, glow, patches], profile);
+    const [c, g, p] = columns;
+
+    expect(c.pricePerMl).toBeCloseTo(1.2);
+    expect(g.pricePerMl).toBeCloseTo(40 / (1.7 * 29.57));
+    expect(p.pricePerMl).toBeNull();
+
+    expect(c.flags).toEqual(['Fragrance-free', 'Vegan']);
+    expect([c.suitsSkinType, g.suitsSkinType, p.suitsSkinType]).toEqual([true, false, null]);
+    expect(c.concernsMatched).toEqual(['Redness', 'hydration']);
+    expect(g.concernsMatched).toEqual(['hydration']);
+    expect(g.warnings.map((w) => w.reason)).toEqual(['allergy']);
+
+    expect(concerns).toEqual(['Redness', 'hydration']);
+    // Only two of three share an ingredient, so nothing is common to all
+    expect(sharedIngredients).toEqual([]);
+    expect(compareProducts([calm, glow]).sharedIngredients).toEqual(['Ceramides']);
+  });
+
+  it('marks single winners, leaves ties blank, and drops repeats past four products', () => {
+    const { highlights } = compareProducts([calm, glow, patches], profile);
+    expect(highlights).toEqual({ lowestPricePerMl: 'glow', topRated: undefined, bestConcernFit: 'calm' });
+
+    const anonymous = compareProducts([calm, glow]);
+    expect(anonymous.highlights.bestConcernFit).toBeUndefined();
+    expect(anonymous.columns[0].suitsSkinType).toBeNull();
+
+    const many = [calm, calm, glow, patches, product('a', 1, {}), product('b', 1, {})];
+    expect(compareProducts(many).columns.map((c) => c.product.id)).toEqual(['calm', 'glow', 'patches', 'a']);
+  });
+
+  it('summarizes one line per product for the agent', () => {
+    expect(describeComparison(compareProducts([calm, patches], profile))).toEqual([
+      'calm (calm) | $60.00 ($1.20/ml) | key: Ceramides, Centella | targets Redness, hydration | 4.8★ (100)',
+      'patches (patches) | $18.00 | 4.2★ (100)',
+    ]);
+  });
+});
+
+describe('COMPARE_PRODUCTS directive', () => {
+  it('requires products', () => {
+    expect(validateUIDirective({ version: 1, action: 'COMPARE_PRODUCTS', payload: { products: [{ id: 'calm', name: 'Calm' }] } })).toEqual([]);
+    expect(validateUIDirective({ version: 1, action: 'COMPARE_PRODUCTS', payload: {} }))
+      .toEqual([expect.objectContaining({ path: 'payload.products', code: 'required' })]);
+  });
+
+  it('is sent by the mock agent for the last list shown', async () => {
+    const backend = new RulesAgentBackend({ packs: ['beaute'], latencyMs: { min: 0, max: 0 }, random: () => 0.99 });
+    await backend.initSession();
+    expect(backend.respond("what's the difference?").uiDirective).toBeUndefined();
+
+    backend.respond('show me serums');
+    backend.respond('I need a face wash');
+    const compared = backend.respond('compare them side by side');
+    expect(compared.uiDirective?.action).toBe('COMPARE_PRODUCTS');
+    expect(compared.uiDirective?.payload.products?.map((p) => p.category)).toEqual(['serum', 'serum', 'serum', 'serum']);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { CommerceClient } from '@/services/commerce';
+import {
+  ProductSearchIndex,
+  editDistance,
+  parseSearchParams,
+  searchCatalog,
+  toSearchParams,
+} from '@/services/search';
+import type { SearchFilters } from '@/services/search';
+
+const ids = (filters: SearchFilters, sort?: Parameters<typeof searchCatalog>[2]) =>
+  searchCatalog(MOCK_PRODUCTS, filters, sort).products.map((p) => p.id);
+
+describe('product search index', () => {
+  it('counts transpositions as one edit and gives up past the budget', () => {
+    expect(editDistance('serum', 'sreum', 1)).toBe(1);
+    expect(editDistance('retinol', 'retinal', 2)).toBe(1);
+    expect(editDistance('cleanser', 'moisturizer', 2)).toBe(3);
+  });
+
+  it('tolerates typos and ranks name matches above description mentions', () => {
+    const exact = new ProductSearchIndex(MOCK_PRODUCTS).search('retinol');
+    const typo = new ProductSearchIndex(MOCK_PRODUCTS).search('retinoll');
+    // Both have "Retinol" in the name; the eye cream only lists it as an ingredient
+    expect(exact.slice(0, 2).map((r) => r.product.id).sort()).toEqual(['serum-bakuchiol', 'serum-retinol']);
+    expect(typo.slice(0, 2).map((r) => r.product.id).sort()).toEqual(['serum-bakuchiol', 'serum-retinol']);
+    expect(exact.map((r) => r.product.id)).toContain('eye-cream-firming');
+  });
+
+  it('requires every query term to match and maps shopper synonyms', () => {
+    expect(ids({ query: 'vitamin c serum' })[0]).toBe('serum-vitamin-c');
+    expect(ids({ query: 'moisturiser' })).toEqual(ids({ query: 'moisturizer' }));
+    expect(ids({ query: 'spf' }).length).toBeGreaterThan(0);
+    expect(ids({ query: 'xyzzy' })).toEqual([]);
+  });
+});
+
+describe('facets', () => {
+  it('narrows by category and facet, keeping counts for the other values of the active facet', () => {
+    const all = searchCatalog(MOCK_PRODUCTS, { category: 'serum' });
+    const lumiere = searchCatalog(MOCK_PRODUCTS, { category: 'serum', brands: ['LUMIERE'] });
+
+    expect(lumiere.products.every((p) => p.brand === 'LUMIERE' && p.category === 'serum')).toBe(true);
+    // Selecting a brand doesn't zero out the other brands' counts
+    expect(lumiere.facets.brands).toEqual(all.facets.brands);
+    const counted = lumiere.facets.brands.reduce((sum, b) => sum + b.count, 0);
+    expect(counted).toBe(all.total);
+  });
+
+  it('ANDs boolean flags and filters price ranges with an exclusive upper bound', () => {
+    const result = searchCatalog(MOCK_PRODUCTS, { flags: ['isVegan'], price: { max: 60 } });
+    expect(result.products.every((p) => p.attributes.isVegan && p.price < 60)).toBe(true);
+    expect(result.facets.flags.find((f) => f.value === 'isVegan')?.count).toBe(result.total);
+
+    const underFifty = ids({ price: { min: 25, max: 50 } });
+    expect(underFifty).not.toContain('moisturizer-sensitive'); // $58
+    expect(ids({ price: { min: 50 } })).toContain('moisturizer-sensitive');
+  });
+
+  it('sorts by price and rating', () => {
+    const byPrice = searchCatalog(MOCK_PRODUCTS, { category: 'serum' }, 'price-asc').products.map((p) => p.price);
+    expect(byPrice).toEqual([...byPrice].sort((a, b) => a - b));
+    const byRating = searchCatalog(MOCK_PRODUCTS, {}, 'rating').products.map((p) => p.rating);
+    expect(byRating).toEqual([...byRating].sort((a, b) => b - a));
+  });
+});
+
+describe('URL filter state', () => {
+  it('round-trips filters and sort through the query string', () => {
+    const filters: SearchFilters = {
+      query: 'glow serum',
+      brands: ['LUMIERE', 'SERENE'],
+      skinTypes: ['dry'],
+      concerns: ['hydration'],
+      flags: ['isVegan', 'isFragranceFree'],
+      price: { min: 25, max: 50 },
+    };
+    const params = toSearchParams(filters, 'price-desc');
+    expect(params.toString()).toContain('flag=vegan&flag=fragrance-free');
+    expect(parseSearchParams(new URLSearchParams(params.toString()))).toEqual({ filters, sort: 'price-desc' });
+  });
+
+  it('drops unknown values from hand-edited links', () => {
+    const parsed = parseSearchParams(new URLSearchParams('skin=scaly&flag=organic&sort=cheapest&min=abc'));
+    expect(parsed).toEqual({ filters: {}, sort: 'relevance' });
+  });
+});
+
+describe('CommerceClient.searchProducts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends skin type and concern refinements and applies the price range', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === '/api/sf/token') return new Response(JSON.stringify({ access_token: 't' }));
+      return new Response(JSON.stringify({
+        productsPage: {
+          products: [
+            { id: 'a', name: 'A', prices: { unitPrice: 20 }, fields: { Skin_Types__c: 'Dry;Normal', Is_Vegan__c: 'true' } },
+            { id: 'b', name: 'B', prices: { unitPrice: 80 }, fields: { Skin_Types__c: 'Dry' } },
+          ],
+        },
+      }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new CommerceClient({ webstoreId: 'ws', clientId: 'id' });
+    const products = await client.searchProducts({ query: 'cream', skinType: ['dry'], concerns: ['acne'], priceRange: { max: 50 } });
+
+    const body = JSON.parse((fetchMock.mock.calls[1] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.searchTerm).toBe('cream');
+    expect(body.refinements).toEqual([
+      { nameOrId: 'Skin_Types__c', type: 'DistinctValue', attributeType: 'Custom', values: ['Dry'] },
+      { nameOrId: 'Concerns__c', type: 'DistinctValue', attributeType: 'Custom', values: ['Acne'] },
+    ]);
+    expect(products.map((p) => p.id)).toEqual(['a']);
+    expect(products[0].attributes.skinType).toEqual(['dry', 'normal']);
+    expect(products[0].attributes.isVegan).toBe(true);
+  });
+});
+
+describe('searchProducts through Commerce', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.doUnmock('@/services/commerce');
+  });
+
+  it('leaves facets to the storefront so selected facets still count their alternatives', async () => {
+    vi.stubEnv('VITE_USE_MOCK_DATA', 'false');
+    vi.stubEnv('VITE_COMMERCE_SITE_ID', 'ws');
+    const dry = MOCK_PRODUCTS.find((p) => p.attributes?.skinType?.includes('dry') && !p.attributes.skinType.includes('oily'))!;
+    const oily = MOCK_PRODUCTS.find((p) => p.attributes?.skinType?.includes('oily') && !p.attributes.skinType.includes('dry'))!;
+    const commerceSearch = vi.fn().mockResolvedValue([dry, oily]);
+    vi.resetModules();
+    vi.doMock('@/services/commerce', () => ({ getCommerceClient: () => ({ searchProducts: commerceSearch }) }));
+    const { searchProducts } = await import('@/services/search/search');
+
+    const result = await searchProducts(MOCK_PRODUCTS, { query: 'cream', skinTypes: ['dry'], price: { max: 500 } });
+
+    expect(commerceSearch).toHaveBeenCalledWith({ query: 'cream', category: undefined, limit: 100 });
+    expect(result.source).toBe('commerce');
+    expect(result.products.map((p) => p.id)).toEqual([dry.id]);
+    expect(result.facets.skinTypes.find((f) => f.value === 'oily')?.count).toBe(1);
+  });
+});
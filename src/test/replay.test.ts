@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { AgentforceClient } from '@/services/agentforce/client';
+import { FireflyClient } from '@/services/firefly/client';
+import { GeminiClient } from '@/services/gemini/client';
+import { PerfectCorpClient } from '@/services/perfectcorp/client';
+import { RulesAgentBackend } from '@/services/mock/rulesEngine';
+import { SeededClock, resetRuntime, startRecording, startReplay, type Cassette } from '@/services/replay';
+import type { CustomerSessionContext } from '@/types/customer';
+import directivesMidStream from './fixtures/sse/directives-mid-stream.sse?raw';
+import personaJourneyCassette from './fixtures/replay/persona-journey.json';
+
+const customer = {
+  customerId: 'c-1',
+  name: 'Sarah',
+  identityTier: 'known',
+  loyaltyPoints: 1200,
+} as CustomerSessionContext;
+
+// Uint8Array.from keeps the bytes in this realm — fflate treats foreign arrays as folders under jsdom
+const SCORES_ZIP = zipSync({
+  'scores.json': Uint8Array.from(strToU8(JSON.stringify({
+    hd_acne: { ui_score: 12 },
+    hd_moisture: { ui_score: 38 },
+    hd_skin_type: { whole: { skin_type: 'combination' } },
+    all: { score: 74 },
+    skin_age: 29,
+  }))),
+});
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+}
+
+function streamed(parts: Uint8Array[], contentType: string): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part);
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': contentType } });
+}
+
+function slices(bytes: Uint8Array, size: number): Uint8Array[] {
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) parts.push(bytes.slice(i, i + size));
+  return parts;
+}
+
+/** Stand-in for the live services, in the shapes the real proxies return. */
+function fakeServices(): typeof fetch {
+  let fireflyPolls = 0;
+  let perfectCorpPolls = 0;
+  return async (input) => {
+    const url = String(input);
+    if (url === '/api/sf/token') return json({ access_token: 'sf-secret', expires_in: 7200 });
+    if (url.endsWith('/agents/agent/sessions')) return json({ sessionId: 'session-1' });
+    if (url.endsWith('/sessions/session-1/messages')) {
+      return json({ messages: [{ type: 'Inform', message: 'Welcome back, Sarah! Ready for your trip?' }] });
+    }
+    if (url.endsWith('/sessions/session-1/messages/stream')) {
+      return streamed(slices(new TextEncoder().encode(directivesMidStream), 256), 'text/event-stream');
+    }
+    if (url === '/api/firefly/token') return json({ access_token: 'adobe-secret', expires_in: 86400 });
+    if (url === '/api/firefly/generate') return json({ jobId: 'job-1' });
+    if (url === '/api/firefly/status/job-1') {
+      return json(++fireflyPolls < 2
+        ? { status: 'running' }
+        : { status: 'succeeded', result: { outputs: [{ image: { url: 'https://images.example.com/job-1.png' } }] } });
+    }
+    if (url === '/api/perfectcorp/file') {
+      return json({ data: { files: [{ file_id: 'file-1', requests: [{ url: 'https://upload.example.com/file-1?sig=abc' }] }] } });
+    }
+    if (url === 'https://upload.example.com/file-1?sig=abc') return new Response(null, { status: 200 });
+    if (url === '/api/perfectcorp/task') return json({ task_id: 'task-1' });
+    if (url === '/api/perfectcorp/poll') {
+      return json(++perfectCorpPolls < 3
+        ? { data: { task_status: 'running' } }
+        : { data: { task_status: 'success', results: { url: 'https://results.example.com/task-1.zip' } } });
+    }
+    if (url === 'https://results.example.com/task-1.zip') return streamed(slices(SCORES_ZIP, 100), 'application/zip');
+    if (url === '/api/gemini/vision') {
+      const analysis = {
+        skinType: 'dry',
+        skinAge: 31,
+        overallScore: 68,
+        concerns: [{ concern: 'hydration', label: 'Dehydration', score: 58, severity: 'moderate' }],
+      };
+      return json({ candidates: [{ content: { parts: [{ text: JSON.stringify(analysis) }] } }] });
+    }
+    throw new TypeError(`Unexpected request to ${url}`);
+  };
+}
+
+/** A whole persona visit: greeting, a streamed recommendation, a generated scene and two skin analyses. */
+async function personaJourney() {
+  const agent = new AgentforceClient({ baseUrl: '/api/agentforce', agentId: 'agent' });
+  await agent.initSession(customer);
+  const welcome = await agent.sendMessage('[WELCOME]\nCustomer: Sarah');
+  const timeline: string[] = [];
+  const packing = await agent.sendMessageStreaming(
+    'Packing tips?',
+    (chunk) => timeline.push(`text:${chunk}`),
+    (directive) => timeline.push(`directive:${directive.action}`),
+  );
+  const background = await new FireflyClient({ clientId: 'id', clientSecret: 'secret' }).generateFromPrompt('sunlit vanity');
+  const selfie = new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], 'selfie.jpg', { type: 'image/jpeg' });
+  const perfectCorp = await new PerfectCorpClient({ apiKey: 'key' }).analyzeSkin(selfie);
+  const gemini = await new GeminiClient({ apiKey: 'key' }).analyzeSkin(selfie);
+  return {
+    sessionId: agent.getSessionSnapshot().sessionId,
+    welcome: welcome.message,
+    packing: { message: packing.message, actions: packing.uiDirectives?.map((d) => d.action) },
+    timeline,
+    background,
+    perfectCorp,
+    gemini,
+  };
+}
+
+function offline() {
+  const network = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+  vi.stubGlobal('fetch', network);
+  return network;
+}
+
+describe('demo record/replay', () => {
+  afterEach(() => {
+    resetRuntime();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('replays the committed persona cassette without the network, identically every run', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const network = offline();
+    const cassette = personaJourneyCassette as Cassette;
+
+    const player = startReplay(cassette, { strict: true });
+    const first = await personaJourney();
+    expect(player.remaining()).toEqual([]);
+
+    startReplay(cassette, { strict: true });
+    expect(await personaJourney()).toEqual(first);
+    expect(network).not.toHaveBeenCalled();
+
+    expect(first.sessionId).toBe('session-1');
+    expect(first.welcome).toBe('Welcome back, Sarah! Ready for your trip?');
+    expect(first.packing.actions).toEqual(['CHANGE_SCENE', 'SHOW_PRODUCTS']);
+    expect(first.timeline.indexOf('directive:SHOW_PRODUCTS')).toBeLessThan(first.timeline.findIndex((t) => t.includes('crowd favorite')));
+    expect(first.background).toBe('https://images.example.com/job-1.png');
+    expect(first.perfectCorp).toMatchObject({ skinType: 'combination', skinAge: 29, overallScore: 74 });
+    // Polls sleep on the virtual clock: 2s per Firefly poll, 2s per Perfect Corp poll, from the recording's start
+    expect(first.perfectCorp.analyzedAt).toBe(new Date(cassette.recordedAt + 2 * 2000 + 3 * 2000).toISOString());
+    expect(first.gemini.analyzedAt).toBe(first.perfectCorp.analyzedAt);
+  });
+
+  it('records live traffic and plays it back byte for byte, minus access tokens', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('fetch', fakeServices());
+    const recorder = startRecording({ name: 'journey', seed: 7, clock: new SeededClock(Date.UTC(2026, 9, 19)) });
+    const live = await personaJourney();
+    expect(recorder.idle).toBe(true);
+    const cassette: Cassette = JSON.parse(JSON.stringify(recorder.getCassette()));
+
+    expect(JSON.stringify(cassette)).not.toMatch(/sf-secret|adobe-secret/);
+    const zip = cassette.exchanges.find((e) => e.request.url.endsWith('.zip'))!;
+    expect(zip.response.chunks.some((chunk) => chunk.base64)).toBe(true);
+    const stream = cassette.exchanges.find((e) => e.request.url.endsWith('/stream'))!;
+    expect(stream.response.chunks.map((chunk) => chunk.text).join('')).toBe(directivesMidStream);
+
+    offline();
+    startReplay(cassette, { strict: true });
+    const replayed = await personaJourney();
+    const { analyzedAt: _liveAt, ...liveSkin } = live.perfectCorp;
+    const { analyzedAt: _replayAt, ...replayedSkin } = replayed.perfectCorp;
+    expect(replayedSkin).toEqual(liveSkin);
+    expect({ ...replayed, perfectCorp: null, gemini: null }).toEqual({ ...live, perfectCorp: null, gemini: null });
+  });
+
+  it('fails loudly in strict mode when a request was never recorded', async () => {
+    offline();
+    const cassette = personaJourneyCassette as Cassette;
+    startReplay(cassette, { strict: true });
+    const agent = new AgentforceClient({ baseUrl: '/api/agentforce', agentId: 'other-agent', accessToken: 'token' });
+    await expect(agent.initSession(customer)).rejects.toThrow(/No recorded response for POST \/api\/agentforce\/agents\/other-agent\/sessions/);
+  });
+
+  it('seeds the mock agent so probes and think time repeat exactly', async () => {
+    const cassette = personaJourneyCassette as Cassette;
+    const run = async () => {
+      startReplay(cassette);
+      const agent = new RulesAgentBackend();
+      await agent.initSession(customer);
+      const replies = [];
+      for (const message of ['show me serums', 'what about moisturizers?', 'I need sunscreen', 'tell me about cleansers']) {
+        replies.push((await agent.sendMessage(message)).suggestedActions);
+      }
+      return replies;
+    };
+    const first = await run();
+    expect(await run()).toEqual(first);
+  });
+});
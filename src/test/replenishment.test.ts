@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { estimateCycleDays, parseSize, predictReplenishment } from '@/services/replenishment';
+import { installRuntime, resetRuntime } from '@/services/replay/runtime';
+import { SeededClock } from '@/services/replay/seeded';
+import type { OrderRecord } from '@/types/customer';
+import { byId } from './fixtures/products';
+
+const order = (orderDate: string, items: [string, number][], extra: Partial<OrderRecord> = {}): OrderRecord => ({
+  orderId: `o-${orderDate}`,
+  orderDate,
+  channel: 'online',
+  status: 'completed',
+  totalAmount: 0,
+  lineItems: items.map(([productId, quantity]) => ({
+    productId,
+    productName: byId(productId).name,
+    quantity,
+    unitPrice: byId(productId).price,
+  })),
+  ...extra,
+});
+
+describe('product sizes', () => {
+  it('reads volumes, multipacks and counts', () => {
+    expect(parseSize('50ml')).toEqual({ amount: 50, unit: 'ml' });
+    expect(parseSize('3 x 30ml')).toEqual({ amount: 90, unit: 'ml' });
+    expect(parseSize('1.7 oz')?.amount).toBeCloseTo(50.3, 1);
+    expect(parseSize('36 patches')).toEqual({ amount: 36, unit: 'count' });
+    expect(parseSize('one bottle')).toBeNull();
+  });
+
+  it('estimates a cycle from size at a typical daily dose', () => {
+    // 150ml cleanser at 1.5ml a day
+    expect(estimateCycleDays(byId('cleanser-gentle'))).toEqual({ days: 100, basis: 'size' });
+    expect(estimateCycleDays(byId('mascara-volume')).days).toBeLessThanOrEqual(90);
+  });
+});
+
+describe('predictReplenishment', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('learns the cycle from repeat orders, per unit bought', () => {
+    const [cleanser] = predictReplenishment(
+      [order('2025-09-01', [['cleanser-gentle', 2]]), order('2025-12-30', [['cleanser-gentle', 1]])],
+      MOCK_PRODUCTS,
+      now,
+    );
+    // 120 days between orders for 2 units → 60 days per unit
+    expect(cleanser).toMatchObject({ basis: 'history', cycleDays: 60, runOutDate: '2026-02-28', daysLeft: -1, status: 'due' });
+  });
+
+  it("scales single purchases by the customer's pace on repeat products", () => {
+    const predictions = predictReplenishment(
+      [
+        order('2025-10-01', [['cleanser-gentle', 1], ['serum-vitamin-c', 1]]),
+        order('2025-12-20', [['cleanser-gentle', 1]]), // 80 days vs an estimate of 100
+      ],
+      MOCK_PRODUCTS,
+      now,
+    );
+    const serum = predictions.find((p) => p.product.id === 'serum-vitamin-c')!;
+    const estimate = estimateCycleDays(byId('serum-vitamin-c')).days;
+    expect(serum.basis).toBe('size');
+    expect(serum.cycleDays).toBe(Math.round(estimate * 0.8));
+  });
+
+  it('ignores gifts, returns and long-lapsed products, and sorts soonest first', () => {
+    const gift = order('2026-02-01', [['serum-vitamin-c', 1]]);
+    gift.lineItems[0].isGift = true;
+    const predictions = predictReplenishment(
+      [
+        gift,
+        order('2026-02-10', [['toner-aha', 1]], { status: 'returned' }),
+        order('2024-01-05', [['sunscreen-lightweight', 1]]),
+        order('2026-02-15', [['moisturizer-sensitive', 1], ['cleanser-gentle', 1]]),
+      ],
+      MOCK_PRODUCTS,
+      now,
+    );
+
+    expect(predictions.map((p) => p.product.id)).toEqual(['moisturizer-sensitive', 'cleanser-gentle']);
+    expect(predictions.every((p) => p.status === 'upcoming')).toBe(true);
+  });
+
+  describe('without an explicit date', () => {
+    afterEach(() => resetRuntime());
+
+    it("predicts from the runtime clock, so replays see the recording's today", () => {
+      installRuntime({ clock: new SeededClock(now.getTime()) });
+      const [cleanser] = predictReplenishment(
+        [order('2025-09-01', [['cleanser-gentle', 2]]), order('2025-12-30', [['cleanser-gentle', 1]])],
+        MOCK_PRODUCTS,
+      );
+      expect(cleanser).toMatchObject({ daysLeft: -1, status: 'due' });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import { buildRoutine, checkRoutineConflicts, routineProducts } from '@/services/routine';
+import { validateUIDirective } from '@/services/agentforce/directiveSchema';
+import type { Product } from '@/types/product';
+import type { SkinAnalysisResult } from '@/types/skinanalysis';
+import { byId } from './fixtures/products';
+
+const agingScan: SkinAnalysisResult = {
+  skinType: 'normal',
+  skinAge: 41,
+  overallScore: 62,
+  concerns: [
+    { concern: 'wrinkle', label: 'Wrinkles', score: 64, severity: 'moderate' },
+    { concern: 'texture', label: 'Uneven Texture', score: 48, severity: 'moderate' },
+    { concern: 'spot', label: 'Dark Spots', score: 35, severity: 'mild' },
+    { concern: 'acne', label: 'Acne', score: 5, severity: 'none' },
+  ],
+  primaryConcern: 'Wrinkles',
+  analyzedAt: '2026-10-19T15:00:00.000Z',
+};
+
+describe('routine builder', () => {
+  it('orders each session cleanser → toner → serum → moisturizer → sunscreen, with SPF only in the morning', () => {
+    const routine = buildRoutine({ analysis: agingScan, catalog: MOCK_PRODUCTS });
+
+    expect(routine.morning.map((s) => s.step)).toEqual(['cleanser', 'toner', 'serum', 'moisturizer', 'sunscreen']);
+    expect(routine.evening.map((s) => s.step)).toEqual(['cleanser', 'toner', 'serum', 'moisturizer']);
+    expect(routine.evening.some((s) => s.product.category === 'sunscreen' || s.product.attributes.concerns?.includes('sun protection'))).toBe(false);
+    expect(routine.focus).toEqual(['Wrinkles', 'Uneven Texture', 'Dark Spots']);
+  });
+
+  it('keeps retinoids out of the morning and never layers them with acids in the same session', () => {
+    const routine = buildRoutine({ analysis: agingScan, catalog: MOCK_PRODUCTS });
+
+    const retinol = /retin/i;
+    const morningIngredients = routine.morning.flatMap((s) => s.product.attributes.ingredients ?? []);
+    expect(morningIngredients.some((i) => retinol.test(i))).toBe(false);
+    expect(routine.conflicts).toEqual([]);
+    expect(checkRoutineConflicts(routine)).toEqual([]);
+  });
+
+  it('reports a conflict it cannot avoid', () => {
+    const retinolSerum = byId('serum-retinol');
+    const ahaToner = byId('toner-aha');
+    // A catalog where the only evening toner is an AHA and the only serum is retinol
+    const catalog: Product[] = [byId('cleanser-gentle'), ahaToner, retinolSerum, byId('moisturizer-night')];
+
+    const routine = buildRoutine({ analysis: agingScan, catalog });
+
+    expect(routine.evening.map((s) => s.product.id)).toEqual(['cleanser-gentle', 'toner-aha', 'serum-retinol', 'moisturizer-night']);
+    expect(routine.conflicts).toEqual([{
+      session: 'evening',
+      productIds: ['toner-aha', 'serum-retinol'],
+      ingredients: ['Glycolic Acid 5%', 'Encapsulated Retinol 0.5%'],
+      message: expect.stringContaining('Retinol and AHAs'),
+    }]);
+  });
+
+  it('leaves out products with allergens or fragrance when the customer avoids them', () => {
+    const routine = buildRoutine({
+      analysis: agingScan,
+      preferences: { allergies: ['niacinamide'], fragrancePreference: 'fragrance-free' },
+      catalog: MOCK_PRODUCTS,
+    });
+
+    for (const product of routineProducts(routine)) {
+      const ingredients = (product.attributes.ingredients ?? []).join(' ').toLowerCase();
+      expect(ingredients).not.toContain('niacinamide');
+      expect(ingredients).not.toMatch(/fragrance|parfum/);
+    }
+  });
+
+  it('adds each product to the bag once even when both sessions use it', () => {
+    const routine = buildRoutine({ analysis: agingScan, catalog: MOCK_PRODUCTS });
+    const ids = routineProducts(routine).map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.length).toBeLessThan(routine.morning.length + routine.evening.length);
+  });
+
+  it('accepts a SHOW_ROUTINE directive with or without a routine', () => {
+    const routine = buildRoutine({ analysis: agingScan, catalog: MOCK_PRODUCTS });
+    expect(validateUIDirective({ version: 1, action: 'SHOW_ROUTINE', payload: {} })).toEqual([]);
+    expect(validateUIDirective({ version: 1, action: 'SHOW_ROUTINE', payload: { routine } })).toEqual([]);
+    expect(validateUIDirective({
+      version: 1,
+      action: 'SHOW_ROUTINE',
+      payload: { routine: { morning: [{ step: 'exfoliate', product: { id: 'x', name: 'X' } }], evening: [] } },
+    })).toEqual([expect.objectContaining({ path: 'payload.routine.morning[0].step', code: 'invalid_value' })]);
+  });
+});
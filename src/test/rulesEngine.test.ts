@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RulesAgentBackend } from '@/services/mock/rulesEngine';
+import type { RulePack } from '@/services/mock/types';
+import type { CustomerSessionContext } from '@/types/customer';
+
+const customer = {
+  customerId: 'c-1',
+  name: 'Sarah',
+  identityTier: 'known',
+  loyaltyPoints: 1200,
+  recentPurchases: ['cleanser-gentle', 'sunscreen-lightweight', 'cleanser-gentle'],
+} as CustomerSessionContext;
+
+const acme: RulePack = {
+  name: 'acme',
+  products: [{
+    id: 'acme-balm',
+    name: 'Acme Balm',
+    brand: 'Acme',
+    category: 'moisturizer',
+    price: 20,
+    currency: 'USD',
+    description: '',
+    shortDescription: '',
+    imageUrl: '',
+    images: [],
+    attributes: { ingredients: ['Shea butter', 'Squalane'] },
+    rating: 5,
+    reviewCount: 1,
+    inStock: true,
+  }],
+  rules: [
+    { id: 'broken', patterns: ['(unclosed'], reply: 'never' },
+    {
+      id: 'balm',
+      keywords: ['balm'],
+      reply: 'Meet the {{product.name}}.',
+      action: 'SHOW_PRODUCT',
+      products: { ids: ['acme-balm'] },
+      payload: { sceneContext: { setting: 'bathroom' } },
+    },
+    {
+      id: 'vip',
+      keywords: ['vip'],
+      when: { identityTier: ['known'] },
+      reply: 'Welcome to the club, {{customer.name}}.',
+    },
+  ],
+  fallback: { reply: 'Acme can help with balms.' },
+};
+
+function agent(packs: (string | RulePack)[] = ['skin-concierge', 'beaute']) {
+  return new RulesAgentBackend({ packs, latencyMs: { min: 0, max: 0 }, random: () => 0.99 });
+}
+
+describe('RulesAgentBackend', () => {
+  it('answers from the first matching rule and tracks the product under discussion', async () => {
+    const backend = agent();
+    await backend.initSession();
+    const shown = backend.respond('I need a face wash');
+    expect(shown.uiDirective?.action).toBe('SHOW_PRODUCT');
+    expect(shown.message).toContain('Cloud Cream');
+
+    const added = backend.respond('add it to my bag');
+    expect(added.uiDirective).toEqual({ action: 'ADD_TO_CART', payload: { cartItems: [{ productId: 'cleanser-gentle', quantity: 1 }] } });
+
+    const ingredients = backend.respond('what are the ingredients?');
+    expect(ingredients.message).toMatch(/^The .+ contains: /);
+  });
+
+  it('falls through to otherwise when the customer or conversation lacks what a rule needs', async () => {
+    const backend = agent();
+    await backend.initSession();
+    expect(backend.respond('add it to my bag').message).toBe('Happy to! Which product should I add to your bag?');
+    expect(backend.respond('restock my favorites').uiDirective).toBeUndefined();
+    expect(backend.respond('can I redeem points?').message).toMatch(/^Join our loyalty program/);
+
+    await backend.initSession(customer);
+    const redeem = backend.respond('can I redeem points?');
+    expect(redeem.uiDirective?.action).toBe('OFFER_LOYALTY_REDEMPTION');
+    expect(redeem.message).toContain('1,200 points');
+    const restock = backend.respond('restock my favorites');
+    expect(restock.message).toContain('Sarah');
+    expect(restock.uiDirective?.payload.products?.map((p) => p.id)).toEqual(['cleanser-gentle', 'sunscreen-lightweight']);
+  });
+
+  it('extracts and formats captured values into the payload', async () => {
+    const backend = agent();
+    await backend.initSession();
+    const response = backend.respond('use promo code beaute10');
+    expect(response.uiDirective).toEqual({ action: 'APPLY_PROMO', payload: { promoCode: 'BEAUTE10' } });
+    expect(response.message).toContain('BEAUTE10');
+  });
+
+  it('greets once per session from the welcome handler', async () => {
+    const backend = agent();
+    await backend.initSession(customer);
+    expect(backend.respond('[WELCOME]\nCustomer: Sarah').uiDirective?.action).toBe('WELCOME_SCENE');
+    expect(backend.respond('hello').message).toMatch(/^Hello! Welcome/);
+  });
+
+  it('runs custom packs with their own products and skips malformed rules', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const backend = agent([acme]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('acme/broken'), expect.anything());
+    warn.mockRestore();
+
+    await backend.initSession({ ...customer, identityTier: 'anonymous' });
+    expect(backend.respond('tell me about the balm').uiDirective?.payload).toMatchObject({
+      products: [{ id: 'acme-balm' }],
+      sceneContext: { setting: 'bathroom' },
+    });
+    expect(backend.respond('vip perks?').message).toBe('Acme can help with balms.');
+  });
+
+  it('restores a snapshot into a fresh instance', async () => {
+    const backend = agent();
+    await backend.initSession(customer);
+    backend.respond('show me serums');
+    const snapshot = JSON.parse(JSON.stringify(backend.getSessionSnapshot()));
+
+    const restored = agent();
+    restored.restoreSnapshot(snapshot);
+    expect(restored.getSessionSnapshot()).toEqual(snapshot);
+    expect(restored.respond('add them to my bag').uiDirective?.payload.cartItems?.length).toBeGreaterThan(1);
+  });
+});
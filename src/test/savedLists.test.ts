@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { MOCK_PRODUCTS } from '@/mocks/products';
+import {
+  addToList,
+  createList,
+  decodeSharedList,
+  describeSavedList,
+  deserializeSavedLists,
+  encodeSharedList,
+  findListAlerts,
+  markListsSeen,
+  mergeSavedLists,
+  removeFromList,
+  serializeSavedLists,
+} from '@/services/savedLists';
+import { byId } from './fixtures/products';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('saved lists', () => {
+  it('names lists on demand, adds newest first and ignores duplicates', () => {
+    const list = createList('  ', 'gift', { recipient: ' Maria ', occasion: 'anniversary' }, now);
+    expect(list).toMatchObject({ name: 'Gift ideas', kind: 'gift', recipient: 'Maria', occasion: 'anniversary', items: [] });
+
+    const withTwo = addToList(addToList(list, byId('fragrance-floral'), now), byId('lipstick-velvet'), now);
+    expect(withTwo.items.map((i) => i.productId)).toEqual(['lipstick-velvet', 'fragrance-floral']);
+    expect(addToList(withTwo, byId('fragrance-floral'), now)).toBe(withTwo);
+    expect(removeFromList(withTwo, 'lipstick-velvet').items.map((i) => i.productId)).toEqual(['fragrance-floral']);
+    expect(removeFromList(withTwo, 'missing')).toBe(withTwo);
+
+    expect(describeSavedList(withTwo, MOCK_PRODUCTS)).toBe(
+      'Gift ideas (gift for Maria anniversary): Velvet Matte Lip Color (lipstick-velvet, $34.00); Jardin de Nuit Eau de Parfum (fragrance-floral, $125.00)',
+    );
+  });
+
+  it('alerts once per product on price drops and restocks, then settles', () => {
+    const serum = byId('serum-vitamin-c');
+    const wishlist = addToList(createList('', 'wishlist', {}, now), { ...serum, inStock: false }, now);
+    const gifts = addToList(addToList(createList('For Maria', 'gift', {}, now), serum, now), byId('blush-silk'), now);
+    const lists = [wishlist, gifts];
+
+    const catalog = MOCK_PRODUCTS.map((p) => {
+      if (p.id === 'serum-vitamin-c') return { ...p, price: 60 };
+      if (p.id === 'blush-silk') return { ...p, price: 30, inStock: false };
+      return p;
+    });
+    const alerts = findListAlerts(lists, catalog);
+    // Restock wins over the drop, and the serum isn't repeated for the gift list
+    expect(alerts.map((a) => [a.kind, a.product.id, a.listName])).toEqual([['back_in_stock', 'serum-vitamin-c', 'Wishlist']]);
+
+    const seen = markListsSeen(lists, catalog);
+    expect(findListAlerts(seen, catalog)).toEqual([]);
+    expect(markListsSeen(seen, catalog)).toBe(seen);
+
+    const cheaper = catalog.map((p) => (p.id === 'serum-vitamin-c' ? { ...p, price: 50 } : p));
+    expect(findListAlerts(seen, cheaper)).toEqual([expect.objectContaining({ kind: 'price_drop', previousPrice: 60 })]);
+  });
+
+  it('round-trips share links and rejects tampered tokens', () => {
+    const list = addToList(createList('Anniversary', 'gift', { recipient: 'Élise' }, now), byId('fragrance-floral'), now);
+    expect(decodeSharedList(encodeSharedList(list))).toEqual({
+      name: 'Anniversary', kind: 'gift', recipient: 'Élise', productIds: ['fragrance-floral'],
+    });
+    expect(encodeSharedList(list)).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    expect(decodeSharedList('not-a-token')).toBeNull();
+    expect(decodeSharedList(encodeSharedList(list).slice(0, 20))).toBeNull();
+    const badKind = btoa(JSON.stringify({ name: 'x', kind: 'toString', productIds: [] }));
+    expect(decodeSharedList(badKind)).toBeNull();
+  });
+
+  it('persists lists and drops malformed entries', () => {
+    const list = addToList(createList('', 'wishlist', {}, now), byId('mascara-volume'), now);
+    expect(deserializeSavedLists(serializeSavedLists([list]))).toEqual([list]);
+
+    const raw = JSON.stringify({
+      version: 1,
+      lists: [
+        { ...list, items: [...list.items, { productId: 'eye-cream', addedAt: now.toISOString(), lastSeenPrice: '48' }] },
+        { ...list, id: 'list-2', kind: 'favorites' },
+      ],
+    });
+    expect(deserializeSavedLists(raw)).toEqual([list]);
+    expect(deserializeSavedLists(JSON.stringify({ version: 99, lists: [list] }))).toEqual([]);
+    expect(deserializeSavedLists('{')).toEqual([]);
+  });
+
+  it('folds a guest’s lists into the known customer’s by kind and name', () => {
+    const known = [addToList(createList('', 'wishlist', {}, now), byId('eye-cream'), now)];
+    const guest = [
+      addToList(addToList(createList('wishlist', 'wishlist', {}, now), byId('eye-cream'), now), byId('toner-aha'), now),
+      addToList(createList('', 'saved_for_later', {}, now), byId('mask-hydrating'), now),
+    ];
+    const merged = mergeSavedLists(known, guest);
+    expect(merged.map((l) => [l.name, l.items.map((i) => i.productId)])).toEqual([
+      ['Wishlist', ['eye-cream', 'toner-aha']],
+      ['Saved for later', ['mask-hydrating']],
+    ]);
+    expect(known[0].items).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  LIVE_SESSION_IDLE_MS,
+  SESSION_TTL_MS,
+  canResumeLiveSession,
+  deserializeSession,
+  directiveHistoryFrom,
+  loadSession,
+  saveSession,
+  sessionStorageKey,
+  summarizeTranscript,
+} from '@/services/session';
+import type { PersistedSession } from '@/services/session';
+import type { AgentMessage } from '@/types/agent';
+import type { SceneSnapshot } from '@/contexts/SceneContext';
+
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+const scene: SceneSnapshot = {
+  layout: 'product-grid',
+  setting: 'bathroom',
+  background: { type: 'image', value: '/assets/backgrounds/bathroom.png' },
+  chatPosition: 'bottom',
+  products: [],
+  checkoutActive: false,
+  welcomeActive: false,
+  transitionKey: 'scene-1',
+  advisorMode: 'beauty',
+  skinAnalysisActive: false,
+  retailerHandoffActive: false,
+};
+
+const messages: AgentMessage[] = [
+  { id: 'm1', role: 'user', content: 'Show me moisturizers', timestamp: new Date(NOW - 60_000) },
+  {
+    id: 'm2',
+    role: 'agent',
+    content: 'Here are two picks for dry skin.',
+    timestamp: new Date(NOW - 50_000),
+    uiDirectives: [{
+      action: 'SHOW_PRODUCTS',
+      payload: { products: [{ id: 'moisturizer-sensitive' }, { id: 'mask-hydrating' }] as never },
+    }],
+  },
+];
+
+function session(overrides: Partial<PersistedSession> = {}): PersistedSession {
+  return {
+    savedAt: NOW,
+    messages,
+    suggestedActions: ['Under $50'],
+    directiveHistory: directiveHistoryFrom(messages),
+    sceneSnapshot: scene,
+    agentSession: { sessionId: 'sess-1', sequenceId: 4, lastActiveAt: NOW - 50_000 },
+    ...overrides,
+  };
+}
+
+describe('session storage', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips a conversation per agent and customer, reviving timestamps', () => {
+    saveSession('default', 'customer-1', session());
+    const loaded = loadSession('default', 'customer-1', NOW);
+    expect(loaded?.messages[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded).toEqual(session());
+    expect(loadSession('skin', 'customer-1', NOW)).toBeNull();
+    expect(loadSession('default', 'customer-2', NOW)).toBeNull();
+  });
+
+  it('expires saved conversations after the TTL and clears the entry', () => {
+    saveSession('default', 'customer-1', session());
+    expect(loadSession('default', 'customer-1', NOW + SESSION_TTL_MS + 1)).toBeNull();
+    expect(localStorage.getItem(sessionStorageKey('default', 'customer-1'))).toBeNull();
+  });
+
+  it('replaces page-scoped generated backgrounds with the default image', () => {
+    const raw = JSON.stringify({
+      version: 2,
+      ...session({ sceneSnapshot: { ...scene, background: { type: 'generative', value: 'blob:http://localhost/abc' } } }),
+    });
+    expect(deserializeSession(raw, NOW)?.sceneSnapshot.background).toEqual({
+      type: 'image',
+      value: '/assets/backgrounds/default.png',
+    });
+  });
+
+  it('resumes the live agent session only inside the idle window', () => {
+    const saved = session();
+    expect(canResumeLiveSession(saved, NOW)).toBe(true);
+    expect(canResumeLiveSession(saved, NOW + LIVE_SESSION_IDLE_MS)).toBe(false);
+    expect(canResumeLiveSession(session({ agentSession: null }), NOW)).toBe(false);
+  });
+});
+
+describe('summarizeTranscript', () => {
+  it('briefs a replacement session on the recent exchange and products shown', () => {
+    const summary = summarizeTranscript(messages, directiveHistoryFrom(messages))!;
+    expect(summary).toContain('[PRIOR SESSION SUMMARY]');
+    expect(summary).toContain('Customer: Show me moisturizers');
+    expect(summary).toContain('You: Here are two picks for dry skin.');
+    expect(summary).toContain('Products already shown: moisturizer-sensitive, mask-hydrating');
+    expect(summarizeTranscript([], [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CALIBRATION_VERSION, SkinAnalysisRegistry, calibrateSkinReading } from '@/services/skinanalysis';
+import type { SkinAnalysisProvider, SkinReading } from '@/services/skinanalysis';
+
+const selfie = new File([new Uint8Array([0xff, 0xd8])], 'selfie.jpg', { type: 'image/jpeg' });
+
+function reading(provider: SkinReading['provider'], concerns: SkinReading['concerns'], overallScore?: number): SkinReading {
+  return { provider, skinType: 'dry', skinAge: 30, overallScore, concerns, capturedAt: '2026-10-19T15:00:00.000Z' };
+}
+
+function provider(id: SkinReading['provider'], read: () => Promise<SkinReading>, available = true): SkinAnalysisProvider {
+  return { id, isAvailable: () => available, read: vi.fn(read) };
+}
+
+describe('skin analysis calibration', () => {
+  it('maps Perfect Corp HD metrics onto shared keys, inverting the positive ones', () => {
+    const result = calibrateSkinReading(reading('perfectcorp', [
+      { key: 'hd_moisture', score: 38 },
+      { key: 'hd_acne', score: 12 },
+      { key: 'hd_unknown', score: 90 },
+    ], 74));
+
+    expect(result.concerns).toEqual([
+      { concern: 'hydration', label: 'Dehydration', score: 62, severity: 'moderate' },
+      { concern: 'acne', label: 'Acne', score: 12, severity: 'none' },
+    ]);
+    expect(result).toMatchObject({
+      overallScore: 74,
+      primaryConcern: 'Dehydration',
+      provider: 'perfectcorp',
+      calibrationVersion: CALIBRATION_VERSION,
+      analyzedAt: '2026-10-19T15:00:00.000Z',
+    });
+  });
+
+  it('pulls Gemini scores toward the reference scale and recomputes severity', () => {
+    const result = calibrateSkinReading(reading('gemini', [{ key: 'redness', score: 70 }, { key: 'pore', score: 100 }], 60));
+
+    // 70 * 0.85 + 3 = 62.5 → 63, which is moderate on the shared scale rather than Gemini's "severe"
+    expect(result.concerns.map((c) => [c.concern, c.score, c.severity])).toEqual([
+      ['redness', 63, 'moderate'],
+      ['pore', 88, 'severe'],
+    ]);
+    expect(result.overallScore).toBe(62);
+    expect(result.provider).toBe('gemini');
+  });
+
+  it('derives an overall score from calibrated concerns when the provider has none', () => {
+    const result = calibrateSkinReading(reading('mock', [{ key: 'hydration', score: 40 }, { key: 'redness', score: 20 }]));
+    expect(result.overallScore).toBe(70);
+  });
+});
+
+describe('skin analysis registry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails over to the next available provider and records which one answered', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const perfectCorp = provider('perfectcorp', async () => { throw new Error('task timed out'); });
+    const gemini = provider('gemini', async () => reading('gemini', [{ key: 'hydration', score: 50 }], 70));
+    const mock = provider('mock', async () => reading('mock', []));
+    const registry = new SkinAnalysisRegistry([perfectCorp, gemini, mock]);
+
+    const result = await registry.analyze(selfie);
+
+    expect(perfectCorp.read).toHaveBeenCalledWith(selfie);
+    expect(mock.read).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ provider: 'gemini', calibrationVersion: CALIBRATION_VERSION, overallScore: 71 });
+  });
+
+  it('skips unavailable providers, honours a preference and surfaces the last error', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const perfectCorp = provider('perfectcorp', async () => reading('perfectcorp', []), false);
+    const gemini = provider('gemini', async () => { throw new Error('quota exceeded'); });
+    const mock = provider('mock', async () => { throw new Error('mock offline'); });
+    const registry = new SkinAnalysisRegistry([perfectCorp, gemini, mock]);
+
+    expect(registry.available()).toEqual(['gemini', 'mock']);
+    expect(registry.available({ prefer: 'mock' })).toEqual(['mock', 'gemini']);
+    await expect(registry.analyze(selfie)).rejects.toThrow('mock offline');
+    expect(perfectCorp.read).not.toHaveBeenCalled();
+
+    await expect(new SkinAnalysisRegistry().analyze(selfie)).rejects.toThrow('No skin analysis provider is available');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { buildAnalysisSummary, compareSkinAnalyses, describeSkinProgress, sortAnalysesByDate } from '@/types/skinanalysis';
+import type { SkinAnalysisResult, SkinConcernScore } from '@/types/skinanalysis';
+
+function scan(analyzedAt: string, overallScore: number, scores: Record<string, number>): SkinAnalysisResult {
+  const labels: Record<string, string> = { redness: 'Redness', hydration: 'Dehydration', pore: 'Enlarged Pores' };
+  const concerns: SkinConcernScore[] = Object.entries(scores).map(([concern, score]) => ({
+    concern,
+    label: labels[concern],
+    score,
+    severity: score < 20 ? 'none' : score < 40 ? 'mild' : 'moderate',
+  }));
+  return { skinType: 'sensitive', skinAge: 32, overallScore, concerns, primaryConcern: concerns[0].label, analyzedAt };
+}
+
+const october = scan('2025-10-30T16:45:00.000Z', 57, { redness: 58, hydration: 62, pore: 30 });
+const january = scan('2026-01-24T17:10:00.000Z', 68, { redness: 38, hydration: 54, pore: 32 });
+const april = scan('2026-04-02T09:00:00.000Z', 70, { redness: 36, hydration: 51 });
+
+describe('skin analysis progress', () => {
+  it('compares concerns between two scans, biggest moves first', () => {
+    expect(compareSkinAnalyses(october, january)).toEqual([
+      { concern: 'redness', label: 'Redness', before: 58, after: 38, delta: -20 },
+      { concern: 'hydration', label: 'Dehydration', before: 62, after: 54, delta: -8 },
+      { concern: 'pore', label: 'Enlarged Pores', before: 30, after: 32, delta: 2 },
+    ]);
+    // Concerns missing from either scan are left out rather than treated as zero
+    expect(compareSkinAnalyses(january, april).map((d) => d.concern)).toEqual(['hydration', 'redness']);
+  });
+
+  it('describes the latest change regardless of history order, ignoring noise', () => {
+    expect(sortAnalysesByDate([january, october]).map((a) => a.analyzedAt)).toEqual([october.analyzedAt, january.analyzedAt]);
+    expect(describeSkinProgress([january, october])).toBe(
+      'Since the last skin scan on 2025-10-30: Redness dropped 20 points, Dehydration dropped 8 points, overall skin health 57 → 68/100.',
+    );
+    expect(describeSkinProgress([october, january, april])).toBe(
+      'Since the last skin scan on 2026-01-24: no significant change (overall skin health 68 → 70/100).',
+    );
+    expect(describeSkinProgress([october])).toBeNull();
+  });
+
+  it('adds progress to the post-analysis summary only when there is history', () => {
+    expect(buildAnalysisSummary(january)).not.toContain('Since the last');
+    expect(buildAnalysisSummary(january, [october])).toContain('Since the last skin scan on 2025-10-30: Redness dropped 20 points');
+  });
+});
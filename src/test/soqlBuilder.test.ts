@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { and, contains, eq, gte, inList, inQuery, or, soql, soqlLiteral } from '@/services/soql';
+import type { FieldOf } from '@/services/soql';
+import { findSceneAsset } from '@/services/sceneRegistry/client';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('soqlLiteral', () => {
+  it('keeps quote-breaking input inside the string literal', () => {
+    expect(soqlLiteral("x' OR Id != null --")).toBe("'x\\' OR Id != null --'");
+    expect(soqlLiteral("x\\' OR Name = 'y")).toBe("'x\\\\\\' OR Name = \\'y'");
+    expect(soqlLiteral('a\nb\r\t"c"')).toBe("'a\\nb\\r\\t\\\"c\\\"'");
+  });
+
+  it('renders non-string values and rejects non-finite numbers', () => {
+    expect(soqlLiteral(2.5)).toBe('2.5');
+    expect(soqlLiteral(true)).toBe('true');
+    expect(soqlLiteral(null)).toBe('null');
+    expect(() => soqlLiteral(Number.NaN)).toThrow('Cannot bind NaN in SOQL');
+  });
+});
+
+describe('soql builder', () => {
+  it('renders a full query with bound values', () => {
+    const query = soql('Scene_Asset__c')
+      .select('Id', 'Image_URL__c')
+      .where(and(eq('Setting__c', "studio' OR Setting__c != '"), gte('Quality_Score__c', 2)))
+      .where(eq('Mood__c', 'calm'))
+      .orderBy('Quality_Score__c', 'DESC')
+      .orderBy('Last_Used__c', 'DESC', 'LAST')
+      .limit(1);
+
+    expect(query.toString()).toBe(
+      "SELECT Id, Image_URL__c FROM Scene_Asset__c " +
+      "WHERE ((Setting__c = 'studio\\' OR Setting__c != \\'') AND (Quality_Score__c >= 2)) AND (Mood__c = 'calm') " +
+      'ORDER BY Quality_Score__c DESC, Last_Used__c DESC NULLS LAST LIMIT 1',
+    );
+    expect(query.toPath()).toBe(`/services/data/v60.0/query/?q=${encodeURIComponent(query.toString())}`);
+  });
+
+  it('treats LIKE wildcards in contains() as literal text', () => {
+    expect(contains('Description', "50%_off' OR Id != null").text)
+      .toBe("Description LIKE '%50\\%\\_off\\' OR Id != null%'");
+  });
+
+  it('renders IN lists, semi-joins and OR groups', () => {
+    const orders = soql('Order')
+      .select('Id')
+      .where(inQuery('AccountId', soql('Contact').select('AccountId').where(eq('Id', "003' OR Id != '"))));
+    expect(orders.toString())
+      .toBe("SELECT Id FROM Order WHERE AccountId IN (SELECT AccountId FROM Contact WHERE Id = '003\\' OR Id != \\'')");
+
+    expect(soql('Journey_Approval__c').select('Id').where(inList('Meaningful_Event__c', ['a0A', "a0B')--"])).toString())
+      .toBe("SELECT Id FROM Journey_Approval__c WHERE Meaningful_Event__c IN ('a0A', 'a0B\\')--')");
+
+    expect(or(eq('Customer_Id__c', '003A'), eq('Contact__c', '003A')).text)
+      .toBe("(Customer_Id__c = '003A') OR (Contact__c = '003A')");
+  });
+
+  it('rejects identifiers, lists and limits it cannot render safely', () => {
+    const field = 'Id FROM Contact --' as FieldOf<'Contact'>;
+    expect(() => soql('Contact').select(field)).toThrow('Invalid SOQL identifier');
+    expect(() => inList('Id', [])).toThrow('needs at least one value');
+    expect(() => soql('Contact').select('Id').limit(0)).toThrow('Invalid SOQL limit: 0');
+    expect(() => soql('Contact').toString()).toThrow('selects no fields');
+  });
+
+  it('types rows to the selected fields', () => {
+    const query = soql('OrderItem').select('Product2Id', 'Product2.Name');
+    const [row] = query.rows({ records: [{ Product2Id: '01t', Product2: { Name: 'Serum' } }] });
+    expect(row.Product2?.Name).toBe('Serum');
+    expect(query.rows({})).toEqual([]);
+  });
+});
+
+describe('findSceneAsset', () => {
+  it('sends escaped parameters and maps the row to a SceneAsset', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({
+      records: [{
+        Id: 'a1S', Setting__c: 'vanity', Mood__c: null, Image_URL__c: '/img.png',
+        Content_Version_Id__c: null, Quality_Score__c: 4, Usage_Count__c: null, Scene_Type__c: 'product',
+      }],
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const asset = await findSceneAsset({ setting: "vanity' OR Quality_Score__c > 0 OR Setting__c = '", mood: 'warm' }, 'token');
+
+    const { soql: sent } = JSON.parse(fetchMock.mock.calls[0][1].body as string) as { soql: string };
+    expect(sent).toContain("Setting__c = 'vanity\\' OR Quality_Score__c > 0 OR Setting__c = \\''");
+    expect(sent).toContain("(Mood__c = 'warm')");
+    expect(asset).toEqual({
+      id: 'a1S', setting: 'vanity', mood: undefined, imageUrl: '/img.png',
+      contentVersionId: undefined, qualityScore: 4, usageCount: 0, sceneType: 'product',
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DirectiveStreamParser, SSEDecoder, readAgentStreamEvent } from '@/services/agentforce/streamParser';
+import { AgentforceClient } from '@/services/agentforce/client';
+import type { UIDirective } from '@/types/agent';
+import proseFencedDirective from './fixtures/sse/prose-fenced-directive.sse?raw';
+import directivesMidStream from './fixtures/sse/directives-mid-stream.sse?raw';
+import legacyFlatChunks from './fixtures/sse/legacy-flat-chunks.sse?raw';
+
+type Step = ['text', string] | ['json', unknown];
+
+/** Feed a recorded SSE body through the decoder and parser in fixed-size slices. */
+function replay(fixture: string, sliceSize: number): { steps: Step[]; final: Record<string, unknown> | null } {
+  const steps: Step[] = [];
+  let final: Record<string, unknown> | null = null;
+  const sse = new SSEDecoder();
+  const parser = new DirectiveStreamParser({
+    onText: (text) => {
+      const last = steps[steps.length - 1];
+      if (last?.[0] === 'text') last[1] += text;
+      else steps.push(['text', text]);
+    },
+    onJson: (json) => steps.push(['json', JSON.parse(json)]),
+  });
+  const handle = (data: string) => {
+    const event = readAgentStreamEvent(data);
+    if (event?.kind === 'chunk') parser.push(event.text);
+    if (event?.kind === 'final') final = event.data;
+  };
+  for (let i = 0; i < fixture.length; i += sliceSize) {
+    for (const e of sse.push(fixture.slice(i, i + sliceSize))) handle(e.data);
+  }
+  for (const e of sse.end()) handle(e.data);
+  parser.end();
+  return { steps, final };
+}
+
+const SLICES = [1, 7, 64, Infinity];
+
+describe('agent stream parser', () => {
+  it.each(SLICES)('holds back a fenced directive split across chunks (slice %s)', (size) => {
+    const { steps, final } = replay(proseFencedDirective, size);
+    expect(steps).toEqual([
+      ['text', 'Here are two picks for dry skin.\n\n'],
+      ['json', {
+        uiDirective: {
+          version: 1,
+          action: 'SHOW_PRODUCTS',
+          payload: { products: [{ id: 'moisturizer-sensitive', name: 'Hydra-Calm {Sensitive} Moisturizer' }] },
+        },
+      }],
+      ['text', '\nWant me to add one to your bag?'],
+    ]);
+    expect((final?.messages as { type: string }[])[0].type).toBe('Inform');
+  });
+
+  it.each(SLICES)('emits each directive as soon as it closes, before the prose that follows (slice %s)', (size) => {
+    const { steps } = replay(directivesMidStream, size);
+    expect(steps.map(([kind]) => kind)).toEqual(['text', 'json', 'text', 'json', 'text']);
+    expect(steps[1][1]).toMatchObject({ uiDirective: { action: 'CHANGE_SCENE' } });
+    expect(steps[3][1]).toMatchObject({ uiDirective: { action: 'SHOW_PRODUCTS' } });
+    expect(steps[4][1]).toBe(' Both are carry-on sized, and the mist is a crowd favorite.');
+  });
+
+  it.each(SLICES)('ignores braces and escaped quotes inside JSON strings (slice %s)', (size) => {
+    const { steps, final } = replay(legacyFlatChunks, size);
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).toEqual(['text', 'Our bestselling serum right now is the Glow Boost Vitamin C Serum. ']);
+    expect(steps[1][1]).toMatchObject({
+      uiDirective: { payload: { products: [{ description: 'Say "hello" to brighter skin }' }] } },
+    });
+    expect(final?.suggestedActions).toEqual(['Tell me more']);
+  });
+
+  it('drops a directive that never closes instead of showing it', () => {
+    const text: string[] = [];
+    const parser = new DirectiveStreamParser({ onText: (t) => text.push(t), onJson: () => {} });
+    parser.push('One moment… {"uiDirective": {"action": "SHOW_');
+    parser.end();
+    expect(text.join('')).toBe('One moment… ');
+  });
+});
+
+describe('AgentforceClient.sendMessageStreaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('streams prose and delivers directives before the turn completes', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const bytes = new TextEncoder().encode(directivesMidStream);
+        for (let i = 0; i < bytes.length; i += 50) controller.enqueue(bytes.slice(i, i + 50));
+        controller.close();
+      },
+    });
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new AgentforceClient({ baseUrl: '/api/agentforce', agentId: 'agent', accessToken: 'token' });
+    client.restoreSession('session-1', 2);
+
+    const timeline: string[] = [];
+    const streamed: UIDirective[] = [];
+    const response = await client.sendMessageStreaming(
+      'Packing tips?',
+      (chunk) => timeline.push(`text:${chunk}`),
+      (directive) => {
+        streamed.push(directive);
+        timeline.push(`directive:${directive.action}`);
+      },
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/agentforce/sessions/session-1/messages/stream');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).message.sequenceId).toBe(3);
+    expect(streamed.map((d) => d.action)).toEqual(['CHANGE_SCENE', 'SHOW_PRODUCTS']);
+    expect(timeline.indexOf('directive:SHOW_PRODUCTS')).toBeLessThan(timeline.findIndex((t) => t.includes('crowd favorite')));
+    expect(timeline.join('')).not.toContain('{');
+    expect(response.uiDirectives?.map((d) => d.action)).toEqual(['CHANGE_SCENE', 'SHOW_PRODUCTS']);
+    expect(response.message).toBe(
+      'Packing for the trip? Start with sun protection and a mist for the flight. Both are carry-on sized, and the mist is a crowd favorite.',
+    );
+  });
+
+  it('falls back to JSON under the same sequenceId when the stream endpoint returns 500', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('Internal Server Error', { status: 500 }))
+      .mockImplementation(async () => new Response(JSON.stringify({
+        messages: [{ type: 'Inform', message: 'Try a lightweight SPF.' }],
+      }), { status: 200, headers: { 'content-type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new AgentforceClient({ baseUrl: '/api/agentforce', agentId: 'agent', accessToken: 'token' });
+    client.restoreSession('session-1', 2);
+    const response = await client.sendMessageStreaming('Sunscreen?', () => {});
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/agentforce/sessions/session-1/messages/stream',
+      '/api/agentforce/sessions/session-1/messages',
+    ]);
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).message.sequenceId)).toEqual([3, 3]);
+    expect(response.message).toBe('Try a lightweight SPF.');
+
+    // The rest of the session skips the stream endpoint
+    await client.sendMessageStreaming('Thanks', () => {});
+    expect(fetchMock.mock.calls[2][0]).toBe('/api/agentforce/sessions/session-1/messages');
+  });
+
+  it('reports v0 coercions on the response instead of logging them', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const directive = { uiDirective: { items: ['Mystery Cream'] } };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      messages: [{ type: 'Inform', message: `Here you go. ${JSON.stringify(directive)}` }],
+    }), { status: 200, headers: { 'content-type': 'application/json' } })));
+
+    const client = new AgentforceClient({ baseUrl: '/api/agentforce', agentId: 'agent', accessToken: 'token' });
+    client.restoreSession('session-1', 2);
+    const response = await client.sendMessage('Serums?');
+
+    expect(response.uiDirective?.payload.products?.map((p) => p.name)).toEqual(['Mystery Cream']);
+    expect(response.directiveReport?.errors).toEqual([]);
+    expect(response.directiveReport?.diagnostics.map((d) => d.code)).toEqual(
+      expect.arrayContaining(['action_inferred', 'field_renamed', 'product_from_string']),
+    );
+    expect(log.mock.calls.some(([line]) => String(line).includes('coerced'))).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getCaptureMetrics,
+  parseActionCaptures,
+  resetCaptureMetrics,
+  resolveCaptures,
+} from '@/services/agentforce/captures';
+import type { CaptureNotification, UIDirective } from '@/types/agent';
+
+beforeEach(() => {
+  resetCaptureMetrics();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('directive captures', () => {
+  it('keeps the typed event and treats a missing confidence as inferred', () => {
+    const capture: CaptureNotification = {
+      type: 'meaningful_event',
+      label: 'Event Captured: Trip to Mexico',
+      event: {
+        description: 'Trip to Mexico',
+        eventType: 'intent',
+        capturedAt: '2026-05-01T10:00:00.000Z',
+        urgency: 'This Month',
+        relativeTimeText: 'in three weeks',
+      },
+    };
+    const directives: UIDirective[] = [{ action: 'SHOW_PRODUCTS', payload: { captures: [capture] } }];
+
+    const directive = resolveCaptures(directives, [], 'Pack an SPF!', '');
+
+    expect(directive).toBe(directives[0]);
+    expect(directive?.payload.captures).toEqual([expect.objectContaining({
+      source: 'directive',
+      confidence: 'inferred',
+      event: expect.objectContaining({ description: 'Trip to Mexico', eventType: 'intent', urgency: 'This Month' }),
+    })]);
+  });
+});
+
+describe('action captures', () => {
+  it('maps Create_Meaningful_Event outputs in list form', () => {
+    const [capture] = parseActionCaptures([{
+      type: 'ActionResult',
+      actionName: 'Create_Meaningful_Event',
+      result: [
+        { name: 'outputSuccess', value: true },
+        { name: 'outputRecordId', value: 'a0B000000000001' },
+        { name: 'eventDescription', value: 'Wedding in June' },
+        { name: 'eventType', value: 'Wedding' },
+        { name: 'eventDate', value: '2026-06-12' },
+        { name: 'confidence', value: 'stated' },
+        { name: 'metadataJson', value: '{"urgency":"Future"}' },
+      ],
+    }]);
+
+    expect(capture).toMatchObject({ type: 'meaningful_event', source: 'action', confidence: 'stated' });
+    expect(capture.event).toMatchObject({
+      id: 'a0B000000000001',
+      description: 'Wedding in June',
+      eventType: 'life-event',
+      eventDate: '2026-06-12',
+      urgency: 'Future',
+    });
+  });
+
+  it('maps Update_Contact_Profile outputs in object form, treats a missing confidence as inferred and skips failed actions', () => {
+    const captures = parseActionCaptures([
+      { actionName: 'Update_Contact_Profile', outputs: { outputSuccess: true, sustainabilityPreference: 'Refillable packaging', priceRange: '' } },
+      { actionName: 'Create_Meaningful_Event', outputs: { outputSuccess: false, eventDescription: 'Moving to Denver' } },
+    ]);
+
+    expect(captures).toHaveLength(1);
+    expect(captures[0].profileField).toMatchObject({
+      name: 'sustainabilityPref',
+      field: { value: 'Refillable packaging', confidence: 'inferred' },
+    });
+  });
+
+  it('does not double-count an action the directive already reported', () => {
+    const capture: CaptureNotification = {
+      type: 'meaningful_event',
+      label: 'Event Captured',
+      event: { description: 'Wedding in June', eventType: 'life-event', capturedAt: '2026-05-01T10:00:00.000Z' },
+    };
+    const directives: UIDirective[] = [{ action: 'CAPTURE_ONLY', payload: { captures: [capture] } }];
+    const raw = [{ actionName: 'Create_Meaningful_Event', result: { eventDescription: 'Wedding in June' } }];
+
+    expect(resolveCaptures(directives, raw, '', '')?.payload.captures).toHaveLength(1);
+    expect(getCaptureMetrics()).toMatchObject({ directive: { captured: 1 }, action: { captured: 0 } });
+  });
+});
+
+describe('text fallback', () => {
+  it('scrapes prose only when there are no structured captures and labels it inferred', () => {
+    const directive = resolveCaptures([], [], "Lovely! (Event captured: Anniversary trip to Paris) (Captured: likes blue)", '');
+
+    expect(directive?.action).toBe('CAPTURE_ONLY');
+    expect(directive?.payload.captures).toEqual([
+      { type: 'meaningful_event', label: 'Event Captured: Anniversary trip to Paris', source: 'text', confidence: 'inferred' },
+    ]);
+    expect(getCaptureMetrics().text).toEqual({ captured: 1, filtered: 1 });
+
+    const structured = resolveCaptures(
+      [],
+      [{ actionName: 'Update_Contact_Profile', result: { birthday: '1990-04-02' } }],
+      "I've updated your profile.",
+      '',
+    );
+    expect(structured?.payload.captures).toEqual([expect.objectContaining({ source: 'action', label: 'Profile Updated: birthday' })]);
+    expect(getCaptureMetrics()).toMatchObject({ action: { captured: 1 }, text: { captured: 1, filtered: 1 } });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { priceOrder } from '@/services/pricing';
+import { deserializeCart, mergeCarts, serializeCart } from '@/services/cart';
+import {
+  cancelSubscription,
+  changeFrequency,
+  createSubscription,
+  isSubscribable,
+  pauseSubscription,
+  resumeSubscription,
+  skipNextDelivery,
+  suggestFrequency,
+} from '@/services/subscriptions';
+import { validateUIDirective } from '@/services/agentforce/directiveSchema';
+import { byId } from './fixtures/products';
+
+describe('subscription lifecycle', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const start = () => createSubscription({ product: byId('cleanser-gentle'), quantity: 2, frequencyDays: 60 }, now);
+
+  it('offers consumables only and suggests the interval closest to how long a unit lasts', () => {
+    expect(isSubscribable(byId('cleanser-gentle'))).toBe(true);
+    expect(isSubscribable(byId('shampoo-repair'))).toBe(true);
+    expect(isSubscribable(byId('lipstick-velvet'))).toBe(false);
+    // 150ml at 1.5ml a day → 100 days
+    expect(suggestFrequency(byId('cleanser-gentle'))).toBe(90);
+    expect(suggestFrequency(byId('cleanser-gentle'), 50)).toBe(45);
+  });
+
+  it('starts active with the first repeat one interval out', () => {
+    expect(start()).toMatchObject({
+      productId: 'cleanser-gentle',
+      quantity: 2,
+      frequencyDays: 60,
+      discountPercent: 10,
+      status: 'active',
+      nextOrderDate: '2026-04-30',
+    });
+    expect(createSubscription({ product: byId('cleanser-gentle'), quantity: 1, frequencyDays: 50 }, now).frequencyDays).toBe(45);
+  });
+
+  it('skips, pauses, resumes, re-times and cancels', () => {
+    const sub = start();
+    expect(skipNextDelivery(sub).nextOrderDate).toBe('2026-06-29');
+
+    const paused = pauseSubscription(sub);
+    expect(paused.status).toBe('paused');
+    expect(skipNextDelivery(paused)).toBe(paused);
+    expect(resumeSubscription(paused, now)).toMatchObject({ status: 'active', nextOrderDate: '2026-04-30' });
+    // Resuming after the scheduled date restarts the clock from today
+    expect(resumeSubscription(paused, new Date('2026-05-10T00:00:00Z')).nextOrderDate).toBe('2026-07-09');
+
+    // Last delivery was 2026-03-01: 30 days on from there, not from the old next date
+    expect(changeFrequency(sub, 30, now).nextOrderDate).toBe('2026-03-31');
+    expect(changeFrequency(sub, 30, new Date('2026-04-15T00:00:00Z')).nextOrderDate).toBe('2026-04-16');
+
+    const cancelled = cancelSubscription(sub);
+    expect(cancelled.status).toBe('cancelled');
+    expect(resumeSubscription(cancelled, now)).toBe(cancelled);
+    expect(changeFrequency(cancelled, 90, now)).toBe(cancelled);
+  });
+});
+
+describe('subscribe & save in the bag', () => {
+  it('discounts eligible subscribed lines before other line discounts', () => {
+    const pricing = priceOrder({
+      items: [
+        { product: byId('cleanser-gentle'), quantity: 3, subscription: { frequencyDays: 90 } },
+        { product: byId('lipstick-velvet'), quantity: 1, subscription: { frequencyDays: 30 } },
+        { product: byId('serum-vitamin-c'), quantity: 1 },
+      ],
+    });
+
+    const [cleanser, lipstick, serum] = pricing.lines;
+    expect(cleanser.adjustments.map((a) => [a.source, a.amount])).toEqual([['subscription', 10.8], ['line', 9.72]]);
+    expect(lipstick.discount).toBe(0);
+    expect(serum.discount).toBe(0);
+    expect(pricing.discounts[0]).toMatchObject({ source: 'subscription', label: 'Subscribe & save 10%' });
+  });
+
+  it('persists the subscription choice and drops malformed ones with their line', () => {
+    const cart = {
+      items: [{ product: byId('cleanser-gentle'), quantity: 1, subscription: { frequencyDays: 60 } }],
+      promoCode: null,
+      commerce: null,
+    };
+    expect(deserializeCart(serializeCart(cart))).toEqual(cart);
+
+    const bad = serializeCart({ ...cart, items: [{ ...cart.items[0], subscription: { frequencyDays: 'monthly' as unknown as number } }] });
+    expect(deserializeCart(bad).items).toEqual([]);
+
+    const guest = { ...cart, items: [{ product: byId('cleanser-gentle'), quantity: 1, subscription: { frequencyDays: 30 } }] };
+    const known = { ...cart, items: [{ product: byId('cleanser-gentle'), quantity: 1 }] };
+    expect(mergeCarts(known, guest).items[0]).toMatchObject({ quantity: 2, subscription: { frequencyDays: 30 } });
+  });
+});
+
+describe('PROPOSE_SUBSCRIPTION directive', () => {
+  it('requires an offer with a product and positive whole numbers', () => {
+    expect(validateUIDirective({
+      version: 1,
+      action: 'PROPOSE_SUBSCRIPTION',
+      payload: { subscriptionOffer: { productId: 'cleanser-gentle', frequencyDays: 60 } },
+    })).toEqual([]);
+    expect(validateUIDirective({ version: 1, action: 'PROPOSE_SUBSCRIPTION', payload: {} }))
+      .toEqual([expect.objectContaining({ path: 'payload.subscriptionOffer', code: 'required' })]);
+    expect(validateUIDirective({
+      version: 1,
+      action: 'PROPOSE_SUBSCRIPTION',
+      payload: { subscriptionOffer: { frequencyDays: 0 } },
+    }).map((e) => e.path)).toEqual(['payload.subscriptionOffer.productId', 'payload.subscriptionOffer.frequencyDays']);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WriteQueue, backoffDelay, createMemoryWriteStore } from '@/services/datacloud/writeQueue';
+import type { QueuedWrite } from '@/services/datacloud';
+
+const summary = { id: 'key-1', sobject: 'Chat_Summary__c', body: { Summary_Text__c: 'Asked about serums' } };
+
+/** Let queued promise callbacks run without advancing the clock. */
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('WriteQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends a write once and ignores the same idempotency key again', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const store = createMemoryWriteStore();
+    const queue = new WriteQueue({ store, send });
+
+    await queue.enqueue(summary);
+    await queue.enqueue(summary);
+    await settle();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toMatchObject({ id: 'key-1', sobject: 'Chat_Summary__c', attempts: 0 });
+    expect(queue.list()).toEqual([]);
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('backs off exponentially, then marks the write failed until retried by hand', async () => {
+    const send = vi.fn().mockRejectedValue(new Error('Data Cloud patch failed (503): unavailable'));
+    const store = createMemoryWriteStore();
+    const queue = new WriteQueue({ store, send, maxAttempts: 3, baseDelayMs: 1_000 });
+
+    await queue.enqueue(summary);
+    await settle();
+    expect(queue.list()[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: expect.stringContaining('503') });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    expect(queue.list()[0]).toMatchObject({ status: 'failed', attempts: 3 });
+    expect((await store.load())[0].status).toBe('failed');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    send.mockResolvedValueOnce(undefined);
+    await queue.retry('key-1');
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(send.mock.calls[3][0]).toMatchObject({ attempts: 0, lastError: undefined });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it('picks up writes stored by a previous page load', async () => {
+    const store = createMemoryWriteStore();
+    const leftover: QueuedWrite = { ...summary, status: 'pending', attempts: 2, createdAt: 0, nextAttemptAt: 0 };
+    const stuck: QueuedWrite = { ...summary, id: 'key-2', status: 'failed', attempts: 6, createdAt: 1, nextAttemptAt: 0 };
+    await store.put(leftover);
+    await store.put(stuck);
+
+    const send = vi.fn().mockResolvedValue(undefined);
+    const queue = new WriteQueue({ store, send });
+    await settle();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].id).toBe('key-1');
+    expect(queue.list().map((w) => w.id)).toEqual(['key-2']);
+
+    await queue.discard('key-2');
+    expect(queue.list()).toEqual([]);
+    expect(await store.load()).toEqual([]);
+  });
+
+  it('sends writes still in backoff when the page is hidden or closed', async () => {
+    const send = vi.fn().mockRejectedValueOnce(new Error('Failed to fetch')).mockResolvedValue(undefined);
+    const queue = new WriteQueue({ store: createMemoryWriteStore(), send, baseDelayMs: 60_000 });
+    const stop = queue.listenForPageExit();
+
+    await queue.enqueue(summary);
+    await settle();
+    expect(queue.list()).toHaveLength(1);
+
+    window.dispatchEvent(new Event('pagehide'));
+    await settle();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls.map(([, options]) => options)).toEqual([{ pageExit: false }, { pageExit: true }]);
+    expect(queue.list()).toEqual([]);
+    stop();
+  });
+
+  it('doubles the delay per attempt up to the cap', () => {
+    expect([1, 2, 3, 4].map((n) => backoffDelay(n, 1_000, 5_000))).toEqual([1_000, 2_000, 4_000, 5_000]);
+  });
+});
@@ -1,4 +1,6 @@
+import type { AgentCapturedProfile, CapturedProfileField, MeaningfulEvent } from './customer';
 import type { Product } from './product';
+import type { SkinRoutine } from './routine';
 import type { SceneSetting } from './scene';
 
 export interface AgentMessage {
@@ -7,18 +9,31 @@ export interface AgentMessage {
   content: string;
   timestamp: Date;
   uiDirective?: UIDirective;
+  /** Every directive from the turn, in order. `uiDirective` is the first entry. */
+  uiDirectives?: UIDirective[];
   /** True while SSE text chunks are still arriving; cleared when stream completes. */
   isStreaming?: boolean;
 }
 
+/**
+ * Directive schema version. 1 is the current validated schema; 0 marks a
+ * legacy payload that was coerced by the compatibility layer in parseDirectives.
+ */
+export type UIDirectiveVersion = 0 | 1;
+
+export const CURRENT_DIRECTIVE_VERSION: UIDirectiveVersion = 1;
+
 export interface UIDirective {
   action: UIAction;
   payload: UIDirectivePayload;
+  /** Omitted by locally-built directives (mock agent, structured messages). */
+  version?: UIDirectiveVersion;
 }
 
 export type UIAction =
   | 'SHOW_PRODUCT'
   | 'SHOW_PRODUCTS'
+  | 'COMPARE_PRODUCTS'
   | 'CHANGE_SCENE'
   | 'WELCOME_SCENE'
   | 'INITIATE_CHECKOUT'
@@ -26,9 +41,16 @@ export type UIAction =
   | 'RESET_SCENE'
   | 'IDENTIFY_CUSTOMER'
   | 'CAPTURE_ONLY'
+  // Cart actions — routed into CartContext by ConversationContext
+  | 'ADD_TO_CART'
+  | 'REMOVE_FROM_CART'
+  | 'APPLY_PROMO'
+  | 'OFFER_LOYALTY_REDEMPTION'
+  | 'PROPOSE_SUBSCRIPTION'
   // Skin Concierge actions
   | 'LAUNCH_SKIN_ANALYSIS'
   | 'SHOW_SKIN_REPORT'
+  | 'SHOW_ROUTINE'
   | 'RETAILER_HANDOFF';
 
 export interface UIDirectivePayload {
@@ -54,10 +76,26 @@ export interface UIDirectivePayload {
     orderId: string;
     estimatedDelivery: string;
   };
+  /** Display text for directive-only responses with no surrounding prose. */
+  message?: string;
+  suggestedActions?: string[];
+  /** Line items for ADD_TO_CART / REMOVE_FROM_CART. */
+  cartItems?: CartDirectiveItem[];
+  /** Code for APPLY_PROMO. */
+  promoCode?: string;
+  /** Points redemption suggested by OFFER_LOYALTY_REDEMPTION; empty means "best available". */
+  loyaltyOffer?: LoyaltyOffer;
+  /** Subscribe & save suggested by PROPOSE_SUBSCRIPTION; the customer confirms it from the offer. */
+  subscriptionOffer?: SubscriptionOffer;
   /** Email captured from anonymous user for identity resolution. */
   customerEmail?: string;
   /** Background captures that occurred alongside this response. */
   captures?: CaptureNotification[];
+  /**
+   * Regimen for SHOW_ROUTINE. The agent may omit it; the client then builds
+   * one from the customer's latest skin analysis and preferences.
+   */
+  routine?: SkinRoutine;
   /** Retailer handoff data — which retailers carry the recommended products. */
   retailerHandoff?: {
     retailers: RetailerLink[];
@@ -65,6 +103,29 @@ export interface UIDirectivePayload {
   };
 }
 
+export interface LoyaltyOffer {
+  /** Name of one of the member's rewardsAvailable entries. */
+  rewardName?: string;
+  /** Points to convert into a dollar credit instead of a catalog reward. */
+  points?: number;
+}
+
+export interface SubscriptionOffer {
+  /** Local catalog ID, Salesforce Product2 ID, or exact product name. */
+  productId: string;
+  /** Delivery interval in days; snapped to the nearest offered one. Defaults to the product's usual cycle. */
+  frequencyDays?: number;
+  /** Units per delivery. Defaults to 1. */
+  quantity?: number;
+}
+
+export interface CartDirectiveItem {
+  /** Local catalog ID, Salesforce Product2 ID, or exact product name. */
+  productId: string;
+  /** Units to add, or to remove (omit to remove the line entirely). Defaults to 1 when adding. */
+  quantity?: number;
+}
+
 export interface RetailerLink {
   name: string;
   url: string;
@@ -76,16 +137,92 @@ export interface RetailerLink {
   promo?: string;
 }
 
+/**
+ * Where a capture was read from: an action's structured result, the
+ * `captures` array of a directive, or agent prose matched by the fallback
+ * scraper (which only knows a capture happened, not what was saved).
+ */
+export type CaptureSource = 'action' | 'directive' | 'text';
+
 /** A background data-capture event the agent performed silently. */
 export interface CaptureNotification {
   type: 'contact_created' | 'meaningful_event' | 'profile_enrichment';
   label: string;
+  /** Stamped by the client while parsing; the agent never sends it. */
+  source?: CaptureSource;
+  /** Whether the customer said it directly. Text-scraped captures are always `inferred`. */
+  confidence?: 'stated' | 'inferred';
+  /** The record a `meaningful_event` capture wrote. */
+  event?: MeaningfulEvent;
+  /** The field a `profile_enrichment` capture wrote. */
+  profileField?: CapturedProfileUpdate;
+}
+
+export interface CapturedProfileUpdate {
+  name: keyof AgentCapturedProfile;
+  field: CapturedProfileField<string | string[]>;
 }
 
 export interface AgentResponse {
   sessionId: string;
   message: string;
+  /** The first directive of the turn — kept for single-action handlers. */
   uiDirective?: UIDirective;
+  /** Ordered list of UI actions for the turn. When present, `uiDirective` is its first entry. */
+  uiDirectives?: UIDirective[];
   suggestedActions?: string[];
   confidence: number;
+  /** Schema errors and v0 coercions from parsing the turn's directives. Omitted when there were none. */
+  directiveReport?: DirectiveParseReport;
+}
+
+/** A field-level schema violation. `path` uses dot/bracket notation, e.g. `payload.products[2].id`. */
+export interface DirectiveValidationError {
+  path: string;
+  code: 'required' | 'invalid_type' | 'invalid_value' | 'unknown_field' | 'unsupported_version';
+  message: string;
+}
+
+/** A coercion or repair the v0 compatibility layer applied to an agent payload. */
+export interface DirectiveDiagnostic {
+  code:
+    | 'json_repaired'
+    | 'action_inferred'
+    | 'field_renamed'
+    | 'field_hoisted'
+    | 'product_from_string'
+    | 'product_id_filled'
+    | 'product_placeholder_dropped'
+    | 'version_fallback';
+  message: string;
+  path?: string;
+}
+
+/** Everything parsing a turn's directives reported, across all of them. */
+export type DirectiveParseReport = Pick<DirectiveParseResult, 'errors' | 'diagnostics'>;
+
+export interface DirectiveParseResult {
+  /** First entry of `directives`, for callers that only handle one action per turn. */
+  directive?: UIDirective;
+  /** Every directive that survived parsing, in agent order. */
+  directives: UIDirective[];
+  /** Schema violations. In strict mode the offending directive is dropped. */
+  errors: DirectiveValidationError[];
+  diagnostics: DirectiveDiagnostic[];
+}
+
+/** Outcome of running one directive. `skipped` means no handler acted on it. */
+export interface DirectiveStepResult {
+  index: number;
+  action: UIAction;
+  status: 'ok' | 'failed' | 'skipped';
+  error?: string;
+}
+
+export type DirectiveOutcome = Pick<DirectiveStepResult, 'status' | 'error'>;
+
+export interface DirectiveSequenceResult {
+  steps: DirectiveStepResult[];
+  /** Convenience subset of `steps` with status 'failed'. */
+  failed: DirectiveStepResult[];
 }
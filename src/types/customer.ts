@@ -1,3 +1,6 @@
+import type { SkinAnalysisResult } from './skinanalysis';
+import type { Subscription } from './subscription';
+
 export type IdentityTier = 'known' | 'appended' | 'anonymous';
 
 // ─── Data Provenance & Usage Permissions ────────────────────────
@@ -95,7 +98,12 @@ export interface ChatSummary {
   sessionDate: string;
   summary: string;
   sentiment: 'positive' | 'neutral' | 'negative';
+  /** -1 (very negative) to 1 (very positive); `sentiment` is this score bucketed. */
+  sentimentScore?: number;
   topicsDiscussed: string[];
+  productsMentioned?: string[];  // catalog product IDs
+  objections?: string[];
+  nextBestAction?: string;
 }
 
 // ─── Meaningful Events (Agent-captured) ─────────────────────────
@@ -251,6 +259,12 @@ export interface CustomerProfile {
   // Browse behavior
   browseSessions: BrowseSession[];
 
+  // Skin analyses, newest first
+  skinAnalyses?: SkinAnalysisResult[];
+
+  // Subscribe & save, newest first
+  subscriptions?: Subscription[];
+
   // Loyalty
   loyalty: LoyaltyData | null;
   /** @deprecated Use loyalty?.tier instead */
@@ -280,6 +294,25 @@ export interface RecentActivity {
   metadata?: Record<string, string>;
 }
 
+/** A product predicted to run out soon, as passed to the agent. */
+/**
+ * Where a usage cycle came from: the customer's own reorder intervals, the
+ * product's size at a typical daily dose, or a category default when the
+ * size can't be read.
+ */
+export type CycleBasis = 'history' | 'size' | 'category';
+
+export interface RestockItem {
+  productId: string;
+  productName: string;
+  lastOrderedAt: string;
+  quantity: number;
+  runOutDate: string;
+  /** Negative once the product has likely run out. */
+  daysLeft: number;
+  basis: CycleBasis;
+}
+
 export interface CustomerSessionContext {
   customerId: string;
   name: string;
@@ -297,6 +330,14 @@ export interface CustomerSessionContext {
   chatContext?: string[];
   meaningfulEvents?: string[];
   browseInterests?: string[];
+  // Change since the previous skin analysis, e.g. "Since the last skin scan on …: Redness dropped 20 points"
+  skinProgress?: string;
+  // Products due for restock from order history, soonest run-out first
+  dueForRestock?: RestockItem[];
+  // Open subscribe & save subscriptions, one line each
+  subscriptions?: string[];
+  // Wishlists, gift lists and saved-for-later, one line per list
+  savedLists?: string[];
   // Agent-captured conversational profile fields (flattened for the agent)
   capturedProfile?: string[];
   // Fields the agent should try to capture (missing from profile)
@@ -63,3 +63,15 @@ export interface Product {
   /** Retailers carrying this product — used by the Skin Concierge "Where to Buy" flow. */
   retailers?: ProductRetailer[];
 }
+
+/** Why a product was flagged for a customer: a listed allergy, or a softer profile preference. */
+export type IngredientWarningReason = 'allergy' | 'preference';
+
+export interface IngredientWarning {
+  reason: IngredientWarningReason;
+  /** The allergy or preference as the customer expressed it, e.g. "nuts" or "fragrance-free". */
+  allergen: string;
+  /** The product's ingredient (or category) that triggered the warning, as listed on the product. */
+  ingredient: string;
+  message: string;
+}
@@ -0,0 +1,32 @@
+import type { Product } from './product';
+
+/** Routine steps, in the order they are applied. */
+export type RoutineStepKind = 'cleanser' | 'toner' | 'serum' | 'moisturizer' | 'sunscreen';
+
+export const ROUTINE_STEP_ORDER: readonly RoutineStepKind[] = ['cleanser', 'toner', 'serum', 'moisturizer', 'sunscreen'];
+
+export type RoutineSession = 'morning' | 'evening';
+
+export interface RoutineStep {
+  step: RoutineStepKind;
+  product: Product;
+  /** Why this product, e.g. "Targets redness · suits sensitive skin". */
+  reason?: string;
+}
+
+/** Two actives in the same session that shouldn't be layered. */
+export interface RoutineConflict {
+  session: RoutineSession;
+  productIds: [string, string];
+  ingredients: [string, string];
+  message: string;
+}
+
+export interface SkinRoutine {
+  morning: RoutineStep[];
+  evening: RoutineStep[];
+  /** Conflicts the builder couldn't avoid — empty when every session layers safely. */
+  conflicts: RoutineConflict[];
+  /** Concern labels the routine was built around, most pressing first. */
+  focus?: string[];
+}
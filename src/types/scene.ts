@@ -54,6 +54,8 @@ export interface SceneState {
   skinAnalysisActive: boolean;
   /** Whether the "Where to Buy" retailer handoff overlay is open. */
   retailerHandoffActive: boolean;
+  /** Products in the side-by-side comparison while it's open; absent when closed. */
+  comparisonProducts?: import('./product').Product[];
 }
 
 export interface SceneTransition {
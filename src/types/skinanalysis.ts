@@ -5,6 +5,9 @@ export interface SkinConcernScore {
   severity: 'none' | 'mild' | 'moderate' | 'severe';
 }
 
+/** Services that can produce a skin analysis. */
+export type SkinAnalysisProviderId = 'perfectcorp' | 'gemini' | 'mock';
+
 export interface SkinAnalysisResult {
   skinType: 'dry' | 'oily' | 'combination' | 'normal' | 'sensitive';
   skinAge: number;
@@ -12,24 +15,82 @@ export interface SkinAnalysisResult {
   concerns: SkinConcernScore[];
   primaryConcern: string;
   analyzedAt: string; // ISO string
+  // Which provider scored the photo, and which calibration mapped it onto the shared scale
+  provider?: SkinAnalysisProviderId;
+  calibrationVersion?: string;
   // Raw provider response stored for Data Cloud profile enrichment
   rawResult?: Record<string, unknown>;
 }
 
-/** Summary string sent to the agent after analysis to seed the conversation. */
-export function buildAnalysisSummary(result: SkinAnalysisResult): string {
+/** One concern's change between two analyses. Concern scores run 0–100 with higher = worse, so a negative delta is an improvement. */
+export interface SkinConcernDelta {
+  concern: string;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/** Oldest first — the order trend lines and before/after comparisons read in. */
+export function sortAnalysesByDate(history: SkinAnalysisResult[]): SkinAnalysisResult[] {
+  return [...history].sort((a, b) => a.analyzedAt.localeCompare(b.analyzedAt));
+}
+
+/** Per-concern change from `before` to `after`, biggest moves first. Concerns missing from either scan are skipped. */
+export function compareSkinAnalyses(before: SkinAnalysisResult, after: SkinAnalysisResult): SkinConcernDelta[] {
+  const previous = new Map(before.concerns.map((c) => [c.concern, c]));
+  return after.concerns
+    .filter((c) => previous.has(c.concern))
+    .map((c) => {
+      const prior = previous.get(c.concern)!;
+      return { concern: c.concern, label: c.label, before: prior.score, after: c.score, delta: c.score - prior.score };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+/**
+ * "Since the last skin scan on 2026-01-25: Redness dropped 20 points, ..." for
+ * the latest two analyses in `history`, or null when there is nothing to compare.
+ * Changes under `minChange` points are treated as noise.
+ */
+export function describeSkinProgress(history: SkinAnalysisResult[], minChange = 5): string | null {
+  const sorted = sortAnalysesByDate(history);
+  if (sorted.length < 2) return null;
+  const before = sorted[sorted.length - 2];
+  const after = sorted[sorted.length - 1];
+
+  const moves = compareSkinAnalyses(before, after)
+    .filter((d) => Math.abs(d.delta) >= minChange)
+    .slice(0, 3)
+    .map((d) => `${d.label} ${d.delta < 0 ? 'dropped' : 'rose'} ${Math.abs(d.delta)} points`);
+  const overall = after.overallScore - before.overallScore;
+  const overallText = `overall skin health ${before.overallScore} → ${after.overallScore}/100`;
+
+  if (!moves.length && Math.abs(overall) < minChange) {
+    return `Since the last skin scan on ${before.analyzedAt.slice(0, 10)}: no significant change (${overallText}).`;
+  }
+  return `Since the last skin scan on ${before.analyzedAt.slice(0, 10)}: ${[...moves, overallText].join(', ')}.`;
+}
+
+/**
+ * Summary string sent to the agent after analysis to seed the conversation.
+ * Pass the customer's earlier analyses to include progress since the last one.
+ */
+export function buildAnalysisSummary(result: SkinAnalysisResult, history: SkinAnalysisResult[] = []): string {
   const top = result.concerns
     .filter((c) => c.severity !== 'none')
     .sort((a, b) => b.score - a.score)
     .slice(0, 3)
     .map((c) => `${c.label} (${c.severity})`)
     .join(', ');
+  const progress = history.length ? describeSkinProgress([...history, result]) : null;
 
   return (
     `Skin analysis complete. Skin type: ${result.skinType}. ` +
     `Estimated skin age: ${result.skinAge}. ` +
     `Overall skin health score: ${result.overallScore}/100. ` +
     (top ? `Top concerns: ${top}. ` : 'No significant concerns detected. ') +
+    (progress ? `${progress} ` : '') +
     `Please review these results and recommend a personalized skincare routine.`
   );
 }
@@ -0,0 +1,24 @@
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled';
+
+/** A recurring order for one product, created at checkout from a subscribed cart line. */
+export interface Subscription {
+  /** Client-generated key, also the Salesforce external ID. */
+  id: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  frequencyDays: number;
+  /** Percent off every delivery, locked in when the subscription starts. */
+  discountPercent: number;
+  status: SubscriptionStatus;
+  /** ISO date of the next delivery. Kept while paused; meaningless once cancelled. */
+  nextOrderDate: string;
+  createdAt: string;
+  /** Order that started the subscription. */
+  sourceOrderId?: string;
+}
+
+/** Subscribe & save choice on a cart line. Lines without one are one-off purchases. */
+export interface CartSubscription {
+  frequencyDays: number;
+}
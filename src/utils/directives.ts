@@ -0,0 +1,29 @@
+import type { UIDirective } from '@/types/agent';
+
+/**
+ * Ordered directives carried by a response or message.
+ *
+ * `uiDirective` is authoritative for the first slot: callers such as the
+ * welcome flow rewrite it in place, and that rewrite must win over the
+ * stale copy at `uiDirectives[0]`.
+ */
+export function listDirectives(source: { uiDirective?: UIDirective; uiDirectives?: UIDirective[] }): UIDirective[] {
+  if (!source.uiDirective) return source.uiDirectives ?? [];
+  return [source.uiDirective, ...(source.uiDirectives?.slice(1) ?? [])];
+}
+
+/** Identity for matching a streamed directive to its copy in the final response, which may have gained captures. */
+function directiveKey(directive: UIDirective): string {
+  return `${directive.action}:${JSON.stringify({ ...directive.payload, captures: undefined })}`;
+}
+
+/** `directives` minus one occurrence of each entry in `delivered` (directives already run while streaming). */
+export function withoutDelivered(directives: UIDirective[], delivered: UIDirective[]): UIDirective[] {
+  const pending = delivered.map(directiveKey);
+  return directives.filter((d) => {
+    const idx = pending.indexOf(directiveKey(d));
+    if (idx === -1) return true;
+    pending.splice(idx, 1);
+    return false;
+  });
+}